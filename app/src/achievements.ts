@@ -0,0 +1,58 @@
+/*
+    Steam Library Scraper - Achievement Details
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { AchievementData } from './game-data';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Raw text of one row on the community achievements page (/stats/<appid>/?tab=achievements). */
+export interface AchievementRow {
+    displayName: string;
+    description: string;
+    iconUrl: string;
+    // e.g. "Unlocked 12 Jan, 2020 @ 3:45pm", empty when locked
+    unlockText: string;
+}
+
+/**
+ * Parses the unlock line of the community achievements page into a Unix timestamp (seconds).
+ * Handles both "12 Jan, 2020 @ 3:45pm" and "Jan 12, 2020 @ 3:45pm". Steam leaves out the year
+ * for the current year, so a date without year that lies in the future belongs to last year.
+ */
+export function parseUnlockTime(text: string, now: Date = new Date()): number | false {
+    const clean = text.replace(/^\s*Unlocked\s*/i, '').trim();
+    const match = clean.match(/^(?:(\d{1,2})\s+([a-z]{3})[a-z]*|([a-z]{3})[a-z]*\s+(\d{1,2})),?\s*(\d{4})?\s*@\s*(\d{1,2}):(\d{2})\s*(am|pm)$/i);
+    if (!match) return false;
+
+    const [, dayFirst, monthSecond, monthFirst, daySecond, yearStr, hourStr, minuteStr, meridiem] = match;
+    const month = MONTHS.indexOf((monthSecond || monthFirst).toLowerCase());
+    if (month === -1) return false;
+
+    const day = Number(dayFirst || daySecond);
+    let hours = Number(hourStr) % 12;
+    if (meridiem.toLowerCase() === 'pm') hours += 12;
+
+    let year = yearStr ? Number(yearStr) : now.getFullYear();
+    let date = new Date(year, month, day, hours, Number(minuteStr));
+    if (!yearStr && date.getTime() > now.getTime()) {
+        year--;
+        date = new Date(year, month, day, hours, Number(minuteStr));
+    }
+
+    return Math.floor(date.getTime() / 1000);
+}
+
+export function toAchievementData(row: AchievementRow, now: Date = new Date()): AchievementData {
+    const unlocked = row.unlockText.trim() !== "";
+    return {
+        apiName: "",
+        displayName: row.displayName,
+        description: row.description,
+        iconUrl: row.iconUrl,
+        unlocked,
+        unlockTime: unlocked ? parseUnlockTime(row.unlockText, now) : false,
+    };
+}
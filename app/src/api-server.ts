@@ -0,0 +1,338 @@
+/*
+    Steam Library Scraper - Local API
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import { ExportRecord } from './exporter';
+import { GameData } from './game-data';
+import { computeLibraryStats } from './library-stats';
+import { findWishlistLows, loadPriceHistory, PRICE_HISTORY_DIR } from './price-history';
+import { listSnapshots, loadSnapshot, RAW_DATA_DIR, SnapshotInfo } from './snapshots';
+import { loadStatusClassifier } from './status-rules';
+import { CACHE_PATH, DEFAULT_TTL_DAYS, loadStoreCache, lookupStoreDetails } from './store-cache';
+import { loadWishlist } from './wishlist-notes';
+
+// --- CONFIGURATION ---
+// Only this computer can connect, unless `serve --host` says otherwise
+export const DEFAULT_API_HOST = '127.0.0.1';
+export const DEFAULT_API_PORT = 8765;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// The GameData fields /games filters and sorts on, with the status from the status rules
+const GAME_FIELDS = ['name', 'steamAppID', 'playtime', 'playtimeMinutes', 'lastPlayed', 'myAchievements', 'totalAchievements', 'status'];
+const TEXT_FIELDS = ['name', 'status'];
+// ?playtime.gte=10
+const OPERATORS: Record<string, (value: number, wanted: number) => boolean> = {
+    gt: (value, wanted) => value > wanted,
+    gte: (value, wanted) => value >= wanted,
+    lt: (value, wanted) => value < wanted,
+    lte: (value, wanted) => value <= wanted,
+};
+const PAGING_PARAMS = ['sort', 'limit', 'offset'];
+
+const ENDPOINTS = [
+    'GET /games?name=portal&playtime.gte=10&sort=-playtime&limit=50&offset=0',
+    'GET /games/:appId',
+    'GET /stats',
+    'GET /history/:appId',
+    'GET /snapshots',
+];
+
+// --- INTERFACES ---
+export interface ApiOptions {
+    // Only serve the scrapes of this account, defaults to the account of the latest scrape
+    accountID?: string;
+    // The options below are only changed by tests, so they never read the real scrapes, cache or settings
+    rawDataDir?: string;
+    cachePath?: string;
+    priceHistoryDir?: string;
+    settingsPath?: string;
+}
+
+export interface ServeOptions extends ApiOptions {
+    host?: string;
+    // 0 picks a free port
+    port?: number;
+}
+
+export interface ApiResponse {
+    status: number;
+    body: unknown;
+}
+
+/** Answers a request (its path and query, as sent) without any network, so it can be tested (and used) on its own. */
+export type ApiHandler = (method: string, target: string) => Promise<ApiResponse>;
+
+export interface ApiServer {
+    // e.g. http://127.0.0.1:8765, without a trailing slash
+    url: string;
+    close(): Promise<void>;
+}
+
+// A game in the /games list: the scraped data and its status, without the achievement details
+type ListedGame = Omit<GameData, 'achievements'> & { status: string };
+
+class ApiError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+// --- HELPERS ---
+const mtime = (filePath: string) => fs.existsSync(filePath) ? fs.statSync(filePath).mtimeMs : 0;
+
+// Never played is false in the scrape, 0 hours here. Undefined when the source doesn't have the field.
+const fieldValue = (game: ListedGame, field: string): string | number | undefined => {
+    const value = (game as unknown as Record<string, unknown>)[field];
+    if (value === undefined || value === null) return undefined;
+    if (TEXT_FIELDS.includes(field)) return String(value);
+    return value === false ? 0 : Number(value);
+};
+
+function toNumber(text: string, param: string): number {
+    const value = Number(text);
+    if (text.trim() === "" || isNaN(value)) throw new ApiError(400, `"${param}" needs a number, not "${text}".`);
+    return value;
+}
+
+function pageParam(url: URL, param: string, fallback: number, max: number): number {
+    const text = url.searchParams.get(param);
+    if (text === null) return fallback;
+    const value = toNumber(text, param);
+    if (!Number.isInteger(value) || value < 0) throw new ApiError(400, `"${param}" must be 0 or more.`);
+    return Math.min(value, max);
+}
+
+/** ?name=portal finds "Portal 2" (text contains, any case), ?playtime=0 is exact and ?playtime.gte=10 compares. */
+function filterGames(games: ListedGame[], url: URL): ListedGame[] {
+    let filtered = games;
+    for (const [param, wanted] of Array.from(url.searchParams.entries())) {
+        if (PAGING_PARAMS.includes(param)) continue;
+        const [field, operator] = param.split('.');
+        if (!GAME_FIELDS.includes(field) || (operator !== undefined && !OPERATORS[operator])) {
+            throw new ApiError(400, `Unknown filter "${param}". Filter on ${GAME_FIELDS.join(', ')}, optionally with .${Object.keys(OPERATORS).join(', .')}.`);
+        }
+
+        if (operator) {
+            const number = toNumber(wanted, param);
+            filtered = filtered.filter(game => {
+                const value = fieldValue(game, field);
+                return typeof value === 'number' && OPERATORS[operator](value, number);
+            });
+        } else if (TEXT_FIELDS.includes(field)) {
+            filtered = filtered.filter(game => String(fieldValue(game, field)).toLowerCase().includes(wanted.toLowerCase()));
+        } else {
+            const number = toNumber(wanted, param);
+            filtered = filtered.filter(game => fieldValue(game, field) === number);
+        }
+    }
+    return filtered;
+}
+
+/** ?sort=-playtime,name sorts by playtime (most first), then by name. Games without the field go last. */
+function sortGames(games: ListedGame[], url: URL): ListedGame[] {
+    const keys = (url.searchParams.get('sort') || 'name').split(',').filter(key => key).map(key => ({
+        field: key.replace(/^-/, ''),
+        direction: key.startsWith('-') ? -1 : 1,
+    }));
+    const unknown = keys.find(key => !GAME_FIELDS.includes(key.field));
+    if (unknown) throw new ApiError(400, `Can't sort on "${unknown.field}". Sort on ${GAME_FIELDS.join(', ')}, with a - in front for the other way around.`);
+
+    return [...games].sort((a, b) => {
+        for (const { field, direction } of keys) {
+            const [x, y] = [fieldValue(a, field), fieldValue(b, field)];
+            if (x === y) continue;
+            if (x === undefined) return 1;
+            if (y === undefined) return -1;
+            const order = typeof x === 'string' ? x.localeCompare(String(y)) : x - Number(y);
+            if (order !== 0) return order * direction;
+        }
+        return a.steamAppID - b.steamAppID;
+    });
+}
+
+const appIdParam = (text: string) => {
+    if (!/^\d+$/.test(text)) throw new ApiError(400, `"${text}" is not an app ID.`);
+    return Number(text);
+};
+
+// --- MAIN FUNCTIONS ---
+/**
+ * The API on its own: every request reads the latest scrape (re-read only when a new one appears)
+ * and the cached store data, it never goes online.
+ */
+export function createApiHandler(options: ApiOptions = {}): ApiHandler {
+    const rawDataDir = options.rawDataDir || RAW_DATA_DIR;
+    const cachePath = options.cachePath || CACHE_PATH;
+    const priceHistoryDir = options.priceHistoryDir || PRICE_HISTORY_DIR;
+
+    // Read once, and again only when `migrate` rewrote the file
+    const snapshotGames = new Map<string, { mtimeMs: number; games: GameData[] }>();
+    const gamesOf = (snapshot: SnapshotInfo): GameData[] => {
+        const cached = snapshotGames.get(snapshot.path);
+        if (cached && cached.mtimeMs === mtime(snapshot.path)) return cached.games;
+        const games = loadSnapshot(snapshot.path);
+        snapshotGames.set(snapshot.path, { mtimeMs: mtime(snapshot.path), games });
+        return games;
+    };
+
+    const snapshots = () => {
+        const accountID = options.accountID || (listSnapshots(rawDataDir)[0]?.accountID ?? "");
+        return listSnapshots(rawDataDir, accountID || undefined);
+    };
+
+    let library: { key: string; snapshot: SnapshotInfo; records: ExportRecord[] } | null = null;
+    /** The latest scrape with store data and statuses, built again when the scrape or the store cache changed. */
+    const loadLibrary = async () => {
+        const snapshot = snapshots()[0];
+        if (!snapshot) throw new ApiError(503, `No scrapes found in ${rawDataDir}. Please run the scraper first.`);
+
+        const key = `${snapshot.path} ${mtime(snapshot.path)} ${mtime(cachePath)}`;
+        if (library?.key === key) return library;
+
+        const storeCache = loadStoreCache(DEFAULT_TTL_DAYS, cachePath);
+        const statusClassifier = loadStatusClassifier(options.settingsPath);
+        const records: ExportRecord[] = [];
+        for (const game of gamesOf(snapshot)) {
+            const { data } = await lookupStoreDetails(storeCache, game.steamAppID, 'offline');
+            records.push({ game, storeData: data, status: statusClassifier.classify(game, data) });
+        }
+        library = { key, snapshot, records };
+        return library;
+    };
+
+    const routes: [RegExp, (url: URL, match: RegExpMatchArray) => Promise<unknown>][] = [
+        [/^\/$/, async () => ({ snapshot: snapshots()[0]?.fileName || null, endpoints: ENDPOINTS })],
+
+        [/^\/games$/, async url => {
+            const { snapshot, records } = await loadLibrary();
+            const listed = records.map(({ game, status }): ListedGame => {
+                const { achievements, ...fields } = game;
+                return { ...fields, status };
+            });
+            const games = sortGames(filterGames(listed, url), url);
+            const limit = pageParam(url, 'limit', DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+            const offset = pageParam(url, 'offset', 0, Number.MAX_SAFE_INTEGER);
+            return { snapshot: snapshot.fileName, total: games.length, offset, limit, games: games.slice(offset, offset + limit) };
+        }],
+
+        [/^\/games\/([^/]+)$/, async (url, match) => {
+            const appId = appIdParam(match[1]);
+            const { snapshot, records } = await loadLibrary();
+            const record = records.find(r => r.game.steamAppID === appId);
+            if (!record) throw new ApiError(404, `App ${appId} is not in the library of ${snapshot.fileName}.`);
+            return { snapshot: snapshot.fileName, ...record };
+        }],
+
+        [/^\/stats$/, async () => {
+            const { snapshot, records } = await loadLibrary();
+            const wishlistAtLow = findWishlistLows(loadWishlist(snapshot.path).items, priceHistoryDir);
+            return computeLibraryStats(records, snapshot.fileName, wishlistAtLow);
+        }],
+
+        [/^\/history\/([^/]+)$/, async (url, match) => {
+            const appId = appIdParam(match[1]);
+            // Oldest first, like a chart reads
+            const points = snapshots().reverse().map(snapshot => {
+                const game = gamesOf(snapshot).find(g => g.steamAppID === appId);
+                return game && {
+                    takenAt: snapshot.takenAt.toISOString(),
+                    name: game.name,
+                    playtime: game.playtime,
+                    lastPlayed: game.lastPlayed,
+                    myAchievements: game.myAchievements,
+                    totalAchievements: game.totalAchievements,
+                };
+            }).filter(point => point);
+            const prices = loadPriceHistory(appId, priceHistoryDir);
+            if (points.length === 0 && !prices) throw new ApiError(404, `App ${appId} is in no scrape and has no price history.`);
+
+            return {
+                steamAppID: appId,
+                name: points.length > 0 ? points[points.length - 1]!.name : prices!.name,
+                snapshots: points,
+                prices: prices ? prices.points : [],
+            };
+        }],
+
+        [/^\/snapshots$/, async () => ({
+            snapshots: snapshots().map(snapshot => ({
+                fileName: snapshot.fileName,
+                accountID: snapshot.accountID,
+                takenAt: snapshot.takenAt.toISOString(),
+                games: gamesOf(snapshot).length,
+            })),
+        })],
+    ];
+
+    return async (method, target) => {
+        try {
+            let url: URL;
+            try {
+                url = new URL(target, 'http://localhost');
+            } catch (e) {
+                throw new ApiError(400, `Not a path this API can read: ${target}`);
+            }
+            if (method !== 'GET' && method !== 'HEAD') throw new ApiError(405, `Only GET requests, this API doesn't change anything.`);
+            const pathname = url.pathname.replace(/(.)\/+$/, '$1');
+            for (const [pattern, route] of routes) {
+                const match = pathname.match(pattern);
+                if (match) return { status: 200, body: await route(url, match) };
+            }
+            throw new ApiError(404, `Unknown endpoint ${pathname}. Try ${ENDPOINTS.map(e => e.split(/[ ?]/)[1]).join(', ')}.`);
+        } catch (e) {
+            if (e instanceof ApiError) return { status: e.status, body: { error: e.message } };
+            return { status: 500, body: { error: (e as Error).message } };
+        }
+    };
+}
+
+/**
+ * Only asked for by address, as localhost or by the host it listens on. A web page can point a name of its own at
+ * 127.0.0.1 (DNS rebinding), its requests then carry that name and are turned away.
+ */
+function isAllowedHost(hostHeader: string | undefined, host: string): boolean {
+    if (!hostHeader) return false;
+    const hostname = hostHeader.replace(/:\d+$/, '').replace(/^\[(.*)\]$/, '$1').toLowerCase();
+    return hostname === 'localhost' || hostname === host.toLowerCase() || net.isIP(hostname) !== 0;
+}
+
+/** Starts the API on the host and port from the options. Rejects when the port is in use. */
+export async function startApiServer(options: ServeOptions = {}): Promise<ApiServer> {
+    const handle = createApiHandler(options);
+    const host = options.host || DEFAULT_API_HOST;
+    const port = options.port ?? DEFAULT_API_PORT;
+    const server = http.createServer((req, res) => {
+        const answer = ({ status, body }: ApiResponse) => {
+            res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+            res.end(req.method === 'HEAD' ? undefined : JSON.stringify(body));
+        };
+        const response = isAllowedHost(req.headers.host, host)
+            ? handle(req.method || 'GET', req.url || '/')
+            : Promise.resolve({ status: 403, body: { error: `Unknown host ${req.headers.host || "(none)"}, ask for ${host} or localhost.` } });
+        response.then(answer).catch((e: Error) => {
+            if (res.headersSent) res.destroy();
+            else answer({ status: 500, body: { error: e.message } });
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', (e: NodeJS.ErrnoException) => reject(new Error(e.code === 'EADDRINUSE'
+            ? `Port ${port} is already in use, pick another one with --port.`
+            : `Could not start the API: ${e.message}`)));
+        server.listen(port, host, () => resolve());
+    });
+
+    const address = server.address() as net.AddressInfo;
+    const urlHost = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    return {
+        url: `http://${urlHost}:${address.port}`,
+        close: () => new Promise<void>(resolve => server.close(() => resolve())),
+    };
+}
@@ -16,19 +16,51 @@
     along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import { Reporter } from '@playwright/test/reporter';
+import { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { createLogEventWriter, formatLogEvent, JSON_LOGS, LogEvent, logEvent } from './log-events';
 
 /**
  * A custom reporter that silences the default "Running 1 test" and "1 passed" messages.
- * It only lets through the console.log output from your script.
+ * It only lets through the console.log output from your script, and the reason when it fails.
+ * Set SCRAPER_QUIET=1 to hide the console.log output as well (used by `cli.ts --quiet`).
+ * Set SCRAPER_LOG_FORMAT=json to get everything as JSON events on stdout, one per line
+ * (used by `cli.ts --json-logs`, see log-events.ts). Quiet then only leaves out the progress events.
  */
 class CleanReporter implements Reporter {
+  private quiet = process.env.SCRAPER_QUIET === '1';
+  private emit = (event: LogEvent) => {
+    if (this.quiet && event.type === 'progress') return;
+    process.stdout.write(formatLogEvent(event));
+  };
+  private stdout = createLogEventWriter(this.emit);
+  private stderr = createLogEventWriter(this.emit, true);
+
   // This hook catches all console.log() output from the test and prints it to the terminal
   onStdOut(chunk: string | Buffer) {
+    if (JSON_LOGS) return this.stdout.write(chunk.toString());
+    if (this.quiet) return;
     process.stdout.write(chunk);
   }
 
-  // We intentionally leave out onBegin, onTestEnd, and onEnd to suppress status messages
+  // console.error() output is always shown, even in quiet mode
+  onStdErr(chunk: string | Buffer) {
+    if (JSON_LOGS) return this.stderr.write(chunk.toString());
+    process.stderr.write(chunk);
+  }
+
+  // Without this a failed scrape would only show up as an exit code
+  onTestEnd(test: TestCase, result: TestResult) {
+    if (JSON_LOGS) {
+      this.stdout.flush();
+      this.stderr.flush();
+    }
+    if (result.status === 'passed' || result.status === 'skipped') return;
+    const reason = result.error?.message || `Test ${result.status}`;
+    if (JSON_LOGS) return this.emit(logEvent('failure', reason, { status: result.status }));
+    process.stderr.write(`\nERROR: ${reason}\n`);
+  }
+
+  // We intentionally leave out onBegin and onEnd to suppress status messages
 }
 
-export default CleanReporter;
\ No newline at end of file
+export default CleanReporter;
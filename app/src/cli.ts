@@ -8,26 +8,182 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
 import { spawn } from 'child_process';
-import { runConversion } from './json-to-md';
+import { DEFAULT_API_HOST, DEFAULT_API_PORT, startApiServer } from './api-server';
+import { DEFAULT_TEMPLATES, NOTES_DIR, runConversion, UpdateMode } from './json-to-md';
+import { EXPORT_FORMATS, EXPORTERS, EXPORTS_DIR, runExport } from './export';
+import { ExportFormat } from './exporter';
+import { GameSource, isSourceName, SOURCE_NAMES, SourceName } from './game-source';
+import { runHouseholdExport } from './household';
+import { runStats } from './library-stats';
+import { runPlayHistory } from './play-history';
+import { TEMPLATES_DIR, writeDefaultTemplates } from './note-templates';
+import { findProfile, normalizeAccountID, ProfileSettings, resolveProfiles, SteamProfile } from './profiles';
+import { formatLogEvent, logEvent } from './log-events';
+import {
+    acquireLock, appsToConvert, DEFAULT_SCHEDULE, latestScrapeFiles, LOCK_PATH, nextRun, parseSchedule, readLock, releaseLock, Schedule,
+} from './schedule';
+import { clearSession, hasSavedSession } from './session';
+import { runTargetScrape, SCRAPE_TARGETS, ScrapeTarget } from './scrape-targets';
+import { runDiff } from './snapshot-diff';
+import { DAILY_SNAPSHOT_DAYS, pruneSnapshots } from './snapshot-retention';
+import { listSnapshots, migrateSnapshots, RAW_DATA_DIR, writeSnapshot } from './snapshots';
+import { isCountryCode } from './steam-store';
+import { createWebApiSource } from './steam-web-api';
+import { StoreMode } from './store-cache';
 
 // --- PATH CONFIGURATION ---
 const APP_DIR = path.resolve(__dirname, '..');
-const ROOT_DIR = path.resolve(APP_DIR, '..'); 
+const ROOT_DIR = path.resolve(APP_DIR, '..');
 const SETTINGS_PATH = path.join(ROOT_DIR, 'scraper-settings.json');
 
+// --- EXIT CODES ---
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
 interface Settings {
-    steamAccountID: string;
+    // The account of a single person, not used when there are profiles
+    steamAccountID?: string;
+    // Several accounts (family, alts), each with a name used for its folders
+    profiles?: ProfileSettings[];
+    // Where the games list comes from, defaults to 'dom'
+    source?: SourceName;
+    // Needed for the 'api' source, can also be set with the STEAM_API_KEY environment variable
+    steamApiKey?: string;
+    // Also collect every single achievement with its unlock time (slow)
+    achievementDetails?: boolean;
+    // What a scrape collects, defaults to ["games"]
+    scrapeTargets?: ScrapeTarget[];
+    // Two letter country of the store prices, Steam picks it from your IP address without one
+    storeCountry?: string;
+    // When the "schedule" command scrapes, a cron schedule like "0 4 * * *"
+    schedule?: string;
+}
+
+interface CliArgs {
+    command: string;
+    positional: string[];
+    convert: boolean;
+    headless: boolean;
+    achievements: boolean;
+    allProfiles: boolean;
+    household: boolean;
+    account?: string;
+    source?: SourceName;
+    targets?: ScrapeTarget[];
+    formats?: ExportFormat[];
+    input?: string;
+    output?: string;
+    host?: string;
+    port?: number;
+    quiet: boolean;
+    jsonLogs: boolean;
+    storeMode: StoreMode;
+    updateMode: UpdateMode;
+    dryRun: boolean;
+    retryFailed: boolean;
+    archiveOrphans: boolean;
+    help: boolean;
+}
+
+interface ScrapeOptions {
+    // Folder for the snapshot, defaults to output/raw_data
+    outputDir?: string;
+    // Run without a browser window, only works with a saved login session
+    headless?: boolean;
+    // Collect per-achievement details
+    achievements?: boolean;
+    quiet?: boolean;
+    // Print JSON events instead of text, see log-events.ts
+    jsonLogs?: boolean;
+    // Only the targets the browser collects (games, reviews), see runScraper
+    targets?: ScrapeTarget[];
 }
 
+class UsageError extends Error {}
+
+const USAGE = `
+Usage: npm start -- [command] [options]
+
+Without a command the interactive menu is shown.
+
+Commands:
+  scrape              Scrape your Steam library into output/raw_data
+  convert             Generate Markdown notes from the latest scrape
+  diff [old] [new]    Compare two scrapes (defaults to the latest two, a single
+                      scrape is compared with the latest one of its account)
+  export              Export the latest scrape as CSV, JSON Lines, SQLite or HTML
+  stats               Write the Library Stats note (also done by convert)
+  history             Write the play history of all scrapes by day and week,
+                      with a calendar heatmap file, to output/play_history
+                      (also done by convert)
+  templates           Copy the default note templates to the templates folder,
+                      to change them there
+  migrate [folder]    Rewrite older scrapes (default: output/raw_data) in the
+                      current snapshot format
+  schedule [when]     Keep running and scrape (headless, with the saved login
+                      session) and convert at the times of a cron schedule, like
+                      "0 4 * * *" (default: the settings, or every day at 04:00)
+  serve               Answer questions about your library over a local JSON API
+                      (/games, /games/:appId, /stats, /history/:appId,
+                      /snapshots) until you press Ctrl+C
+  logout              Forget the saved Steam login session
+
+Options:
+  --account <id>      Profile name, Custom URL ID, SteamID64 or profile link to
+                      use instead of the saved one
+  --all-profiles      Run the command for every profile in the settings
+  --source <dom|api>  With "scrape": read the games page (dom, default) or use
+                      the Steam Web API (api, needs steamApiKey in the settings)
+  --targets <list>    With "scrape": comma separated list of games (default),
+                      wishlist, recent and reviews
+  --convert           With "scrape": also generate Markdown notes afterwards
+  --headless          With "scrape": no browser window, needs a saved login session
+  --achievements      With "scrape": also collect every achievement with its
+                      unlock time (one extra page or request per game)
+  --format <list>     With "export": comma separated list of csv, jsonl, sqlite,
+                      html (default: all of them)
+  --household         With "export": one library of all profiles, showing who
+                      owns each game and the combined playtime
+  --input <file>      With "convert", "stats", "history" and "export": the scrape
+                      JSON file to use (history uses the scrapes up to it)
+  --output <dir>      Where to write the results (the notes folder for convert
+                      and stats, the snapshot folder for a plain scrape, the
+                      export or play history folder)
+  --port <number>     With "serve": the port to listen on (default: ${DEFAULT_API_PORT})
+  --host <address>    With "serve": the address to listen on (default: ${DEFAULT_API_HOST},
+                      only this computer). 0.0.0.0 opens it to your network
+  --refresh           Fetch all store data again, ignoring the cache
+  --offline           Only use cached store data, never go online
+  --overwrite         With "convert": regenerate existing notes completely instead
+                      of only updating their stats (your own edits are lost)
+  --dry-run           With "convert": show what would change without writing
+  --retry-failed      With "convert": only the games whose store lookup failed
+                      last time, fetched again
+  --archive-orphans   With "convert" and "schedule": move the notes of games that left your
+                      library or wishlist to the Archive folder
+  --json-logs         With "scrape": print one JSON event per line (progress,
+                      warning, failure, snapshot) instead of text
+  --quiet             Only print errors
+  -h, --help          Show this help
+
+Exit codes: 0 = success, 1 = the command failed, 2 = invalid arguments.
+`;
+
 // --- UTILS ---
 
-const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout
-});
+let rl: readline.Interface | null = null;
 
+// The readline interface is only created when needed, otherwise it keeps non-interactive runs alive
 const question = (query: string): Promise<string> => {
-    return new Promise(resolve => rl.question(query, resolve));
+    if (!rl) {
+        rl = readline.createInterface({
+            input: process.stdin,
+            output: process.stdout
+        });
+    }
+    const prompt = rl;
+    return new Promise(resolve => prompt.question(query, resolve));
 };
 
 function loadSettings(): Settings | null {
@@ -44,15 +200,17 @@ function loadSettings(): Settings | null {
 }
 
 function saveSettings(settings: Settings) {
-    fs.writeFileSync(SETTINGS_PATH, JSON.stringify(settings, null, 2), 'utf-8');
+    // Keep everything else (like a custom markdownTemplate) that is already in the file
+    const merged = { ...(loadSettings() || {}), ...settings };
+    fs.writeFileSync(SETTINGS_PATH, JSON.stringify(merged, null, 2), 'utf-8');
     console.log(`Settings saved to ${SETTINGS_PATH}`);
 }
 
 async function getSteamID(): Promise<string> {
     const settings = loadSettings();
-    
+
     // If settings file exists and has an ID, use it automatically or ask to confirm
-    if (settings?.steamAccountID) {
+    if (settings?.steamAccountID && normalizeAccountID(settings.steamAccountID)) {
         // Optional: You could just return it immediately if you trust setup.bat
         // or keep this check to allow changing it.
         return settings.steamAccountID;
@@ -60,26 +218,135 @@ async function getSteamID(): Promise<string> {
 
     // Fallback if file is empty or missing
     console.log('\nSteam ID not found in settings.');
-    console.log('Please enter your Steam Custom URL ID.');
-    const newID = await question('Steam ID: ');
-    
-    if (!newID.trim()) {
-        console.log("ID cannot be empty.");
-        return getSteamID(); 
+    console.log('Please enter your Steam Custom URL ID, SteamID64 or profile link.');
+    const newID = normalizeAccountID(await question('Steam ID: '));
+
+    if (!newID) {
+        console.log("That is not a Steam Custom URL ID, SteamID64 or profile link.");
+        return getSteamID();
     }
 
-    saveSettings({ steamAccountID: newID.trim() });
-    return newID.trim();
+    saveSettings({ steamAccountID: newID });
+    return newID;
 }
 
-async function runScraper(accountID: string) {
-    console.log("\nLaunching Scraper...");
-    
+function parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = {
+        command: "",
+        positional: [],
+        convert: false,
+        headless: false,
+        achievements: false,
+        allProfiles: false,
+        household: false,
+        quiet: false,
+        jsonLogs: false,
+        storeMode: 'default',
+        updateMode: 'merge',
+        dryRun: false,
+        retryFailed: false,
+        archiveOrphans: false,
+        help: false,
+    };
+
+    const takeValue = (flag: string, index: number): string => {
+        const value = argv[index + 1];
+        if (value === undefined || value.startsWith('--')) {
+            throw new UsageError(`${flag} needs a value.`);
+        }
+        return value;
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--convert': args.convert = true; break;
+            case '--headless': args.headless = true; break;
+            case '--achievements': args.achievements = true; break;
+            case '--all-profiles': args.allProfiles = true; break;
+            case '--household': args.household = true; break;
+            case '--quiet': args.quiet = true; break;
+            case '--json-logs': args.jsonLogs = true; break;
+            case '--refresh': args.storeMode = 'refresh'; break;
+            case '--offline': args.storeMode = 'offline'; break;
+            case '--overwrite': args.updateMode = 'overwrite'; break;
+            case '--dry-run': args.dryRun = true; break;
+            case '--retry-failed': args.retryFailed = true; break;
+            case '--archive-orphans': args.archiveOrphans = true; break;
+            case '-h':
+            case '--help': args.help = true; break;
+            case '--account': args.account = takeValue(arg, i++); break;
+            case '--input': args.input = takeValue(arg, i++); break;
+            case '--output': args.output = takeValue(arg, i++); break;
+            case '--host': args.host = takeValue(arg, i++); break;
+            case '--port': {
+                const port = Number(takeValue(arg, i++));
+                if (!Number.isInteger(port) || port < 0 || port > 65535) throw new UsageError(`--port must be a number from 0 to 65535.`);
+                args.port = port;
+                break;
+            }
+            case '--format': args.formats = parseFormats(takeValue(arg, i++)); break;
+            case '--targets': args.targets = parseTargets(takeValue(arg, i++)); break;
+            case '--source': {
+                const source = takeValue(arg, i++);
+                if (!isSourceName(source)) {
+                    throw new UsageError(`--source must be one of: ${SOURCE_NAMES.join(', ')}.`);
+                }
+                args.source = source;
+                break;
+            }
+            default:
+                if (arg.startsWith('-')) throw new UsageError(`Unknown option: ${arg}`);
+                if (!args.command) args.command = arg;
+                else args.positional.push(arg);
+        }
+    }
+
+    return args;
+}
+
+function parseFormats(value: string): ExportFormat[] {
+    if (value.trim() === 'all') return EXPORT_FORMATS;
+
+    const formats = value.split(',').map(f => f.trim().toLowerCase()).filter(f => f);
+    const unknown = formats.filter(f => !EXPORT_FORMATS.includes(f as ExportFormat));
+    if (formats.length === 0 || unknown.length > 0) {
+        throw new UsageError(`--format must be a list of: ${EXPORT_FORMATS.join(', ')}.`);
+    }
+    return formats as ExportFormat[];
+}
+
+function parseTargets(value: string): ScrapeTarget[] {
+    if (value.trim() === 'all') return SCRAPE_TARGETS;
+
+    const targets = value.split(',').map(t => t.trim().toLowerCase()).filter(t => t);
+    const unknown = targets.filter(t => !SCRAPE_TARGETS.includes(t as ScrapeTarget));
+    if (targets.length === 0 || unknown.length > 0) {
+        throw new UsageError(`--targets must be a list of: ${SCRAPE_TARGETS.join(', ')}.`);
+    }
+    return targets as ScrapeTarget[];
+}
+
+/**
+ * Runs the Playwright scrape in a child process.
+ * Rejects when the scraper could not be started or exits with a non-zero code.
+ */
+async function runScraper(accountID: string, options: ScrapeOptions = {}) {
+    // With JSON logs the scraper's events are the only thing on stdout
+    const quiet = options.quiet || options.jsonLogs;
+    if (!quiet) console.log("\nLaunching Scraper...");
+
     return new Promise<void>((resolve, reject) => {
-        const childEnv = { 
-            ...process.env, 
-            STEAM_ACCOUNT_ID: accountID 
+        const childEnv: NodeJS.ProcessEnv = {
+            ...process.env,
+            STEAM_ACCOUNT_ID: accountID
         };
+        if (options.outputDir) childEnv.SCRAPER_OUTPUT_DIR = path.resolve(options.outputDir);
+        if (options.quiet) childEnv.SCRAPER_QUIET = '1';
+        if (options.jsonLogs) childEnv.SCRAPER_LOG_FORMAT = 'json';
+        if (options.headless) childEnv.SCRAPER_HEADLESS = '1';
+        if (options.achievements) childEnv.SCRAPER_ACHIEVEMENT_DETAILS = '1';
+        if (options.targets) childEnv.SCRAPER_TARGETS = options.targets.join(',');
 
         const npmCmd = process.platform === 'win32' ? 'npx.cmd' : 'npx';
 
@@ -87,82 +354,505 @@ async function runScraper(accountID: string) {
             'playwright', 'test', 'src/steam-library-scraper.spec.ts'
         ], {
             stdio: 'inherit',
-            cwd: APP_DIR, 
+            cwd: APP_DIR,
             env: childEnv,
             shell: true
         });
 
         scrapeProcess.on('close', (code) => {
             if (code === 0) {
-                console.log("Scraping complete.");
+                if (!quiet) console.log("Scraping complete.");
                 resolve();
             } else {
-                console.error(`\nSCRAPER FAILED with exit code ${code}.`);
-                resolve(); 
+                reject(new Error(`SCRAPER FAILED with exit code ${code}.`));
             }
         });
 
         scrapeProcess.on('error', (err) => {
-            console.error(`\nFAILED to start scraper process: ${err.message}`);
-            resolve();
+            reject(new Error(`FAILED to start scraper process: ${err.message}`));
         });
     });
 }
 
+/** Runs an in-process source (anything but the browser scrape) and writes its snapshot. */
+async function runSourceScrape(source: GameSource, accountID: string, options: ScrapeOptions = {}) {
+    const quiet = options.quiet || options.jsonLogs;
+    if (!quiet) console.log(`\nFetching games for ${accountID} from the Steam Web API...`);
+
+    const startedAt = new Date().toISOString();
+    const games = await source.fetchGames(accountID);
+    // The API answers with the whole library at once, there is no list that can be cut short
+    const completeness = { complete: true, expectedCount: games.length, scrapedCount: games.length };
+    const outputPath = writeSnapshot(accountID, games, options.outputDir ? path.resolve(options.outputDir) : undefined, {
+        ...completeness,
+        source: source.name,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+    });
+
+    if (options.jsonLogs) {
+        process.stdout.write(formatLogEvent(logEvent('snapshot', `Saved ${games.length} games`, { path: outputPath, ...completeness, warnings: 0 })));
+    }
+    if (!quiet) {
+        console.log(`Found ${games.length} games.`);
+        console.log(`\nDone! File saved to:`);
+        console.log(path.dirname(outputPath));
+        console.log(`Filename: ${path.basename(outputPath)}`);
+    }
+}
+
+/** The targets the browser scrapes, the others are plain requests. */
+const browserTargetsOf = (sourceName: SourceName, targets: ScrapeTarget[]) =>
+    targets.filter(t => (t === 'games' && sourceName === 'dom') || t === 'reviews');
+
+/**
+ * Scrapes the targets from the options (or the settings) with the source from the options, or the one saved in the settings.
+ * The browser reads the games page and the reviews, the wishlist and recently played games are plain requests.
+ */
+async function scrape(accountID: string, options: ScrapeOptions & { source?: SourceName } = {}) {
+    const settings = loadSettings();
+    const sourceName = options.source || settings?.source || 'dom';
+    const targets = options.targets || settings?.scrapeTargets || ['games'];
+    const unknown = targets.filter(t => !SCRAPE_TARGETS.includes(t));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown scrapeTargets in ${SETTINGS_PATH}: ${unknown.join(', ')}. Use ${SCRAPE_TARGETS.join(', ')}.`);
+    }
+    options = { ...options, achievements: options.achievements || settings?.achievementDetails === true };
+    const apiKey = process.env.STEAM_API_KEY || settings?.steamApiKey;
+    if (settings?.storeCountry !== undefined && !isCountryCode(settings.storeCountry)) {
+        throw new Error(`"storeCountry" in ${SETTINGS_PATH} must be a two letter country code like "NL".`);
+    }
+
+    if (targets.includes('games') && sourceName === 'api') {
+        if (!apiKey) {
+            throw new Error(`The Web API source needs an API key. Add "steamApiKey" to ${SETTINGS_PATH} (get one at https://steamcommunity.com/dev/apikey).`);
+        }
+        const source = createWebApiSource({ apiKey, includeAchievementDetails: options.achievements });
+        await runSourceScrape(source, accountID, options);
+    }
+
+    const browserTargets = browserTargetsOf(sourceName, targets);
+    if (browserTargets.length > 0) {
+        await runScraper(accountID, { ...options, targets: browserTargets });
+    }
+
+    const quiet = options.quiet || options.jsonLogs;
+    if (!await runTargetScrape(accountID, { targets, apiKey, countryCode: settings?.storeCountry, outputDir: options.outputDir, quiet })) {
+        throw new Error("Not everything could be scraped, see the messages above.");
+    }
+}
+
+function logout() {
+    if (clearSession()) console.log("Saved Steam session removed. You will need to scan the QR code on the next scrape.");
+    else console.log("There is no saved Steam session.");
+}
+
+// --- PROFILES ---
+
+/**
+ * Where a profile's notes or exports go. Profiles from the settings get their own subfolder.
+ * An explicit folder is used as it is, unless several profiles are written into it.
+ */
+function outputDirFor(profile: SteamProfile, defaultDir: string, explicitDir?: string, shared = false): string | undefined {
+    if (explicitDir && !shared) return explicitDir;
+    if (!profile.folder) return explicitDir;
+    return path.join(explicitDir ? path.resolve(explicitDir) : defaultDir, profile.folder);
+}
+
+/** The latest scrape of the profile's account, undefined to let the command pick the latest scrape of any account. */
+function latestScrapeOf(profile: SteamProfile): string | undefined {
+    const latest = listSnapshots(RAW_DATA_DIR, profile.accountID)[0];
+    if (latest) return latest.path;
+
+    // A profile never gets another account's games. The single account of older settings falls back
+    // to the latest scrape like before, which also picks up renamed files.
+    if (profile.folder) throw new Error(`No scrapes of ${profile.name} found in ${RAW_DATA_DIR}. Please run the scraper first.`);
+    return undefined;
+}
+
+/** Runs the command once per profile, one failing profile doesn't stop the others. */
+async function forEachProfile(profiles: SteamProfile[], quiet: boolean, run: (profile: SteamProfile) => Promise<boolean>): Promise<boolean> {
+    if (profiles.length === 1) return run(profiles[0]);
+
+    let ok = true;
+    for (const profile of profiles) {
+        if (!quiet) console.log(`\n========== ${profile.name} ==========`);
+        try {
+            if (!await run(profile)) ok = false;
+        } catch (e) {
+            if (e instanceof UsageError) throw e;
+            console.error(`\n${profile.name}: ${(e as Error).message}`);
+            ok = false;
+        }
+    }
+    return ok;
+}
+
+// --- SCHEDULED RUNS ---
+
+/**
+ * One scheduled run: scrapes every profile headless and converts only the games that changed.
+ * Skipped when another run still holds the lock. Old scrapes are pruned afterwards.
+ */
+async function scheduledRun(profiles: SteamProfile[], args: CliArgs): Promise<boolean> {
+    const log = (...lines: unknown[]) => { if (!args.quiet) console.log(...lines); };
+    if (!acquireLock()) {
+        const lock = readLock();
+        console.error(`Another run is still going${lock ? ` (process ${lock.pid}, started ${new Date(lock.startedAt).toLocaleString()})` : ""}, skipping this one.`);
+        return false;
+    }
+
+    try {
+        log(`\nScheduled run started at ${new Date().toLocaleString()}.`);
+        const ok = await forEachProfile(profiles, args.quiet, async profile => {
+            const before = latestScrapeFiles(profile.accountID);
+            await scrape(profile.accountID, { source: args.source, targets: args.targets, headless: true, quiet: args.quiet });
+            const after = latestScrapeFiles(profile.accountID);
+            if (!after.snapshot) return true;
+
+            const outputDir = outputDirFor(profile, NOTES_DIR, args.output, profiles.length > 1);
+            return runConversion({
+                storeMode: args.storeMode,
+                inputFile: after.snapshot,
+                outputDir,
+                appIDs: appsToConvert(before, after, outputDir ? path.resolve(outputDir) : NOTES_DIR),
+                archiveOrphans: args.archiveOrphans,
+                quiet: args.quiet,
+            });
+        });
+
+        const pruned = pruneSnapshots(RAW_DATA_DIR);
+        if (pruned.length > 0) {
+            log(`Removed ${pruned.length} older scrape files (one a day is kept for ${DAILY_SNAPSHOT_DAYS} days, one a week after that).`);
+        }
+        return ok;
+    } finally {
+        releaseLock();
+    }
+}
+
+/** Runs at the times of the schedule until the process is stopped. A failed run is reported and the next one goes ahead. */
+async function runSchedule(schedule: Schedule, profiles: SteamProfile[], args: CliArgs): Promise<never> {
+    // Ctrl+C between the scrape and the conversion shouldn't block the next run
+    const stop = () => {
+        releaseLock();
+        process.exit(EXIT_OK);
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+
+    while (true) {
+        const next = nextRun(schedule, new Date());
+        if (!args.quiet) console.log(`\nNext run at ${next.toLocaleString()} ("${schedule.text}"). Press Ctrl+C to stop.`);
+        // Checked every minute: a timer is late after the computer slept, and can't wait longer than 24 days
+        while (Date.now() < next.getTime()) {
+            await new Promise(resolve => setTimeout(resolve, Math.min(next.getTime() - Date.now(), 60 * 1000)));
+        }
+
+        try {
+            if (!await scheduledRun(profiles, args)) console.error("The scheduled run did not finish everything, see the messages above.");
+        } catch (e) {
+            console.error(`\nThe scheduled run failed: ${(e as Error).message}`);
+        }
+    }
+}
+
+// --- NON-INTERACTIVE MODE ---
+
+async function runCommand(args: CliArgs): Promise<number> {
+    const profiles = () => resolveProfiles(loadSettings());
+    const targets = (): SteamProfile[] => {
+        if (args.allProfiles) {
+            const all = profiles();
+            if (all.length === 0) throw new UsageError(`No profiles saved. Add "profiles" to ${SETTINGS_PATH} or pass --account <id>.`);
+            return all;
+        }
+        if (args.account) {
+            const profile = findProfile(profiles(), args.account);
+            if (!profile) throw new UsageError(`"${args.account}" is not a profile name, Custom URL ID, SteamID64 or profile link.`);
+            return [profile];
+        }
+        const saved = profiles()[0];
+        if (!saved) throw new UsageError(`No Steam ID saved. Pass one with --account <id>.`);
+        return [saved];
+    };
+    const exitCode = (ok: boolean) => ok ? EXIT_OK : EXIT_FAILURE;
+
+    switch (args.command) {
+        case 'scrape':
+            return exitCode(await forEachProfile(targets(), args.quiet || args.jsonLogs, async profile => {
+                // With --convert the output folder is meant for the notes, the snapshot goes to the default place
+                await scrape(profile.accountID, {
+                    source: args.source,
+                    targets: args.targets,
+                    outputDir: args.convert ? undefined : args.output,
+                    headless: args.headless,
+                    achievements: args.achievements,
+                    quiet: args.quiet,
+                    jsonLogs: args.jsonLogs,
+                });
+                if (!args.convert) return true;
+
+                return runConversion({
+                    storeMode: args.storeMode,
+                    inputFile: latestScrapeOf(profile),
+                    outputDir: outputDirFor(profile, NOTES_DIR, args.output, args.allProfiles),
+                    updateMode: args.updateMode,
+                    archiveOrphans: args.archiveOrphans,
+                    quiet: args.quiet || args.jsonLogs,
+                });
+            }));
+
+        case 'convert':
+            return exitCode(await forEachProfile(targets(), args.quiet, profile => runConversion({
+                storeMode: args.storeMode,
+                inputFile: args.input || latestScrapeOf(profile),
+                outputDir: outputDirFor(profile, NOTES_DIR, args.output, args.allProfiles),
+                updateMode: args.updateMode,
+                dryRun: args.dryRun,
+                retryFailed: args.retryFailed,
+                archiveOrphans: args.archiveOrphans,
+                quiet: args.quiet,
+            })));
+
+        case 'diff': {
+            if (args.positional.length > 2) {
+                throw new UsageError(`diff takes at most two files, the older scrape first.`);
+            }
+            const [fromFile, toFile] = args.positional;
+            if (fromFile) return exitCode(await runDiff({ fromFile, toFile, quiet: args.quiet }) !== null);
+
+            return exitCode(await forEachProfile(targets(), args.quiet, async profile => {
+                const accountID = latestScrapeOf(profile) ? profile.accountID : undefined;
+                return await runDiff({ accountID, notesDir: outputDirFor(profile, NOTES_DIR), quiet: args.quiet }) !== null;
+            }));
+        }
+
+        case 'export': {
+            if (args.household) {
+                const all = profiles();
+                if (all.length < 2) throw new UsageError(`--household needs at least two profiles in ${SETTINGS_PATH}.`);
+                return exitCode(await runHouseholdExport({ profiles: all, outputDir: args.output, quiet: args.quiet }));
+            }
+
+            return exitCode(await forEachProfile(targets(), args.quiet, profile => runExport({
+                formats: args.formats || EXPORT_FORMATS,
+                inputFile: args.input || latestScrapeOf(profile),
+                outputDir: outputDirFor(profile, EXPORTS_DIR, args.output, args.allProfiles),
+                quiet: args.quiet,
+            })));
+        }
+
+        case 'stats':
+            return exitCode(await forEachProfile(targets(), args.quiet, profile => runStats({
+                inputFile: args.input || latestScrapeOf(profile),
+                outputDir: outputDirFor(profile, NOTES_DIR, args.output, args.allProfiles),
+                quiet: args.quiet,
+            })));
+
+        case 'history':
+            // The files are named by account, so the profiles can share the folder
+            return exitCode(await forEachProfile(targets(), args.quiet, profile => runPlayHistory({
+                inputFile: args.input || latestScrapeOf(profile),
+                outputDir: args.output,
+                quiet: args.quiet,
+            })));
+
+        case 'templates': {
+            const written = writeDefaultTemplates(DEFAULT_TEMPLATES);
+            if (!args.quiet) {
+                console.log(written.length > 0 ? `Templates written to ${TEMPLATES_DIR}:` : `All templates are already in ${TEMPLATES_DIR}.`);
+                written.forEach(file => console.log(`  ${path.basename(file)}`));
+            }
+            return EXIT_OK;
+        }
+
+        case 'migrate': {
+            if (args.positional.length > 1) throw new UsageError(`migrate takes at most one folder.`);
+            const dir = args.positional[0] ? path.resolve(args.positional[0]) : RAW_DATA_DIR;
+            const migrated = migrateSnapshots(dir);
+            if (!args.quiet) console.log(`${migrated.length} of ${listSnapshots(dir).length} scrapes in ${dir} were rewritten in the current format.`);
+            return EXIT_OK;
+        }
+
+        case 'schedule': {
+            if (args.positional.length > 1) throw new UsageError(`schedule takes one schedule, in quotes: "0 4 * * *".`);
+            const settings = loadSettings();
+            let schedule: Schedule;
+            try {
+                schedule = parseSchedule(args.positional[0] || settings?.schedule || DEFAULT_SCHEDULE);
+            } catch (e) {
+                throw new UsageError((e as Error).message);
+            }
+
+            // Nobody is there to scan the QR code
+            const scrapeTargets = args.targets || settings?.scrapeTargets || ['games'];
+            if (browserTargetsOf(args.source || settings?.source || 'dom', scrapeTargets).length > 0 && !hasSavedSession()) {
+                throw new Error(`The schedule scrapes without a browser window and needs a saved login session. Run "npm start -- scrape" once and scan the QR code first.`);
+            }
+            return runSchedule(schedule, targets(), args);
+        }
+
+        case 'serve': {
+            if (args.allProfiles) throw new UsageError(`serve shows one account, pick it with --account.`);
+            const server = await startApiServer({ accountID: args.account ? targets()[0].accountID : undefined, host: args.host, port: args.port });
+            if (!args.quiet) {
+                console.log(`\nServing your library at ${server.url}, try ${server.url}/games?sort=-playtime. Press Ctrl+C to stop.`);
+            }
+            if (![DEFAULT_API_HOST, 'localhost', '::1'].includes(args.host || DEFAULT_API_HOST)) {
+                console.log(`WARNING: Listening on ${args.host}, so other computers that can reach it can read your library.`);
+            }
+            await new Promise(resolve => process.once('SIGINT', resolve));
+            await server.close();
+            return EXIT_OK;
+        }
+
+        case 'logout':
+            logout();
+            return EXIT_OK;
+
+        default:
+            throw new UsageError(`Unknown command: ${args.command}`);
+    }
+}
+
 // --- MAIN MENU ---
 
-async function main() {
+async function interactiveMenu() {
     console.clear();
     console.log("========================================");
     console.log("     STEAM LIBRARY SCRAPER & EXPORT     ");
     console.log("========================================");
 
+    let profiles: SteamProfile[];
+    try {
+        profiles = resolveProfiles(loadSettings());
+    } catch (e) {
+        console.error(`\n${(e as Error).message}`);
+        process.exit(EXIT_FAILURE);
+    }
+
     // If for some reason settings are missing, get them once at startup
-    let currentID = (loadSettings()?.steamAccountID) || "";
-    if (!currentID) {
-        currentID = await getSteamID();
+    if (profiles.length === 0) {
+        const id = await getSteamID();
+        profiles = [{ name: id, accountID: id, folder: null }];
     } else {
-        console.log(`\nWelcome back, ${currentID}!`);
+        console.log(`\nWelcome back, ${profiles.map(p => p.name).join(', ')}!`);
     }
 
+    // Every choice runs for all profiles, errors are printed and the menu comes back
+    const forAll = async (run: (profile: SteamProfile) => Promise<unknown>) => {
+        try {
+            await forEachProfile(profiles, false, async profile => { await run(profile); return true; });
+        } catch (e) {
+            console.error(`\n${(e as Error).message}`);
+        }
+    };
+    const convert = (profile: SteamProfile) => runConversion({
+        inputFile: latestScrapeOf(profile),
+        outputDir: outputDirFor(profile, NOTES_DIR),
+    });
+
     while (true) {
         console.log("\nWhat would you like to do?");
         console.log("1. Scrape my Steam library");
         console.log("2. Generate Markdown files from previous scrape");
         console.log("3. Scrape and create Markdown files");
-        console.log("4. Change Steam ID");
-        console.log("5. Exit");
+        console.log("4. Compare my two latest scrapes");
+        console.log("5. Export library (CSV, JSON Lines, SQLite, HTML)");
+        console.log("6. Change Steam ID");
+        console.log("7. Log out (forget saved Steam session)");
+        console.log("8. Exit");
 
-        const choice = await question('\nEnter choice (1-5): ');
+        const choice = await question('\nEnter choice (1-8): ');
 
         if (choice === '1') {
-            try { await runScraper(currentID); } catch (e) {}
-        
+            await forAll(profile => scrape(profile.accountID));
+
         } else if (choice === '2') {
-            await runConversion();
-        
+            await forAll(convert);
+
         } else if (choice === '3') {
-            try { 
-                await runScraper(currentID);
-                await runConversion();
-            } catch (e) {}
-        
+            await forAll(async profile => {
+                await scrape(profile.accountID);
+                await convert(profile);
+            });
+
         } else if (choice === '4') {
+            await forAll(profile => runDiff({ accountID: latestScrapeOf(profile) ? profile.accountID : undefined, notesDir: outputDirFor(profile, NOTES_DIR) }));
+
+        } else if (choice === '5') {
+            console.log("\nAvailable formats:");
+            for (const format of EXPORT_FORMATS) console.log(`  ${format.padEnd(7)} ${EXPORTERS[format].description}`);
+            const answer = await question('Formats (comma separated, Enter for all): ');
+            let formats: ExportFormat[];
+            try {
+                formats = answer.trim() ? parseFormats(answer) : EXPORT_FORMATS;
+            } catch (e) {
+                console.error((e as Error).message);
+                continue;
+            }
+            await forAll(profile => runExport({
+                formats,
+                inputFile: latestScrapeOf(profile),
+                outputDir: outputDirFor(profile, EXPORTS_DIR),
+            }));
+            if (profiles.length > 1) await runHouseholdExport({ profiles });
+
+        } else if (choice === '6') {
+            if (profiles.some(p => p.folder)) {
+                console.log(`\nYour profiles are saved in ${SETTINGS_PATH}, change them there.`);
+                continue;
+            }
             // Force re-entry of ID
             console.log('\nEnter new Steam ID:');
-            const newID = await question('Steam ID: ');
-            if (newID.trim()) {
-                saveSettings({ steamAccountID: newID.trim() });
-                currentID = newID.trim();
+            const newID = normalizeAccountID(await question('Steam ID: '));
+            if (newID) {
+                saveSettings({ steamAccountID: newID });
+                profiles = [{ name: newID, accountID: newID, folder: null }];
             }
-        } else if (choice === '5') {
+        } else if (choice === '7') {
+            logout();
+
+        } else if (choice === '8') {
             console.log("Bye!");
-            rl.close();
-            process.exit(0);
+            rl?.close();
+            process.exit(EXIT_OK);
         } else {
             console.log("Invalid choice.");
         }
     }
 }
 
-main();
\ No newline at end of file
+async function main() {
+    let args: CliArgs;
+    try {
+        args = parseArgs(process.argv.slice(2));
+    } catch (e) {
+        console.error(`${(e as Error).message}\n${USAGE}`);
+        process.exit(EXIT_USAGE);
+    }
+
+    if (args.help) {
+        console.log(USAGE);
+        process.exit(EXIT_OK);
+    }
+
+    if (!args.command) {
+        await interactiveMenu();
+        return;
+    }
+
+    try {
+        process.exit(await runCommand(args));
+    } catch (e) {
+        if (e instanceof UsageError) {
+            console.error(`${e.message}\n${USAGE}`);
+            process.exit(EXIT_USAGE);
+        }
+        console.error(`\n${(e as Error).message}`);
+        process.exit(EXIT_FAILURE);
+    }
+}
+
+main();
@@ -0,0 +1,32 @@
+/*
+    Steam Library Scraper - CSV Export
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { EXPORT_COLUMNS, Exporter, exportFileName, toExportRow } from './exporter';
+
+export function csvValue(value: string | number | null): string {
+    if (value === null) return "";
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export const csvExporter: Exporter = {
+    format: 'csv',
+    description: "CSV spreadsheet (Excel, Google Sheets, LibreOffice)",
+
+    async export(records, context) {
+        const lines = [
+            EXPORT_COLUMNS.join(','),
+            ...records.map(toExportRow).map(row => EXPORT_COLUMNS.map(c => csvValue(row[c])).join(',')),
+        ];
+
+        const filePath = path.join(context.outputDir, exportFileName(context, 'csv'));
+        // The BOM makes Excel open the file as UTF-8, otherwise ™ and friends turn into garbage
+        fs.writeFileSync(filePath, '\uFEFF' + lines.join('\r\n') + '\r\n', 'utf-8');
+        return filePath;
+    },
+};
@@ -0,0 +1,169 @@
+/*
+    Steam Library Scraper - HTML Library Page Export
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { EXPORT_COLUMNS, Exporter, exportFileName, ExportRow, toExportRow } from './exporter';
+
+const COLUMN_LABELS: Record<keyof ExportRow, string> = {
+    name: "Game",
+    steamAppID: "App ID",
+    playtimeHours: "Hours",
+    lastPlayed: "Last Played",
+    myAchievements: "Unlocked",
+    totalAchievements: "Achievements",
+    completionRate: "Completion %",
+    status: "Status",
+    releaseDate: "Released",
+    developers: "Developers",
+    publishers: "Publishers",
+    genres: "Genres",
+    metacritic: "Metacritic",
+    platforms: "Platforms",
+};
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Everything (data, styles, script) is inlined, so the page works when opened straight from disk
+ * or when sent to someone else as a single file.
+ */
+function renderPage(title: string, rows: ExportRow[]): string {
+    // "<" is escaped so a game called "</script>" can't break out of the script tag
+    const data = JSON.stringify(rows).replace(/</g, '\\u003c');
+    const columns = JSON.stringify(EXPORT_COLUMNS.map(key => ({ key, label: COLUMN_LABELS[key] })));
+    const statusOptions = Array.from(new Set(rows.map(r => r.status))).sort()
+        .map(status => `<option value="status:${escapeHtml(status)}">Status: ${escapeHtml(status)}</option>`)
+        .join('\n            ');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+    body { font-family: system-ui, sans-serif; margin: 0; background: #1b2838; color: #c7d5e0; }
+    header { padding: 16px 24px; background: #171a21; }
+    h1 { margin: 0 0 8px; font-size: 22px; color: #fff; }
+    .controls { display: flex; gap: 12px; flex-wrap: wrap; align-items: center; }
+    input, select { padding: 6px 8px; border: 1px solid #2a475e; background: #0e141b; color: #c7d5e0; border-radius: 3px; }
+    input { min-width: 260px; }
+    table { border-collapse: collapse; width: 100%; font-size: 14px; }
+    th { position: sticky; top: 0; background: #2a475e; color: #fff; text-align: left; padding: 8px; cursor: pointer; user-select: none; white-space: nowrap; }
+    th.sorted-asc::after { content: " \\25B2"; }
+    th.sorted-desc::after { content: " \\25BC"; }
+    td { padding: 6px 8px; border-bottom: 1px solid #2a3f52; }
+    tr:hover td { background: #22374b; }
+    a { color: #66c0f4; text-decoration: none; }
+    .num { text-align: right; font-variant-numeric: tabular-nums; }
+</style>
+</head>
+<body>
+<header>
+    <h1>${escapeHtml(title)}</h1>
+    <div class="controls">
+        <input id="search" type="search" placeholder="Search name, developer, genre...">
+        <select id="filter">
+            <option value="all">All games</option>
+            <option value="played">Played</option>
+            <option value="unplayed">Never played</option>
+            <option value="completed">100% achievements</option>
+            ${statusOptions}
+        </select>
+        <span id="summary"></span>
+    </div>
+</header>
+<table>
+    <thead><tr id="head"></tr></thead>
+    <tbody id="body"></tbody>
+</table>
+<script>
+const rows = ${data};
+const columns = ${columns};
+const numeric = new Set(['steamAppID', 'playtimeHours', 'myAchievements', 'totalAchievements', 'completionRate', 'metacritic']);
+let sortKey = 'playtimeHours';
+let sortDir = -1;
+
+const head = document.getElementById('head');
+const body = document.getElementById('body');
+const search = document.getElementById('search');
+const filter = document.getElementById('filter');
+const summary = document.getElementById('summary');
+
+const escape = (text) => String(text).replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+
+function matchesFilter(row) {
+    if (filter.value.startsWith('status:')) return row.status === filter.value.slice(7);
+    switch (filter.value) {
+        case 'played': return row.playtimeHours > 0;
+        case 'unplayed': return row.playtimeHours === 0;
+        case 'completed': return row.totalAchievements > 0 && row.myAchievements === row.totalAchievements;
+        default: return true;
+    }
+}
+
+function render() {
+    const query = search.value.trim().toLowerCase();
+    const visible = rows
+        .filter(matchesFilter)
+        .filter(row => !query || [row.name, row.developers, row.publishers, row.genres].join(' ').toLowerCase().includes(query))
+        .sort((a, b) => {
+            const x = a[sortKey], y = b[sortKey];
+            if (x === y) return 0;
+            if (x === null || x === '') return 1;
+            if (y === null || y === '') return -1;
+            return (numeric.has(sortKey) ? x - y : String(x).localeCompare(String(y))) * sortDir;
+        });
+
+    head.innerHTML = columns.map(c => {
+        const cls = c.key === sortKey ? (sortDir === 1 ? 'sorted-asc' : 'sorted-desc') : '';
+        return '<th data-key="' + c.key + '" class="' + cls + '">' + c.label + '</th>';
+    }).join('');
+
+    body.innerHTML = visible.map(row => '<tr>' + columns.map(c => {
+        const value = row[c.key] === null ? '' : row[c.key];
+        if (c.key === 'name') {
+            return '<td><a href="https://store.steampowered.com/app/' + row.steamAppID + '">' + escape(value) + '</a></td>';
+        }
+        return '<td class="' + (numeric.has(c.key) ? 'num' : '') + '">' + escape(value) + '</td>';
+    }).join('') + '</tr>').join('');
+
+    const hours = visible.reduce((sum, row) => sum + row.playtimeHours, 0);
+    summary.textContent = visible.length + ' of ' + rows.length + ' games, ' + Math.round(hours) + ' hours played';
+}
+
+head.addEventListener('click', (event) => {
+    const key = event.target.dataset && event.target.dataset.key;
+    if (!key) return;
+    sortDir = key === sortKey ? -sortDir : (numeric.has(key) ? -1 : 1);
+    sortKey = key;
+    render();
+});
+search.addEventListener('input', render);
+filter.addEventListener('change', render);
+render();
+</script>
+</body>
+</html>
+`;
+}
+
+export const htmlExporter: Exporter = {
+    format: 'html',
+    description: "Single-file HTML library page with sorting and filtering",
+
+    async export(records, context) {
+        const title = `Steam Library of ${context.snapshot.accountID || "Unknown"} (${context.snapshot.takenAt.toLocaleDateString()})`;
+        const filePath = path.join(context.outputDir, exportFileName(context, 'html'));
+        fs.writeFileSync(filePath, renderPage(title, records.map(toExportRow)), 'utf-8');
+        return filePath;
+    },
+};
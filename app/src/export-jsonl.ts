@@ -0,0 +1,28 @@
+/*
+    Steam Library Scraper - JSON Lines Export
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Exporter, exportFileName } from './exporter';
+
+export const jsonlExporter: Exporter = {
+    format: 'jsonl',
+    description: "JSON Lines, one game per line (jq, pandas, log tools)",
+
+    async export(records, context) {
+        const lines = records.map(({ game, storeData, status }) => JSON.stringify({
+            ...game,
+            status,
+            accountID: context.snapshot.accountID,
+            scrapedAt: context.snapshot.takenAt.toISOString(),
+            storeData,
+        }));
+
+        const filePath = path.join(context.outputDir, exportFileName(context, 'jsonl'));
+        fs.writeFileSync(filePath, lines.join('\n') + '\n', 'utf-8');
+        return filePath;
+    },
+};
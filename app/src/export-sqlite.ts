@@ -0,0 +1,101 @@
+/*
+    Steam Library Scraper - SQLite Export
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import initSqlJs from 'sql.js';
+import { Exporter, toExportRow } from './exporter';
+
+// Unlike the other exports this is a single database that grows with every snapshot you export
+export const SQLITE_FILE_NAME = 'steam-library.sqlite';
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file TEXT NOT NULL UNIQUE,
+    account_id TEXT NOT NULL,
+    taken_at TEXT NOT NULL,
+    game_count INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS games (
+    snapshot_id INTEGER NOT NULL REFERENCES snapshots(id) ON DELETE CASCADE,
+    app_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    playtime_hours REAL NOT NULL,
+    last_played INTEGER,
+    my_achievements INTEGER NOT NULL,
+    total_achievements INTEGER NOT NULL,
+    completion_rate INTEGER NOT NULL,
+    status TEXT,
+    release_date TEXT,
+    developers TEXT,
+    publishers TEXT,
+    genres TEXT,
+    metacritic INTEGER,
+    platforms TEXT
+);
+
+CREATE INDEX IF NOT EXISTS games_snapshot ON games (snapshot_id);
+CREATE INDEX IF NOT EXISTS games_app ON games (app_id);
+`;
+
+export const sqliteExporter: Exporter = {
+    format: 'sqlite',
+    description: "SQLite database with a games and a snapshots table (keeps history)",
+
+    async export(records, context) {
+        const SQL = await initSqlJs();
+        const filePath = path.join(context.outputDir, SQLITE_FILE_NAME);
+        const db = fs.existsSync(filePath) ? new SQL.Database(fs.readFileSync(filePath)) : new SQL.Database();
+
+        try {
+            db.run(SCHEMA);
+            // Databases from before the status rules don't have the column yet
+            const gameColumns = db.exec('PRAGMA table_info(games)')[0].values.map(column => column[1]);
+            if (!gameColumns.includes('status')) db.run('ALTER TABLE games ADD COLUMN status TEXT');
+            db.run('BEGIN');
+
+            // Exporting the same snapshot again replaces its rows (the store data may have been filled in since)
+            const snapshot = context.snapshot;
+            const existing = db.exec('SELECT id FROM snapshots WHERE file = ?', [snapshot.fileName]);
+            let snapshotId: number;
+            if (existing.length > 0) {
+                snapshotId = Number(existing[0].values[0][0]);
+                db.run('DELETE FROM games WHERE snapshot_id = ?', [snapshotId]);
+                db.run('UPDATE snapshots SET game_count = ? WHERE id = ?', [records.length, snapshotId]);
+            } else {
+                db.run('INSERT INTO snapshots (file, account_id, taken_at, game_count) VALUES (?, ?, ?, ?)', [
+                    snapshot.fileName, snapshot.accountID, snapshot.takenAt.toISOString(), records.length,
+                ]);
+                snapshotId = Number(db.exec('SELECT last_insert_rowid()')[0].values[0][0]);
+            }
+
+            const insert = db.prepare(`
+                INSERT INTO games (snapshot_id, app_id, name, playtime_hours, last_played, my_achievements, total_achievements,
+                    completion_rate, status, release_date, developers, publishers, genres, metacritic, platforms)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+            for (const record of records) {
+                const row = toExportRow(record);
+                insert.run([
+                    snapshotId, row.steamAppID, row.name, row.playtimeHours,
+                    record.game.lastPlayed || null, row.myAchievements, row.totalAchievements, row.completionRate, row.status,
+                    row.releaseDate || null, row.developers || null, row.publishers || null, row.genres || null,
+                    row.metacritic, row.platforms || null,
+                ]);
+            }
+            insert.free();
+
+            db.run('COMMIT');
+            fs.writeFileSync(filePath, Buffer.from(db.export()));
+        } finally {
+            db.close();
+        }
+
+        return filePath;
+    },
+};
@@ -0,0 +1,85 @@
+/*
+    Steam Library Scraper - Export Runner
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { csvExporter } from './export-csv';
+import { htmlExporter } from './export-html';
+import { jsonlExporter } from './export-jsonl';
+import { sqliteExporter } from './export-sqlite';
+import { ExportFormat, Exporter, ExportRecord } from './exporter';
+import { describeSnapshot, findLatestSnapshot, loadSnapshot, RAW_DATA_DIR } from './snapshots';
+import { loadStatusClassifier } from './status-rules';
+import { loadStoreCache, lookupStoreDetails } from './store-cache';
+
+// --- CONFIGURATION ---
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+export const EXPORTS_DIR = path.join(ROOT_DIR, 'output', 'exports');
+
+export const EXPORTERS: Record<ExportFormat, Exporter> = {
+    csv: csvExporter,
+    jsonl: jsonlExporter,
+    sqlite: sqliteExporter,
+    html: htmlExporter,
+};
+
+export const EXPORT_FORMATS = Object.keys(EXPORTERS) as ExportFormat[];
+
+// --- INTERFACES ---
+export interface ExportOptions {
+    formats: ExportFormat[];
+    // Snapshot to export, defaults to the latest one in output/raw_data
+    inputFile?: string;
+    // Defaults to output/exports
+    outputDir?: string;
+    quiet?: boolean;
+}
+
+// --- MAIN FUNCTION ---
+export async function runExport(options: ExportOptions): Promise<boolean> {
+    const log = (...args: unknown[]) => { if (!options.quiet) console.log(...args); };
+    const outputDir = options.outputDir ? path.resolve(options.outputDir) : EXPORTS_DIR;
+
+    const jsonPath = options.inputFile ? path.resolve(options.inputFile) : findLatestSnapshot(RAW_DATA_DIR);
+    if (!jsonPath || !fs.existsSync(jsonPath)) {
+        console.error(jsonPath ? `Input file not found: ${jsonPath}` : `No JSON files found in ${RAW_DATA_DIR}. Please run the scraper first.`);
+        return false;
+    }
+
+    log(`\nExporting ${path.basename(jsonPath)}...`);
+
+    // Exports never go online: store data is whatever the Markdown conversion has cached so far
+    const storeCache = loadStoreCache();
+    const statusClassifier = loadStatusClassifier();
+    const records: ExportRecord[] = [];
+    for (const game of loadSnapshot(jsonPath)) {
+        const lookup = await lookupStoreDetails(storeCache, game.steamAppID, 'offline');
+        records.push({ game, storeData: lookup.data, status: statusClassifier.classify(game, lookup.data) });
+    }
+
+    const missingStoreData = records.filter(r => !r.storeData).length;
+    if (missingStoreData > 0) {
+        log(`Note: ${missingStoreData} games have no cached store data. Generate Markdown files first to fill in genres, developers, etc.`);
+    }
+
+    if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    const context = { snapshot: describeSnapshot(jsonPath), outputDir };
+    let ok = true;
+    for (const format of options.formats) {
+        try {
+            const filePath = await EXPORTERS[format].export(records, context);
+            log(`${format.toUpperCase()}: ${filePath}`);
+        } catch (e) {
+            console.error(`${format.toUpperCase()} export failed: ${(e as Error).message}`);
+            ok = false;
+        }
+    }
+
+    return ok;
+}
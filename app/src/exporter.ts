@@ -0,0 +1,87 @@
+/*
+    Steam Library Scraper - Exporters
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { GameData } from './game-data';
+import { SnapshotInfo } from './snapshots';
+import { SteamStoreData } from './steam-store';
+
+// --- INTERFACES ---
+export type ExportFormat = 'csv' | 'jsonl' | 'sqlite' | 'html';
+
+/** One game as every exporter receives it. Store data is null when it was never fetched (or the app is delisted). */
+export interface ExportRecord {
+    game: GameData;
+    storeData: SteamStoreData | null;
+    // From the status rules in the settings, the same status the notes get
+    status: string;
+}
+
+export interface ExportContext {
+    // The snapshot the records come from
+    snapshot: SnapshotInfo;
+    outputDir: string;
+}
+
+export interface Exporter {
+    readonly format: ExportFormat;
+    readonly description: string;
+    /** Writes the export and returns the path of the written file. */
+    export(records: ExportRecord[], context: ExportContext): Promise<string>;
+}
+
+/** The flat, spreadsheet-friendly view of a record that the tabular exporters share. */
+export interface ExportRow {
+    name: string;
+    steamAppID: number;
+    playtimeHours: number;
+    lastPlayed: string;
+    myAchievements: number;
+    totalAchievements: number;
+    completionRate: number;
+    status: string;
+    releaseDate: string;
+    developers: string;
+    publishers: string;
+    genres: string;
+    metacritic: number | null;
+    platforms: string;
+}
+
+// Column order of ExportRow, used for headers
+export const EXPORT_COLUMNS: (keyof ExportRow)[] = [
+    'name', 'steamAppID', 'playtimeHours', 'lastPlayed', 'myAchievements', 'totalAchievements', 'completionRate',
+    'status', 'releaseDate', 'developers', 'publishers', 'genres', 'metacritic', 'platforms',
+];
+
+// --- HELPERS ---
+export function toExportRow({ game, storeData, status }: ExportRecord): ExportRow {
+    const platforms = storeData?.platforms
+        ? (Object.keys(storeData.platforms) as (keyof typeof storeData.platforms)[]).filter(p => storeData.platforms?.[p])
+        : [];
+
+    return {
+        name: game.name,
+        steamAppID: game.steamAppID,
+        playtimeHours: game.playtime || 0,
+        // ISO dates sort and import correctly everywhere
+        lastPlayed: game.lastPlayed ? new Date(game.lastPlayed * 1000).toISOString().split('T')[0] : "",
+        myAchievements: game.myAchievements,
+        totalAchievements: game.totalAchievements,
+        completionRate: game.totalAchievements > 0 ? Math.round((game.myAchievements / game.totalAchievements) * 100) : 0,
+        status,
+        releaseDate: storeData?.release_date?.date || "",
+        developers: storeData?.developers?.join(', ') || "",
+        publishers: storeData?.publishers?.join(', ') || "",
+        genres: storeData?.genres?.map(g => g.description).join(', ') || "",
+        metacritic: storeData?.metacritic?.score ?? null,
+        platforms: platforms.join(', '),
+    };
+}
+
+export function exportFileName(context: ExportContext, extension: string): string {
+    const base = context.snapshot.fileName.replace(/^SteamScrape_/, 'SteamLibrary_').replace(/\.json$/, '');
+    return `${base}.${extension}`;
+}
@@ -0,0 +1,78 @@
+/*
+    Steam Library Scraper - Shared Data Types
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+/** One row of the Steam games list, as written to the SteamScrape_*.json snapshots. */
+export interface GameData {
+    name: string;
+    steamAppID: number;
+    // Hours played, false when the game was never played
+    playtime: number | false;
+    // Exact minutes played, only known when the data came from the Steam Web API
+    playtimeMinutes?: number;
+    // Unix timestamp (seconds), false when never played
+    lastPlayed: number | false;
+    myAchievements: number;
+    totalAchievements: number;
+    // Only present when the scrape ran with achievement details enabled
+    achievements?: AchievementData[];
+}
+
+/** A single achievement of a game, as seen by the scraped account. */
+export interface AchievementData {
+    // Internal name used by the game, empty when the source doesn't expose it (community pages don't)
+    apiName: string;
+    displayName: string;
+    description: string;
+    iconUrl: string;
+    unlocked: boolean;
+    // Unix timestamp (seconds), false when still locked or unknown
+    unlockTime: number | false;
+}
+
+/** A store price as Steam shows it in the account's country, amounts in cents. */
+export interface PriceData {
+    currency: string;
+    initial: number;
+    final: number;
+    discountPercent: number;
+    // Ready to show, e.g. "59,99€"
+    initialFormatted: string;
+    finalFormatted: string;
+}
+
+/** One game on the wishlist, as written to the SteamWishlist_*.json files. */
+export interface WishlistItem {
+    name: string;
+    steamAppID: number;
+    // The order of the wishlist as you sorted it on Steam, lowest first
+    priority: number;
+    // Unix timestamp (seconds), false when Steam didn't say
+    dateAdded: number | false;
+    // null for free games and games that can't be bought (yet)
+    price: PriceData | null;
+}
+
+/** A game played in the last two weeks, as written to the SteamRecent_*.json files. */
+export interface RecentGame {
+    name: string;
+    steamAppID: number;
+    playtime2WeeksHours: number;
+    // Hours played in total
+    playtimeHours: number;
+}
+
+/** A review the account wrote, as written to the SteamReviews_*.json files. */
+export interface ReviewData {
+    name: string;
+    steamAppID: number;
+    recommended: boolean;
+    // Playtime when the review was last changed, as shown with the review
+    hoursOnRecord: number;
+    // Unix timestamp (seconds), false when the date couldn't be read
+    posted: number | false;
+    text: string;
+    url: string;
+}
@@ -0,0 +1,28 @@
+/*
+    Steam Library Scraper - Game Sources
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { GameData } from './game-data';
+
+/**
+ * dom: scrape the steamcommunity.com games page in a real browser (steam-library-scraper.spec.ts)
+ * api: ask the official Steam Web API, needs an API key
+ */
+export type SourceName = 'dom' | 'api';
+
+export const SOURCE_NAMES: SourceName[] = ['dom', 'api'];
+
+export function isSourceName(value: unknown): value is SourceName {
+    return SOURCE_NAMES.some(name => name === value);
+}
+
+/**
+ * Anything that can produce the list of owned games for an account.
+ * Every source has to return the exact same GameData shape, so snapshots stay comparable.
+ */
+export interface GameSource {
+    readonly name: SourceName;
+    fetchGames(accountID: string): Promise<GameData[]>;
+}
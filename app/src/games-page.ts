@@ -0,0 +1,139 @@
+/*
+    Steam Library Scraper - Games Page
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { expect, type Page } from '@playwright/test';
+import { toAchievementData } from './achievements';
+import { AchievementData } from './game-data';
+import { collectRawRows, FIELD_LABELS, GAME_COUNT_PATTERN, mergeRawRows, parseGameCount, parseGameRows, ParsedRows, RawGameRow } from './row-parser';
+import { ScrapeCompleteness } from './snapshots';
+
+// --- CONFIGURATION ---
+// Scrolling stops after this many rounds at the bottom of the page without new games
+const SCROLL_IDLE_ROUNDS = 3;
+const SCROLL_WAIT_MS = 750;
+
+// --- INTERFACES ---
+export interface ScrollOptions {
+    // Pause between scroll steps, Steam needs a moment to load the next batch
+    waitMs?: number;
+    idleRounds?: number;
+    quiet?: boolean;
+}
+
+export interface GamesListResult extends ParsedRows {
+    completeness: ScrapeCompleteness;
+    // The language of the Steam page ("en", "de"), the row parser depends on it
+    locale: string | null;
+}
+
+// --- PAGE HELPERS ---
+export function gamesPageUrl(profileUrl: string): string {
+    return `${profileUrl}/games/?tab=all`;
+}
+
+// The "All Games (N)" tab: the tab with the number of games, so it works in every language of the Steam UI.
+// Other tabs on the page (the profile's navigation, "Perfect Games") have no number
+const allGamesTab = (page: Page) => page.getByRole('tab').filter({ hasText: GAME_COUNT_PATTERN }).first();
+
+// Every game is a row with its capsule image, the "Sort by" buttons have none
+const gameRows = (page: Page) => page.locator('div[role="button"]').filter({ has: page.locator('img') });
+
+/** Waits until the games list shows, by its count or its first game: only a logged in session gets to see it. */
+export async function waitForGamesList(page: Page, timeout: number): Promise<boolean> {
+    try {
+        await expect(allGamesTab(page).or(gameRows(page)).first()).toBeVisible({ timeout });
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+/** The total from the "All Games (N)" tab, null when Steam doesn't show one. */
+export async function readExpectedCount(page: Page): Promise<number | null> {
+    try {
+        const text = await allGamesTab(page).textContent({ timeout: 5000 });
+        return parseGameCount(text || "");
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Scrolls one screen at a time and collects the rows on the way. The list can be virtualized
+ * (rows that scroll out of view are removed), so pressing End and counting afterwards would miss games.
+ * Stops when the expected count is reached, or when the bottom is reached and the list stopped growing.
+ */
+export async function loadAllRows(page: Page, expectedCount: number | null, options: ScrollOptions = {}): Promise<RawGameRow[]> {
+    const waitMs = options.waitMs !== undefined ? options.waitMs : SCROLL_WAIT_MS;
+    const maxIdleRounds = options.idleRounds || SCROLL_IDLE_ROUNDS;
+    const log = (...args: unknown[]) => { if (!options.quiet) console.log(...args); };
+    const write = (text: string) => { if (!options.quiet) process.stdout.write(text); };
+
+    log(expectedCount !== null
+        ? `Scrolling to load all ${expectedCount} games...`
+        : "Scrolling to load all games...");
+
+    const rows = gameRows(page);
+    const collected = new Map<string, RawGameRow>();
+    let idleRounds = 0;
+
+    while (idleRounds < maxIdleRounds) {
+        const added = mergeRawRows(collected, await rows.evaluateAll(collectRawRows, FIELD_LABELS));
+        if (expectedCount !== null && collected.size >= expectedCount) break;
+
+        const atBottom = await page.evaluate(() => {
+            const before = window.scrollY;
+            window.scrollBy(0, Math.round(window.innerHeight * 0.8));
+            return window.scrollY === before;
+        });
+
+        // Only count rounds where nothing happened at all, Steam may still be loading the next batch
+        idleRounds = added === 0 && atBottom ? idleRounds + 1 : 0;
+        write(`\rLoaded ${collected.size}${expectedCount !== null ? `/${expectedCount}` : ""} games...`);
+        await page.waitForTimeout(waitMs);
+    }
+
+    log("");
+    return Array.from(collected.values());
+}
+
+/** Loads the whole games list of an open games page and parses it. */
+export async function scrapeGamesList(page: Page, options: ScrollOptions = {}): Promise<GamesListResult> {
+    const expectedCount = await readExpectedCount(page);
+    const rawRows = await loadAllRows(page, expectedCount, options);
+
+    // The browser only collects raw text, parsing happens in row-parser.ts where it can be tested
+    const parsed = parseGameRows(rawRows);
+    const locale = await page.evaluate(() => document.documentElement.lang);
+
+    return {
+        ...parsed,
+        completeness: {
+            complete: expectedCount !== null ? rawRows.length >= expectedCount : null,
+            expectedCount,
+            scrapedCount: rawRows.length,
+        },
+        locale: locale || null,
+    };
+}
+
+export function achievementsPageUrl(profileUrl: string, appId: number): string {
+    return `${profileUrl}/stats/${appId}/?tab=achievements`;
+}
+
+/** Reads the achievements page that is currently open. */
+export async function scrapeAchievementDetails(page: Page): Promise<AchievementData[]> {
+    const rows = await page.locator('.achieveRow').evaluateAll((rowDivs: HTMLElement[]) => {
+        return rowDivs.map((row: HTMLElement) => ({
+            displayName: row.querySelector('.achieveTxt h3')?.textContent?.trim() || "",
+            description: row.querySelector('.achieveTxt h5')?.textContent?.trim() || "",
+            iconUrl: row.querySelector('.achieveImgHolder img')?.getAttribute('src') || "",
+            unlockText: row.querySelector('.achieveUnlockTime')?.textContent?.trim() || "",
+        }));
+    });
+
+    return rows.map(row => toAchievementData(row));
+}
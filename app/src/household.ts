@@ -0,0 +1,137 @@
+/*
+    Steam Library Scraper - Household Library
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { EXPORTS_DIR } from './export';
+import { csvValue } from './export-csv';
+import { GameData } from './game-data';
+import { SteamProfile } from './profiles';
+import { getTimestamp, listSnapshots, loadSnapshotFile, RAW_DATA_DIR } from './snapshots';
+
+// --- INTERFACES ---
+/** The latest scraped library of one profile. */
+export interface ProfileLibrary {
+    profile: string;
+    games: GameData[];
+}
+
+/** One game of the household, with every profile that owns it. */
+export interface HouseholdGame {
+    steamAppID: number;
+    name: string;
+    // Profile names, in the order of the settings
+    owners: string[];
+    totalPlaytimeHours: number;
+    // Only profiles that own the game are listed
+    playtimeByProfile: Record<string, number>;
+    // Unix timestamp (seconds) of the most recent session of anyone, false when nobody played it
+    lastPlayed: number | false;
+}
+
+export interface HouseholdOptions {
+    profiles: SteamProfile[];
+    // Defaults to output/exports
+    outputDir?: string;
+    // Only changed by tests, which use their own snapshots
+    rawDataDir?: string;
+    quiet?: boolean;
+}
+
+// --- HELPERS ---
+const roundHours = (hours: number) => Math.round(hours * 10) / 10;
+
+/** Combines the libraries by steamAppID, sorted by name. */
+export function buildHouseholdLibrary(libraries: ProfileLibrary[]): HouseholdGame[] {
+    const games = new Map<number, HouseholdGame>();
+
+    for (const { profile, games: library } of libraries) {
+        for (const game of library) {
+            let entry = games.get(game.steamAppID);
+            if (!entry) {
+                entry = { steamAppID: game.steamAppID, name: game.name, owners: [], totalPlaytimeHours: 0, playtimeByProfile: {}, lastPlayed: false };
+                games.set(game.steamAppID, entry);
+            }
+            // The same account can't own a game twice, but two profiles may point at one account
+            if (entry.owners.includes(profile)) continue;
+
+            const hours = game.playtime || 0;
+            entry.owners.push(profile);
+            entry.playtimeByProfile[profile] = hours;
+            entry.totalPlaytimeHours = roundHours(entry.totalPlaytimeHours + hours);
+            if (game.lastPlayed && (!entry.lastPlayed || game.lastPlayed > entry.lastPlayed)) entry.lastPlayed = game.lastPlayed;
+        }
+    }
+
+    return Array.from(games.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function renderHouseholdCsv(games: HouseholdGame[], profiles: string[]): string {
+    const header = ['name', 'steamAppID', 'owners', 'ownerCount', 'totalPlaytimeHours', ...profiles.map(p => `${p} hours`), 'lastPlayed'];
+    const rows = games.map(game => [
+        game.name,
+        game.steamAppID,
+        game.owners.join(', '),
+        game.owners.length,
+        game.totalPlaytimeHours,
+        ...profiles.map(p => p in game.playtimeByProfile ? game.playtimeByProfile[p] : null),
+        game.lastPlayed ? new Date(game.lastPlayed * 1000).toISOString().split('T')[0] : "",
+    ]);
+
+    const lines = [header, ...rows].map(row => row.map(csvValue).join(','));
+    // Same BOM as the CSV export, so Excel reads the file as UTF-8
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+// --- MAIN FUNCTION ---
+/** Writes the household library (CSV and JSON) from the latest scrape of every profile. */
+export async function runHouseholdExport(options: HouseholdOptions): Promise<boolean> {
+    const log = (...args: unknown[]) => { if (!options.quiet) console.log(...args); };
+    const rawDataDir = options.rawDataDir || RAW_DATA_DIR;
+    const outputDir = options.outputDir ? path.resolve(options.outputDir) : EXPORTS_DIR;
+
+    log(`\nBuilding the household library of ${options.profiles.map(p => p.name).join(', ')}...`);
+
+    const libraries: ProfileLibrary[] = [];
+    const sources: { name: string; accountID: string; snapshot: string }[] = [];
+    for (const profile of options.profiles) {
+        const latest = listSnapshots(rawDataDir, profile.accountID)[0];
+        if (!latest) {
+            log(`WARNING: No scrape of ${profile.name} (${profile.accountID}) found, their games are left out.`);
+            continue;
+        }
+
+        const snapshot = loadSnapshotFile(latest.path);
+        if (snapshot.complete === false) {
+            log(`WARNING: The latest scrape of ${profile.name} is incomplete (${snapshot.scrapedCount} of ${snapshot.expectedCount} games).`);
+        }
+        libraries.push({ profile: profile.name, games: snapshot.games });
+        sources.push({ name: profile.name, accountID: profile.accountID, snapshot: latest.fileName });
+    }
+
+    if (libraries.length === 0) {
+        console.error(`No scrapes found in ${rawDataDir} for any profile. Please run the scraper first.`);
+        return false;
+    }
+
+    const games = buildHouseholdLibrary(libraries);
+
+    if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    const baseName = `SteamHousehold_${getTimestamp()}`;
+    const profileNames = libraries.map(l => l.profile);
+    fs.writeFileSync(path.join(outputDir, `${baseName}.csv`), renderHouseholdCsv(games, profileNames), 'utf-8');
+    fs.writeFileSync(path.join(outputDir, `${baseName}.json`), JSON.stringify({ profiles: sources, games }, null, 2), 'utf-8');
+
+    const shared = games.filter(g => g.owners.length > 1).length;
+    log(`${games.length} different games, ${shared} owned by more than one profile.`);
+    log(`\nHousehold library saved to:`);
+    log(outputDir);
+    log(`Filename: ${baseName}.csv / ${baseName}.json`);
+    return true;
+}
@@ -6,255 +6,635 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as https from 'https';
+import { ExportRecord } from './exporter';
+import { GameData, PriceData, WishlistItem } from './game-data';
+import { writeLibraryStats } from './library-stats';
+import { STORE_CONTEXT_VARIABLES, storeContext } from './note-context';
+import { DEFAULT_IMAGE_SETTINGS, ImageSettings, prepareImages } from './note-images';
+import {
+    absoluteNotePath, ARCHIVE_FOLDER, archiveOrphan, findOrphans, loadNoteManifest, ManifestEntry, ManifestKind, manifestNoteNames,
+    NoteRequest, planNotes, renameNote, saveNoteManifest,
+} from './note-manifest';
+import { combineParts, describeChange, GAME_NOTE_PARTS, GAME_STORE_PARTS, mergeNote, OwnedParts, PREAMBLE_PARTS } from './note-merge';
+import {
+    buildEntityNotes, buildLibraryIndex, createNoteNamer, DEFAULT_DEVELOPER_TEMPLATE, DEFAULT_FILE_NAMES, DEFAULT_GENRE_TEMPLATE,
+    DEFAULT_INDEX_TEMPLATE, DEFAULT_PUBLISHER_TEMPLATE, ENTITY_FOLDERS, ENTITY_NOTE_PARTS, ENTITY_TEMPLATE_VARIABLES, entityLinks,
+    INDEX_NOTE_NAME, INDEX_TEMPLATE_VARIABLES, loadTemplateSource, NOTE_TYPES, NoteType, readFileNameSettings, TEMPLATES_DIR,
+} from './note-templates';
+import { createRequestScheduler, DEFAULT_SCHEDULER_OPTIONS, SchedulerOptions } from './request-scheduler';
+import { loadPlayHistory, notePlayHistory, PLAY_HISTORY_DIR, writePlayHistory } from './play-history';
+import {
+    findWishlistLows, loadPriceHistory, lowestPrice, needsPriceCheck, PRICE_HISTORY_DIR, PricePoint, recordPrice,
+} from './price-history';
+import { fetchPrices } from './scrape-targets';
+import { findLatestSnapshot, loadSnapshotFile, RAW_DATA_DIR } from './snapshots';
+import { createStatusClassifier, LEGACY_STATUSES, StatusClassifier } from './status-rules';
+import { isCountryCode, SteamStoreData, toPriceData } from './steam-store';
+import {
+    DEFAULT_TTL_DAYS, loadStoreCache, loadStoreFailures, lookupStoreDetails, needsFetch, saveStoreCache, saveStoreFailures,
+    StoreFailure, storeFailuresPath, StoreLookup, StoreMode,
+} from './store-cache';
+import { compileTemplate, CompiledTemplate, formatDuration, validateTemplate } from './template-engine';
+import {
+    DEFAULT_WISHLIST_TEMPLATE, loadWishlist, WISHLIST_FOLDER, WISHLIST_NOTE_PARTS, WISHLIST_STATUS, WISHLIST_STORE_PARTS,
+    WISHLIST_TEMPLATE_VARIABLES, wishlistContext,
+} from './wishlist-notes';
 
 // --- CONFIGURATION ---
 const ROOT_DIR = path.resolve(__dirname, '..', '..');
-const INPUT_DIR = path.join(ROOT_DIR, 'output', 'raw_data');
-const OUTPUT_DIR = path.join(ROOT_DIR, 'output', 'obsidian_library');
+const INPUT_DIR = RAW_DATA_DIR;
+export const NOTES_DIR = path.join(ROOT_DIR, 'output', 'obsidian_library');
 const SETTINGS_PATH = path.join(ROOT_DIR, 'scraper-settings.json');
-const DELAY_MS = 1200; 
+// Save the store cache every N network lookups so an interrupted run keeps its progress
+const CACHE_SAVE_INTERVAL = 25;
+// Failed lookups printed at the end of a run, the report file has all of them
+const MAX_LISTED_FAILURES = 20;
 
 // --- INTERFACES ---
-interface GameData {
-    name: string;
-    steamAppID: number;
-    playtime: number | false;
-    lastPlayed: number | false;
-    myAchievements: number;
-    totalAchievements: number;
+/**
+ * merge: update only the stats the tool owns (see note-merge.ts), keep everything the user wrote
+ * overwrite: regenerate the whole note from the template
+ */
+export type UpdateMode = 'merge' | 'overwrite';
+
+// What happened to the notes of one kind in a run
+interface NoteCounts {
+    created: number;
+    updated: number;
+    unchanged: number;
+    overwritten: number;
 }
 
-interface SteamStoreData {
-    name: string;
-    steam_appid: number;
-    header_image?: string;
-    short_description?: string;
-    detailed_description?: string;
-    developers?: string[];
-    publishers?: string[];
-    release_date?: { 
-        coming_soon: boolean; 
-        date: string; 
-    };
-    metacritic?: { 
-        score: number; 
-        url?: string; 
-    };
-    categories?: { 
-        id: number; 
-        description: string; 
-    }[];
-    genres?: { 
-        id: string; 
-        description: string; 
-    }[];
-    platforms?: {
-        windows: boolean;
-        mac: boolean;
-        linux: boolean;
-    };
-    controller_support?: "full" | "partial" | "none";
-    required_age?: number | string;
+export interface ConversionOptions {
+    // How store data is looked up, see StoreMode in store-cache.ts
+    storeMode?: StoreMode;
+    // Snapshot to convert, defaults to the latest one in output/raw_data
+    inputFile?: string;
+    // Wishlist to convert, defaults to the latest one of the snapshot's account next to the snapshot
+    wishlistFile?: string;
+    // Folder for the notes, defaults to output/obsidian_library
+    outputDir?: string;
+    // What happens to notes that already exist, see UpdateMode
+    updateMode?: UpdateMode;
+    // Show what would change without writing any note
+    dryRun?: boolean;
+    // Only convert the games whose store lookup failed last time (see store-failures.json), and fetch them again
+    retryFailed?: boolean;
+    // Only convert these games and wishlisted games (the scheduled runs pass the ones that changed)
+    appIDs?: number[];
+    // Move the notes of games that left the library (or the wishlist) to the Archive folder
+    archiveOrphans?: boolean;
+    // Only print errors
+    quiet?: boolean;
+    // The options below are only changed by tests, so they never touch the real settings, cache or Steam
+    settingsPath?: string;
+    templatesDir?: string;
+    cachePath?: string;
+    priceHistoryDir?: string;
+    playHistoryDir?: string;
+    storeBaseUrl?: string;
+    // Overrides storeRequests from the settings
+    storeRequests?: Partial<SchedulerOptions>;
 }
 
 // --- HELPERS ---
-function sanitizeFilename(name: string): string {
-    return name.replace(/[<>:"/\\|?*]/g, '').trim();
-}
-
-function findLatestJsonFile(dir: string): string | null {
-    if (!fs.existsSync(dir)) return null;
-    
-    const files = fs.readdirSync(dir)
-        .filter(f => f.endsWith('.json') && f.includes('SteamScrape'))
-        .map(f => ({ name: f, time: fs.statSync(path.join(dir, f)).mtime.getTime() }))
-        .sort((a, b) => b.time - a.time);
-
-    return files.length > 0 ? path.join(dir, files[files.length - 1].name) : null;
-}
+const plural = (count: number, word: string) => count === 1 ? `1 ${word}` : `${count} ${word}s`;
+
+const describeCounts = (counts: NoteCounts) => `${counts.created} created, ${counts.updated} updated, ${counts.unchanged} up to date`
+    + (counts.overwritten > 0 ? `, ${counts.overwritten} overwritten` : "");
+
+/** Takes "images" from the settings, anything else is reported and left at its default. */
+function readImageSettings(value: unknown): ImageSettings {
+    const result = { ...DEFAULT_IMAGE_SETTINGS };
+    if (value === undefined) return result;
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        console.error(`"images" in your settings must be an object like { "download": true }, using the defaults.`);
+        return result;
+    }
 
-function fetchSteamDetails(appId: number): Promise<SteamStoreData | null> {
-    return new Promise((resolve) => {
-        if (!appId || appId === 0) {
-            resolve(null);
-            return;
+    const images = value as Record<string, unknown>;
+    for (const key of Object.keys(images)) {
+        if (!(key in DEFAULT_IMAGE_SETTINGS)) console.error(`Unknown "images" setting "${key}", it is ignored.`);
+    }
+    if (images.download !== undefined) {
+        if (typeof images.download === 'boolean') result.download = images.download;
+        else console.error(`"images.download" must be true or false, images are not downloaded.`);
+    }
+    if (images.folder !== undefined) {
+        // Inside the notes folder, Obsidian only shows what is in the vault
+        if (typeof images.folder === 'string' && images.folder.trim() && !path.isAbsolute(images.folder) && !images.folder.split(/[/\\]/).includes('..')) {
+            result.folder = images.folder.trim();
+        } else {
+            console.error(`"images.folder" must be a folder inside your notes folder, using "${DEFAULT_IMAGE_SETTINGS.folder}".`);
         }
-
-        const url = `https://store.steampowered.com/api/appdetails?appids=${appId}`;
-
-        https.get(url, (res) => {
-            let data = '';
-            res.on('data', (chunk) => data += chunk);
-            res.on('end', () => {
-                try {
-                    const json = JSON.parse(data);
-                    if (json[appId] && json[appId].success) {
-                        resolve(json[appId].data);
-                    } else {
-                        resolve(null);
-                    }
-                } catch (e) {
-                    resolve(null);
-                }
-            });
-        }).on('error', (err) => {
-            resolve(null);
-        });
-    });
-}
-
-function formatDuration(ms: number): string {
-    const totalSeconds = Math.ceil(ms / 1000);
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = totalSeconds % 60;
-
-    const minStr = minutes === 1 ? "1 minute" : `${minutes} minutes`;
-    const secStr = seconds === 1 ? "1 second" : `${seconds} seconds`;
-
-    return `${minStr} and ${secStr}`;
+    }
+    if (images.screenshots !== undefined) {
+        if (typeof images.screenshots === 'number' && Number.isInteger(images.screenshots) && images.screenshots >= 0) result.screenshots = images.screenshots;
+        else console.error(`"images.screenshots" must be a whole number of at least 0, using ${DEFAULT_IMAGE_SETTINGS.screenshots}.`);
+    }
+    return result;
 }
 
-const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+/** Takes the numbers from "storeRequests" in the settings, anything else is reported and left at its default. */
+function readStoreRequestSettings(value: unknown): Partial<SchedulerOptions> {
+    if (value === undefined) return {};
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        console.error(`"storeRequests" in your settings must be an object like { "concurrency": 3 }, using the defaults.`);
+        return {};
+    }
 
-/**
- * Renders a template string by evaluating expressions inside ${...}
- * @param template The string containing ${jsCode}
- * @param context An object containing variables available to the template
- */
-function renderTemplate(template: string, context: any): string {
-    return template.replace(/\$\{([\s\S]+?)\}/g, (match, code) => {
-        try {
-            // Create a function that has access to the keys of the context object
-            const keys = Object.keys(context);
-            const values = Object.values(context);
-            
-            // "code" is the string inside the brackets, e.g., "game.name"
-            const func = new Function(...keys, `return ${code};`);
-            
-            // Execute the function with the values
-            const result = func(...values);
-            return result === undefined || result === null ? "" : String(result);
-        } catch (e) {
-            console.error(`\nTemplate Error evaluating: "${code}"`);
-            return match; // Return the raw ${...} string if it fails so user can debug
+    const result: Partial<SchedulerOptions> = {};
+    for (const [key, setting] of Object.entries(value)) {
+        if (!(key in DEFAULT_SCHEDULER_OPTIONS)) {
+            console.error(`Unknown "storeRequests" setting "${key}", it is ignored.`);
+        } else if (typeof setting !== 'number' || !isFinite(setting) || setting < 0) {
+            console.error(`"storeRequests.${key}" must be a number of at least 0, using the default.`);
+        } else {
+            result[key as keyof SchedulerOptions] = setting;
         }
-    });
+    }
+    return result;
 }
 
+// Old templates were JavaScript inside ${...}, which could run any code
+const LEGACY_TEMPLATE_PATTERN = /\$\{[\s\S]*?\}/;
+
+// Everything a template can use, see the README for what each one contains
+const TEMPLATE_VARIABLES = [
+    'game', 'storeData', 'playtime', 'completionRate', ...STORE_CONTEXT_VARIABLES, 'entityLinks',
+    'achievements', 'unlockedAchievements', 'lockedAchievements', 'status', 'price', 'lowestPrice', 'playHistory',
+];
+
+// What each kind of note's template can use
+const NOTE_TEMPLATE_VARIABLES: Record<NoteType, string[]> = {
+    game: TEMPLATE_VARIABLES,
+    wishlist: WISHLIST_TEMPLATE_VARIABLES,
+    developer: ENTITY_TEMPLATE_VARIABLES,
+    publisher: ENTITY_TEMPLATE_VARIABLES,
+    genre: ENTITY_TEMPLATE_VARIABLES,
+    index: INDEX_TEMPLATE_VARIABLES,
+};
+
 // --- DEFAULT TEMPLATE (Fallback) ---
-const DEFAULT_TEMPLATE = `---
-title: "[[${"game.name".replace(/"/g, '\\"')}]]"
-releaseDate: \${releaseDateStr}
+export const DEFAULT_TEMPLATE = `---
+title: {{ game.name | wikilink | quote }}
+releaseDate: {{ releaseDateStr }}
 developers:
-\${storeData?.developers?.map(d => toWikiLink(d)).join('\\n') || ""}
+{% for link in entityLinks.developers %}
+  - {{ link | quote }}
+{% endfor %}
 publishers:
-\${storeData?.publishers?.map(p => toWikiLink(p)).join('\\n') || ""}
+{% for link in entityLinks.publishers %}
+  - {{ link | quote }}
+{% endfor %}
 genres:
-\${storeData?.genres?.map(g => toWikiLink(g.description)).join('\\n') || ""}
-url: https://store.steampowered.com/app/\${game.steamAppID}
-released: \${isReleased}
-metacriticRating: \${storeData?.metacritic?.score || 0}
-played: \${playtime > 0}
-playtimeHours: \${playtime}
-achievementsTotal: \${game.totalAchievements}
-achievementsUnlocked: \${game.myAchievements}
-completionRate: \${completionRate}%
+{% for link in entityLinks.genres %}
+  - {{ link | quote }}
+{% endfor %}
+features:
+{% for feature in steamFeatures %}
+  - {{ feature | quote }}
+{% endfor %}
+url: https://store.steampowered.com/app/{{ game.steamAppID }}
+released: {{ isReleased }}
+metacriticRating: {{ storeData.metacritic.score | default: 0 }}
+recommendations: {{ recommendations }}
+played: {{ playtime > 0 }}
+playtimeHours: {{ playtime }}
+achievementsTotal: {{ game.totalAchievements }}
+achievementsUnlocked: {{ game.myAchievements }}
+completionRate: {{ completionRate }}%
 personalRating: 0
 type: game
 platform: steam
-id: \${game.steamAppID}
+id: {{ game.steamAppID }}
 tags: 
   - steamgame
-  - \${playtime > 0 ? (playtime > 2 ? "status/playing" : "status/backlog") : "status/wishlist"}
-image: \${storeData?.header_image || ""}
+  - status/{{ status }}
+image: {{ coverImage }}
 ---
-![Cover](\${storeData?.header_image || ""})
+![Cover]({{ coverImage }})
 
 > [!summary] Description
-> \${summary}
+> {{ summary }}
 
 # My Stats
-- **Status**: \${playtime > 0 ? (playtime > 2 ? "Playing" : "Backlog") : "Wishlist/Backlog"}
-- **Playtime**: \${formatDuration(playtime * 3600000)} (\${playtime} hours)
-- **Last Played**: \${game.lastPlayed ? new Date(Number(game.lastPlayed) * 1000).toLocaleDateString() : "Never"}
-- **Completion**: \${completionRate}% (\${game.myAchievements}/\${game.totalAchievements})
+- **Status**: {{ status | capitalize }}
+- **Playtime**: {{ playtime | duration }} ({{ playtime }} hours)
+- **Last Played**: {{ game.lastPlayed | date | default: "Never" }}
+- **Completion**: {{ completionRate }}% ({{ game.myAchievements }}/{{ game.totalAchievements }})
+
+# Play History
+{% if playHistory.weeks %}
+{{ playHistory.totalHours }} hours played since {{ playHistory.since }}.
+
+| Week of | Hours |
+| --- | --- |
+{% for week in playHistory.weeks %}
+| {{ week.start }} | {{ week.hours }} |
+{% endfor %}
+{% else %}
+No playtime recorded between scrapes yet.
+{% endif %}
+{% for reset in playHistory.resets %}
+- On {{ reset.date }} Steam lowered the playtime from {{ reset.fromHours }} to {{ reset.toHours }} hours, it counts on from there.
+{% endfor %}
+{% for gap in playHistory.gaps %}
+- {{ gap.hours }} hours were played between {{ gap.from }} and {{ gap.to }}{% if gap.missing %}, while the game wasn't in the scrapes{% endif %}, they are counted on the day it was last played.
+{% endfor %}
+{% if achievements %}
+
+# Achievements
+{% for achievement in lockedAchievements %}
+- [ ] **{{ achievement.displayName }}**{% if achievement.description %}: {{ achievement.description }}{% endif %}
+{% endfor %}
+{% for achievement in unlockedAchievements %}
+- [x] **{{ achievement.displayName }}**{% if achievement.description %}: {{ achievement.description }}{% endif %}
+{% endfor %}
+{% endif %}
+{% if storeData %}
+
+# Game Info
+- **Features**: {{ steamFeatures | join | default: "None" }}
+- **Languages**: {{ languages | join | default: "Unknown" }}{% if audioLanguages %} (full audio: {{ audioLanguages | join }}){% endif %}
+- **Recommendations**: {{ recommendations }}
+{% if dlc %}
+- **DLC**: {{ dlc.length }}
+{% endif %}
+{% endif %}
+{% if screenshots %}
+
+# Screenshots
+{% for screenshot in screenshots %}
+![Screenshot {{ loop.index }}]({{ screenshot }})
+{% endfor %}
+{% endif %}
 
 # Links
-- [Steam Store](https://store.steampowered.com/app/\${game.steamAppID})
-- [ProtonDB (Linux/Deck Compatibility)](https://www.protondb.com/app/\${game.steamAppID})
-- [SteamDB](https://steamdb.info/app/\${game.steamAppID}/)
+{% if website %}
+- [Official Website]({{ website }})
+{% endif %}
+- [Steam Store](https://store.steampowered.com/app/{{ game.steamAppID }})
+- [ProtonDB (Linux/Deck Compatibility)](https://www.protondb.com/app/{{ game.steamAppID }})
+- [SteamDB](https://steamdb.info/app/{{ game.steamAppID }}/)
 `;
 
+// The default of every kind of note, `npm start -- templates` copies them to the templates folder
+export const DEFAULT_TEMPLATES: Record<NoteType, string> = {
+    game: DEFAULT_TEMPLATE,
+    wishlist: DEFAULT_WISHLIST_TEMPLATE,
+    developer: DEFAULT_DEVELOPER_TEMPLATE,
+    publisher: DEFAULT_PUBLISHER_TEMPLATE,
+    genre: DEFAULT_GENRE_TEMPLATE,
+    index: DEFAULT_INDEX_TEMPLATE,
+};
+
+/**
+ * Parses the template and checks it before any game is processed.
+ * Returns null (after printing every problem with its line and column) when it can't be used.
+ * @param origin Where the template came from ("templates/game.md"), for the error message
+ */
+function prepareTemplate(source: string, variables: string[], origin: string): CompiledTemplate | null {
+    const errors = validateTemplate(source, variables);
+    if (errors.length > 0) {
+        console.error(`\nThe ${origin} has ${errors.length === 1 ? "a problem" : `${errors.length} problems`}:`);
+        for (const error of errors) console.error(`  ${error.message}`);
+        return null;
+    }
+    return compileTemplate(source, variables);
+}
+
 // --- MAIN FUNCTION ---
-export async function runConversion() {
-    console.log("\nStarting JSON to Markdown Conversion...");
+export async function runConversion(options: ConversionOptions = {}): Promise<boolean> {
+    const storeMode = options.storeMode || 'default';
+    const updateMode = options.updateMode || 'merge';
+    const dryRun = options.dryRun === true;
+    const outputDir = options.outputDir ? path.resolve(options.outputDir) : NOTES_DIR;
+    const settingsPath = options.settingsPath || SETTINGS_PATH;
+    const retryFailed = options.retryFailed === true;
+    const log = (...args: unknown[]) => { if (!options.quiet) console.log(...args); };
+    const write = (text: string) => { if (!options.quiet) process.stdout.write(text); };
+
+    log("\nStarting JSON to Markdown Conversion...");
+    if (storeMode === 'offline') log("Offline mode: only cached store data will be used.");
+    if (storeMode === 'refresh') log("Refresh mode: all store data will be fetched again.");
+    if (dryRun) log("Dry run: no notes will be written, store data is only taken from the cache.");
 
     // 1. Load Settings
-    let template = DEFAULT_TEMPLATE;
-    if (fs.existsSync(SETTINGS_PATH)) {
+    let settings: Record<string, unknown> = {};
+    let fileNames = DEFAULT_FILE_NAMES;
+    let entityNotes = true;
+    let cacheTtlDays = DEFAULT_TTL_DAYS;
+    let storeRequests: Partial<SchedulerOptions> = {};
+    let countryCode: string | null = null;
+    let imageSettings = DEFAULT_IMAGE_SETTINGS;
+    if (fs.existsSync(settingsPath)) {
         try {
-            const settings = JSON.parse(fs.readFileSync(SETTINGS_PATH, 'utf-8'));
-            if (settings.markdownTemplate) {
-                console.log("Loaded custom Markdown template from settings.");
-                template = settings.markdownTemplate;
+            settings = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
+            if (typeof settings.storeCacheTtlDays === 'number') {
+                cacheTtlDays = settings.storeCacheTtlDays;
+            }
+            fileNames = readFileNameSettings(settings.fileNames);
+            if (typeof settings.entityNotes === 'boolean') {
+                entityNotes = settings.entityNotes;
+            } else if (settings.entityNotes !== undefined) {
+                console.error(`"entityNotes" in your settings must be true or false, developer, publisher and genre notes are written.`);
+            }
+            storeRequests = readStoreRequestSettings(settings.storeRequests);
+            imageSettings = readImageSettings(settings.images);
+            if (isCountryCode(settings.storeCountry)) {
+                countryCode = settings.storeCountry;
+            } else if (settings.storeCountry !== undefined) {
+                console.error(`"storeCountry" in your settings must be a two letter country code like "NL", Steam picks the country this time.`);
             }
         } catch (e) {
             console.error("Could not read settings file. Using default template.");
         }
     }
 
+    const schedulerOptions: SchedulerOptions = { ...DEFAULT_SCHEDULER_OPTIONS, ...storeRequests, ...options.storeRequests };
+
+    // Templates come from the templates folder, the settings (game and wishlist notes) or the defaults
+    const templates = {} as Record<NoteType, CompiledTemplate>;
+    for (const type of NOTE_TYPES) {
+        let { source, origin } = loadTemplateSource(type, settings, DEFAULT_TEMPLATES[type], options.templatesDir || TEMPLATES_DIR);
+        if (type === 'game' && origin && !origin.endsWith('.md') && LEGACY_TEMPLATE_PATTERN.test(source)) {
+            console.error("Your markdownTemplate uses the old ${...} syntax, which is no longer supported because it could run any code.");
+            console.error("Using the default template. See \"Custom Templates\" in the README to convert yours.");
+            source = DEFAULT_TEMPLATE;
+            origin = null;
+        }
+        if (origin) log(`Loaded custom ${type} template from ${origin}.`);
+
+        const compiled = prepareTemplate(source, NOTE_TEMPLATE_VARIABLES[type], origin || `default ${type} template`);
+        if (!compiled) return false;
+        templates[type] = compiled;
+    }
+    const namer = createNoteNamer(fileNames);
+
+    let statusClassifier: StatusClassifier;
+    try {
+        statusClassifier = createStatusClassifier(settings);
+    } catch (e) {
+        console.error(`\nThe statusRules in your settings have a problem:\n  ${(e as Error).message}`);
+        return false;
+    }
+    // Only the status the converter wrote last is updated in existing notes, one you picked yourself stays.
+    // Notes from before the manifest kept it get any status the converter hands out replaced
+    const toolStatuses = [...LEGACY_STATUSES, ...statusClassifier.statuses];
+
     // 2. Load Data
-    const jsonPath = findLatestJsonFile(INPUT_DIR);
+    const jsonPath = options.inputFile ? path.resolve(options.inputFile) : findLatestSnapshot(INPUT_DIR);
     if (!jsonPath) {
         console.error(`No JSON files found in ${INPUT_DIR}. Please run the scraper first.`);
         if (!fs.existsSync(INPUT_DIR)) fs.mkdirSync(INPUT_DIR, { recursive: true });
-        return;
+        return false;
+    }
+    if (!fs.existsSync(jsonPath)) {
+        console.error(`Input file not found: ${jsonPath}`);
+        return false;
+    }
+    log(`Reading data from: ${jsonPath}`);
+
+    if (!dryRun && !fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    let games: GameData[];
+    // Games missing from an incomplete scrape haven't left the library
+    let complete: boolean | null;
+    try {
+        ({ games, complete } = loadSnapshotFile(jsonPath));
+    } catch (e) {
+        console.error(`Could not read ${jsonPath}: ${(e as Error).message}`);
+        return false;
     }
-    console.log(`Reading data from: ${jsonPath}`);
 
-    if (!fs.existsSync(OUTPUT_DIR)) {
-        fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+    // Every scrape of the account up to this one, for the play history of each game. Only built again when they changed
+    const playHistoryDir = options.playHistoryDir || PLAY_HISTORY_DIR;
+    const playHistory = loadPlayHistory(jsonPath, playHistoryDir);
+    const gameHistories = new Map(playHistory.games.map(history => [history.steamAppID, history]));
+
+    // Games you bought since the wishlist was scraped already get a note of their own
+    const wishlist = loadWishlist(jsonPath, options.wishlistFile);
+    const ownedIDs = new Set(games.map(g => g.steamAppID));
+    const wishlisted = wishlist.items.filter(item => !ownedIDs.has(item.steamAppID));
+    let wishlistItems = wishlisted;
+    if (wishlist.file) log(`Reading wishlist from: ${wishlist.file}`);
+
+    const storeCache = loadStoreCache(cacheTtlDays, options.cachePath, countryCode);
+    const priceHistoryDir = options.priceHistoryDir || PRICE_HISTORY_DIR;
+    const failuresPath = storeFailuresPath(storeCache);
+    const previousFailures = loadStoreFailures(failuresPath);
+    const failedIDs = new Set(previousFailures.map(f => f.steamAppID));
+    const allGames = games;
+    if (retryFailed) {
+        games = games.filter(g => failedIDs.has(g.steamAppID));
+        wishlistItems = wishlistItems.filter(item => failedIDs.has(item.steamAppID));
+        if (games.length + wishlistItems.length === 0) {
+            log("No failed store lookups to retry for this scrape.");
+            return true;
+        }
+        log(`Retrying the store lookup of ${plural(games.length + wishlistItems.length, "game")} that failed before.`);
+    } else if (options.appIDs) {
+        const onlyIDs = new Set(options.appIDs);
+        games = games.filter(g => onlyIDs.has(g.steamAppID));
+        wishlistItems = wishlistItems.filter(item => onlyIDs.has(item.steamAppID));
+        log(`Converting ${plural(games.length + wishlistItems.length, "game")} that changed, the other notes are up to date.`);
     }
 
-    const rawData = fs.readFileSync(jsonPath, 'utf-8');
-    const games: GameData[] = JSON.parse(rawData);
+    // Notes are kept by app ID: a game Steam renamed keeps its note, games with the same name each get their own
+    const manifest = loadNoteManifest(outputDir);
+    const request = (steamAppID: number, name: string, fileName: string): NoteRequest => ({ steamAppID, name, fileName });
+    const gamePlan = planNotes(manifest, 'games', games.map(g => request(g.steamAppID, g.name, namer.game(g))), '', outputDir);
+    const wishlistPlan = planNotes(manifest, 'wishlist', wishlistItems.map(i => request(i.steamAppID, i.name, namer.wishlist(i))), WISHLIST_FOLDER, outputDir);
+    // A dry run leaves the notes where they are
+    const renamedFrom = new Map<string, string>();
+    for (const [kind, plan] of [['games', gamePlan], ['wishlist', wishlistPlan]] as const) {
+        for (const rename of plan.renames) {
+            if (dryRun) {
+                renamedFrom.set(`${kind}/${rename.steamAppID}`, rename.from);
+                log(`Would rename ${rename.from} to ${rename.to}`);
+            } else if (renameNote(outputDir, rename)) {
+                log(`Renamed ${rename.from} to ${rename.to}`);
+            }
+        }
+    }
+    const plannedPath = (kind: string, appId: number, plan: typeof gamePlan) =>
+        absoluteNotePath(outputDir, renamedFrom.get(`${kind}/${appId}`) || plan.paths.get(appId)!);
+    const notePath = (game: GameData) => plannedPath('games', game.steamAppID, gamePlan);
+    const wishlistNotePath = (item: WishlistItem) => plannedPath('wishlist', item.steamAppID, wishlistPlan);
+    /** A note written while the store had nothing for the game. Older manifests don't know, then the failure report tells. */
+    const lacksStoreData = (kind: ManifestKind, appId: number) => {
+        const known = manifest[kind][appId]?.storeData;
+        return known === false || (known === undefined && failedIDs.has(appId));
+    };
+    // A merge only updates stats from the scrape, so it only waits for the store to refresh it or to fill in a note without store data
+    const lookupMode = (kind: ManifestKind, appId: number, filePath: string): StoreMode => {
+        if (dryRun) return 'offline';
+        const merged = updateMode === 'merge' && fs.existsSync(filePath);
+        return merged && !retryFailed && storeMode !== 'refresh' && !lacksStoreData(kind, appId) ? 'offline' : storeMode;
+    };
+    const toFetch = new Map<number, StoreMode>();
+    const notes: [ManifestKind, number, string][] = [
+        ...games.map((g): [ManifestKind, number, string] => ['games', g.steamAppID, notePath(g)]),
+        ...wishlistItems.map((item): [ManifestKind, number, string] => ['wishlist', item.steamAppID, wishlistNotePath(item)]),
+    ];
+    for (const [kind, appId, filePath] of notes) {
+        const mode = lookupMode(kind, appId, filePath);
+        if (needsFetch(storeCache, appId, mode)) toFetch.set(appId, mode);
+    }
 
-    const totalEstimatedTime = games.length * DELAY_MS;
-    console.log(`Found ${games.length} games.`);
-    console.log(`Note: This will take about ${formatDuration(totalEstimatedTime)} to avoid hitting Steam rate limits.`);
+    const wishlistCount = wishlistItems.length > 0 ? ` and ${wishlistItems.length} wishlisted` : "";
+    log(`Found ${games.length} games${wishlistCount} (${toFetch.size} need a store lookup).`);
+    if (toFetch.size > 0) {
+        log(`Note: This will take about ${formatDuration(toFetch.size * schedulerOptions.intervalMs)} to avoid hitting Steam rate limits.`);
+    }
 
-    let updateStep = 0;
-    if (games.length >= 100) {
-        updateStep = Math.ceil(games.length / 10);
-    } else if (games.length >= 10) {
-        updateStep = 10;
+    // 3. Fetch Store Data: a few requests at a time, paced and retried by the scheduler
+    const lookups = new Map<number, StoreLookup>();
+    const scheduler = createRequestScheduler(schedulerOptions, {
+        onRetry: ({ attempt, waitMs, error }) => log(`  ${error.message}, retry ${attempt} in ${formatDuration(waitMs)}...`),
+    });
+    if (toFetch.size > 0) {
+        const updateStep = toFetch.size >= 100 ? Math.ceil(toFetch.size / 10) : toFetch.size >= 10 ? 10 : 0;
+        let done = 0;
+
+        log(`\nLooking up ${plural(toFetch.size, "game")} on the Steam store...`);
+        await Promise.all(Array.from(toFetch.entries()).map(async ([appId, mode]) => {
+            lookups.set(appId, await lookupStoreDetails(storeCache, appId, mode, options.storeBaseUrl, scheduler));
+            done++;
+            if (done % CACHE_SAVE_INTERVAL === 0) saveStoreCache(storeCache);
+            if (updateStep > 0 && done % updateStep === 0 && done !== toFetch.size) {
+                const timeRemaining = (toFetch.size - done) * scheduler.currentIntervalMs();
+                log(`--- ${Math.round((done / toFetch.size) * 100)}% of store lookups done. Estimated time remaining: ${formatDuration(timeRemaining)} ---`);
+            }
+        }));
+        saveStoreCache(storeCache);
     }
 
-    // 3. Process Games
-    for (const [index, game] of games.entries()) {
-        const safeName = sanitizeFilename(game.name);
-        const fileName = `${safeName}.md`;
-        const filePath = path.join(OUTPUT_DIR, fileName);
-
-        // Smart Skip Check
-        if (fs.existsSync(filePath)) {
-            const existingContent = fs.readFileSync(filePath, 'utf-8');
-            // Basic check to see if we already enriched this file 
-            // (Assumes standard template uses cover_url or image property)
-            if (existingContent.includes('image: "http') || existingContent.includes('cover_url: "http')) {
-                process.stdout.write(`\r[${index + 1}/${games.length}] Skipping: ${game.name} (Already enriched)   `);
-                continue;
+    // Store data from the cache has the price of the day it was fetched. For the price history every game you own gets
+    // today's price, also on runs that convert only a few, asked for in batches and once a day (free games and games
+    // without a store page have none)
+    const todaysPrices = new Map<number, PriceData>();
+    if (!dryRun && storeMode !== 'offline') {
+        const priceGames: GameData[] = [];
+        for (const game of allGames) {
+            if (lookups.get(game.steamAppID)?.fetched) continue;
+            const { data } = await lookupStoreDetails(storeCache, game.steamAppID, 'offline');
+            if (data?.price_overview && needsPriceCheck(game.steamAppID, priceHistoryDir)) priceGames.push(game);
+        }
+        if (priceGames.length > 0) {
+            log(`\nChecking today's price of ${plural(priceGames.length, "game")}...`);
+            const { prices, failedIDs, error } = await fetchPrices(priceGames.map(g => g.steamAppID), scheduler, countryCode, options.storeBaseUrl);
+            // A game the answer has no price for (or whose batch failed) had one in its store data, so it keeps that one
+            for (const game of priceGames) {
+                const price = prices[game.steamAppID];
+                if (!price) continue;
+                todaysPrices.set(game.steamAppID, price);
+                recordPrice(game.steamAppID, game.name, price, priceHistoryDir);
+            }
+            if (error) {
+                console.error(`Could not fetch the price of ${plural(failedIDs.length, "game")}: ${error}, their price history is updated another day.`);
+            }
+        }
+    }
+    /** Today's price of a game when it was checked, otherwise the one in its store data. Null for free games. */
+    const currentPrice = (appId: number, storeData: SteamStoreData | null): PriceData | null => todaysPrices.get(appId)
+        || (storeData?.price_overview ? toPriceData(storeData.price_overview) : null);
+
+    /**
+     * Writes a generated note, or merges it into the one that exists. Returns what happened, for the progress line.
+     * @param tracked The manifest entry of a game or wishlist note, it remembers the status the note got
+     */
+    const saveNote = (filePath: string, generated: string, owned: OwnedParts, counts: NoteCounts, enrichment: string, tracked?: { entry: ManifestEntry; status: string }): string => {
+        const exists = fs.existsSync(filePath);
+        if (exists && updateMode === 'merge') {
+            const statuses = tracked && tracked.entry.status !== undefined ? [tracked.entry.status] : toolStatuses;
+            const { content, changes } = mergeNote(fs.readFileSync(filePath, 'utf-8'), generated, statuses, owned);
+            if (tracked && changes.some(change => change.kind === 'tag')) tracked.entry.status = tracked.status;
+            if (changes.length === 0) {
+                counts.unchanged++;
+                return "Up to date";
             }
+            counts.updated++;
+            if (!dryRun) fs.writeFileSync(filePath, content);
+            const details = dryRun ? changes.map(change => `\n    ${describeChange(change)}`).join('') : "";
+            return `${dryRun ? "Would update" : "Updated"}: ${changes.map(c => c.name).join(', ')}${details}`;
         }
 
-        process.stdout.write(`\n[${index + 1}/${games.length}] Processing: ${game.name}... `);
-        
-        let storeData: SteamStoreData | null = null;
-        if (game.steamAppID) {
-            storeData = await fetchSteamDetails(game.steamAppID);
+        if (exists) counts.overwritten++;
+        else counts.created++;
+        if (tracked) tracked.entry.status = tracked.status;
+        if (!dryRun) fs.writeFileSync(filePath, generated);
+
+        const action = dryRun ? (exists ? "Would overwrite" : "Would create") : (exists ? "Overwritten" : "Created");
+        return `${action}, ${enrichment}`;
+    };
+
+    const failures: StoreFailure[] = [];
+    /**
+     * The store data of a game, noting it in the failure report when there is none and its price in the price history.
+     * storeUpdate: the store parts of an existing note are merged too, the data is new or the note was written without it.
+     * fillIn: the note was written without it, so its cover and description are filled in too.
+     */
+    const storeLookup = async (kind: ManifestKind, appId: number, name: string, filePath: string) => {
+        const lookup = lookups.get(appId) || await lookupStoreDetails(storeCache, appId, 'offline');
+        if (lookup.failed) {
+            const previous = previousFailures.find(f => f.steamAppID === appId);
+            failures.push({ steamAppID: appId, name, reason: lookup.error || previous?.reason || "Not looked up yet" });
+        }
+        // A cached price was recorded when it was fetched, or today's price above
+        if (lookup.fetched && lookup.data?.price_overview) {
+            recordPrice(appId, name, toPriceData(lookup.data.price_overview), priceHistoryDir);
         }
 
+        const enrichment = lookup.data ? `enriched${lookup.fetched ? "" : " (cached)"}`
+            : lookup.failed && lookupMode(kind, appId, filePath) === 'offline' ? "basic info only (not cached)"
+            : "basic info only";
+        const fillIn = lookup.data !== null && lacksStoreData(kind, appId);
+        const storeUpdate = fillIn || (lookup.data !== null && lookup.fetched);
+        // Remembered for the next run: written now, or getting its store parts now
+        if (storeUpdate || updateMode === 'overwrite' || !fs.existsSync(filePath)) manifest[kind][appId].storeData = lookup.data !== null;
+        return { storeData: lookup.data, enrichment, storeUpdate, fillIn };
+    };
+    /** What a merge rewrites: the stats, with the store parts when they are new, and the text before the first heading only when it has none yet. */
+    const storeParts = (parts: OwnedParts, store: OwnedParts, storeUpdate: boolean, fillIn: boolean): OwnedParts => {
+        const updated = storeUpdate ? combineParts(parts, store) : parts;
+        return fillIn ? combineParts(updated, PREAMBLE_PARTS) : updated;
+    };
+    const attachmentsDir = path.join(outputDir, imageSettings.folder);
+    /**
+     * Downloads the images of a new (or overwritten) note, or one getting its store parts, when the settings ask for it.
+     * Returns what couldn't be downloaded for the progress line.
+     */
+    const noteImages = async (appId: number, storeData: SteamStoreData | null, filePath: string, storeUpdate: boolean) => {
+        const download = imageSettings.download && !dryRun && (storeUpdate || !(updateMode === 'merge' && fs.existsSync(filePath)));
+        const { images, errors } = await prepareImages(appId, storeData, imageSettings, attachmentsDir, download);
+        return { images, imageErrors: errors.length > 0 ? `, could not download ${errors.join('; ')}` : "" };
+    };
+    const lowestPriceOf = (appId: number, currency: string | undefined): PricePoint | null =>
+        currency ? lowestPrice(loadPriceHistory(appId, priceHistoryDir), currency) : null;
+
+    // A company that also develops a game in the library has a developer note, its publisher links go there
+    const libraryDevelopers = new Set<string>();
+    for (const game of allGames) {
+        const { data } = lookups.get(game.steamAppID) || await lookupStoreDetails(storeCache, game.steamAppID, 'offline');
+        (data?.developers || []).forEach(name => libraryDevelopers.add(name));
+    }
+    const linksOf = (storeData: SteamStoreData | null) => entityLinks(storeData, namer, libraryDevelopers);
+
+    // 4. Process Games
+    const counts: NoteCounts = { created: 0, updated: 0, unchanged: 0, overwritten: 0 };
+    const records: ExportRecord[] = [];
+    for (const [index, game] of games.entries()) {
+        const filePath = notePath(game);
+
+        write(`\n[${index + 1}/${games.length}] ${dryRun ? "Checking" : "Processing"}: ${game.name}... `);
+        
+        const { storeData, enrichment, storeUpdate, fillIn } = await storeLookup('games', game.steamAppID, game.name, filePath);
+        const { images, imageErrors } = await noteImages(game.steamAppID, storeData, filePath, storeUpdate);
+
         // --- Data Prep for Template ---
         const playtime = game.playtime === false ? 0 : game.playtime;
         
@@ -262,76 +642,156 @@ export async function runConversion() {
             ? Math.round((game.myAchievements / game.totalAchievements) * 100) 
             : 0;
 
-        // Date Logic
-        let releaseDateStr = "";
-        let isReleased = false;
-        if (storeData?.release_date) {
-            isReleased = !storeData.release_date.coming_soon;
-            const parsedDate = new Date(storeData.release_date.date);
-            if (!isNaN(parsedDate.getTime())) {
-                releaseDateStr = parsedDate.toISOString().split('T')[0];
-            } else {
-                releaseDateStr = storeData.release_date.date;
-            }
-        }
-
-        // Steam Features (Flattened List)
-        const steamFeatures = storeData?.categories?.map(c => c.description) || [];
-        if (storeData?.controller_support === "full") steamFeatures.push("Full Controller Support");
-
-        // Description Cleanup
-        let summary = storeData?.short_description || "";
-        summary = summary
-            .replace(/&quot;/g, '"')
-            .replace(/&amp;/g, '&')
-            .replace(/<br>/g, '\n')
-            .replace(/(<([^>]+)>)/gi, "");
+        // Achievement details (only filled when the scrape ran with --achievements)
+        const achievements = game.achievements || [];
+        const unlockedAchievements = achievements.filter(a => a.unlocked);
+        const lockedAchievements = achievements.filter(a => !a.unlocked);
 
-        // Template Helpers
-        const toWikiLink = (val: string) => `  - "[[${val.replace(/"/g, '\\"')}]]"`;
-
-        // 4. Context Creation
+        // 5. Context Creation
+        const price = currentPrice(game.steamAppID, storeData);
         const context = {
             game,
             storeData,
             playtime,
             completionRate,
-            releaseDateStr,
-            isReleased,
-            steamFeatures,
-            summary,
-            // Functions accessible in template
-            formatDuration,
-            toWikiLink,
-            // Common JS objects
-            Math,
-            Date
+            // Release date, features, summary, images and the other store details
+            ...storeContext(storeData, images),
+            // [[Links]] to the developer, publisher and genre notes, as the settings name them
+            entityLinks: linksOf(storeData),
+            achievements,
+            unlockedAchievements,
+            lockedAchievements,
+            status: statusClassifier.classify(game, storeData),
+            // Today's price (null for free games) and the lowest in the price history
+            price,
+            lowestPrice: lowestPriceOf(game.steamAppID, price?.currency),
+            // The last weeks played, with the resets and gaps found in the scrapes
+            playHistory: notePlayHistory(gameHistories.get(game.steamAppID)),
         };
+        records.push({ game, storeData, status: context.status });
 
-        // 5. Generate Content
-        const fileContent = renderTemplate(template, context);
+        // 6. Generate Content
+        const fileContent = templates.game.render(context);
+        const owned = storeParts(GAME_NOTE_PARTS, GAME_STORE_PARTS, storeUpdate, fillIn);
+        const tracked = { entry: manifest.games[game.steamAppID], status: context.status };
+        log(saveNote(filePath, fileContent, owned, counts, enrichment, tracked) + imageErrors);
+    }
 
-        fs.writeFileSync(filePath, fileContent);
-        
-        if (storeData) console.log("Enriched");
-        else console.log("Basic Info Only");
-
-        if (updateStep > 0 && (index + 1) % updateStep === 0 && index + 1 !== games.length) {
-            const gamesRemaining = games.length - (index + 1);
-            const timeRemaining = gamesRemaining * DELAY_MS;
-            const percentComplete = Math.round(((index + 1) / games.length) * 100);
-            console.log(`\n--- ${percentComplete}% Complete. Estimated time remaining: ${formatDuration(timeRemaining)} ---\n`);
+    // 7. Process the Wishlist, in its own folder
+    const wishlistCounts: NoteCounts = { created: 0, updated: 0, unchanged: 0, overwritten: 0 };
+    if (wishlistItems.length > 0 && !dryRun) {
+        fs.mkdirSync(path.join(outputDir, WISHLIST_FOLDER), { recursive: true });
+    }
+    for (const [index, item] of wishlistItems.entries()) {
+        const filePath = wishlistNotePath(item);
+
+        write(`\n[${index + 1}/${wishlistItems.length}] ${dryRun ? "Checking" : "Processing"} wishlist: ${item.name}... `);
+
+        const { storeData, enrichment, storeUpdate, fillIn } = await storeLookup('wishlist', item.steamAppID, item.name, filePath);
+        const { images, imageErrors } = await noteImages(item.steamAppID, storeData, filePath, storeUpdate);
+        const lowest = lowestPriceOf(item.steamAppID, item.price?.currency || storeData?.price_overview?.currency);
+        const fileContent = templates.wishlist.render(wishlistContext(item, storeData, lowest, images, linksOf(storeData)));
+        const owned = storeParts(WISHLIST_NOTE_PARTS, WISHLIST_STORE_PARTS, storeUpdate, fillIn);
+        const tracked = { entry: manifest.wishlist[item.steamAppID], status: WISHLIST_STATUS };
+        log(saveNote(filePath, fileContent, owned, wishlistCounts, enrichment, tracked) + imageErrors);
+    }
+
+    // Notes of games that left the library or the wishlist. A retry, or a scrape that missed games, can't tell
+    if (!retryFailed) {
+        const orphans = [
+            ...(complete !== false ? findOrphans(manifest, 'games', ownedIDs, outputDir) : []),
+            ...(wishlist.file ? findOrphans(manifest, 'wishlist', new Set(wishlisted.map(item => item.steamAppID)), outputDir) : []),
+        ];
+        if (orphans.length > 0 && options.archiveOrphans) {
+            log(`\n${dryRun ? "Would archive" : "Archiving"} ${plural(orphans.length, "note")} of games that are gone:`);
+            for (const orphan of orphans) {
+                const archived = dryRun ? `${ARCHIVE_FOLDER}/${orphan.entry.path}` : archiveOrphan(outputDir, manifest, orphan);
+                log(`  - ${orphan.entry.path} -> ${archived}`);
+            }
+        } else if (orphans.length > 0) {
+            log(`\n${plural(orphans.length, "note")} of games that are no longer in your ${complete !== false ? "library or " : ""}wishlist:`);
+            orphans.slice(0, MAX_LISTED_FAILURES).forEach(o => log(`  - ${o.entry.path} (${o.steamAppID})`));
+            if (orphans.length > MAX_LISTED_FAILURES) log(`  ...and ${orphans.length - MAX_LISTED_FAILURES} more.`);
+            log(`Run "convert --archive-orphans" to move them to the ${ARCHIVE_FOLDER} folder.`);
+        }
+    }
+    if (!dryRun) saveNoteManifest(outputDir, manifest);
+
+    let summary = describeCounts(counts) + (wishlistItems.length > 0 ? `; wishlist notes ${describeCounts(wishlistCounts)}` : "");
+    if (dryRun) {
+        log(`\n\nDry run: ${summary}. Nothing was written.`);
+        return true;
+    }
+
+    // Failures of games this run didn't look at (another profile's, or not retried) stay in the report
+    const convertedIDs = new Set(notes.map(([, appId]) => appId));
+    saveStoreFailures(failuresPath, [...previousFailures.filter(f => !convertedIDs.has(f.steamAppID)), ...failures]);
+
+    if (games !== allGames) {
+        // A retry (or a scheduled run) only converted a few games, the stats, index and entity notes still cover all of them
+        records.length = 0;
+        for (const game of allGames) {
+            const { data } = await lookupStoreDetails(storeCache, game.steamAppID, 'offline');
+            records.push({ game, storeData: data, status: statusClassifier.classify(game, data) });
+        }
+    }
+
+    // Links go to the notes as they are named on disk, which isn't always what the settings name them
+    const manifestNames = manifestNoteNames(manifest);
+    const noteNames = new Map([
+        ...wishlisted.map((item): [number, string] => [item.steamAppID, manifestNames.get(item.steamAppID) || namer.wishlist(item)]),
+        ...allGames.map((game): [number, string] => [game.steamAppID, manifestNames.get(game.steamAppID) || namer.game(game)]),
+    ]);
+    const linkNamer = { ...namer, game: (game: GameData) => noteNames.get(game.steamAppID)! };
+
+    // 8. Developer, publisher and genre notes, the notes the game notes link to
+    if (entityNotes) {
+        const entityCounts: NoteCounts = { created: 0, updated: 0, unchanged: 0, overwritten: 0 };
+        for (const entity of buildEntityNotes(records, linkNamer)) {
+            const dir = path.join(outputDir, ENTITY_FOLDERS[entity.type]);
+            if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+            const filePath = path.join(dir, `${namer.entity(entity.type, entity.name)}.md`);
+            saveNote(filePath, templates[entity.type].render({ ...entity }), ENTITY_NOTE_PARTS, entityCounts, "");
         }
+        summary += `; developer, publisher and genre notes ${describeCounts(entityCounts)}`;
+    }
 
-        await sleep(DELAY_MS);
+    const absoluteFolderPath = path.resolve(outputDir);
+    log(`\n\nSuccess! Notes ${summary}. Files saved to:`);
+    log(absoluteFolderPath);
+    // Always rewritten, they describe the whole library and aren't meant to be edited
+    const wishlistAtLow = findWishlistLows(wishlisted, priceHistoryDir);
+    const statsPath = writeLibraryStats(records, path.basename(jsonPath), outputDir, wishlistAtLow, noteNames);
+    log(`Library overview: ${path.basename(statsPath)}`);
+    const indexPath = path.join(outputDir, `${INDEX_NOTE_NAME}.md`);
+    fs.writeFileSync(indexPath, templates.index.render({ ...buildLibraryIndex(records, path.basename(jsonPath), linkNamer) }), 'utf-8');
+    log(`Library index: ${path.basename(indexPath)}`);
+    const [historyPath] = writePlayHistory(playHistory, playHistoryDir);
+    log(`Play history of ${plural(playHistory.scrapes, "scrape")}: ${path.dirname(historyPath)}`);
+    if (wishlistAtLow.length > 0) {
+        log(`${plural(wishlistAtLow.length, "wishlisted game")} at the lowest price seen so far: ${wishlistAtLow.map(g => g.name).join(', ')}`);
     }
 
-    const absoluteFolderPath = path.resolve(OUTPUT_DIR);
-    console.log(`\n\nSuccess! Files saved to:`);
-    console.log(absoluteFolderPath);
+    if (failures.length > 0) {
+        log(`\n${plural(failures.length, "game")} could not be enriched with store data:`);
+        failures.slice(0, MAX_LISTED_FAILURES).forEach(f => log(`  - ${f.name} (${f.steamAppID}): ${f.reason}`));
+        if (failures.length > MAX_LISTED_FAILURES) log(`  ...and ${failures.length - MAX_LISTED_FAILURES} more.`);
+        log(`They are listed in ${failuresPath}. Run "convert --retry-failed" later to look them up again and add the store data to their notes.`);
+    }
+    return true;
 }
 
-// Allows running directly via `npx ts-node src/json-to-md.ts` if needed
+// Allows running directly via `npx ts-node src/json-to-md.ts [--refresh|--offline] [--overwrite] [--dry-run] [--retry-failed] [--archive-orphans]` if needed
 if (require.main === module) {
-    runConversion();
+    const args = process.argv.slice(2);
+    const storeMode: StoreMode = args.includes('--offline') ? 'offline'
+        : args.includes('--refresh') ? 'refresh'
+        : 'default';
+    runConversion({
+        storeMode,
+        updateMode: args.includes('--overwrite') ? 'overwrite' : 'merge',
+        dryRun: args.includes('--dry-run'),
+        retryFailed: args.includes('--retry-failed'),
+        archiveOrphans: args.includes('--archive-orphans'),
+    }).then(ok => process.exit(ok ? 0 : 1));
 }
\ No newline at end of file
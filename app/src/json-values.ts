@@ -0,0 +1,19 @@
+/*
+    Steam Library Scraper - JSON Values
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+// Helpers to read answers from Steam, parsed JSON is unknown until it is checked.
+// Steam leaves out whatever it has nothing for, so every level of an answer may be missing.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** The value at the path of keys, undefined when a level is missing or not an object. */
+export const child = (value: unknown, ...keys: string[]): unknown => keys.reduce((current, key) => isRecord(current) ? current[key] : undefined, value);
+
+/** A field Steam may leave out, but of the type when it is there. */
+export const optional = (value: unknown, type: 'string' | 'number' | 'boolean') => value === undefined || typeof value === type;
+
+/** The entries of a list that pass the check, the others are left out. Empty when it isn't a list. */
+export const listOf = <T>(value: unknown, isEntry: (entry: unknown) => entry is T): T[] => Array.isArray(value) ? value.filter(isEntry) : [];
@@ -0,0 +1,306 @@
+/*
+    Steam Library Scraper - Library Statistics
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExportRecord } from './exporter';
+import { noteLink } from './note-files';
+import { loadNoteManifest, manifestNoteNames } from './note-manifest';
+import { loadNoteNamer } from './note-templates';
+import { findWishlistLows, WishlistLow } from './price-history';
+import { findLatestSnapshot, loadSnapshot, RAW_DATA_DIR } from './snapshots';
+import { loadStatusClassifier } from './status-rules';
+import { loadStoreCache, lookupStoreDetails } from './store-cache';
+import { loadWishlist } from './wishlist-notes';
+
+// --- CONFIGURATION ---
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+const NOTES_DIR = path.join(ROOT_DIR, 'output', 'obsidian_library');
+export const STATS_NOTE_NAME = 'Library Stats';
+const TOP_GAMES = 20;
+const TOP_GROUPS = 15;
+
+// --- INTERFACES ---
+/** Games and hours of one genre, developer or release year. */
+export interface StatsGroup {
+    name: string;
+    games: number;
+    playtimeHours: number;
+}
+
+/** What the games cost in the store today, amounts in cents like Steam gives them. */
+export interface LibraryValue {
+    // One per currency, there is only more than one after the store country changed
+    currencies: { currency: string; games: number; fullPrice: number; currentPrice: number }[];
+    freeGames: number;
+    // Not sold anymore, only in a bundle or no store data yet
+    gamesWithoutPrice: number;
+}
+
+export interface LibraryStats {
+    source: string;
+    games: number;
+    playedGames: number;
+    // The pile of shame
+    neverPlayedGames: number;
+    neverPlayedPercent: number;
+    totalPlaytimeHours: number;
+    // Of the games that were played at all, a library full of unplayed games would make it 0
+    medianPlaytimeHours: number;
+    topPlayed: { name: string; steamAppID: number; playtimeHours: number }[];
+    achievements: {
+        gamesWithAchievements: number;
+        unlocked: number;
+        total: number;
+        completionPercent: number;
+        perfectGames: number;
+    };
+    statuses: StatsGroup[];
+    // Only games with store data count for the groups below
+    gamesWithStoreData: number;
+    byGenre: StatsGroup[];
+    byDeveloper: StatsGroup[];
+    byReleaseYear: StatsGroup[];
+    platforms: { windows: number; mac: number; linux: number };
+    value: LibraryValue;
+    wishlistAtLow: WishlistLow[];
+}
+
+export interface StatsOptions {
+    // Snapshot to summarize, defaults to the latest one in output/raw_data
+    inputFile?: string;
+    // Defaults to output/obsidian_library, next to the game notes
+    outputDir?: string;
+    quiet?: boolean;
+}
+
+// --- HELPERS ---
+const roundHours = (hours: number) => Math.round(hours * 10) / 10;
+const percent = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 100) : 0;
+const games = (count: number) => count === 1 ? "1 game" : `${count} games`;
+const money = (cents: number) => (cents / 100).toFixed(2);
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/** Adds every game to each of its groups, most played group first. */
+function groupBy(records: ExportRecord[], keysOf: (record: ExportRecord) => string[]): StatsGroup[] {
+    const groups = new Map<string, StatsGroup>();
+    for (const record of records) {
+        for (const key of new Set(keysOf(record))) {
+            const group = groups.get(key) || { name: key, games: 0, playtimeHours: 0 };
+            group.games++;
+            group.playtimeHours = roundHours(group.playtimeHours + (record.game.playtime || 0));
+            groups.set(key, group);
+        }
+    }
+    return Array.from(groups.values()).sort((a, b) => b.playtimeHours - a.playtimeHours || b.games - a.games || a.name.localeCompare(b.name));
+}
+
+function libraryValue(records: ExportRecord[]): LibraryValue {
+    const currencies = new Map<string, LibraryValue['currencies'][number]>();
+    let freeGames = 0;
+    for (const record of records) {
+        const price = record.storeData?.price_overview;
+        if (!price) {
+            if (record.storeData?.is_free) freeGames++;
+            continue;
+        }
+        const total = currencies.get(price.currency) || { currency: price.currency, games: 0, fullPrice: 0, currentPrice: 0 };
+        total.games++;
+        total.fullPrice += price.initial;
+        total.currentPrice += price.final;
+        currencies.set(price.currency, total);
+    }
+
+    const priced = Array.from(currencies.values()).sort((a, b) => b.games - a.games);
+    const pricedGames = priced.reduce((sum, c) => sum + c.games, 0);
+    return { currencies: priced, freeGames, gamesWithoutPrice: records.length - pricedGames - freeGames };
+}
+
+// The store writes dates like "17 Jul, 2023" or "Q3 2025", the year is the only part they share
+const releaseYear = (record: ExportRecord) => {
+    const match = record.storeData?.release_date?.date.match(/\b(19|20)\d{2}\b/);
+    return match ? [match[0]] : [];
+};
+
+/** @param wishlistAtLow From findWishlistLows, empty when there is no wishlist */
+export function computeLibraryStats(records: ExportRecord[], source: string, wishlistAtLow: WishlistLow[] = []): LibraryStats {
+    const played = records.filter(r => r.game.playtime);
+    const withStore = records.filter(r => r.storeData);
+    const withAchievements = records.filter(r => r.game.totalAchievements > 0);
+    const unlocked = withAchievements.reduce((sum, r) => sum + r.game.myAchievements, 0);
+    const total = withAchievements.reduce((sum, r) => sum + r.game.totalAchievements, 0);
+
+    return {
+        source,
+        games: records.length,
+        playedGames: played.length,
+        neverPlayedGames: records.length - played.length,
+        neverPlayedPercent: percent(records.length - played.length, records.length),
+        totalPlaytimeHours: roundHours(records.reduce((sum, r) => sum + (r.game.playtime || 0), 0)),
+        medianPlaytimeHours: roundHours(median(played.map(r => r.game.playtime || 0))),
+        topPlayed: [...played]
+            .sort((a, b) => (b.game.playtime || 0) - (a.game.playtime || 0))
+            .slice(0, TOP_GAMES)
+            .map(r => ({ name: r.game.name, steamAppID: r.game.steamAppID, playtimeHours: r.game.playtime || 0 })),
+        achievements: {
+            gamesWithAchievements: withAchievements.length,
+            unlocked,
+            total,
+            completionPercent: percent(unlocked, total),
+            perfectGames: withAchievements.filter(r => r.game.myAchievements >= r.game.totalAchievements).length,
+        },
+        statuses: groupBy(records, r => [r.status]).sort((a, b) => b.games - a.games || a.name.localeCompare(b.name)),
+        gamesWithStoreData: withStore.length,
+        byGenre: groupBy(withStore, r => (r.storeData?.genres || []).map(g => g.description)),
+        byDeveloper: groupBy(withStore, r => r.storeData?.developers || []),
+        byReleaseYear: groupBy(withStore, releaseYear).sort((a, b) => a.name.localeCompare(b.name)),
+        platforms: {
+            windows: withStore.filter(r => r.storeData?.platforms?.windows).length,
+            mac: withStore.filter(r => r.storeData?.platforms?.mac).length,
+            linux: withStore.filter(r => r.storeData?.platforms?.linux).length,
+        },
+        value: libraryValue(records),
+        wishlistAtLow,
+    };
+}
+
+// --- RENDERING ---
+function groupTable(groups: StatsGroup[], label: string, limit: number = TOP_GROUPS): string[] {
+    if (groups.length === 0) return [`No store data yet.`, ``];
+    const lines = [`| ${label} | Games | Hours |`, `| --- | ---: | ---: |`];
+    for (const group of groups.slice(0, limit)) lines.push(`| ${group.name.replace(/\|/g, '\\|')} | ${group.games} | ${group.playtimeHours} |`);
+    if (groups.length > limit) lines.push(``, `_And ${groups.length - limit} more._`);
+    lines.push(``);
+    return lines;
+}
+
+/** @param noteNames File names of the game and wishlist notes by app ID, for the links (see "fileNames" in the settings) */
+export function renderStatsNote(stats: LibraryStats, noteNames: Map<number, string> = new Map()): string {
+    const a = stats.achievements;
+    const share = (count: number) => `${count} (${percent(count, stats.gamesWithStoreData)}%)`;
+
+    const lines = [
+        `---`,
+        `title: ${JSON.stringify(STATS_NOTE_NAME)}`,
+        `type: stats`,
+        `source: ${JSON.stringify(stats.source)}`,
+        `games: ${stats.games}`,
+        `playtimeHours: ${stats.totalPlaytimeHours}`,
+        `tags:`,
+        `  - steamstats`,
+        `---`,
+        `# Library Stats`,
+        `- **Games**: ${stats.games} (${stats.playedGames} played)`,
+        `- **Total playtime**: ${stats.totalPlaytimeHours} hours`,
+        `- **Median playtime**: ${stats.medianPlaytimeHours} hours per played game`,
+        `- **Pile of shame**: ${games(stats.neverPlayedGames)} never played (${stats.neverPlayedPercent}%)`,
+        `- **Achievements**: ${a.unlocked}/${a.total} unlocked (${a.completionPercent}%) in ${games(a.gamesWithAchievements)}, ${a.perfectGames} completed`,
+        ``,
+        `## Most Played`,
+    ];
+
+    if (stats.topPlayed.length === 0) lines.push(`Nothing played yet.`);
+    stats.topPlayed.forEach((game, index) => lines.push(`${index + 1}. ${noteLink(game.name, noteNames.get(game.steamAppID))}: ${game.playtimeHours} hours`));
+    lines.push(``, `## Status`, ...groupTable(stats.statuses, 'Status', Infinity));
+
+    lines.push(`## Playtime by Genre`, ...groupTable(stats.byGenre, 'Genre'));
+    lines.push(`## Playtime by Developer`, ...groupTable(stats.byDeveloper, 'Developer'));
+    lines.push(`## Release Years`, ...groupTable(stats.byReleaseYear, 'Year', Infinity));
+
+    lines.push(`## Platforms`);
+    if (stats.gamesWithStoreData === 0) {
+        lines.push(`No store data yet.`);
+    } else {
+        lines.push(
+            `Of the ${games(stats.gamesWithStoreData)} with store data:`,
+            `- **Windows**: ${share(stats.platforms.windows)}`,
+            `- **Mac**: ${share(stats.platforms.mac)}`,
+            `- **Linux**: ${share(stats.platforms.linux)}`,
+        );
+    }
+    if (stats.gamesWithStoreData < stats.games) {
+        const missing = stats.games - stats.gamesWithStoreData;
+        lines.push(``, `_${games(missing)} without store data (delisted or not looked up yet) ${missing === 1 ? "is" : "are"} left out of genres, developers, years and platforms._`);
+    }
+
+    const value = stats.value;
+    lines.push(``, `## Library Value`);
+    if (value.currencies.length === 0) lines.push(`No prices yet.`);
+    else lines.push(`What your games cost in the store today:`);
+    for (const total of value.currencies) {
+        lines.push(`- **${total.currency}**: ${money(total.fullPrice)} at full price, ${money(total.currentPrice)} with today's discounts (${games(total.games)})`);
+    }
+    if (value.freeGames > 0) lines.push(`- **Free to play**: ${games(value.freeGames)}`);
+    if (value.gamesWithoutPrice > 0) {
+        lines.push(``, `_${games(value.gamesWithoutPrice)} without a price (not sold anymore or no store data) ${value.gamesWithoutPrice === 1 ? "is" : "are"} left out._`);
+    }
+
+    lines.push(``, `## Wishlist at Historical Low`);
+    if (stats.wishlistAtLow.length === 0) lines.push(`No wishlisted game is at the lowest price seen so far.`);
+    stats.wishlistAtLow.forEach(game => lines.push(`- ${noteLink(game.name, noteNames.get(game.steamAppID))}: ${game.finalFormatted}${game.discountPercent > 0 ? ` (${game.discountPercent}% off)` : ""}`));
+
+    return lines.join('\n') + '\n';
+}
+
+/** Writes the stats note and its JSON next to the game notes, returns the note's path. */
+export function writeLibraryStats(
+    records: ExportRecord[],
+    source: string,
+    outputDir: string,
+    wishlistAtLow: WishlistLow[] = [],
+    noteNames: Map<number, string> = new Map(),
+): string {
+    const stats = computeLibraryStats(records, source, wishlistAtLow);
+
+    if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+    }
+    const notePath = path.join(outputDir, `${STATS_NOTE_NAME}.md`);
+    fs.writeFileSync(notePath, renderStatsNote(stats, noteNames), 'utf-8');
+    fs.writeFileSync(path.join(outputDir, `${STATS_NOTE_NAME}.json`), JSON.stringify(stats, null, 2), 'utf-8');
+    return notePath;
+}
+
+// --- MAIN FUNCTION ---
+/** The stats on their own, without generating the game notes. Never goes online. */
+export async function runStats(options: StatsOptions = {}): Promise<boolean> {
+    const log = (...args: unknown[]) => { if (!options.quiet) console.log(...args); };
+    const outputDir = options.outputDir ? path.resolve(options.outputDir) : NOTES_DIR;
+
+    const jsonPath = options.inputFile ? path.resolve(options.inputFile) : findLatestSnapshot(RAW_DATA_DIR);
+    if (!jsonPath || !fs.existsSync(jsonPath)) {
+        console.error(jsonPath ? `Input file not found: ${jsonPath}` : `No JSON files found in ${RAW_DATA_DIR}. Please run the scraper first.`);
+        return false;
+    }
+
+    const storeCache = loadStoreCache();
+    const statusClassifier = loadStatusClassifier();
+    const records: ExportRecord[] = [];
+    for (const game of loadSnapshot(jsonPath)) {
+        const lookup = await lookupStoreDetails(storeCache, game.steamAppID, 'offline');
+        records.push({ game, storeData: lookup.data, status: statusClassifier.classify(game, lookup.data) });
+    }
+
+    const wishlist = loadWishlist(jsonPath).items;
+    const wishlistAtLow = findWishlistLows(wishlist);
+    // The names the notes got on disk (see note-manifest.ts), the settings' names for notes not written yet
+    const namer = loadNoteNamer();
+    const written = manifestNoteNames(loadNoteManifest(outputDir));
+    const noteNames = new Map([
+        ...wishlist.map((item): [number, string] => [item.steamAppID, written.get(item.steamAppID) || namer.wishlist(item)]),
+        ...records.map(({ game }): [number, string] => [game.steamAppID, written.get(game.steamAppID) || namer.game(game)]),
+    ]);
+    const notePath = writeLibraryStats(records, path.basename(jsonPath), outputDir, wishlistAtLow, noteNames);
+    log(`\nLibrary stats of ${path.basename(jsonPath)} saved to:`);
+    log(notePath);
+    return true;
+}
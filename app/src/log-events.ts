@@ -0,0 +1,109 @@
+/*
+    Steam Library Scraper - Log Events
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+// --- CONFIGURATION ---
+// SCRAPER_LOG_FORMAT=json prints one JSON event per line instead of text (used by `cli.ts --json-logs`)
+export const JSON_LOGS = process.env.SCRAPER_LOG_FORMAT === 'json';
+
+const LOG_EVENT_TYPES: LogEventType[] = ['progress', 'warning', 'failure', 'snapshot'];
+
+// --- INTERFACES ---
+/**
+ * progress: what the scraper is doing, warning: something is missing but the scrape goes on,
+ * failure: the scrape stopped, snapshot: a snapshot file was written.
+ */
+export type LogEventType = 'progress' | 'warning' | 'failure' | 'snapshot';
+
+export interface LogEvent {
+    type: LogEventType;
+    // ISO date and time
+    time: string;
+    message: string;
+    // Extra fields, e.g. the path and counts of a snapshot or the lines below a warning
+    [field: string]: unknown;
+}
+
+/** Turns the text output of the scraper into events, line by line. */
+export interface LogEventWriter {
+    write(chunk: string): void;
+    // Emits what is still waiting for the rest of its line
+    flush(): void;
+}
+
+// --- HELPERS ---
+export function logEvent(type: LogEventType, message: string, fields: Record<string, unknown> = {}): LogEvent {
+    return { type, time: new Date().toISOString(), message, ...fields };
+}
+
+export const formatLogEvent = (event: LogEvent) => `${JSON.stringify(event)}\n`;
+
+/** An event the scraper printed itself, or null for a line of text. */
+export function parseLogEvent(line: string): LogEvent | null {
+    if (!line.startsWith('{')) return null;
+    try {
+        const json = JSON.parse(line);
+        return json && LOG_EVENT_TYPES.includes(json.type) && typeof json.message === 'string' ? json : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+// --- MAIN FUNCTION ---
+/**
+ * Lines starting with "WARNING:" become warnings, the indented lines below them (the games that had
+ * the problem) are added to the warning as `details`. Other lines are progress, except the JSON
+ * events the scraper printed itself, which are passed on as they are.
+ * @param stderr Whether the text is from console.error, where every line is a warning (a failed scrape ends the test instead)
+ */
+export function createLogEventWriter(emit: (event: LogEvent) => void, stderr: boolean = false): LogEventWriter {
+    let buffer = "";
+    let warning: LogEvent | null = null;
+    // The lines under the warning, the same list as its details
+    let warningDetails: string[] = [];
+
+    const endWarning = () => {
+        if (warning) emit(warning);
+        warning = null;
+    };
+
+    const writeLine = (raw: string) => {
+        const line = raw.trimEnd();
+        if (!line.trim()) return;
+
+        if (warning && /^\s/.test(line)) {
+            warningDetails.push(line.trim());
+            return;
+        }
+        endWarning();
+
+        const printed = parseLogEvent(line);
+        if (printed) {
+            emit(printed);
+        } else if (stderr) {
+            emit(logEvent('warning', line.trim()));
+        } else if (line.startsWith('WARNING:')) {
+            warningDetails = [];
+            warning = logEvent('warning', line.slice('WARNING:'.length).trim(), { details: warningDetails });
+        } else {
+            emit(logEvent('progress', line.trim()));
+        }
+    };
+
+    return {
+        write(chunk: string) {
+            buffer += chunk;
+            // Progress counters overwrite their line with \r, every step is a line of its own here
+            const lines = buffer.split(/\r\n|\r|\n/);
+            buffer = lines.pop() || "";
+            lines.forEach(writeLine);
+        },
+        flush() {
+            writeLine(buffer);
+            buffer = "";
+            endWarning();
+        },
+    };
+}
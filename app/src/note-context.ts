@@ -0,0 +1,114 @@
+/*
+    Steam Library Scraper - Note Context
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { NoteImages, remoteImages } from './note-images';
+import { SteamStoreData } from './steam-store';
+
+// --- CONFIGURATION ---
+// The names storeContext adds, every kind of note can use them
+export const STORE_CONTEXT_VARIABLES = [
+    'releaseDateStr', 'isReleased', 'steamFeatures', 'summary', 'coverImage', 'screenshots', 'movies',
+    'dlc', 'languages', 'audioLanguages', 'requirements', 'recommendations', 'website',
+];
+
+// --- INTERFACES ---
+/** The store values every kind of note shows the same way. */
+export interface StoreContext {
+    // YYYY-MM-DD when Steam's date can be read, otherwise Steam's own text ("Q3 2025")
+    releaseDateStr: string;
+    isReleased: boolean;
+    // Steam categories plus "Full Controller Support"
+    steamFeatures: string[];
+    // The short description without HTML
+    summary: string;
+    // The header image and the first screenshots, as URLs or downloaded file names (see note-images.ts)
+    coverImage: string;
+    screenshots: string[];
+    movies: { name: string; url: string; thumbnail: string }[];
+    dlc: number[];
+    languages: string[];
+    // The languages with full audio
+    audioLanguages: string[];
+    // Plain text, empty when the store page has none
+    requirements: { minimum: string; recommended: string };
+    // Number of user reviews
+    recommendations: number;
+    website: string;
+}
+
+// --- HELPERS ---
+function htmlToText(html: string): string {
+    return html
+        .replace(/&quot;/g, '"')
+        .replace(/&amp;/g, '&')
+        .replace(/<br>/g, '\n')
+        .replace(/(<([^>]+)>)/gi, "");
+}
+
+/** "English<strong>*</strong>, French<br><strong>*</strong>languages with full audio support" */
+function parseLanguages(html: string): { languages: string[]; audioLanguages: string[] } {
+    const languages: string[] = [];
+    const audioLanguages: string[] = [];
+    for (const part of html.split(/<br\s*\/?>/i)[0].split(',')) {
+        const name = htmlToText(part).replace(/\*/g, '').trim();
+        if (!name) continue;
+        languages.push(name);
+        if (part.includes('*')) audioLanguages.push(name);
+    }
+    return { languages, audioLanguages };
+}
+
+// Requirements are lists with a <br> after every line
+const requirementsText = (html: string | undefined) => htmlToText((html || "").replace(/<\/li>/gi, '\n'))
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line)
+    .join('\n');
+
+export function storeContext(storeData: SteamStoreData | null, images: NoteImages = remoteImages(storeData)): StoreContext {
+    // Date Logic
+    let releaseDateStr = "";
+    let isReleased = false;
+    if (storeData?.release_date) {
+        isReleased = !storeData.release_date.coming_soon;
+        const parsedDate = new Date(storeData.release_date.date);
+        if (!isNaN(parsedDate.getTime())) {
+            releaseDateStr = parsedDate.toISOString().split('T')[0];
+        } else {
+            releaseDateStr = storeData.release_date.date;
+        }
+    }
+
+    // Steam Features (Flattened List)
+    const steamFeatures = storeData?.categories?.map(c => c.description) || [];
+    // Newer store pages have it as a category already
+    const hasController = steamFeatures.some(f => f.toLowerCase() === "full controller support");
+    if (storeData?.controller_support === "full" && !hasController) steamFeatures.push("Full Controller Support");
+
+    // Description Cleanup
+    const summary = htmlToText(storeData?.short_description || "");
+
+    const requirements = storeData?.pc_requirements && !Array.isArray(storeData.pc_requirements) ? storeData.pc_requirements : {};
+
+    return {
+        releaseDateStr,
+        isReleased,
+        steamFeatures,
+        summary,
+        coverImage: images.cover,
+        screenshots: images.screenshots,
+        movies: (storeData?.movies || []).map(movie => ({
+            name: movie.name,
+            url: movie.mp4?.max || movie.webm?.max || movie.hls_h264 || "",
+            thumbnail: movie.thumbnail,
+        })),
+        dlc: storeData?.dlc || [],
+        ...parseLanguages(storeData?.supported_languages || ""),
+        requirements: { minimum: requirementsText(requirements.minimum), recommended: requirementsText(requirements.recommended) },
+        recommendations: storeData?.recommendations?.total || 0,
+        website: storeData?.website || "",
+    };
+}
@@ -0,0 +1,27 @@
+/*
+    Steam Library Scraper - Note Files
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+// Device names Windows won't use as a file name, with any extension ("CON.md" too)
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+/**
+ * A game name as a file name: without the characters Windows doesn't allow, and without dots at
+ * the start (a hidden file) or the end (Windows drops them). Reserved names get an underscore: "CON_".
+ */
+export function sanitizeFilename(name: string): string {
+    const cleaned = name
+        .replace(/[<>:"/\\|?*\u0000-\u001f]/g, '')
+        .replace(/^[\s.]+|[\s.]+$/g, '');
+    return cleaned.replace(RESERVED_NAMES, '$1_$2');
+}
+
+/**
+ * An Obsidian link to a note, showing the real name when the file name is different.
+ * @param fileName Without .md, the name as a file name unless the settings name files otherwise
+ */
+export function noteLink(gameName: string, fileName: string = sanitizeFilename(gameName)): string {
+    return fileName === gameName ? `[[${fileName}]]` : `[[${fileName}|${gameName.replace(/[[\]|]/g, '')}]]`;
+}
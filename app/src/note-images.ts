@@ -0,0 +1,127 @@
+/*
+    Steam Library Scraper - Note Images
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { SteamStoreData } from './steam-store';
+
+// --- CONFIGURATION ---
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+// The Steam CDN sometimes points to another server
+const MAX_REDIRECTS = 3;
+
+// --- INTERFACES ---
+/** "images" in the settings. */
+export interface ImageSettings {
+    // Save the cover and screenshots next to the notes, so the vault works offline
+    download: boolean;
+    // Attachments folder inside the notes folder
+    folder: string;
+    // Screenshots in a note (and downloaded), the store has up to 20 or more
+    screenshots: number;
+}
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = { download: false, folder: 'attachments', screenshots: 4 };
+
+/** What the notes embed: Steam's URLs, or the names of the downloaded files. */
+export interface NoteImages {
+    cover: string;
+    screenshots: string[];
+}
+
+// --- HELPERS ---
+export function remoteImages(storeData: SteamStoreData | null, maxScreenshots: number = DEFAULT_IMAGE_SETTINGS.screenshots): NoteImages {
+    return {
+        cover: storeData?.header_image || "",
+        screenshots: (storeData?.screenshots || []).slice(0, maxScreenshots).map(s => s.path_full),
+    };
+}
+
+/**
+ * File name of a downloaded image, e.g. 220_header.jpg. The app ID makes it unique in the vault,
+ * so Obsidian finds it from any folder without a path.
+ */
+export function attachmentName(appId: number, kind: string, url: string): string {
+    const extension = path.extname(new URL(url).pathname).toLowerCase();
+    return `${appId}_${kind}${/^\.(jpe?g|png|gif|webp)$/.test(extension) ? extension : '.jpg'}`;
+}
+
+/** Saves a URL to a file, through a temp file so a broken download never looks finished. */
+export function downloadFile(url: string, filePath: string, redirects: number = 0): Promise<void> {
+    const client = url.startsWith('https:') ? https : http;
+
+    return new Promise((resolve, reject) => {
+        const req = client.get(url, (res) => {
+            const status = res.statusCode || 0;
+            if (status >= 300 && status < 400 && res.headers.location && redirects < MAX_REDIRECTS) {
+                res.resume();
+                downloadFile(new URL(res.headers.location, url).toString(), filePath, redirects + 1).then(resolve, reject);
+                return;
+            }
+            if (status !== 200) {
+                res.resume();
+                reject(new Error(`HTTP ${status}`));
+                return;
+            }
+
+            const tmpPath = `${filePath}.tmp`;
+            const file = fs.createWriteStream(tmpPath);
+            res.pipe(file);
+            file.on('finish', () => file.close(() => {
+                fs.renameSync(tmpPath, filePath);
+                resolve();
+            }));
+            file.on('error', (err) => {
+                fs.rmSync(tmpPath, { force: true });
+                reject(err);
+            });
+        });
+        req.setTimeout(REQUEST_TIMEOUT_MS, () => req.destroy(new Error('Timed out')));
+        req.on('error', reject);
+    });
+}
+
+// --- MAIN FUNCTION ---
+/**
+ * The images of a note: files that were downloaded before are used as they are, the others are
+ * downloaded when `download` is set. Images that can't be downloaded stay a URL.
+ * @param dir The attachments folder
+ * @returns The images and the problems, for the progress line
+ */
+export async function prepareImages(
+    appId: number,
+    storeData: SteamStoreData | null,
+    settings: ImageSettings,
+    dir: string,
+    download: boolean,
+): Promise<{ images: NoteImages; errors: string[] }> {
+    const remote = remoteImages(storeData, settings.screenshots);
+    const errors: string[] = [];
+
+    const local = async (url: string, kind: string): Promise<string> => {
+        if (!url) return url;
+        const name = attachmentName(appId, kind, url);
+        const filePath = path.join(dir, name);
+        if (fs.existsSync(filePath)) return name;
+        if (!download) return url;
+
+        try {
+            if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+            await downloadFile(url, filePath);
+            return name;
+        } catch (e) {
+            errors.push(`${kind}: ${(e as Error).message}`);
+            return url;
+        }
+    };
+
+    const cover = await local(remote.cover, 'header');
+    const screenshots: string[] = [];
+    for (const [index, url] of remote.screenshots.entries()) screenshots.push(await local(url, `screenshot_${index + 1}`));
+    return { images: { cover, screenshots }, errors };
+}
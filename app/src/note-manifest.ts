@@ -0,0 +1,190 @@
+/*
+    Steam Library Scraper - Note Manifest
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// --- CONFIGURATION ---
+// Inside the notes folder so it moves with the vault, the dot keeps it out of Obsidian
+export const NOTE_MANIFEST_FILE = '.note-manifest.json';
+// Where `convert --archive-orphans` moves the notes of games that left the library
+export const ARCHIVE_FOLDER = 'Archive';
+
+// --- INTERFACES ---
+export type ManifestKind = 'games' | 'wishlist';
+
+export interface ManifestEntry {
+    // Relative to the notes folder, with forward slashes
+    path: string;
+    // The game's name when the note was last written, for the messages
+    name: string;
+    // Whether the note was last written with store data, one without gets it on a later run. Unknown for older notes
+    storeData?: boolean;
+    // The status tag the converter wrote last. When the note has another one, you picked it and it stays
+    status?: string;
+}
+
+/** Which note belongs to which app, so a note is found again after Steam renames the game. */
+export interface NoteManifest {
+    games: Record<string, ManifestEntry>;
+    wishlist: Record<string, ManifestEntry>;
+}
+
+/** A note that has to be placed, with the file name the settings give it (without .md). */
+export interface NoteRequest {
+    steamAppID: number;
+    name: string;
+    fileName: string;
+}
+
+export interface NoteRename {
+    steamAppID: number;
+    // Relative paths, like in the manifest
+    from: string;
+    to: string;
+}
+
+export interface NotePlan {
+    // Relative path of every requested note
+    paths: Map<number, string>;
+    // Notes whose game got another name, they move before they are updated
+    renames: NoteRename[];
+}
+
+export interface Orphan {
+    steamAppID: number;
+    kind: ManifestKind;
+    entry: ManifestEntry;
+}
+
+// --- HELPERS ---
+const manifestPath = (outputDir: string) => path.join(outputDir, NOTE_MANIFEST_FILE);
+
+export const absoluteNotePath = (outputDir: string, relativePath: string) => path.join(outputDir, ...relativePath.split('/'));
+
+// Windows and macOS don't tell "Portal.md" and "portal.md" apart
+const pathKey = (relativePath: string) => relativePath.toLowerCase();
+
+const emptyManifest = (): NoteManifest => ({ games: {}, wishlist: {} });
+
+// --- MANIFEST FILE ---
+export function loadNoteManifest(outputDir: string): NoteManifest {
+    const filePath = manifestPath(outputDir);
+    if (!fs.existsSync(filePath)) return emptyManifest();
+
+    try {
+        const json = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        return { games: json.games || {}, wishlist: json.wishlist || {} };
+    } catch (e) {
+        console.error(`Could not read ${filePath}, notes are matched by their name this time.`);
+        return emptyManifest();
+    }
+}
+
+export function saveNoteManifest(outputDir: string, manifest: NoteManifest) {
+    if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir, { recursive: true });
+    fs.writeFileSync(manifestPath(outputDir), JSON.stringify(manifest, null, 2), 'utf-8');
+}
+
+/** The file name (without .md) of every note in the manifest by app ID, the games winning over the wishlist. */
+export function manifestNoteNames(manifest: NoteManifest): Map<number, string> {
+    const names = new Map<number, string>();
+    for (const kind of ['wishlist', 'games'] as ManifestKind[]) {
+        for (const [appId, entry] of Object.entries(manifest[kind])) names.set(Number(appId), path.posix.basename(entry.path, '.md'));
+    }
+    return names;
+}
+
+// --- PLACING NOTES ---
+/**
+ * Decides where the notes go and updates the manifest with it (the caller saves it).
+ * - A note keeps its path while the game's file name stays the same.
+ * - When the file name changed (Steam renamed the game), the note moves to the new name.
+ * - When the name is taken by another game, the app ID is added: "Portal (400).md". The games that
+ *   already have a note keep theirs, new ones go by app ID, so the result is the same on every run.
+ * - A note without an entry (written before there was a manifest) is used when it has the right name.
+ * @param folder Relative folder of this kind of note, "" for the notes folder itself
+ */
+export function planNotes(manifest: NoteManifest, kind: ManifestKind, requests: NoteRequest[], folder: string, outputDir: string): NotePlan {
+    const entries = manifest[kind];
+    const taken = new Map<string, number>();
+    for (const [appId, entry] of Object.entries(entries)) taken.set(pathKey(entry.path), Number(appId));
+
+    const plan: NotePlan = { paths: new Map(), renames: [] };
+    const isFree = (relativePath: string, appId: number) => {
+        const owner = taken.get(pathKey(relativePath));
+        return owner === undefined ? !fs.existsSync(absoluteNotePath(outputDir, relativePath)) : owner === appId;
+    };
+
+    for (const request of [...requests].sort((a, b) => a.steamAppID - b.steamAppID)) {
+        const appId = request.steamAppID;
+        const entry = entries[appId];
+        const plain = path.posix.join(folder, `${request.fileName}.md`);
+        const suffixed = path.posix.join(folder, `${request.fileName} (${appId}).md`);
+
+        let target: string;
+        if (entry && (entry.path === plain || entry.path === suffixed)) {
+            target = entry.path;
+        } else if (!entry && !taken.has(pathKey(plain))) {
+            // A new game, or one from before the manifest: its note (if there is one) has its name
+            target = plain;
+        } else {
+            target = isFree(plain, appId) ? plain : isFree(suffixed, appId) ? suffixed : entry ? entry.path : suffixed;
+        }
+
+        if (entry && entry.path !== target) {
+            plan.renames.push({ steamAppID: appId, from: entry.path, to: target });
+            taken.delete(pathKey(entry.path));
+        }
+        taken.set(pathKey(target), appId);
+        entries[appId] = { ...entry, path: target, name: request.name };
+        plan.paths.set(appId, target);
+    }
+    return plan;
+}
+
+/** Moves a note to its new name. Returns false when there was nothing to move, or the new name is in use. */
+export function renameNote(outputDir: string, rename: NoteRename): boolean {
+    const from = absoluteNotePath(outputDir, rename.from);
+    const to = absoluteNotePath(outputDir, rename.to);
+    if (!fs.existsSync(from) || fs.existsSync(to)) return false;
+
+    fs.mkdirSync(path.dirname(to), { recursive: true });
+    fs.renameSync(from, to);
+    return true;
+}
+
+// --- ORPHANS ---
+/** The notes in the manifest of games that aren't in the list anymore, and whose file still exists. */
+export function findOrphans(manifest: NoteManifest, kind: ManifestKind, presentIDs: Set<number>, outputDir: string): Orphan[] {
+    const orphans: Orphan[] = [];
+    for (const [appId, entry] of Object.entries(manifest[kind])) {
+        if (presentIDs.has(Number(appId))) continue;
+        // A note you deleted yourself is just forgotten
+        if (!fs.existsSync(absoluteNotePath(outputDir, entry.path))) {
+            delete manifest[kind][appId];
+            continue;
+        }
+        orphans.push({ steamAppID: Number(appId), kind, entry });
+    }
+    return orphans.sort((a, b) => a.entry.name.localeCompare(b.entry.name));
+}
+
+/**
+ * Moves an orphaned note into the archive folder, keeping its place in the notes folder
+ * (Archive/Wishlist/...), and forgets it. Returns the new relative path.
+ */
+export function archiveOrphan(outputDir: string, manifest: NoteManifest, orphan: Orphan): string {
+    const parsed = path.posix.parse(path.posix.join(ARCHIVE_FOLDER, orphan.entry.path));
+    let target = path.posix.join(parsed.dir, parsed.base);
+    // A game of the same name was archived before
+    if (fs.existsSync(absoluteNotePath(outputDir, target))) target = path.posix.join(parsed.dir, `${parsed.name} (${orphan.steamAppID})${parsed.ext}`);
+
+    fs.mkdirSync(path.dirname(absoluteNotePath(outputDir, target)), { recursive: true });
+    fs.renameSync(absoluteNotePath(outputDir, orphan.entry.path), absoluteNotePath(outputDir, target));
+    delete manifest[orphan.kind][orphan.steamAppID];
+    return target;
+}
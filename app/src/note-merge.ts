@@ -0,0 +1,263 @@
+/*
+    Steam Library Scraper - Note Merging
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { LEGACY_STATUSES } from './status-rules';
+
+// --- CONFIGURATION ---
+// Frontmatter fields the converter keeps up to date, everything else belongs to the user
+export const TOOL_OWNED_FIELDS = ['played', 'playtimeHours', 'lastPlayed', 'achievementsTotal', 'achievementsUnlocked', 'completionRate'];
+
+// Body sections (by heading text, emoji and case ignored) that are rewritten on every conversion
+export const TOOL_OWNED_SECTIONS = ['my stats', 'achievements', 'play history'];
+
+// What comes from the store. Only rewritten when the store data is new, or the note was written without it
+export const STORE_OWNED_FIELDS = ['releaseDate', 'developers', 'publishers', 'genres', 'features', 'released', 'metacriticRating', 'recommendations', 'image'];
+export const STORE_OWNED_SECTIONS = ['game info', 'screenshots', 'links'];
+
+// Which statuses the converter may replace comes from the caller, see mergeNote
+const ANY_STATUS_TAG = /^\s*-\s*["']?status\//;
+
+// --- INTERFACES ---
+/** One top-level frontmatter key with all its lines (list items, nested values). Comments and blank lines have no key. */
+interface FrontmatterEntry {
+    key: string | null;
+    lines: string[];
+}
+
+interface Section {
+    // Normalized heading text, null for the text before the first heading
+    title: string | null;
+    heading: string | null;
+    lines: string[];
+}
+
+interface ParsedNote {
+    // null when the note has no frontmatter
+    frontmatter: FrontmatterEntry[] | null;
+    sections: Section[];
+}
+
+export interface NoteChange {
+    kind: 'field' | 'tag' | 'section';
+    name: string;
+    before: string;
+    after: string;
+}
+
+/** Which frontmatter fields and body sections the converter rewrites, the rest belongs to the user. */
+export interface OwnedParts {
+    fields: string[];
+    // Normalized heading text, the first one is where new sections go after
+    sections: string[];
+    // The text before the first heading (the cover and description of the default templates)
+    preamble?: boolean;
+}
+
+export const GAME_NOTE_PARTS: OwnedParts = { fields: TOOL_OWNED_FIELDS, sections: TOOL_OWNED_SECTIONS };
+export const GAME_STORE_PARTS: OwnedParts = { fields: STORE_OWNED_FIELDS, sections: STORE_OWNED_SECTIONS };
+// Only for a note written without store data: once it has its cover and description, what you write there stays
+export const PREAMBLE_PARTS: OwnedParts = { fields: [], sections: [], preamble: true };
+
+/** The parts of both, new sections still go after the first section of the first. */
+export const combineParts = (owned: OwnedParts, more: OwnedParts): OwnedParts => ({
+    fields: [...owned.fields, ...more.fields],
+    sections: [...owned.sections, ...more.sections],
+    preamble: owned.preamble || more.preamble,
+});
+
+export interface MergeResult {
+    content: string;
+    changes: NoteChange[];
+}
+
+// --- PARSING ---
+const normalizeTitle = (heading: string) => heading
+    .replace(/^#+\s*/, '')
+    .replace(/[^\p{L}\p{N} ]/gu, '')
+    .trim()
+    .toLowerCase();
+
+function parseFrontmatter(lines: string[]): FrontmatterEntry[] {
+    const entries: FrontmatterEntry[] = [];
+    for (const line of lines) {
+        const match = line.match(/^([^\s#-][^:]*):(\s|$)/);
+        if (match) {
+            entries.push({ key: match[1].trim(), lines: [line] });
+        } else if (entries.length > 0 && entries[entries.length - 1].key !== null && /^\s/.test(line)) {
+            entries[entries.length - 1].lines.push(line);
+        } else {
+            entries.push({ key: null, lines: [line] });
+        }
+    }
+    return entries;
+}
+
+function parseSections(lines: string[]): Section[] {
+    const sections: Section[] = [{ title: null, heading: null, lines: [] }];
+    let inCodeBlock = false;
+
+    for (const line of lines) {
+        if (/^\s*(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock;
+        if (!inCodeBlock && /^#{1,6}\s/.test(line)) {
+            sections.push({ title: normalizeTitle(line), heading: line, lines: [] });
+        } else {
+            sections[sections.length - 1].lines.push(line);
+        }
+    }
+    return sections;
+}
+
+function parseNote(content: string): ParsedNote {
+    const lines = content.replace(/\r\n/g, '\n').split('\n');
+
+    if (lines[0] === '---') {
+        const end = lines.indexOf('---', 1);
+        if (end > 0) {
+            return { frontmatter: parseFrontmatter(lines.slice(1, end)), sections: parseSections(lines.slice(end + 1)) };
+        }
+    }
+    return { frontmatter: null, sections: parseSections(lines) };
+}
+
+function serializeNote(note: ParsedNote): string {
+    const body = ([] as string[]).concat(...note.sections.map(s => s.heading !== null ? [s.heading, ...s.lines] : s.lines));
+    if (!note.frontmatter) return body.join('\n');
+
+    const frontmatter = ([] as string[]).concat(...note.frontmatter.map(e => e.lines));
+    return ['---', ...frontmatter, '---', ...body].join('\n');
+}
+
+// --- MERGING ---
+const splitTrailingBlanks = (lines: string[]) => {
+    let end = lines.length;
+    while (end > 0 && lines[end - 1].trim() === '') end--;
+    return { content: lines.slice(0, end), blanks: lines.slice(end) };
+};
+
+const statusOf = (line: string) => line.replace(/^\s*-\s*["']?status\//, '').replace(/["']?\s*$/, '');
+
+function mergeTags(existing: FrontmatterEntry, generated: FrontmatterEntry, toolStatuses: string[], changes: NoteChange[]) {
+    const newStatus = generated.lines.find(l => ANY_STATUS_TAG.test(l));
+    if (!newStatus) return;
+
+    const index = existing.lines.findIndex(l => ANY_STATUS_TAG.test(l));
+    if (index === -1) {
+        // Only list style tags can get an item, "tags: [a, b]" is left alone
+        if (existing.lines[0].replace(/^[^:]*:/, '').trim() !== '') return;
+        existing.lines.push(newStatus);
+        changes.push({ kind: 'tag', name: 'status', before: "", after: newStatus.replace(/^\s*-\s*/, '') });
+    } else if (toolStatuses.includes(statusOf(existing.lines[index])) && existing.lines[index].trim() !== newStatus.trim()) {
+        changes.push({
+            kind: 'tag',
+            name: 'status',
+            before: existing.lines[index].replace(/^\s*-\s*/, ''),
+            after: newStatus.replace(/^\s*-\s*/, ''),
+        });
+        existing.lines[index] = newStatus;
+    }
+}
+
+function mergeFrontmatter(existing: FrontmatterEntry[], generated: FrontmatterEntry[], fields: string[], toolStatuses: string[], changes: NoteChange[]) {
+    for (const field of fields) {
+        const fresh = generated.find(e => e.key === field);
+        if (!fresh) continue;
+
+        const current = existing.find(e => e.key === field);
+        const before = current ? current.lines.join('\n') : "";
+        const after = fresh.lines.join('\n');
+        if (before === after) continue;
+
+        changes.push({ kind: 'field', name: field, before: before.replace(/^[^:]*:\s*/, ''), after: after.replace(/^[^:]*:\s*/, '') });
+        if (current) current.lines = [...fresh.lines];
+        else existing.push({ key: field, lines: [...fresh.lines] });
+    }
+
+    const existingTags = existing.find(e => e.key === 'tags');
+    const generatedTags = generated.find(e => e.key === 'tags');
+    if (existingTags && generatedTags) mergeTags(existingTags, generatedTags, toolStatuses, changes);
+}
+
+// The preamble has no heading to show in the dry run
+const PREAMBLE_NAME = 'text before the first heading';
+
+/** Replaces the content of a section, keeping its heading as the user wrote it and the blank lines after it. */
+function replaceContent(current: Section, fresh: Section, changes: NoteChange[]) {
+    const freshContent = splitTrailingBlanks(fresh.lines).content;
+    const { content, blanks } = splitTrailingBlanks(current.lines);
+    if (content.join('\n') === freshContent.join('\n')) return;
+
+    const name = fresh.heading !== null ? fresh.heading.replace(/^#+\s*/, '') : PREAMBLE_NAME;
+    changes.push({ kind: 'section', name, before: content.join('\n'), after: freshContent.join('\n') });
+    current.lines = [...freshContent, ...blanks];
+}
+
+function mergeSections(existing: Section[], generated: Section[], owned: OwnedParts, changes: NoteChange[]) {
+    // Both always have one, it is empty when the note starts with a heading
+    if (owned.preamble) replaceContent(existing[0], generated[0], changes);
+
+    const titles = owned.sections;
+    for (const title of titles) {
+        const fresh = generated.find(s => s.title === title);
+        // A scrape without achievement details doesn't wipe the achievements that are already in the note
+        if (!fresh) continue;
+
+        const current = existing.find(s => s.title === title);
+        if (current) {
+            replaceContent(current, fresh, changes);
+            continue;
+        }
+
+        // New section: after the section it follows in the generated note, or after the stats, otherwise at the end
+        const freshContent = splitTrailingBlanks(fresh.lines).content;
+        changes.push({ kind: 'section', name: fresh.heading!.replace(/^#+\s*/, ''), before: "", after: freshContent.join('\n') });
+        const section: Section = { title, heading: fresh.heading, lines: [...freshContent, ''] };
+        const preceding = generated.slice(1, generated.indexOf(fresh)).reverse()
+            .map(s => existing.findIndex(e => e.title === s.title))
+            .find(index => index > 0);
+        const after = preceding !== undefined ? preceding : existing.findIndex(s => s.title === titles[0]);
+        const index = after > 0 ? after + 1 : existing.length;
+        const previous = existing[index - 1];
+        if (previous.lines.length === 0 || previous.lines[previous.lines.length - 1].trim() !== '') previous.lines.push('');
+        existing.splice(index, 0, section);
+    }
+}
+
+/**
+ * Updates the tool-owned parts of an existing note with a freshly generated one.
+ * Everything else (personalRating, your own tags, fields and sections, your notes) is kept exactly as it is.
+ * @param toolStatuses Statuses the converter may replace: the one it wrote last, or for a note it has no record of, any the status
+ *                     rules hand out (see status-rules.ts). Any other status/ tag was set by the user and stays.
+ * @param owned What the converter rewrites, the stats of game notes unless another kind of note says otherwise
+ */
+export function mergeNote(existingContent: string, generatedContent: string, toolStatuses: string[] = LEGACY_STATUSES, owned: OwnedParts = GAME_NOTE_PARTS): MergeResult {
+    const existing = parseNote(existingContent);
+    const generated = parseNote(generatedContent);
+    const changes: NoteChange[] = [];
+
+    if (existing.frontmatter && generated.frontmatter) {
+        mergeFrontmatter(existing.frontmatter, generated.frontmatter, owned.fields, toolStatuses, changes);
+    }
+    mergeSections(existing.sections, generated.sections, owned, changes);
+
+    if (changes.length === 0) return { content: existingContent, changes };
+
+    const content = serializeNote(existing);
+    return { content: existingContent.includes('\r\n') ? content.replace(/\n/g, '\r\n') : content, changes };
+}
+
+/** One line per change for the dry-run preview, e.g. `playtimeHours: 10.5 -> 12`. */
+export function describeChange(change: NoteChange): string {
+    const oneLine = (text: string) => text.includes('\n') ? `${text.split('\n').length} lines` : (text || "(none)");
+
+    switch (change.kind) {
+        case 'field':
+            return `${change.name}: ${oneLine(change.before)} -> ${oneLine(change.after)}`;
+        case 'tag':
+            return `tag: ${change.before || "(none)"} -> ${change.after}`;
+        case 'section':
+            return change.before ? `section "${change.name}" updated` : `section "${change.name}" added`;
+    }
+}
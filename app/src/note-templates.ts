@@ -0,0 +1,377 @@
+/*
+    Steam Library Scraper - Note Templates
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExportRecord } from './exporter';
+import { GameData, WishlistItem } from './game-data';
+import { noteLink, sanitizeFilename } from './note-files';
+import { OwnedParts } from './note-merge';
+import { SteamStoreData } from './steam-store';
+import { compileTemplate, validateTemplate } from './template-engine';
+
+// --- CONFIGURATION ---
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+const SETTINGS_PATH = path.join(ROOT_DIR, 'scraper-settings.json');
+// One Markdown file per kind of note: templates/game.md, templates/developer.md, ...
+export const TEMPLATES_DIR = path.join(ROOT_DIR, 'templates');
+
+export type EntityType = 'developer' | 'publisher' | 'genre';
+export type NoteType = 'game' | 'wishlist' | EntityType | 'index';
+export const NOTE_TYPES: NoteType[] = ['game', 'wishlist', 'developer', 'publisher', 'genre', 'index'];
+
+// Where templates were before the templates folder, still used when there is no file
+const TEMPLATE_SETTINGS: Partial<Record<NoteType, string>> = { game: 'markdownTemplate', wishlist: 'wishlistTemplate' };
+
+// Subfolders of the notes folder, the game notes link to them as [[Valve]]
+export const ENTITY_FOLDERS: Record<EntityType, string> = { developer: 'Developers', publisher: 'Publishers', genre: 'Genres' };
+export const INDEX_NOTE_NAME = 'Library Index';
+
+export const ENTITY_TEMPLATE_VARIABLES = ['name', 'type', 'games', 'developed', 'published', 'playtimeHours'];
+export const INDEX_TEMPLATE_VARIABLES = ['source', 'games', 'statuses', 'genres', 'withoutGenre'];
+
+// Updated in existing developer, publisher and genre notes, the rest is yours
+export const ENTITY_NOTE_PARTS: OwnedParts = { fields: ['games', 'playtimeHours'], sections: ['games', 'published'] };
+
+// What a file name template can use, the store data isn't known yet when the name is needed
+const FILE_NAME_VARIABLES: Record<keyof FileNameSettings, string[]> = {
+    game: ['game'],
+    wishlist: ['item'],
+    developer: ['name'],
+    publisher: ['name'],
+    genre: ['name'],
+};
+
+// --- DEFAULT TEMPLATES ---
+export const DEFAULT_DEVELOPER_TEMPLATE = `---
+title: {{ name | quote }}
+type: developer
+games: {{ games.length }}
+playtimeHours: {{ playtimeHours }}
+tags:
+  - steamdeveloper
+---
+# Games
+{% for game in developed %}
+- {{ game.link }}: {{ game.playtime }} hours ({{ game.status }})
+{% endfor %}
+{% if published %}
+
+# Published
+{% for game in published %}
+- {{ game.link }}
+{% endfor %}
+{% endif %}
+`;
+
+export const DEFAULT_PUBLISHER_TEMPLATE = `---
+title: {{ name | quote }}
+type: publisher
+games: {{ games.length }}
+playtimeHours: {{ playtimeHours }}
+tags:
+  - steampublisher
+---
+# Games
+{% for game in published %}
+- {{ game.link }}: {{ game.playtime }} hours ({{ game.status }})
+{% endfor %}
+`;
+
+export const DEFAULT_GENRE_TEMPLATE = `---
+title: {{ name | quote }}
+type: genre
+games: {{ games.length }}
+playtimeHours: {{ playtimeHours }}
+tags:
+  - steamgenre
+---
+# Games
+{% for game in games %}
+- {{ game.link }}: {{ game.playtime }} hours ({{ game.status }})
+{% endfor %}
+`;
+
+export const DEFAULT_INDEX_TEMPLATE = `---
+title: "${INDEX_NOTE_NAME}"
+type: index
+source: {{ source | quote }}
+games: {{ games.length }}
+tags:
+  - steamindex
+---
+# By Status
+{% for group in statuses %}
+
+## {{ group.name | capitalize }} ({{ group.games.length }})
+{% for game in group.games %}
+- {{ game.link }}
+{% endfor %}
+{% endfor %}
+
+# By Genre
+{% for group in genres %}
+
+## {{ group.link }} ({{ group.games.length }})
+{% for game in group.games %}
+- {{ game.link }}
+{% endfor %}
+{% endfor %}
+{% if withoutGenre %}
+
+## No Store Data ({{ withoutGenre.length }})
+{% for game in withoutGenre %}
+- {{ game.link }}
+{% endfor %}
+{% endif %}
+`;
+
+// --- INTERFACES ---
+/** A template and where it came from, for the messages. */
+export interface TemplateSource {
+    source: string;
+    // "templates/game.md", "markdownTemplate in your settings", or null for the default
+    origin: string | null;
+}
+
+/** "fileNames" in the settings: a template per kind of note that gives its file name (without .md). */
+export interface FileNameSettings {
+    game: string;
+    wishlist: string;
+    developer: string;
+    publisher: string;
+    genre: string;
+}
+
+export const DEFAULT_FILE_NAMES: FileNameSettings = {
+    game: '{{ game.name }}',
+    wishlist: '{{ item.name }}',
+    developer: '{{ name }}',
+    publisher: '{{ name }}',
+    genre: '{{ name }}',
+};
+
+/** The file names of the notes, without .md and safe to use on every system. */
+export interface NoteNamer {
+    game(game: GameData): string;
+    wishlist(item: WishlistItem): string;
+    entity(type: EntityType, name: string): string;
+}
+
+/** Links from a game or wishlist note to its developer, publisher and genre notes, [[File name|Name]] when they differ. */
+export interface EntityLinks {
+    developers: string[];
+    publishers: string[];
+    genres: string[];
+}
+
+/** A game as the developer, publisher, genre and index notes list it. */
+export interface ListedGame {
+    name: string;
+    steamAppID: number;
+    // [[File name]] of the game's note, [[File name|Name]] when they differ
+    link: string;
+    status: string;
+    playtime: number;
+}
+
+export interface EntityNote {
+    type: EntityType;
+    name: string;
+    // Developed or published, or of the genre
+    games: ListedGame[];
+    developed: ListedGame[];
+    published: ListedGame[];
+    playtimeHours: number;
+}
+
+export interface LibraryIndex {
+    source: string;
+    games: ListedGame[];
+    statuses: { name: string; games: ListedGame[] }[];
+    genres: { name: string; link: string; games: ListedGame[] }[];
+    // Games without store data have no genre
+    withoutGenre: ListedGame[];
+}
+
+// --- HELPERS ---
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+const sumPlaytime = (games: ListedGame[]) => Math.round(games.reduce((sum, g) => sum + g.playtime, 0) * 10) / 10;
+
+function addTo<T>(groups: Map<string, T[]>, key: string, item: T) {
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+}
+
+// --- TEMPLATES ---
+/**
+ * The template of a kind of note: templates/<type>.md when it exists, otherwise the template
+ * from the settings (game and wishlist notes only, where they were before), otherwise the default.
+ */
+export function loadTemplateSource(type: NoteType, settings: Record<string, unknown>, fallback: string, dir: string = TEMPLATES_DIR): TemplateSource {
+    const filePath = path.join(dir, `${type}.md`);
+    if (fs.existsSync(filePath)) {
+        return { source: fs.readFileSync(filePath, 'utf-8').replace(/\r\n/g, '\n'), origin: path.relative(path.dirname(dir), filePath) };
+    }
+
+    const setting = TEMPLATE_SETTINGS[type];
+    const value = setting ? settings[setting] : undefined;
+    if (typeof value === 'string' && value) return { source: value, origin: `${setting} in your settings` };
+    return { source: fallback, origin: null };
+}
+
+/**
+ * Writes the templates that aren't in the folder yet, as a starting point for your own.
+ * @returns The paths of the new files
+ */
+export function writeDefaultTemplates(templates: Record<NoteType, string>, dir: string = TEMPLATES_DIR): string[] {
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+
+    const written: string[] = [];
+    for (const type of NOTE_TYPES) {
+        const filePath = path.join(dir, `${type}.md`);
+        if (fs.existsSync(filePath)) continue;
+        fs.writeFileSync(filePath, templates[type], 'utf-8');
+        written.push(filePath);
+    }
+    return written;
+}
+
+// --- FILE NAMES ---
+/** Takes "fileNames" from the settings, anything else is reported and left at its default. */
+export function readFileNameSettings(value: unknown): FileNameSettings {
+    const result = { ...DEFAULT_FILE_NAMES };
+    if (value === undefined) return result;
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        console.error(`"fileNames" in your settings must be an object like { "game": "{{ game.name }}" }, using the defaults.`);
+        return result;
+    }
+
+    for (const [key, template] of Object.entries(value)) {
+        if (!(key in DEFAULT_FILE_NAMES)) {
+            console.error(`Unknown "fileNames" setting "${key}", it is ignored.`);
+            continue;
+        }
+        const type = key as keyof FileNameSettings;
+        const errors = typeof template === 'string' ? validateTemplate(template, FILE_NAME_VARIABLES[type]) : [];
+        if (typeof template !== 'string' || !template.trim() || errors.length > 0) {
+            const problem = errors.length > 0 ? `: ${errors[0].message.replace(/\.$/, "")}` : ` must be a template like "${DEFAULT_FILE_NAMES[type]}"`;
+            console.error(`"fileNames.${type}"${problem}, using "${DEFAULT_FILE_NAMES[type]}".`);
+            continue;
+        }
+        result[type] = template;
+    }
+    return result;
+}
+
+/** A name that renders to nothing (a game without a name) falls back to the default file name. */
+export function createNoteNamer(fileNames: FileNameSettings = DEFAULT_FILE_NAMES): NoteNamer {
+    const compiled = Object.fromEntries(Object.entries(fileNames).map(([type, source]) =>
+        [type, compileTemplate(source, FILE_NAME_VARIABLES[type as keyof FileNameSettings])])) as Record<keyof FileNameSettings, { render(context: Record<string, unknown>): string }>;
+
+    const render = (type: keyof FileNameSettings, context: Record<string, unknown>, fallback: string) =>
+        sanitizeFilename(compiled[type].render(context).replace(/\s+/g, ' ')) || sanitizeFilename(fallback);
+
+    return {
+        game: (game) => render('game', { game }, game.name),
+        wishlist: (item) => render('wishlist', { item }, item.name),
+        entity: (type, name) => render(type, { name }, name),
+    };
+}
+
+/** The file names from scraper-settings.json, for the commands that link to notes without writing them. */
+export function loadNoteNamer(settingsPath: string = SETTINGS_PATH): NoteNamer {
+    let fileNames: unknown;
+    if (fs.existsSync(settingsPath)) {
+        try {
+            fileNames = JSON.parse(fs.readFileSync(settingsPath, 'utf-8')).fileNames;
+        } catch (e) {
+            // A broken settings file is reported by whoever reads the rest of it
+        }
+    }
+    return createNoteNamer(readFileNameSettings(fileNames));
+}
+
+// --- ENTITY & INDEX NOTES ---
+/**
+ * Links to the developer, publisher and genre notes of the store data, to the file names the settings give them.
+ * @param developers Every developer in the library: a company that also develops has no publisher note, see buildEntityNotes
+ */
+export function entityLinks(storeData: SteamStoreData | null, namer: NoteNamer, developers: Set<string> = new Set()): EntityLinks {
+    const link = (type: EntityType, name: string) => noteLink(name, namer.entity(type, name));
+    return {
+        developers: (storeData?.developers || []).map(name => link('developer', name)),
+        publishers: (storeData?.publishers || []).map(name => link(developers.has(name) ? 'developer' : 'publisher', name)),
+        genres: (storeData?.genres || []).map(g => link('genre', g.description)),
+    };
+}
+
+/** Lists the games with the file names of their notes, by name. */
+export function listGames(records: ExportRecord[], namer: NoteNamer): ListedGame[] {
+    return records.map(({ game, status }) => ({
+        name: game.name,
+        steamAppID: game.steamAppID,
+        link: noteLink(game.name, namer.game(game)),
+        status,
+        playtime: game.playtime === false ? 0 : game.playtime,
+    })).sort(byName);
+}
+
+/**
+ * A note per developer, publisher and genre in the store data. A company that both develops and
+ * publishes gets one developer note listing both, so [[Valve]] always leads to the same note.
+ */
+export function buildEntityNotes(records: ExportRecord[], namer: NoteNamer): EntityNote[] {
+    const listed = new Map(listGames(records, namer).map(g => [g.steamAppID, g]));
+    const developed = new Map<string, ListedGame[]>();
+    const published = new Map<string, ListedGame[]>();
+    const genres = new Map<string, ListedGame[]>();
+
+    for (const { game, storeData } of records) {
+        const entry = listed.get(game.steamAppID)!;
+        new Set(storeData?.developers || []).forEach(name => addTo(developed, name, entry));
+        new Set(storeData?.publishers || []).forEach(name => addTo(published, name, entry));
+        new Set((storeData?.genres || []).map(g => g.description)).forEach(name => addTo(genres, name, entry));
+    }
+
+    const note = (type: EntityType, name: string, games: ListedGame[], dev: ListedGame[], pub: ListedGame[]): EntityNote => {
+        const all = Array.from(new Set(games)).sort(byName);
+        return { type, name, games: all, developed: dev.sort(byName), published: pub.sort(byName), playtimeHours: sumPlaytime(all) };
+    };
+
+    const notes: EntityNote[] = [];
+    developed.forEach((games, name) => notes.push(note('developer', name, [...games, ...(published.get(name) || [])], games, published.get(name) || [])));
+    published.forEach((games, name) => { if (!developed.has(name)) notes.push(note('publisher', name, games, [], games)); });
+    genres.forEach((games, name) => notes.push(note('genre', name, games, [], [])));
+    return notes.sort((a, b) => a.type.localeCompare(b.type) || byName(a, b));
+}
+
+/** The games by status and by genre, for the index note. */
+export function buildLibraryIndex(records: ExportRecord[], source: string, namer: NoteNamer): LibraryIndex {
+    const games = listGames(records, namer);
+    const listed = new Map(games.map(g => [g.steamAppID, g]));
+    const statuses = new Map<string, ListedGame[]>();
+    const genres = new Map<string, ListedGame[]>();
+    const withoutGenre: ListedGame[] = [];
+
+    for (const { game, storeData, status } of records) {
+        const entry = listed.get(game.steamAppID)!;
+        addTo(statuses, status, entry);
+        const names = new Set((storeData?.genres || []).map(g => g.description));
+        if (names.size === 0) withoutGenre.push(entry);
+        names.forEach(name => addTo(genres, name, entry));
+    }
+
+    return {
+        source,
+        games,
+        statuses: Array.from(statuses, ([name, list]) => ({ name, games: list.sort(byName) })).sort(byName),
+        genres: Array.from(genres, ([name, list]) => ({ name, link: noteLink(name, namer.entity('genre', name)), games: list.sort(byName) })).sort(byName),
+        withoutGenre: withoutGenre.sort(byName),
+    };
+}
@@ -0,0 +1,388 @@
+/*
+    Steam Library Scraper - Play History
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameData } from './game-data';
+import { describeSnapshot, findLatestSnapshot, listSnapshots, loadSnapshotFile, RAW_DATA_DIR, SnapshotInfo } from './snapshots';
+
+// --- CONFIGURATION ---
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+// PlayHistory_<accountID>.json (every game by day and week) and PlayHeatmap_<accountID>.json (every day)
+export const PLAY_HISTORY_DIR = path.join(ROOT_DIR, 'output', 'play_history');
+
+// Scrapes more days apart than this can't tell on which day the hours were played
+export const MAX_SCRAPE_GAP_DAYS = 7;
+
+// The game notes show the weeks you last played, the files have all of them
+export const NOTE_WEEKS = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Steam shows playtime to a tenth of an hour, smaller changes are rounding
+const MIN_CHANGE_HOURS = 0.01;
+
+// --- INTERFACES ---
+/** What one scrape said about the library, oldest first is the order the history is built in. */
+export interface PlayObservation {
+    takenAt: Date;
+    games: GameData[];
+    // True when the scrape got the whole library: only then a game that isn't in it is missing.
+    // False when it knows it missed games, null when it can't tell (scrapes from older versions)
+    complete: boolean | null;
+}
+
+/** Playtime going down between two scrapes (Steam corrected it), the history goes on from the new total. */
+export interface PlaytimeReset {
+    // YYYY-MM-DD of the scrape that saw it
+    date: string;
+    fromHours: number;
+    toHours: number;
+}
+
+/**
+ * Hours played while there were no scrapes for a while, or while the game wasn't in them.
+ * They are counted on the day the game was last played (or the day it was seen again), which may be off.
+ */
+export interface PlaytimeGap {
+    // YYYY-MM-DD of the scrapes before and after
+    from: string;
+    to: string;
+    hours: number;
+    // True when the game itself was missing from the scrapes in between
+    missing: boolean;
+}
+
+export interface GameHistory {
+    steamAppID: number;
+    name: string;
+    // YYYY-MM-DD of the first and last scrape with the game
+    firstSeen: string;
+    lastSeen: string;
+    // The playtime in the first scrape, played before the history starts
+    startingHours: number;
+    // Hours played since the first scrape
+    totalHours: number;
+    // Hours by day and by week (the Monday it starts on), YYYY-MM-DD, only the ones with playtime
+    days: Record<string, number>;
+    weeks: Record<string, number>;
+    resets: PlaytimeReset[];
+    gaps: PlaytimeGap[];
+}
+
+/** A scrape the history was built from, and when its file last changed. */
+export interface PlaySource {
+    file: string;
+    modifiedMs: number;
+}
+
+/** Where the history left off, so newer scrapes are added to it without the ones before (they may be pruned by then). */
+export interface PlayHistoryState {
+    // ISO time of the latest scrape in the history, empty when there are none
+    takenAt: string;
+    // By app ID: the playtime the next scrape counts on from, when the game was last seen and if it went missing since
+    games: Record<string, { hours: number; seenAt: string; missing: boolean }>;
+}
+
+export interface PlayHistory {
+    accountID: string;
+    // YYYY-MM-DD of the first and last scrape, empty when there are none
+    from: string;
+    to: string;
+    scrapes: number;
+    games: GameHistory[];
+    state: PlayHistoryState;
+    // Set by loadPlayHistory: the saved history is used again, and added to, as long as these scrapes are unchanged
+    sources?: PlaySource[];
+}
+
+/** A day of the calendar heatmap: how much was played and what. */
+export interface HeatmapDay {
+    date: string;
+    hours: number;
+    games: { steamAppID: number; name: string; hours: number }[];
+}
+
+export interface PlayHeatmap {
+    accountID: string;
+    from: string;
+    to: string;
+    // The busiest day, to scale the colors by
+    maxHours: number;
+    days: HeatmapDay[];
+}
+
+/** What a game note shows of its history. */
+export interface NotePlayHistory {
+    // YYYY-MM-DD of the first scrape with the game
+    since: string;
+    totalHours: number;
+    // The last weeks with playtime, newest first
+    weeks: { start: string; hours: number }[];
+    resets: PlaytimeReset[];
+    gaps: PlaytimeGap[];
+}
+
+export interface PlayHistoryOptions {
+    // The newest scrape to include, defaults to the latest one in output/raw_data
+    inputFile?: string;
+    // Defaults to output/play_history
+    outputDir?: string;
+    quiet?: boolean;
+}
+
+interface GameState {
+    history: GameHistory;
+    hours: number;
+    seenAt: Date;
+    // Missing from a complete scrape since it was last seen
+    missing: boolean;
+}
+
+// --- HELPERS ---
+function localDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Days since 1970 of the local date, the same at any time of the day
+const dayNumber = (date: Date) => Math.round(new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() / DAY_MS);
+
+// Weeks start on Monday
+const weekStart = (date: Date) => localDate(new Date(date.getFullYear(), date.getMonth(), date.getDate() - (date.getDay() + 6) % 7));
+
+const round = (hours: number) => Math.round(hours * 100) / 100;
+
+// The minutes are exact where the scrape has them, the hours are rounded by Steam
+const hoursOf = (game: GameData) => game.playtimeMinutes !== undefined ? game.playtimeMinutes / 60 : game.playtime || 0;
+
+const add = (record: Record<string, number>, key: string, hours: number) => {
+    record[key] = round((record[key] || 0) + hours);
+};
+
+/** The saved history of the account, null when there is none or it can't be read (it is built again then). */
+function readPlayHistory(filePath: string): PlayHistory | null {
+    if (!fs.existsSync(filePath)) return null;
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Whether the saved history can be added to: it doesn't go past the scrape being converted, and every scrape
+ * up to where it left off is one it was built from, unchanged. Scrapes pruned since don't matter.
+ */
+function canResume(saved: PlayHistory, snapshots: SnapshotInfo[], sources: PlaySource[], upTo: Date): boolean {
+    if (!saved.state?.takenAt || !saved.sources) return false;
+    const leftOff = Date.parse(saved.state.takenAt);
+    if (!(leftOff <= upTo.getTime())) return false;
+    const known = new Map(saved.sources.map(source => [source.file, source.modifiedMs]));
+    return snapshots.every((snapshot, i) => snapshot.takenAt.getTime() > leftOff || known.get(sources[i].file) === sources[i].modifiedMs);
+}
+
+const sortedKeys = <T>(record: Record<string, T>): Record<string, T> =>
+    Object.fromEntries(Object.keys(record).sort().map(key => [key, record[key]]));
+
+const fileSuffix = (accountID: string) => accountID ? `_${accountID}` : "";
+
+export const playHistoryPath = (accountID: string, dir: string = PLAY_HISTORY_DIR) => path.join(dir, `PlayHistory${fileSuffix(accountID)}.json`);
+export const playHeatmapPath = (accountID: string, dir: string = PLAY_HISTORY_DIR) => path.join(dir, `PlayHeatmap${fileSuffix(accountID)}.json`);
+
+// --- BUILDING THE HISTORY ---
+/**
+ * Plays the scrapes back in order and turns the growing playtime of every game into hours per day and week.
+ * - The hours between two scrapes go to the day the game was last played, when that lies between them,
+ *   otherwise to the day of the later scrape.
+ * - Playtime that went down is a reset: nothing is counted, the next scrape counts on from the new total.
+ * - Hours that turn up after scrapes more than MAX_SCRAPE_GAP_DAYS days apart, or after the game was missing
+ *   from the scrapes, are counted the same way but also listed as a gap, since their day is a guess.
+ * @param saved A history to go on from, the scrapes have to be newer than the ones in it
+ */
+export function buildPlayHistory(observations: PlayObservation[], accountID: string = "", saved?: PlayHistory): PlayHistory {
+    const ordered = [...observations].sort((a, b) => a.takenAt.getTime() - b.takenAt.getTime());
+    const states = new Map<number, GameState>();
+    for (const history of saved ? saved.games : []) {
+        const state = saved!.state.games[history.steamAppID];
+        if (!state) continue;
+        states.set(history.steamAppID, {
+            history: { ...history, days: { ...history.days }, weeks: { ...history.weeks }, resets: [...history.resets], gaps: [...history.gaps] },
+            hours: state.hours, seenAt: new Date(state.seenAt), missing: state.missing,
+        });
+    }
+
+    for (const observation of ordered) {
+        const date = localDate(observation.takenAt);
+        const seen = new Set<number>();
+
+        for (const game of observation.games) {
+            seen.add(game.steamAppID);
+            const hours = hoursOf(game);
+            const state = states.get(game.steamAppID);
+            if (!state) {
+                states.set(game.steamAppID, {
+                    history: {
+                        steamAppID: game.steamAppID, name: game.name, firstSeen: date, lastSeen: date,
+                        startingHours: round(hours), totalHours: 0, days: {}, weeks: {}, resets: [], gaps: [],
+                    },
+                    hours, seenAt: observation.takenAt, missing: false,
+                });
+                continue;
+            }
+
+            const { history } = state;
+            const change = hours - state.hours;
+            if (change <= -MIN_CHANGE_HOURS) {
+                history.resets.push({ date, fromHours: round(state.hours), toHours: round(hours) });
+            } else if (change >= MIN_CHANGE_HOURS) {
+                const lastPlayed = game.lastPlayed ? new Date(game.lastPlayed * 1000) : null;
+                const playedOn = lastPlayed && lastPlayed > state.seenAt && lastPlayed <= observation.takenAt ? lastPlayed : observation.takenAt;
+                add(history.days, localDate(playedOn), change);
+                add(history.weeks, weekStart(playedOn), change);
+                history.totalHours = round(history.totalHours + change);
+
+                const longGap = dayNumber(observation.takenAt) - dayNumber(state.seenAt) > MAX_SCRAPE_GAP_DAYS;
+                if (longGap || state.missing) {
+                    history.gaps.push({ from: localDate(state.seenAt), to: date, hours: round(change), missing: state.missing });
+                }
+            }
+            // Within the rounding the old total is kept, so small steps still add up
+            if (Math.abs(change) >= MIN_CHANGE_HOURS) state.hours = hours;
+            state.seenAt = observation.takenAt;
+            state.missing = false;
+            history.name = game.name;
+            history.lastSeen = date;
+        }
+
+        if (observation.complete === true) {
+            for (const [appId, state] of states) {
+                if (!seen.has(appId)) state.missing = true;
+            }
+        }
+    }
+
+    const games = Array.from(states.values())
+        .map(({ history }) => ({ ...history, days: sortedKeys(history.days), weeks: sortedKeys(history.weeks) }))
+        .sort((a, b) => a.name.localeCompare(b.name) || a.steamAppID - b.steamAppID);
+    const latest = ordered.length > 0 ? ordered[ordered.length - 1].takenAt : null;
+    return {
+        accountID,
+        from: saved?.from || (ordered.length > 0 ? localDate(ordered[0].takenAt) : ""),
+        to: latest ? localDate(latest) : saved?.to || "",
+        scrapes: (saved?.scrapes || 0) + ordered.length,
+        games,
+        state: {
+            takenAt: latest ? latest.toISOString() : saved?.state.takenAt || "",
+            games: Object.fromEntries(Array.from(states.entries()).map(([appId, state]) =>
+                [appId, { hours: state.hours, seenAt: state.seenAt.toISOString(), missing: state.missing }])),
+        },
+    };
+}
+
+/** Every day with playtime, for a calendar heatmap. The days in between are left out, they had none. */
+export function buildPlayHeatmap(history: PlayHistory): PlayHeatmap {
+    const days = new Map<string, HeatmapDay>();
+    for (const game of history.games) {
+        for (const [date, hours] of Object.entries(game.days)) {
+            const day = days.get(date) || { date, hours: 0, games: [] };
+            day.hours = round(day.hours + hours);
+            day.games.push({ steamAppID: game.steamAppID, name: game.name, hours });
+            days.set(date, day);
+        }
+    }
+
+    const sorted = Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+    sorted.forEach(day => day.games.sort((a, b) => b.hours - a.hours || a.name.localeCompare(b.name)));
+    return {
+        accountID: history.accountID,
+        from: history.from,
+        to: history.to,
+        maxHours: sorted.reduce((max, day) => Math.max(max, day.hours), 0),
+        days: sorted,
+    };
+}
+
+/** The part of a game's history its note shows, null when the game isn't in any scrape. */
+export function notePlayHistory(history: GameHistory | undefined, weeks: number = NOTE_WEEKS): NotePlayHistory | null {
+    if (!history) return null;
+    return {
+        since: history.firstSeen,
+        totalHours: history.totalHours,
+        weeks: Object.keys(history.weeks).sort().reverse().slice(0, weeks).map(start => ({ start, hours: history.weeks[start] })),
+        resets: history.resets,
+        gaps: history.gaps,
+    };
+}
+
+// --- MAIN FUNCTIONS ---
+/**
+ * The play history up to (and including) a snapshot, from all scrapes of its account next to it.
+ * A snapshot whose name doesn't say its account is read on its own, which gives no playtime yet.
+ * @param savedDir Where the history was written before: only the scrapes newer than it are added to it, so a
+ *   convert doesn't read every scrape again and pruned scrapes keep their hours. It is built again from the
+ *   scrapes there are when one it was built from changed, or when it goes past the snapshot.
+ */
+export function loadPlayHistory(snapshotPath: string, savedDir?: string): PlayHistory {
+    const info = describeSnapshot(snapshotPath);
+    const others = info.accountID
+        ? listSnapshots(path.dirname(snapshotPath), info.accountID).filter(s => s.takenAt <= info.takenAt && s.path !== info.path)
+        : [];
+    const snapshots = [info, ...others];
+    const sources = snapshots.map(s => ({ file: s.fileName, modifiedMs: fs.statSync(s.path).mtimeMs }));
+
+    // Without an account there is nothing to go on from, the snapshot is read on its own
+    const found = savedDir && info.accountID ? readPlayHistory(playHistoryPath(info.accountID, savedDir)) : null;
+    const saved = found && canResume(found, snapshots, sources, info.takenAt) ? found : null;
+    const added = saved ? snapshots.filter(s => s.takenAt.getTime() > Date.parse(saved.state.takenAt)) : snapshots;
+    if (saved && added.length === 0) return saved;
+
+    const observations: PlayObservation[] = [];
+    for (const snapshot of added) {
+        try {
+            const { games, complete } = loadSnapshotFile(snapshot.path);
+            observations.push({ takenAt: snapshot.takenAt, games, complete });
+        } catch (e) {
+            // The snapshot being converted is checked by the caller, a broken older one is left out
+            console.error(`Could not read ${snapshot.path}, it is left out of the play history: ${(e as Error).message}`);
+        }
+    }
+    const addedSources = sources.filter((source, i) => added.includes(snapshots[i]));
+    return { ...buildPlayHistory(observations, info.accountID, saved || undefined), sources: [...addedSources, ...(saved ? saved.sources! : [])] };
+}
+
+/** Writes the history and the heatmap of the account, returns their paths. */
+export function writePlayHistory(history: PlayHistory, dir: string = PLAY_HISTORY_DIR): string[] {
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    const historyPath = playHistoryPath(history.accountID, dir);
+    const heatmapPath = playHeatmapPath(history.accountID, dir);
+    fs.writeFileSync(historyPath, JSON.stringify(history, null, 2), 'utf-8');
+    fs.writeFileSync(heatmapPath, JSON.stringify(buildPlayHeatmap(history), null, 2), 'utf-8');
+    return [historyPath, heatmapPath];
+}
+
+/** Updates the play history files of the scrape's account without converting (convert does it too). */
+export async function runPlayHistory(options: PlayHistoryOptions = {}): Promise<boolean> {
+    const log = (...args: unknown[]) => { if (!options.quiet) console.log(...args); };
+
+    const jsonPath = options.inputFile ? path.resolve(options.inputFile) : findLatestSnapshot(RAW_DATA_DIR);
+    if (!jsonPath || !fs.existsSync(jsonPath)) {
+        console.error(jsonPath ? `Input file not found: ${jsonPath}` : `No JSON files found in ${RAW_DATA_DIR}. Please run the scraper first.`);
+        return false;
+    }
+
+    const outputDir = options.outputDir ? path.resolve(options.outputDir) : PLAY_HISTORY_DIR;
+    const history = loadPlayHistory(jsonPath, outputDir);
+    if (history.scrapes === 0) return false;
+    const played = history.games.filter(game => game.totalHours > 0);
+    const [historyPath, heatmapPath] = writePlayHistory(history, outputDir);
+    const count = (n: number, word: string) => n === 1 ? `1 ${word}` : `${n} ${word}s`;
+    log(`\nPlay history of ${count(history.scrapes, "scrape")} (${history.from} to ${history.to}), ${count(played.length, "game")} played, saved to:`);
+    log(historyPath);
+    log(heatmapPath);
+    return true;
+}
@@ -0,0 +1,129 @@
+/*
+    Steam Library Scraper - Price History
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PriceData, WishlistItem } from './game-data';
+
+// --- CONFIGURATION ---
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+// One file per app: output/price_history/<appid>.json
+export const PRICE_HISTORY_DIR = path.join(ROOT_DIR, 'output', 'price_history');
+
+// --- INTERFACES ---
+/** A price that was seen on a day. Prices are in cents, like Steam gives them. */
+export interface PricePoint {
+    // YYYY-MM-DD
+    date: string;
+    currency: string;
+    initial: number;
+    final: number;
+    discountPercent: number;
+    finalFormatted: string;
+}
+
+export interface PriceHistory {
+    steamAppID: number;
+    name: string;
+    // YYYY-MM-DD of the last time the price was looked at, even when it didn't change
+    lastChecked: string;
+    // Only the changes: a new point is added when the price differs from the one before
+    points: PricePoint[];
+}
+
+/** A wishlisted game that costs the least it ever did since we started watching. */
+export interface WishlistLow {
+    name: string;
+    steamAppID: number;
+    finalFormatted: string;
+    discountPercent: number;
+}
+
+// --- HELPERS ---
+const historyPath = (appId: number, dir: string) => path.join(dir, `${appId}.json`);
+
+function localDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+const samePrice = (point: PricePoint, price: PriceData) =>
+    point.currency === price.currency && point.initial === price.initial && point.final === price.final;
+
+// --- HISTORY FILES ---
+export function loadPriceHistory(appId: number, dir: string = PRICE_HISTORY_DIR): PriceHistory | null {
+    const filePath = historyPath(appId, dir);
+    if (!fs.existsSync(filePath)) return null;
+
+    try {
+        const json = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        return Array.isArray(json.points) ? json : null;
+    } catch (e) {
+        console.error(`Could not read the price history at ${filePath}, it starts over.`);
+        return null;
+    }
+}
+
+/** False when the price of the app was already looked at today. */
+export function needsPriceCheck(appId: number, dir: string = PRICE_HISTORY_DIR, now: Date = new Date()): boolean {
+    const history = loadPriceHistory(appId, dir);
+    return !history || history.lastChecked !== localDate(now);
+}
+
+/** Adds today's price to the history of an app and returns the history. A price seen twice on one day keeps the last one. */
+export function recordPrice(appId: number, name: string, price: PriceData, dir: string = PRICE_HISTORY_DIR, now: Date = new Date()): PriceHistory {
+    const today = localDate(now);
+    const history: PriceHistory = loadPriceHistory(appId, dir) || { steamAppID: appId, name, lastChecked: today, points: [] };
+    history.name = name;
+    history.lastChecked = today;
+
+    const last = history.points[history.points.length - 1];
+    if (!last || !samePrice(last, price)) {
+        if (last && last.date === today) history.points.pop();
+        history.points.push({
+            date: today,
+            currency: price.currency,
+            initial: price.initial,
+            final: price.final,
+            discountPercent: price.discountPercent,
+            finalFormatted: price.finalFormatted,
+        });
+    }
+
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(historyPath(appId, dir), JSON.stringify(history, null, 2), 'utf-8');
+    return history;
+}
+
+/** The cheapest the app has been in a currency, the first day of that price when it came back later. */
+export function lowestPrice(history: PriceHistory | null, currency: string): PricePoint | null {
+    let lowest: PricePoint | null = null;
+    for (const point of history?.points || []) {
+        if (point.currency === currency && (!lowest || point.final < lowest.final)) lowest = point;
+    }
+    return lowest;
+}
+
+/**
+ * True when the price is the lowest in the history. A price that never changed is not a low,
+ * so the history needs at least two prices in the currency.
+ */
+export function isHistoricalLow(history: PriceHistory | null, price: PriceData): boolean {
+    const points = (history?.points || []).filter(p => p.currency === price.currency);
+    const lowest = lowestPrice(history, price.currency);
+    return points.length > 1 && lowest !== null && price.final <= lowest.final;
+}
+
+/** The wishlisted games at their historical low, best discount first. */
+export function findWishlistLows(items: WishlistItem[], dir: string = PRICE_HISTORY_DIR): WishlistLow[] {
+    const lows: WishlistLow[] = [];
+    for (const item of items) {
+        if (!item.price || !isHistoricalLow(loadPriceHistory(item.steamAppID, dir), item.price)) continue;
+        lows.push({ name: item.name, steamAppID: item.steamAppID, finalFormatted: item.price.finalFormatted, discountPercent: item.price.discountPercent });
+    }
+    return lows.sort((a, b) => b.discountPercent - a.discountPercent || a.name.localeCompare(b.name));
+}
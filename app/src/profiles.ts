@@ -0,0 +1,102 @@
+/*
+    Steam Library Scraper - Profiles
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+// --- CONFIGURATION ---
+const COMMUNITY_URL = 'https://steamcommunity.com';
+
+// SteamID64s are 17 digits and always start with 7656119
+const STEAM_ID64_PATTERN = /^7656119\d{10}$/;
+// Custom URL IDs as Steam allows them when you pick one
+const VANITY_ID_PATTERN = /^[A-Za-z0-9_-]{2,32}$/;
+// Profile links as copied from the browser: /id/<custom> or /profiles/<SteamID64>
+const PROFILE_URL_PATTERN = /steamcommunity\.com\/(?:id|profiles)\/([^/?#\s]+)/i;
+// Profile names become folder names, so they stay simple
+const PROFILE_NAME_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _-]*$/u;
+
+// --- INTERFACES ---
+/** A profile as written in scraper-settings.json */
+export interface ProfileSettings {
+    name: string;
+    steamAccountID: string;
+}
+
+export interface SteamProfile {
+    name: string;
+    // Custom URL ID or SteamID64
+    accountID: string;
+    // Subfolder for this profile's notes and exports, null for the single account of older settings
+    folder: string | null;
+}
+
+// --- HELPERS ---
+export function isSteamID64(accountID: string): boolean {
+    return STEAM_ID64_PATTERN.test(accountID);
+}
+
+/**
+ * Turns whatever the user pasted (a custom URL ID, a SteamID64 or a profile link) into the bare ID.
+ * Returns null when it isn't any of those.
+ */
+export function normalizeAccountID(input: string): string | null {
+    const text = input.trim();
+    const fromUrl = text.match(PROFILE_URL_PATTERN);
+    const id = fromUrl ? decodeURIComponent(fromUrl[1]) : text;
+
+    return isSteamID64(id) || VANITY_ID_PATTERN.test(id) ? id : null;
+}
+
+/** The community profile page, `/profiles/` for SteamID64s and `/id/` for custom URLs. */
+export function profileUrl(accountID: string): string {
+    return isSteamID64(accountID) ? `${COMMUNITY_URL}/profiles/${accountID}` : `${COMMUNITY_URL}/id/${accountID}`;
+}
+
+/**
+ * Reads the profiles from the settings. Without a `profiles` list the old `steamAccountID` is the only profile.
+ * Throws when a profile is invalid, so a typo doesn't silently scrape the wrong account.
+ */
+export function resolveProfiles(settings: { steamAccountID?: string; profiles?: ProfileSettings[] } | null): SteamProfile[] {
+    if (!settings) return [];
+
+    if (!Array.isArray(settings.profiles) || settings.profiles.length === 0) {
+        const accountID = settings.steamAccountID ? normalizeAccountID(settings.steamAccountID) : null;
+        if (settings.steamAccountID && !accountID) {
+            throw new Error(`"${settings.steamAccountID}" in the settings is not a Steam Custom URL ID, SteamID64 or profile link.`);
+        }
+        return accountID ? [{ name: accountID, accountID, folder: null }] : [];
+    }
+
+    const seen = new Set<string>();
+    return settings.profiles.map((profile, index) => {
+        const name = typeof profile?.name === 'string' ? profile.name.trim() : "";
+        if (!PROFILE_NAME_PATTERN.test(name)) {
+            throw new Error(`Profile ${index + 1} in the settings needs a "name" made of letters, numbers, spaces, - or _.`);
+        }
+        if (seen.has(name.toLowerCase())) {
+            throw new Error(`There are two profiles named "${name}" in the settings.`);
+        }
+        seen.add(name.toLowerCase());
+
+        const accountID = typeof profile.steamAccountID === 'string' ? normalizeAccountID(profile.steamAccountID) : null;
+        if (!accountID) {
+            throw new Error(`Profile "${name}" needs a "steamAccountID": a Custom URL ID, SteamID64 or profile link.`);
+        }
+        return { name, accountID, folder: name };
+    });
+}
+
+/**
+ * Finds a profile by its name (case insensitive) or account ID.
+ * Anything else that looks like a Steam account is used as it is, without its own folder.
+ */
+export function findProfile(profiles: SteamProfile[], nameOrID: string): SteamProfile | null {
+    const wanted = nameOrID.trim().toLowerCase();
+    const known = profiles.find(p => p.name.toLowerCase() === wanted);
+    if (known) return known;
+
+    const accountID = normalizeAccountID(nameOrID);
+    if (!accountID) return null;
+    return profiles.find(p => p.accountID === accountID) || { name: accountID, accountID, folder: null };
+}
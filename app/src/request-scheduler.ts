@@ -0,0 +1,195 @@
+/*
+    Steam Library Scraper - Request Scheduler
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+// --- CONFIGURATION ---
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+    intervalMs: 1200,
+    burst: 3,
+    concurrency: 3,
+    maxRetries: 4,
+    backoffMs: 2000,
+    maxBackoffMs: 60 * 1000,
+    maxIntervalMs: 15 * 1000,
+    maxRetryAfterMs: 5 * 60 * 1000,
+};
+
+// After this many successful requests in a row a slowed down scheduler speeds up again
+const RECOVER_AFTER = 10;
+const RECOVER_FACTOR = 0.75;
+
+// --- INTERFACES ---
+export interface SchedulerOptions {
+    // Average time between two requests: the token bucket gets one token per interval. 0 = no limit
+    intervalMs: number;
+    // How many tokens the bucket holds, so this many requests may go out back to back after a quiet moment
+    burst: number;
+    // Requests in flight at the same time
+    concurrency: number;
+    // Extra attempts before a request counts as failed
+    maxRetries: number;
+    // Wait before the first retry, doubled for every next one
+    backoffMs: number;
+    maxBackoffMs: number;
+    // Throttling doubles the interval, up to this
+    maxIntervalMs: number;
+    // A server asking us to come back later than this is not waited for, the request fails instead
+    maxRetryAfterMs: number;
+}
+
+/** Thrown by a task when trying again later may work (HTTP 429, 5xx, a dropped connection). */
+export class RetryableError extends Error {
+    constructor(
+        message: string,
+        // From the Retry-After header, null when the server didn't say
+        public readonly retryAfterMs: number | null = null,
+        // The server said we are too fast (HTTP 429), which slows down every request, not just this one
+        public readonly throttled: boolean = false,
+    ) {
+        super(message);
+        this.name = 'RetryableError';
+    }
+}
+
+export interface RetryEvent {
+    // 1 for the first retry
+    attempt: number;
+    waitMs: number;
+    error: RetryableError;
+}
+
+export interface SchedulerEvents {
+    onRetry?: (event: RetryEvent) => void;
+}
+
+export interface RequestScheduler {
+    /**
+     * Runs the task once a token and a free slot are available, retrying it on a RetryableError.
+     * Rejects with the last error when it keeps failing or fails with any other error.
+     */
+    schedule<T>(task: () => Promise<T>): Promise<T>;
+    // The interval as it is now, larger than the configured one while Steam is throttling us
+    currentIntervalMs(): number;
+    stats(): { requests: number; retries: number; throttled: number };
+}
+
+// --- HELPERS ---
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/**
+ * Reads a Retry-After header: either a number of seconds or an HTTP date.
+ * Returns null when the header is missing or unreadable.
+ */
+export function parseRetryAfter(value: string | string[] | undefined, now: number = Date.now()): number | null {
+    const text = (Array.isArray(value) ? value[0] : value)?.trim();
+    if (!text) return null;
+    if (/^\d+$/.test(text)) return parseInt(text, 10) * 1000;
+
+    const date = Date.parse(text);
+    return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** HTTP 429 and server errors are worth another try, so is no answer at all (undefined). */
+export function isRetryableStatus(httpStatus: number | undefined): boolean {
+    return httpStatus === undefined || httpStatus === 429 || httpStatus >= 500;
+}
+
+// --- SCHEDULER ---
+export function createRequestScheduler(options: Partial<SchedulerOptions> = {}, events: SchedulerEvents = {}): RequestScheduler {
+    const settings: SchedulerOptions = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+    const burst = Math.max(1, settings.burst);
+    const concurrency = Math.max(1, settings.concurrency);
+
+    let intervalMs = settings.intervalMs;
+    let tokens = burst;
+    let lastRefill = Date.now();
+    // Nothing goes out before this moment, set when the server asked us to wait
+    let pausedUntil = 0;
+    let successStreak = 0;
+    let active = 0;
+    const waiting: (() => void)[] = [];
+    const counters = { requests: 0, retries: 0, throttled: 0 };
+
+    const refill = (now: number) => {
+        tokens = intervalMs > 0 ? Math.min(burst, tokens + (now - lastRefill) / intervalMs) : burst;
+        lastRefill = now;
+    };
+
+    async function takeToken() {
+        for (;;) {
+            const now = Date.now();
+            refill(now);
+            if (now < pausedUntil) {
+                await sleep(pausedUntil - now);
+            } else if (tokens >= 1) {
+                tokens -= 1;
+                return;
+            } else {
+                await sleep(Math.ceil((1 - tokens) * intervalMs));
+            }
+        }
+    }
+
+    async function acquireSlot() {
+        if (active < concurrency) {
+            active++;
+            return;
+        }
+        // releaseSlot hands its slot over directly, so `active` stays the same
+        await new Promise<void>(resolve => waiting.push(resolve));
+    }
+
+    function releaseSlot() {
+        const next = waiting.shift();
+        if (next) next();
+        else active--;
+    }
+
+    function slowDown(until: number) {
+        counters.throttled++;
+        successStreak = 0;
+        tokens = 0;
+        pausedUntil = Math.max(pausedUntil, until);
+        intervalMs = Math.min(settings.maxIntervalMs, Math.max(intervalMs * 2, settings.intervalMs));
+    }
+
+    function recover() {
+        if (intervalMs <= settings.intervalMs || ++successStreak < RECOVER_AFTER) return;
+        successStreak = 0;
+        intervalMs = Math.max(settings.intervalMs, Math.round(intervalMs * RECOVER_FACTOR));
+    }
+
+    return {
+        async schedule<T>(task: () => Promise<T>): Promise<T> {
+            await acquireSlot();
+            try {
+                for (let attempt = 0; ; attempt++) {
+                    await takeToken();
+                    counters.requests++;
+                    try {
+                        const result = await task();
+                        recover();
+                        return result;
+                    } catch (e) {
+                        if (!(e instanceof RetryableError) || attempt >= settings.maxRetries) throw e;
+                        if (e.retryAfterMs !== null && e.retryAfterMs > settings.maxRetryAfterMs) throw e;
+
+                        const backoffMs = Math.min(settings.maxBackoffMs, settings.backoffMs * 2 ** attempt);
+                        const waitMs = Math.max(backoffMs, e.retryAfterMs || 0);
+                        if (e.throttled) slowDown(Date.now() + waitMs);
+
+                        counters.retries++;
+                        if (events.onRetry) events.onRetry({ attempt: attempt + 1, waitMs, error: e });
+                        await sleep(waitMs);
+                    }
+                }
+            } finally {
+                releaseSlot();
+            }
+        },
+        currentIntervalMs: () => intervalMs,
+        stats: () => ({ ...counters }),
+    };
+}
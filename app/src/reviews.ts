@@ -0,0 +1,105 @@
+/*
+    Steam Library Scraper - Reviews
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { type Page } from '@playwright/test';
+import { ReviewData } from './game-data';
+
+// --- CONFIGURATION ---
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// Ten reviews per page, nobody writes more than a few thousand
+const MAX_PAGES = 500;
+const PAGE_WAIT_MS = 500;
+
+// --- INTERFACES ---
+/** Raw text of one review on the profile's reviews page (/recommended/). */
+export interface ReviewRow {
+    // Link to the review, e.g. https://steamcommunity.com/id/you/recommended/620/
+    url: string;
+    // Empty when the page shows no game name
+    gameName: string;
+    // "Recommended" or "Not Recommended"
+    title: string;
+    // e.g. "12.3 hrs on record"
+    hoursText: string;
+    // e.g. "Posted 5 January." or "Posted 5 January, 2023. Last edited 6 January."
+    postedText: string;
+    content: string;
+}
+
+// --- PARSING ---
+/**
+ * Reads the "Posted" line of a review into a Unix timestamp (seconds), local midnight of that day.
+ * Steam leaves out the year for the current year, so a date without year that lies in the future belongs to last year.
+ */
+export function parsePostedDate(text: string, now: Date = new Date()): number | false {
+    const posted = text.replace(/^\s*Posted:?\s*/i, '').split(/\.\s*Last edited/i)[0];
+    const match = posted.match(/^(?:(\d{1,2})\s+([a-z]{3})[a-z]*|([a-z]{3})[a-z]*\s+(\d{1,2})),?\s*(\d{4})?/i);
+    if (!match) return false;
+
+    const [, dayFirst, monthSecond, monthFirst, daySecond, yearStr] = match;
+    const month = MONTHS.indexOf((monthSecond || monthFirst).toLowerCase());
+    if (month === -1) return false;
+
+    const day = Number(dayFirst || daySecond);
+    let date = new Date(yearStr ? Number(yearStr) : now.getFullYear(), month, day);
+    if (!yearStr && date.getTime() > now.getTime()) date = new Date(now.getFullYear() - 1, month, day);
+    return Math.floor(date.getTime() / 1000);
+}
+
+export function parseReviewRow(row: ReviewRow, now: Date = new Date()): ReviewData | null {
+    const appId = row.url.match(/\/recommended\/(\d+)/);
+    if (!appId) return null;
+
+    const hours = row.hoursText.match(/([\d,.]+)\s*hrs?/i);
+    return {
+        name: row.gameName || `App ${appId[1]}`,
+        steamAppID: Number(appId[1]),
+        // "Not Recommended" contains "Recommended", so check the negative first
+        recommended: !/not recommended/i.test(row.title) && /recommended/i.test(row.title),
+        hoursOnRecord: hours ? Number(hours[1].replace(/,/g, '')) || 0 : 0,
+        posted: parsePostedDate(row.postedText, now),
+        text: row.content.trim(),
+        url: row.url,
+    };
+}
+
+// --- PAGE HELPERS ---
+export function reviewsPageUrl(profileUrl: string, page: number = 1): string {
+    return `${profileUrl}/recommended/?p=${page}`;
+}
+
+/** Reads the review rows of the reviews page that is currently open. */
+export async function collectReviewRows(page: Page): Promise<ReviewRow[]> {
+    return page.locator('.review_box').evaluateAll((boxes: HTMLElement[]) => boxes.map(box => {
+        const link = box.querySelector<HTMLAnchorElement>('.title a') || box.querySelector<HTMLAnchorElement>('a[href*="/recommended/"]');
+        return {
+            url: link?.href || "",
+            gameName: box.querySelector('.leftcol img')?.getAttribute('alt')?.trim() || "",
+            title: box.querySelector('.title')?.textContent?.trim() || "",
+            hoursText: box.querySelector('.hours')?.textContent?.trim() || "",
+            postedText: box.querySelector('.posted')?.textContent?.trim() || "",
+            content: (box.querySelector('.content') as HTMLElement | null)?.innerText || "",
+        };
+    }));
+}
+
+/** Visits every page of the profile's reviews, a public page that needs no login. */
+export async function scrapeReviews(page: Page, profileUrl: string): Promise<ReviewData[]> {
+    const reviews = new Map<number, ReviewData>();
+
+    for (let pageNumber = 1; pageNumber <= MAX_PAGES; pageNumber++) {
+        await page.goto(reviewsPageUrl(profileUrl, pageNumber));
+        const rows = (await collectReviewRows(page)).map(row => parseReviewRow(row)).filter((r): r is ReviewData => r !== null);
+
+        // Past the last page Steam shows the last one again (or nothing)
+        const fresh = rows.filter(r => !reviews.has(r.steamAppID));
+        if (fresh.length === 0) break;
+        fresh.forEach(r => reviews.set(r.steamAppID, r));
+        await page.waitForTimeout(PAGE_WAIT_MS);
+    }
+
+    return Array.from(reviews.values());
+}
@@ -0,0 +1,400 @@
+/*
+    Steam Library Scraper - Games List Row Parser
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { GameData } from './game-data';
+
+// --- INTERFACES ---
+export type FieldName = 'playtime' | 'lastPlayed' | 'achievements';
+
+/**
+ * How the Steam games page writes things in one UI language.
+ * Labels are compared case-insensitively. When Steam changes a translation (or a language is missing),
+ * this table is the only place that needs an update.
+ */
+export interface LanguageInfo {
+    code: string;
+    labels: Record<FieldName, string[]>;
+    // Words that mark a playtime as minutes instead of hours
+    minuteWords: string[];
+    today: string[];
+    yesterday: string[];
+    never: string[];
+    // January to December, full names (abbreviations are matched by prefix)
+    months: string[];
+    decimalSeparator: '.' | ',';
+}
+
+/** The text found next to one label inside a row, exactly as the browser saw it. */
+export interface RawField {
+    label: string;
+    text: string;
+}
+
+/** What the browser collects per row. All interpretation happens in Node, see parseGameRow. */
+export interface RawGameRow {
+    name: string;
+    href: string;
+    fields: Partial<Record<FieldName, RawField>>;
+}
+
+export interface ParseIssue {
+    game: string;
+    steamAppID: number;
+    field: FieldName;
+    raw: string;
+}
+
+export interface ParsedRows {
+    games: GameData[];
+    // Values that were present but could not be understood, they are stored as false/0 in the games
+    issues: ParseIssue[];
+}
+
+// --- LANGUAGES ---
+export const LANGUAGES: LanguageInfo[] = [
+    {
+        code: 'english',
+        labels: { playtime: ['TOTAL PLAYED'], lastPlayed: ['LAST PLAYED'], achievements: ['ACHIEVEMENTS'] },
+        minuteWords: ['minute', 'min'],
+        today: ['today'], yesterday: ['yesterday'], never: ['never'],
+        months: ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'],
+        decimalSeparator: '.',
+    },
+    {
+        code: 'german',
+        labels: { playtime: ['GESAMTSPIELZEIT', 'INSGESAMT GESPIELT'], lastPlayed: ['ZULETZT GESPIELT'], achievements: ['ERRUNGENSCHAFTEN'] },
+        minuteWords: ['minute', 'min'],
+        today: ['heute'], yesterday: ['gestern'], never: ['nie', 'niemals'],
+        months: ['januar', 'februar', 'märz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'],
+        decimalSeparator: ',',
+    },
+    {
+        code: 'french',
+        labels: { playtime: ['TEMPS DE JEU TOTAL', 'TOTAL JOUÉ'], lastPlayed: ['DERNIÈRE SESSION', 'JOUÉ POUR LA DERNIÈRE FOIS'], achievements: ['SUCCÈS'] },
+        minuteWords: ['minute', 'min'],
+        today: ["aujourd'hui", 'aujourd’hui'], yesterday: ['hier'], never: ['jamais'],
+        months: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+        decimalSeparator: ',',
+    },
+    {
+        code: 'spanish',
+        labels: { playtime: ['TIEMPO DE JUEGO TOTAL', 'TOTAL JUGADO'], lastPlayed: ['ÚLTIMA SESIÓN', 'JUGADO POR ÚLTIMA VEZ'], achievements: ['LOGROS'] },
+        minuteWords: ['minuto', 'min'],
+        today: ['hoy'], yesterday: ['ayer'], never: ['nunca'],
+        months: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'],
+        decimalSeparator: ',',
+    },
+    {
+        code: 'portuguese',
+        labels: { playtime: ['TEMPO TOTAL DE JOGO', 'TOTAL JOGADO'], lastPlayed: ['JOGADO PELA ÚLTIMA VEZ', 'ÚLTIMA SESSÃO'], achievements: ['CONQUISTAS'] },
+        minuteWords: ['minuto', 'min'],
+        today: ['hoje'], yesterday: ['ontem'], never: ['nunca'],
+        months: ['janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'],
+        decimalSeparator: ',',
+    },
+    {
+        code: 'italian',
+        labels: { playtime: ['TEMPO DI GIOCO TOTALE', 'TOTALE GIOCATO'], lastPlayed: ['ULTIMA SESSIONE', 'GIOCATO PER ULTIMO'], achievements: ['OBIETTIVI'] },
+        minuteWords: ['minut', 'min'],
+        today: ['oggi'], yesterday: ['ieri'], never: ['mai'],
+        months: ['gennaio', 'febbraio', 'marzo', 'aprile', 'maggio', 'giugno', 'luglio', 'agosto', 'settembre', 'ottobre', 'novembre', 'dicembre'],
+        decimalSeparator: ',',
+    },
+    {
+        code: 'dutch',
+        labels: { playtime: ['TOTAAL GESPEELD', 'TOTALE SPEELTIJD'], lastPlayed: ['LAATST GESPEELD'], achievements: ['PRESTATIES'] },
+        minuteWords: ['minu', 'min'],
+        today: ['vandaag'], yesterday: ['gisteren'], never: ['nooit'],
+        months: ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus', 'september', 'oktober', 'november', 'december'],
+        decimalSeparator: ',',
+    },
+    {
+        code: 'polish',
+        labels: { playtime: ['ŁĄCZNY CZAS GRY'], lastPlayed: ['OSTATNIO GRANO'], achievements: ['OSIĄGNIĘCIA'] },
+        minuteWords: ['minut', 'min'],
+        today: ['dzisiaj', 'dziś'], yesterday: ['wczoraj'], never: ['nigdy'],
+        // Genitive forms, as used in dates ("17 lipca 2023")
+        months: ['stycznia', 'lutego', 'marca', 'kwietnia', 'maja', 'czerwca', 'lipca', 'sierpnia', 'września', 'października', 'listopada', 'grudnia'],
+        decimalSeparator: ',',
+    },
+    {
+        code: 'russian',
+        labels: { playtime: ['ВСЕГО СЫГРАНО', 'ОБЩЕЕ ВРЕМЯ ИГРЫ'], lastPlayed: ['ПОСЛЕДНИЙ ЗАПУСК'], achievements: ['ДОСТИЖЕНИЯ'] },
+        minuteWords: ['мин'],
+        today: ['сегодня'], yesterday: ['вчера'], never: ['никогда'],
+        months: ['января', 'февраля', 'марта', 'апреля', 'мая', 'июня', 'июля', 'августа', 'сентября', 'октября', 'ноября', 'декабря'],
+        decimalSeparator: ',',
+    },
+];
+
+const ENGLISH = LANGUAGES[0];
+
+/** Every known label per field, in all languages. This is what the browser looks for. */
+export const FIELD_LABELS: Record<FieldName, string[]> = {
+    playtime: ([] as string[]).concat(...LANGUAGES.map(l => l.labels.playtime)),
+    lastPlayed: ([] as string[]).concat(...LANGUAGES.map(l => l.labels.lastPlayed)),
+    achievements: ([] as string[]).concat(...LANGUAGES.map(l => l.labels.achievements)),
+};
+
+// --- BROWSER SIDE ---
+/**
+ * Collects the raw text of every games list row. This runs inside the page (through evaluateAll),
+ * so it must stay self-contained: no imports, no helpers from this file.
+ */
+export function collectRawRows(rows: HTMLElement[], labels: Record<FieldName, string[]>): RawGameRow[] {
+    return rows.map((row: HTMLElement) => {
+        const allEls = Array.from(row.querySelectorAll('*')) as HTMLElement[];
+        const fields: Partial<Record<FieldName, RawField>> = {};
+
+        for (const field of Object.keys(labels) as FieldName[]) {
+            const wanted = labels[field].map(l => l.toUpperCase());
+            const labelEl = allEls.find(el => wanted.includes((el.textContent || "").trim().toUpperCase()));
+            if (labelEl && labelEl.parentElement) {
+                const parent = labelEl.parentElement;
+                fields[field] = {
+                    label: (labelEl.textContent || "").trim(),
+                    // innerText keeps the visual line breaks, textContent is the fallback outside real browsers
+                    text: parent.innerText !== undefined ? parent.innerText : (parent.textContent || ""),
+                };
+            }
+        }
+
+        let name = "N/A";
+        const img = row.querySelector('img');
+        const link = row.querySelector('a');
+        if (img && img.alt) name = img.alt;
+        else if (link && link.textContent) name = link.textContent.trim();
+
+        const storeLink = Array.from(row.querySelectorAll('a')).find(a => (a.getAttribute('href') || "").includes('/app/'));
+        return { name, href: storeLink ? storeLink.getAttribute('href') || "" : "", fields };
+    });
+}
+
+// --- HELPERS ---
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+function languageOfLabel(label: string): LanguageInfo {
+    const upper = label.trim().toUpperCase();
+    return LANGUAGES.find(l => Object.values(l.labels).some(list => list.some(x => x.toUpperCase() === upper))) || ENGLISH;
+}
+
+/** The part of the row text after the label, e.g. "1,003.9 hours" from "TOTAL PLAYED\n1,003.9 hours". */
+function fieldValue(field: RawField): string {
+    const index = field.text.toUpperCase().indexOf(field.label.toUpperCase());
+    const value = index >= 0 ? field.text.slice(index + field.label.length) : field.text;
+    return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Turns "1,003.9", "1.003,9", "1 003,9" or "45" into a number.
+ * A single separator is only a thousands separator when it isn't the language's decimal separator
+ * and exactly three digits follow it.
+ */
+export function parseLocaleNumber(text: string, decimalSeparator: '.' | ',' = '.'): number | null {
+    const match = text.match(/\d[\d.,\s']*/);
+    if (!match) return null;
+
+    let digits = match[0].replace(/[\s']/g, '').replace(/[.,]+$/, '');
+    const dots = (digits.match(/\./g) || []).length;
+    const commas = (digits.match(/,/g) || []).length;
+
+    if (dots > 0 && commas > 0) {
+        const decimal = digits.lastIndexOf('.') > digits.lastIndexOf(',') ? '.' : ',';
+        const thousands = decimal === '.' ? ',' : '.';
+        digits = digits.split(thousands).join('').replace(decimal, '.');
+    } else if (dots + commas > 1) {
+        // "1.234.567" or "1,234,567": repeated separators are always thousands
+        digits = digits.replace(/[.,]/g, '');
+    } else if (dots + commas === 1) {
+        const separator = dots ? '.' : ',';
+        const decimals = digits.split(separator)[1];
+        const isThousands = separator !== decimalSeparator && decimals.length === 3;
+        digits = isThousands ? digits.replace(separator, '') : digits.replace(separator, '.');
+    }
+
+    const value = parseFloat(digits);
+    return isNaN(value) ? null : value;
+}
+
+function monthIndex(token: string, languages: LanguageInfo[]): number {
+    const clean = token.replace(/\./g, '');
+    if (clean.length < 3) return -1;
+
+    for (const language of languages) {
+        const index = language.months.findIndex(m => m.startsWith(clean) || clean.startsWith(m));
+        if (index !== -1) return index;
+    }
+    return -1;
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const toUnix = (date: Date) => Math.floor(date.getTime() / 1000);
+
+// --- FIELD PARSERS ---
+/** Hours played, false for "never played", null when the text can't be understood. */
+export function parsePlaytime(value: string, language: LanguageInfo = ENGLISH): number | false | null {
+    const text = normalize(value);
+    if (!text) return false;
+
+    const amount = parseLocaleNumber(text, language.decimalSeparator);
+    if (amount === null) return null;
+
+    const isMinutes = [language, ENGLISH].some(l => l.minuteWords.some(w => text.includes(w)));
+    const hours = isMinutes ? amount / 60 : amount;
+    if (hours === 0) return false;
+    return Math.round(hours * 100) / 100;
+}
+
+/**
+ * Unix timestamp (seconds, local midnight) of the last played day, false for "never", null when unreadable.
+ * Steam leaves out the year for dates in the current year, so a date without year that would lie
+ * in the future (e.g. "Dec 30" scraped in January) belongs to last year.
+ */
+export function parseLastPlayed(value: string, language: LanguageInfo = ENGLISH, now: Date = new Date()): number | false | null {
+    const text = normalize(value);
+    if (!text) return false;
+
+    const candidates = [language, ENGLISH];
+    if (candidates.some(l => l.never.includes(text))) return false;
+    if (candidates.some(l => l.today.includes(text))) return toUnix(startOfDay(now));
+    if (candidates.some(l => l.yesterday.includes(text))) {
+        const yesterday = startOfDay(now);
+        yesterday.setDate(yesterday.getDate() - 1);
+        return toUnix(yesterday);
+    }
+
+    let year: number | null = null;
+    let month = -1;
+    let day: number | null = null;
+
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    const numeric = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+    if (iso) {
+        [year, month, day] = [Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])];
+    } else if (numeric) {
+        // Only English writes the month first
+        const monthFirst = language.code === 'english' && text.includes('/');
+        const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+        [day, month, year] = monthFirst ? [second, first - 1, Number(numeric[3])] : [first, second - 1, Number(numeric[3])];
+    } else {
+        // "Jul 17, 2023", "17. Juli 2023", "17 de jul. de 2023", "17 июля 2023 г."
+        const tokens = text.replace(/[,]/g, ' ').split(' ').filter(t => t);
+        for (const token of tokens) {
+            if (/^\d{4}$/.test(token)) year = Number(token);
+            else if (/^\d{1,2}\.?$/.test(token)) day = Number(token.replace('.', ''));
+            else if (month === -1) month = monthIndex(token, [language, ...LANGUAGES]);
+        }
+    }
+
+    if (month < 0 || month > 11 || !day || day > 31) return null;
+
+    let date = new Date(year ?? now.getFullYear(), month, day);
+    if (year === null && date.getTime() > now.getTime()) {
+        date = new Date(now.getFullYear() - 1, month, day);
+    }
+    return toUnix(date);
+}
+
+/** "637/641" (or "637 of 641", "1.234 / 2.000") into counts, null when unreadable. */
+export function parseAchievements(value: string): { my: number; total: number } | null {
+    const numbers = normalize(value).match(/\d[\d.,\s]*\d|\d/g);
+    if (!numbers || numbers.length !== 2) return null;
+
+    const [my, total] = numbers.map(n => parseInt(n.replace(/\D/g, ''), 10));
+    if (isNaN(my) || isNaN(total) || my > total) return null;
+    return { my, total };
+}
+
+// --- ROWS ---
+function parseAppId(href: string): number {
+    const match = href.match(/\/app\/(\d+)/);
+    return match ? parseInt(match[1], 10) : 0;
+}
+
+export function parseGameRow(row: RawGameRow, now: Date = new Date()): { game: GameData; issues: ParseIssue[] } {
+    const steamAppID = parseAppId(row.href);
+    const issues: ParseIssue[] = [];
+    const report = (field: FieldName, raw: string) => issues.push({ game: row.name, steamAppID, field, raw });
+
+    // A missing field is normal (never played, no achievements), an unreadable one is reported
+    let playtime: number | false = false;
+    if (row.fields.playtime) {
+        const raw = fieldValue(row.fields.playtime);
+        const parsed = parsePlaytime(raw, languageOfLabel(row.fields.playtime.label));
+        if (parsed === null) report('playtime', raw);
+        else playtime = parsed;
+    }
+
+    let lastPlayed: number | false = false;
+    if (row.fields.lastPlayed) {
+        const raw = fieldValue(row.fields.lastPlayed);
+        const parsed = parseLastPlayed(raw, languageOfLabel(row.fields.lastPlayed.label), now);
+        if (parsed === null) report('lastPlayed', raw);
+        else lastPlayed = parsed;
+    }
+
+    let achievements = { my: 0, total: 0 };
+    if (row.fields.achievements) {
+        const raw = fieldValue(row.fields.achievements);
+        const parsed = parseAchievements(raw);
+        if (parsed === null) report('achievements', raw);
+        else achievements = parsed;
+    }
+
+    return {
+        game: {
+            name: row.name,
+            steamAppID,
+            playtime,
+            lastPlayed,
+            myAchievements: achievements.my,
+            totalAchievements: achievements.total,
+        },
+        issues,
+    };
+}
+
+export function parseGameRows(rows: RawGameRow[], now: Date = new Date()): ParsedRows {
+    const parsed = rows.map(row => parseGameRow(row, now));
+    return {
+        games: parsed.map(p => p.game),
+        issues: ([] as ParseIssue[]).concat(...parsed.map(p => p.issues)),
+    };
+}
+
+// --- LIST LOADING ---
+const rowKey = (row: RawGameRow) => {
+    const appId = parseAppId(row.href);
+    return appId ? `app:${appId}` : `name:${row.name}`;
+};
+
+/**
+ * Adds the rows that weren't collected yet, deduplicated by app ID (rows without a store link by name).
+ * Steam can drop rows that scrolled out of view, so the list is collected while scrolling.
+ * @returns How many of the rows were new
+ */
+export function mergeRawRows(collected: Map<string, RawGameRow>, rows: RawGameRow[]): number {
+    let added = 0;
+    for (const row of rows) {
+        const key = rowKey(row);
+        if (!collected.has(key)) {
+            collected.set(key, row);
+            added++;
+        }
+    }
+    return added;
+}
+
+// The number of games in a tab like "All Games (1,234)" or "Alle Spiele (1.234)"
+export const GAME_COUNT_PATTERN = /\(\s*(\d[\d.,\s']*)\)/;
+
+/** The total from a tab like "All Games (1,234)", null when there is no number to read. */
+export function parseGameCount(text: string): number | null {
+    const match = text.match(GAME_COUNT_PATTERN);
+    if (!match) return null;
+    const count = parseInt(match[1].replace(/\D/g, ''), 10);
+    return isNaN(count) ? null : count;
+}
@@ -0,0 +1,271 @@
+/*
+    Steam Library Scraper - Scheduled Runs
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameData, WishlistItem } from './game-data';
+import { loadNoteManifest } from './note-manifest';
+import { listSnapshots, listTargetFiles, loadSnapshot, loadTargetFile, RAW_DATA_DIR } from './snapshots';
+
+// --- CONFIGURATION ---
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+// Held while a scheduled run scrapes and converts, so two never write the same files at once
+export const LOCK_PATH = path.join(ROOT_DIR, 'output', 'schedule.lock');
+
+// Every day at 04:00, when there is no schedule in the command or the settings
+export const DEFAULT_SCHEDULE = '0 4 * * *';
+
+const SCHEDULE_ALIASES: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+};
+
+const SCHEDULE_FIELDS = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of the month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    // 0 and 7 are both Sunday
+    { name: 'day of the week', min: 0, max: 7 },
+];
+
+// A schedule that finds no time in this many years never runs ("0 0 30 2 *")
+const MAX_YEARS_AHEAD = 5;
+
+// --- INTERFACES ---
+/** A cron schedule: minute, hour, day of the month, month and day of the week. */
+export interface Schedule {
+    // As written, for the messages
+    text: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    // Like cron: when both days are limited, either one is enough
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+/** The newest scrape files of an account, looked up before and after a scheduled scrape. */
+export interface ScrapeFiles {
+    snapshot: string | null;
+    wishlist: string | null;
+}
+
+interface LockInfo {
+    pid: number;
+    // ISO date and time
+    startedAt: string;
+}
+
+// --- SCHEDULES ---
+function parseField(text: string, index: number, schedule: string): Set<number> {
+    const field = SCHEDULE_FIELDS[index];
+    const values = new Set<number>();
+    const isNumber = (value: string) => /^\d+$/.test(value);
+
+    for (const part of text.split(',')) {
+        const [range, step = ""] = part.split('/');
+        const [fromText, toText] = range === '*' ? [String(field.min), String(field.max)] : range.split('-');
+        // "5/15" counts from 5 to the end
+        const to = toText !== undefined ? toText : step ? String(field.max) : fromText;
+        const invalid = !isNumber(fromText) || !isNumber(to) || (step !== "" && (!isNumber(step) || Number(step) === 0))
+            || part.split('/').length > 2 || range.split('-').length > 2
+            || Number(fromText) < field.min || Number(to) > field.max || Number(fromText) > Number(to);
+        if (invalid) {
+            throw new Error(`"${part}" is not a valid ${field.name} (${field.min}-${field.max}) in the schedule "${schedule}".`);
+        }
+
+        for (let value = Number(fromText); value <= Number(to); value += Number(step || 1)) {
+            values.add(index === 4 ? value % 7 : value);
+        }
+    }
+    return values;
+}
+
+const dayMatches = (schedule: Schedule, date: Date) => {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+    if (schedule.anyDayOfMonth) return dayOfWeek;
+    if (schedule.anyDayOfWeek) return dayOfMonth;
+    return dayOfMonth || dayOfWeek;
+};
+
+/**
+ * The first time after `after` (to the minute) the schedule runs. Throws when it never does.
+ */
+export function nextRun(schedule: Schedule, after: Date): Date {
+    const time = new Date(after.getTime());
+    time.setSeconds(0, 0);
+    time.setMinutes(time.getMinutes() + 1);
+    const limit = new Date(after.getTime());
+    limit.setFullYear(limit.getFullYear() + MAX_YEARS_AHEAD);
+
+    // Skips whole months, days and hours that can't match, so this takes a few hundred steps at most
+    while (time < limit) {
+        if (!schedule.months.has(time.getMonth() + 1)) {
+            time.setMonth(time.getMonth() + 1, 1);
+            time.setHours(0, 0);
+        } else if (!dayMatches(schedule, time)) {
+            time.setDate(time.getDate() + 1);
+            time.setHours(0, 0);
+        } else if (!schedule.hours.has(time.getHours())) {
+            time.setHours(time.getHours() + 1, 0);
+        } else if (!schedule.minutes.has(time.getMinutes())) {
+            time.setMinutes(time.getMinutes() + 1);
+        } else {
+            return time;
+        }
+    }
+    throw new Error(`The schedule "${schedule.text}" never runs.`);
+}
+
+/**
+ * Reads a cron schedule ("30 4 * * *" is every day at 04:30) or one of @hourly, @daily, @weekly
+ * and @monthly. Throws with a message for the user when it can't be read.
+ */
+export function parseSchedule(text: string): Schedule {
+    const trimmed = text.trim();
+    const fields = (SCHEDULE_ALIASES[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+    if (fields.length !== SCHEDULE_FIELDS.length) {
+        throw new Error(`The schedule "${trimmed}" needs 5 parts (minute, hour, day of the month, month, day of the week), like "0 4 * * *".`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, index, trimmed));
+    const schedule: Schedule = {
+        text: trimmed, minutes, hours, daysOfMonth, months, daysOfWeek,
+        anyDayOfMonth: fields[2] === '*',
+        anyDayOfWeek: fields[4] === '*',
+    };
+    nextRun(schedule, new Date());
+    return schedule;
+}
+
+// --- LOCK FILE ---
+const isRunning = (pid: number) => {
+    try {
+        // Signal 0 only checks whether the process exists
+        process.kill(pid, 0);
+        return true;
+    } catch (e) {
+        // EPERM: it exists, but belongs to someone else
+        return (e as NodeJS.ErrnoException).code === 'EPERM';
+    }
+};
+
+/** Who holds the lock, or null when nobody does. A lock left behind by a process that is gone doesn't count. */
+export function readLock(lockPath: string = LOCK_PATH): LockInfo | null {
+    if (!fs.existsSync(lockPath)) return null;
+    try {
+        const lock: LockInfo = JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+        return typeof lock.pid === 'number' && isRunning(lock.pid) ? lock : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+/** Puts the lock in place in one step, with its content, so nobody reads a half-written one. False when there already is one. */
+function createLock(lockPath: string, lock: LockInfo): boolean {
+    const tmpPath = `${lockPath}.${process.pid}`;
+    fs.writeFileSync(tmpPath, JSON.stringify(lock), 'utf-8');
+    try {
+        fs.linkSync(tmpPath, lockPath);
+        return true;
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
+        return false;
+    } finally {
+        fs.unlinkSync(tmpPath);
+    }
+}
+
+/** Takes the lock for this process. Returns false when another run holds it. */
+export function acquireLock(lockPath: string = LOCK_PATH): boolean {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    const lock: LockInfo = { pid: process.pid, startedAt: new Date().toISOString() };
+    if (createLock(lockPath, lock)) return true;
+    if (readLock(lockPath)) return false;
+
+    // Left behind by a crashed run. Moved away in one step: when two runs find it, only one of them moves it
+    const stalePath = `${lockPath}.${process.pid}.stale`;
+    try {
+        fs.renameSync(lockPath, stalePath);
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+        return createLock(lockPath, lock);
+    }
+    // Another run took its place between reading and moving it, so that one is given back
+    if (readLock(stalePath)) {
+        try {
+            fs.linkSync(stalePath, lockPath);
+        } catch (e) {
+            // Yet another run holds it now
+        }
+        fs.unlinkSync(stalePath);
+        return false;
+    }
+    fs.unlinkSync(stalePath);
+    return createLock(lockPath, lock);
+}
+
+/** Removes the lock, when it is this process's. */
+export function releaseLock(lockPath: string = LOCK_PATH) {
+    if (readLock(lockPath)?.pid === process.pid) fs.unlinkSync(lockPath);
+}
+
+// --- CHANGED GAMES ---
+// The same data written in another key order is the same
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/** The app IDs of the items that are new or different in `current`. */
+export function changedAppIDs<T extends { steamAppID: number }>(previous: T[], current: T[]): number[] {
+    const before = new Map(previous.map(item => [item.steamAppID, canonicalJson(item)]));
+    return current.filter(item => before.get(item.steamAppID) !== canonicalJson(item)).map(item => item.steamAppID);
+}
+
+export function latestScrapeFiles(accountID: string, dir: string = RAW_DATA_DIR): ScrapeFiles {
+    return {
+        snapshot: listSnapshots(dir, accountID)[0]?.path || null,
+        wishlist: listTargetFiles('wishlist', dir, accountID)[0]?.path || null,
+    };
+}
+
+/**
+ * The games (and wishlisted games) a scheduled run converts: the ones whose data changed since
+ * the scrape before, and the ones that don't have a note yet. Only what the scrape wrote anew is
+ * compared, without a new scrape file there is nothing to convert. Undefined converts all of them,
+ * when there is no scrape to compare with.
+ */
+export function appsToConvert(before: ScrapeFiles, after: ScrapeFiles, outputDir: string): number[] | undefined {
+    if (!after.snapshot) return [];
+    if (!before.snapshot) return undefined;
+
+    const manifest = loadNoteManifest(outputDir);
+    const apps: number[] = [];
+    if (after.snapshot !== before.snapshot) {
+        const games: GameData[] = loadSnapshot(after.snapshot);
+        apps.push(...changedAppIDs(loadSnapshot(before.snapshot), games));
+        apps.push(...games.filter(game => !manifest.games[game.steamAppID]).map(game => game.steamAppID));
+    }
+    if (after.wishlist && after.wishlist !== before.wishlist) {
+        const wishlist = (file: string | null): WishlistItem[] => file ? loadTargetFile('wishlist', file).items : [];
+        const items = wishlist(after.wishlist);
+        apps.push(...changedAppIDs(wishlist(before.wishlist), items));
+        apps.push(...items.filter(item => !manifest.wishlist[item.steamAppID]).map(item => item.steamAppID));
+    }
+    return Array.from(new Set(apps));
+}
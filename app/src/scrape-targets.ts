@@ -0,0 +1,192 @@
+/*
+    Steam Library Scraper - Scrape Targets
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as path from 'path';
+import { PriceData, RecentGame, WishlistItem } from './game-data';
+import { PRICE_HISTORY_DIR, recordPrice } from './price-history';
+import { createRequestScheduler, isRetryableStatus, RequestScheduler, RetryableError, SchedulerOptions } from './request-scheduler';
+import { RAW_DATA_DIR, writeTargetFile } from './snapshots';
+import { CommunityProfile, fetchCommunityProfile } from './steam-community';
+import { fetchSteamPrices, PriceFetchResult } from './steam-store';
+import { fetchRecentlyPlayed, fetchWishlistEntries } from './steam-web-api';
+import { loadStoreCache, lookupStoreDetails, saveStoreCache } from './store-cache';
+
+// --- CONFIGURATION ---
+// appdetails takes a list of apps for prices, but long URLs get refused
+const PRICE_BATCH_SIZE = 25;
+
+// --- INTERFACES ---
+/**
+ * games: the owned games list (SteamScrape_*.json), by the browser or the Web API
+ * wishlist: the wishlist with its order, date added and current price (SteamWishlist_*.json)
+ * recent: playtime of the last two weeks (SteamRecent_*.json)
+ * reviews: the reviews you wrote, read from your profile in the browser (SteamReviews_*.json)
+ */
+export type ScrapeTarget = 'games' | 'wishlist' | 'recent' | 'reviews';
+
+export const SCRAPE_TARGETS: ScrapeTarget[] = ['games', 'wishlist', 'recent', 'reviews'];
+
+export interface TargetScrapeOptions {
+    // Only 'wishlist' and 'recent' are collected here, the others need the game sources or the browser
+    targets: ScrapeTarget[];
+    // Gives the full list of recently played games, without a key only the few on your profile page
+    apiKey?: string;
+    // Folder for the files, defaults to output/raw_data
+    outputDir?: string;
+    // Store country for the wishlist prices, see storeCountry in the README
+    countryCode?: string | null;
+    quiet?: boolean;
+    // The options below are only changed by tests, which point them at a local mock server
+    apiBaseUrl?: string;
+    storeBaseUrl?: string;
+    communityBaseUrl?: string;
+    cachePath?: string;
+    priceHistoryDir?: string;
+    storeRequests?: Partial<SchedulerOptions>;
+}
+
+export interface WishlistFetchOptions {
+    scheduler: RequestScheduler;
+    countryCode?: string | null;
+    apiBaseUrl?: string;
+    storeBaseUrl?: string;
+    cachePath?: string;
+}
+
+// --- PRICES ---
+export interface PriceCheck {
+    // Free and unlisted apps are null
+    prices: Record<number, PriceData | null>;
+    // The apps of the batches that still failed after their retries, their price is unknown
+    failedIDs: number[];
+    // Why the last of those failed
+    error?: string;
+}
+
+/**
+ * Today's prices of the apps, a batch per request, paced and retried by the scheduler.
+ * A batch that keeps failing doesn't take the others with it, its apps are returned as failed.
+ * The converter uses it too, for the price history of the games you own.
+ */
+export async function fetchPrices(appIds: number[], scheduler: RequestScheduler, countryCode?: string | null, storeBaseUrl?: string): Promise<PriceCheck> {
+    const check: PriceCheck = { prices: {}, failedIDs: [] };
+    const batches: number[][] = [];
+    for (let i = 0; i < appIds.length; i += PRICE_BATCH_SIZE) batches.push(appIds.slice(i, i + PRICE_BATCH_SIZE));
+
+    await Promise.all(batches.map(async batch => {
+        const result = await scheduler.schedule(async (): Promise<PriceFetchResult> => {
+            const answer = await fetchSteamPrices(batch, storeBaseUrl, countryCode);
+            if (answer.status === 'error' && isRetryableStatus(answer.httpStatus)) {
+                throw new RetryableError(answer.reason, answer.retryAfterMs || null, answer.httpStatus === 429);
+            }
+            return answer;
+        }).catch((e: Error): PriceFetchResult => ({ status: 'error', reason: e.message }));
+
+        if (result.status === 'error') {
+            check.failedIDs.push(...batch);
+            check.error = result.reason;
+            return;
+        }
+        Object.assign(check.prices, result.prices);
+    }));
+    return check;
+}
+
+// --- WISHLIST ---
+/**
+ * The wishlist with names (from the store cache, which the converter uses too) and today's prices.
+ * @throws Error when the wishlist or its prices can't be fetched
+ */
+export async function fetchWishlist(steamID64: string, options: WishlistFetchOptions): Promise<WishlistItem[]> {
+    const entries = await fetchWishlistEntries(steamID64, options.apiBaseUrl);
+    if (entries.length === 0) return [];
+
+    const cache = loadStoreCache(undefined, options.cachePath, options.countryCode || null);
+    const [lookups, prices] = await Promise.all([
+        Promise.all(entries.map(e => lookupStoreDetails(cache, e.appid, 'default', options.storeBaseUrl, options.scheduler))),
+        fetchPrices(entries.map(e => e.appid), options.scheduler, options.countryCode, options.storeBaseUrl),
+    ]);
+    saveStoreCache(cache);
+
+    // A wishlist with unknown prices would show those games as free
+    if (prices.error) throw new Error(`Could not fetch prices: ${prices.error}`);
+
+    return entries.map((entry, index) => ({
+        name: lookups[index].data?.name || `App ${entry.appid}`,
+        steamAppID: entry.appid,
+        priority: entry.priority,
+        dateAdded: entry.date_added ? entry.date_added : false,
+        price: prices.prices[entry.appid] || null,
+    }));
+}
+
+// --- MAIN FUNCTION ---
+/** Collects the wishlist and recently played games of an account and writes a file for each. */
+export async function runTargetScrape(accountID: string, options: TargetScrapeOptions): Promise<boolean> {
+    const log = (...args: unknown[]) => { if (!options.quiet) console.log(...args); };
+    const outputDir = options.outputDir ? path.resolve(options.outputDir) : RAW_DATA_DIR;
+    const targets = options.targets.filter(t => t === 'wishlist' || t === 'recent');
+    if (targets.length === 0) return true;
+
+    // The public profile has the SteamID64 the wishlist needs, no API key required
+    let profile: CommunityProfile;
+    try {
+        profile = await fetchCommunityProfile(accountID, options.communityBaseUrl);
+    } catch (e) {
+        console.error(`\n${(e as Error).message}`);
+        return false;
+    }
+
+    let ok = true;
+    const save = (file: string, label: string) => {
+        log(`${label} saved to:`);
+        log(path.dirname(file));
+        log(`Filename: ${path.basename(file)}`);
+    };
+
+    if (targets.includes('wishlist')) {
+        log(`\nFetching the wishlist of ${accountID}...`);
+        try {
+            const scheduler = createRequestScheduler(options.storeRequests, {
+                onRetry: ({ attempt, error }) => log(`  ${error.message}, retry ${attempt}...`),
+            });
+            const items = await fetchWishlist(profile.steamID64, {
+                scheduler,
+                countryCode: options.countryCode,
+                apiBaseUrl: options.apiBaseUrl,
+                storeBaseUrl: options.storeBaseUrl,
+                cachePath: options.cachePath,
+            });
+            for (const item of items) {
+                if (item.price) recordPrice(item.steamAppID, item.name, item.price, options.priceHistoryDir || PRICE_HISTORY_DIR);
+            }
+            const onSale = items.filter(i => i.price && i.price.discountPercent > 0).length;
+            log(`Found ${items.length} wishlisted games, ${onSale} on sale.${items.length === 0 ? " (A private wishlist looks empty too.)" : ""}`);
+            save(writeTargetFile('wishlist', accountID, items, outputDir), "Wishlist");
+        } catch (e) {
+            console.error(`Could not fetch the wishlist: ${(e as Error).message}`);
+            ok = false;
+        }
+    }
+
+    if (targets.includes('recent')) {
+        log(`\nFetching the recently played games of ${accountID}...`);
+        try {
+            const games: RecentGame[] = options.apiKey
+                ? await fetchRecentlyPlayed(profile.steamID64, { apiKey: options.apiKey, baseUrl: options.apiBaseUrl })
+                : profile.recentGames;
+            if (!options.apiKey) log("Without a steamApiKey only the games shown on your profile page are listed.");
+            const hours = Math.round(games.reduce((sum, g) => sum + g.playtime2WeeksHours, 0) * 10) / 10;
+            log(`Played ${games.length} games for ${hours} hours in the last two weeks.`);
+            save(writeTargetFile('recent', accountID, games, outputDir), "Recently played");
+        } catch (e) {
+            console.error(`Could not fetch the recently played games: ${(e as Error).message}`);
+            ok = false;
+        }
+    }
+
+    return ok;
+}
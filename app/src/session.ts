@@ -0,0 +1,25 @@
+/*
+    Steam Library Scraper - Saved Login Session
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// --- CONFIGURATION ---
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+// Playwright storageState (cookies + local storage), stored next to scraper-settings.json.
+// Anyone with this file is logged in as you, so it never leaves your machine.
+export const SESSION_PATH = path.join(ROOT_DIR, 'scraper-session.json');
+
+export function hasSavedSession(): boolean {
+    return fs.existsSync(SESSION_PATH);
+}
+
+/** Deletes the saved session. Returns false when there was nothing to delete. */
+export function clearSession(): boolean {
+    if (!hasSavedSession()) return false;
+    fs.unlinkSync(SESSION_PATH);
+    return true;
+}
@@ -0,0 +1,289 @@
+/*
+    Steam Library Scraper - Snapshot Diff
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameData } from './game-data';
+import { noteLink } from './note-files';
+import { loadNoteManifest, manifestNoteNames } from './note-manifest';
+import { loadNoteNamer } from './note-templates';
+import { describeSnapshot, getTimestamp, listSnapshots, loadSnapshotFile, RAW_DATA_DIR, SnapshotInfo } from './snapshots';
+
+// --- CONFIGURATION ---
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+const REPORTS_DIR = path.join(ROOT_DIR, 'output', 'reports');
+const NOTES_DIR = path.join(ROOT_DIR, 'output', 'obsidian_library');
+
+// --- INTERFACES ---
+export interface GameChange {
+    name: string;
+    steamAppID: number;
+    playtimeBefore: number;
+    playtimeAfter: number;
+    playtimeDelta: number;
+    achievementsBefore: number;
+    achievementsAfter: number;
+    newAchievements: number;
+    lastPlayedBefore: number | false;
+    lastPlayedAfter: number | false;
+}
+
+export interface SnapshotDiff {
+    from: { file: string; takenAt: string };
+    to: { file: string; takenAt: string };
+    added: GameData[];
+    removed: GameData[];
+    // Only games where playtime, achievements or lastPlayed actually changed
+    changed: GameChange[];
+    totals: {
+        playtimeDelta: number;
+        newAchievements: number;
+        gamesPlayed: number;
+    };
+}
+
+export interface DiffOptions {
+    // Explicit snapshot files, defaults to the latest two of the same account. A lone fromFile is
+    // compared with the latest scrape of its account in the same folder
+    fromFile?: string;
+    toFile?: string;
+    // Compare the latest two scrapes of this account instead of the account that was scraped last
+    accountID?: string;
+    // The notes folder the links in the report go to, defaults to output/obsidian_library
+    notesDir?: string;
+    // Only print errors
+    quiet?: boolean;
+    // The options below are only changed by tests, so they never touch the real settings or reports
+    settingsPath?: string;
+    reportsDir?: string;
+}
+
+// --- HELPERS ---
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+/** Games without an app ID (shouldn't happen, but old scrapes had them) are matched by name instead. */
+function gameKey(game: GameData): string {
+    return game.steamAppID ? `app:${game.steamAppID}` : `name:${game.name}`;
+}
+
+function formatHours(hours: number): string {
+    if (hours < 1) return `${Math.round(hours * 60)} min`;
+    return `${roundHours(hours)} h`;
+}
+
+function formatDate(timestamp: number | false): string {
+    return timestamp ? new Date(timestamp * 1000).toLocaleDateString() : "Never";
+}
+
+// --- DIFF ---
+export function diffSnapshots(before: GameData[], after: GameData[]): Omit<SnapshotDiff, 'from' | 'to'> {
+    const beforeMap = new Map(before.map(g => [gameKey(g), g]));
+    const afterMap = new Map(after.map(g => [gameKey(g), g]));
+
+    const added = after.filter(g => !beforeMap.has(gameKey(g)));
+    const removed = before.filter(g => !afterMap.has(gameKey(g)));
+
+    const changed: GameChange[] = [];
+    for (const game of after) {
+        const old = beforeMap.get(gameKey(game));
+        if (!old) continue;
+
+        const playtimeBefore = old.playtime || 0;
+        const playtimeAfter = game.playtime || 0;
+        const change: GameChange = {
+            name: game.name,
+            steamAppID: game.steamAppID,
+            playtimeBefore,
+            playtimeAfter,
+            playtimeDelta: roundHours(playtimeAfter - playtimeBefore),
+            achievementsBefore: old.myAchievements,
+            achievementsAfter: game.myAchievements,
+            newAchievements: game.myAchievements - old.myAchievements,
+            lastPlayedBefore: old.lastPlayed,
+            lastPlayedAfter: game.lastPlayed,
+        };
+
+        if (change.playtimeDelta !== 0 || change.newAchievements !== 0 || change.lastPlayedBefore !== change.lastPlayedAfter) {
+            changed.push(change);
+        }
+    }
+
+    changed.sort((a, b) => b.playtimeDelta - a.playtimeDelta || b.newAchievements - a.newAchievements);
+
+    return {
+        added,
+        removed,
+        changed,
+        totals: {
+            playtimeDelta: roundHours(changed.reduce((sum, c) => sum + Math.max(c.playtimeDelta, 0), 0)),
+            newAchievements: changed.reduce((sum, c) => sum + Math.max(c.newAchievements, 0), 0),
+            gamesPlayed: changed.filter(c => c.playtimeDelta > 0).length,
+        },
+    };
+}
+
+/**
+ * The report as a note for the vault.
+ * @param noteNames File name (without .md) of the note of every game by app ID, like the note manifest has them.
+ * Games without one are linked by their name as a file name.
+ */
+export function renderDiffMarkdown(diff: SnapshotDiff, noteNames: Map<number, string> = new Map()): string {
+    const fromDate = new Date(diff.from.takenAt).toLocaleDateString();
+    const toDate = new Date(diff.to.takenAt).toLocaleDateString();
+    const played = diff.changed.filter(c => c.playtimeDelta > 0);
+    const achievements = diff.changed.filter(c => c.newAchievements > 0);
+    // Started without playing long enough to count, or the playtime came in another scrape
+    const lastPlayed = diff.changed.filter(c => c.playtimeDelta <= 0 && c.newAchievements <= 0 && c.lastPlayedBefore !== c.lastPlayedAfter);
+    const link = (game: { name: string; steamAppID: number }) => noteLink(game.name, noteNames.get(game.steamAppID));
+
+    const lines: string[] = [
+        `---`,
+        `type: steam-report`,
+        `from: ${diff.from.takenAt}`,
+        `to: ${diff.to.takenAt}`,
+        `playtimeHours: ${diff.totals.playtimeDelta}`,
+        `gamesPlayed: ${diff.totals.gamesPlayed}`,
+        `newAchievements: ${diff.totals.newAchievements}`,
+        `---`,
+        `# What I Played: ${fromDate} - ${toDate}`,
+        ``,
+        `Played **${diff.totals.gamesPlayed}** games for **${formatHours(diff.totals.playtimeDelta)}** and unlocked **${diff.totals.newAchievements}** achievements.`,
+        ``,
+    ];
+
+    if (played.length > 0) {
+        lines.push(`## Played`);
+        lines.push(`| Game | Played | Total | Last Played |`);
+        lines.push(`| --- | --- | --- | --- |`);
+        for (const c of played) {
+            lines.push(`| ${link(c)} | +${formatHours(c.playtimeDelta)} | ${formatHours(c.playtimeAfter)} | ${formatDate(c.lastPlayedAfter)} |`);
+        }
+        lines.push(``);
+    }
+
+    if (achievements.length > 0) {
+        lines.push(`## Achievements`);
+        for (const c of achievements) {
+            lines.push(`- ${link(c)}: +${c.newAchievements} (${c.achievementsBefore} -> ${c.achievementsAfter})`);
+        }
+        lines.push(``);
+    }
+
+    if (lastPlayed.length > 0) {
+        lines.push(`## Last Played Changed`);
+        for (const c of lastPlayed) {
+            lines.push(`- ${link(c)}: ${formatDate(c.lastPlayedBefore)} -> ${formatDate(c.lastPlayedAfter)}`);
+        }
+        lines.push(``);
+    }
+
+    if (diff.added.length > 0) {
+        lines.push(`## New in Library`);
+        for (const g of diff.added) lines.push(`- ${link(g)}`);
+        lines.push(``);
+    }
+
+    if (diff.removed.length > 0) {
+        lines.push(`## Removed from Library`);
+        for (const g of diff.removed) lines.push(`- ${g.name}`);
+        lines.push(``);
+    }
+
+    if (diff.changed.length === 0 && diff.added.length === 0 && diff.removed.length === 0) {
+        lines.push(`Nothing changed between these scrapes.`);
+        lines.push(``);
+    }
+
+    return lines.join('\n');
+}
+
+function pickSnapshots(options: DiffOptions): [SnapshotInfo, SnapshotInfo] | null {
+    if (options.fromFile && options.toFile) {
+        return [describeSnapshot(options.fromFile), describeSnapshot(options.toFile)];
+    }
+    if (options.fromFile) {
+        const from = describeSnapshot(options.fromFile);
+        if (!from.accountID) {
+            throw new Error(`${from.fileName} doesn't say which account it is of, name the newer scrape to compare it with as well.`);
+        }
+        const latest = listSnapshots(path.dirname(from.path), from.accountID)[0];
+        return latest && latest.path !== from.path ? [from, latest] : null;
+    }
+
+    const latest = listSnapshots(RAW_DATA_DIR);
+    if (latest.length === 0) return null;
+
+    // Only compare scrapes of the same account
+    const sameAccount = listSnapshots(RAW_DATA_DIR, options.accountID || latest[0].accountID);
+    if (sameAccount.length < 2) return null;
+    return [sameAccount[1], sameAccount[0]];
+}
+
+// --- MAIN FUNCTION ---
+export async function runDiff(options: DiffOptions = {}): Promise<SnapshotDiff | null> {
+    const log = (...args: unknown[]) => { if (!options.quiet) console.log(...args); };
+    log("\nComparing scrapes...");
+
+    let picked: [SnapshotInfo, SnapshotInfo] | null;
+    try {
+        picked = pickSnapshots(options);
+    } catch (e) {
+        console.error((e as Error).message);
+        return null;
+    }
+    if (!picked) {
+        const dir = options.fromFile ? path.dirname(path.resolve(options.fromFile)) : RAW_DATA_DIR;
+        console.error(options.fromFile
+            ? `No newer scrape of the same account as ${path.basename(options.fromFile)} in ${dir} to compare it with.`
+            : `Need at least two scrapes of the same account in ${dir}. Please run the scraper again later.`);
+        return null;
+    }
+    const [from, to] = picked;
+    log(`Old: ${from.fileName}`);
+    log(`New: ${to.fileName}`);
+
+    const before = loadSnapshotFile(from.path);
+    const after = loadSnapshotFile(to.path);
+    // A truncated scrape makes games look removed that are simply missing from the file
+    for (const [info, snapshot] of [[from, before], [to, after]] as const) {
+        if (snapshot.complete === false) {
+            log(`WARNING: ${info.fileName} is incomplete (${snapshot.scrapedCount} of ${snapshot.expectedCount} games), removed games may be wrong.`);
+        }
+    }
+
+    const diff: SnapshotDiff = {
+        from: { file: from.fileName, takenAt: from.takenAt.toISOString() },
+        to: { file: to.fileName, takenAt: to.takenAt.toISOString() },
+        ...diffSnapshots(before.games, after.games),
+    };
+
+    const reportsDir = options.reportsDir || REPORTS_DIR;
+    if (!fs.existsSync(reportsDir)) {
+        fs.mkdirSync(reportsDir, { recursive: true });
+    }
+
+    // Links go to the notes as they are named on disk (see note-manifest.ts), or as the settings would name them
+    const namer = loadNoteNamer(options.settingsPath);
+    const written = manifestNoteNames(loadNoteManifest(options.notesDir ? path.resolve(options.notesDir) : NOTES_DIR));
+    const noteNames = new Map([...before.games, ...after.games].map((game): [number, string] => [game.steamAppID, written.get(game.steamAppID) || namer.game(game)]));
+
+    const baseName = `SteamDiff_${getTimestamp(from.takenAt)}_to_${getTimestamp(to.takenAt)}`;
+    fs.writeFileSync(path.join(reportsDir, `${baseName}.json`), JSON.stringify(diff, null, 2), 'utf-8');
+    fs.writeFileSync(path.join(reportsDir, `${baseName}.md`), renderDiffMarkdown(diff, noteNames), 'utf-8');
+
+    log(`\n${diff.totals.gamesPlayed} games played (${formatHours(diff.totals.playtimeDelta)}), ${diff.totals.newAchievements} new achievements.`);
+    log(`${diff.added.length} games added, ${diff.removed.length} removed.`);
+    log(`\nReport saved to:`);
+    log(path.resolve(reportsDir));
+    log(`Filename: ${baseName}.md`);
+    return diff;
+}
+
+// Allows running directly via `npx ts-node src/snapshot-diff.ts [old.json [new.json]]`
+if (require.main === module) {
+    const [fromFile, toFile] = process.argv.slice(2);
+    runDiff({ fromFile, toFile }).then(diff => process.exit(diff ? 0 : 1));
+}
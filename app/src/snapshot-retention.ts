@@ -0,0 +1,56 @@
+/*
+    Steam Library Scraper - Snapshot Retention
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { describeSnapshot, RAW_DATA_DIR, SnapshotInfo } from './snapshots';
+
+// --- CONFIGURATION ---
+// Scrapes of the last 30 days keep one a day, older ones one a week
+export const DAILY_SNAPSHOT_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- HELPERS ---
+const dateKey = (date: Date) => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+// Weeks start on Monday
+const weekKey = (date: Date) => dateKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() - (date.getDay() + 6) % 7));
+
+// SteamScrape, SteamWishlist, ... each kind of file has its own history
+const fileKind = (snapshot: SnapshotInfo) => `${snapshot.fileName.split('_')[0]}_${snapshot.accountID}`;
+
+// --- MAIN FUNCTIONS ---
+/**
+ * The snapshots the retention policy lets go: of every day in the last `dailyDays` days the
+ * latest scrape is kept, before that the latest of every week. Kinds of files and accounts are
+ * counted apart, and files whose name doesn't say when they were made are always kept.
+ */
+export function planRetention(snapshots: SnapshotInfo[], now: Date = new Date(), dailyDays: number = DAILY_SNAPSHOT_DAYS): SnapshotInfo[] {
+    const kept = new Set<string>();
+    const remove: SnapshotInfo[] = [];
+
+    const dated = snapshots.filter(s => s.accountID).sort((a, b) => b.takenAt.getTime() - a.takenAt.getTime());
+    for (const snapshot of dated) {
+        const daily = now.getTime() - snapshot.takenAt.getTime() < dailyDays * DAY_MS;
+        const period = `${fileKind(snapshot)} ${daily ? `day ${dateKey(snapshot.takenAt)}` : `week ${weekKey(snapshot.takenAt)}`}`;
+        if (kept.has(period)) remove.push(snapshot);
+        else kept.add(period);
+    }
+    return remove;
+}
+
+/** Deletes the scrapes in the folder (games, wishlist, recent and reviews) that `planRetention` lets go. Returns their paths. */
+export function pruneSnapshots(dir: string = RAW_DATA_DIR, now: Date = new Date()): string[] {
+    if (!fs.existsSync(dir)) return [];
+
+    const snapshots = fs.readdirSync(dir)
+        .filter(f => f.startsWith('Steam') && f.endsWith('.json'))
+        .map(f => describeSnapshot(path.join(dir, f)));
+    const remove = planRetention(snapshots, now);
+    remove.forEach(snapshot => fs.unlinkSync(snapshot.path));
+    return remove.map(snapshot => snapshot.path);
+}
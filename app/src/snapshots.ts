@@ -0,0 +1,255 @@
+/*
+    Steam Library Scraper - Snapshot Files
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameData, RecentGame, ReviewData, WishlistItem } from './game-data';
+import { SOURCE_NAMES, SourceName } from './game-source';
+
+// --- CONFIGURATION ---
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+export const RAW_DATA_DIR = path.join(ROOT_DIR, 'output', 'raw_data');
+
+// SteamScrape_<accountID>_<YYYY-MM-DD HHMM>.json, the other scrape targets use their own prefix
+const SNAPSHOT_PATTERN = /^Steam[A-Za-z]+_(.+)_(\d{4})-(\d{2})-(\d{2}) (\d{2})(\d{2})\.json$/;
+
+// Version of the snapshot file format, raised when its fields change. 0 is a bare array of games,
+// 1 the games with their completeness, 2 the envelope with the details of the scrape run.
+export const SNAPSHOT_SCHEMA_VERSION = 2;
+
+// Written into every snapshot, so a file can be traced back to the version that made it
+export const TOOL_VERSION: string = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8')).version;
+
+// --- INTERFACES ---
+export interface SnapshotInfo {
+    path: string;
+    fileName: string;
+    accountID: string;
+    // When the scrape ran, taken from the file name (falls back to the file's modified time)
+    takenAt: Date;
+}
+
+/** Whether the scrape got every game Steam said the account has. */
+export interface ScrapeCompleteness {
+    // null when Steam showed no total to compare with
+    complete: boolean | null;
+    expectedCount: number | null;
+    scrapedCount: number;
+}
+
+/** How a scrape went, written around its games so other tools don't have to guess. */
+export interface ScrapeRun extends ScrapeCompleteness {
+    // null for snapshots written before the envelope
+    source: SourceName | null;
+    // ISO dates and times
+    startedAt: string;
+    finishedAt: string;
+    // Language of the Steam page the games were read from, null for the Web API
+    locale: string | null;
+    // What went wrong without stopping the scrape (missing games, values that could not be read)
+    warnings: string[];
+}
+
+export interface SnapshotFile extends ScrapeRun {
+    schemaVersion: number;
+    // Empty for snapshots written before the envelope
+    toolVersion: string;
+    accountID: string;
+    games: GameData[];
+}
+
+/** What the files of the other scrape targets hold, next to the game snapshots. */
+export interface TargetItems {
+    wishlist: WishlistItem;
+    recent: RecentGame;
+    reviews: ReviewData;
+}
+
+export type TargetType = keyof TargetItems;
+
+export interface TargetFile<T extends TargetType> {
+    type: T;
+    accountID: string;
+    // ISO date and time of the scrape
+    scrapedAt: string;
+    items: TargetItems[T][];
+}
+
+const TARGET_FILE_PREFIXES: Record<TargetType, string> = {
+    wishlist: 'SteamWishlist',
+    recent: 'SteamRecent',
+    reviews: 'SteamReviews',
+};
+
+// --- HELPERS ---
+export function getTimestamp(date: Date = new Date()): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    const hours = String(date.getHours()).padStart(2, '0');
+    const minutes = String(date.getMinutes()).padStart(2, '0');
+    return `${year}-${month}-${day} ${hours}${minutes}`;
+}
+
+export function describeSnapshot(filePath: string): SnapshotInfo {
+    const fileName = path.basename(filePath);
+    const match = fileName.match(SNAPSHOT_PATTERN);
+
+    if (match) {
+        const [, accountID, year, month, day, hours, minutes] = match;
+        const takenAt = new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+        return { path: filePath, fileName, accountID, takenAt };
+    }
+
+    // Renamed or hand-made files still work, we just know less about them
+    return { path: filePath, fileName, accountID: "", takenAt: fs.statSync(filePath).mtime };
+}
+
+/**
+ * Lists all scrape snapshots in a folder, newest first.
+ * @param accountID Only return snapshots of this account
+ */
+export function listSnapshots(dir: string = RAW_DATA_DIR, accountID?: string): SnapshotInfo[] {
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+        .filter(f => f.endsWith('.json') && f.includes('SteamScrape'))
+        .map(f => describeSnapshot(path.join(dir, f)))
+        .filter(s => !accountID || s.accountID === accountID)
+        .sort((a, b) => b.takenAt.getTime() - a.takenAt.getTime());
+}
+
+export function findLatestSnapshot(dir: string = RAW_DATA_DIR): string | null {
+    const snapshots = listSnapshots(dir);
+    return snapshots.length > 0 ? snapshots[0].path : null;
+}
+
+/**
+ * Writes a new snapshot for the account and returns its path.
+ * @param run What is known about the scrape, the rest is left empty (the times default to now)
+ */
+export function writeSnapshot(
+    accountID: string,
+    games: GameData[],
+    dir: string = RAW_DATA_DIR,
+    run: Partial<ScrapeRun> = {},
+): string {
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const now = new Date().toISOString();
+    const snapshot: SnapshotFile = {
+        schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+        toolVersion: TOOL_VERSION,
+        accountID,
+        source: run.source || null,
+        startedAt: run.startedAt || now,
+        finishedAt: run.finishedAt || now,
+        locale: run.locale || null,
+        complete: run.complete ?? null,
+        expectedCount: run.expectedCount ?? null,
+        scrapedCount: run.scrapedCount ?? games.length,
+        warnings: run.warnings || [],
+        games,
+    };
+    const filePath = path.join(dir, `SteamScrape_${accountID}_${getTimestamp()}.json`);
+    fs.writeFileSync(filePath, JSON.stringify(snapshot, null, 2), { encoding: 'utf-8' });
+    return filePath;
+}
+
+/**
+ * Reads a snapshot with its run details. Older snapshots (a bare array of games, or the games with
+ * their completeness) are read the same way: what they don't have is taken from the file name or left empty.
+ */
+export function loadSnapshotFile(filePath: string): SnapshotFile {
+    const json = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const content = Array.isArray(json) ? { schemaVersion: 0, games: json } : json;
+
+    if (!content || !Array.isArray(content.games)) {
+        throw new Error(`${filePath} is not a Steam scrape snapshot.`);
+    }
+
+    const info = describeSnapshot(filePath);
+    const text = (value: unknown): string | null => typeof value === 'string' && value ? value : null;
+    return {
+        schemaVersion: typeof content.schemaVersion === 'number' ? content.schemaVersion : 1,
+        toolVersion: text(content.toolVersion) || "",
+        accountID: text(content.accountID) || info.accountID,
+        source: SOURCE_NAMES.includes(content.source) ? content.source : null,
+        startedAt: text(content.startedAt) || info.takenAt.toISOString(),
+        finishedAt: text(content.finishedAt) || info.takenAt.toISOString(),
+        locale: text(content.locale),
+        complete: typeof content.complete === 'boolean' ? content.complete : null,
+        expectedCount: typeof content.expectedCount === 'number' ? content.expectedCount : null,
+        scrapedCount: content.games.length,
+        warnings: Array.isArray(content.warnings) ? content.warnings.filter((w: unknown) => typeof w === 'string') : [],
+        games: content.games,
+    };
+}
+
+/**
+ * Rewrites the snapshots in a folder that are older than the current format, so other tools only
+ * have to read one format. The file names and modified times stay the same.
+ * @returns The paths of the rewritten files
+ */
+export function migrateSnapshots(dir: string = RAW_DATA_DIR): string[] {
+    const migrated: string[] = [];
+
+    for (const info of listSnapshots(dir)) {
+        let snapshot: SnapshotFile;
+        try {
+            snapshot = loadSnapshotFile(info.path);
+        } catch (e) {
+            console.error(`Skipped ${info.fileName}: ${(e as Error).message}`);
+            continue;
+        }
+        if (snapshot.schemaVersion >= SNAPSHOT_SCHEMA_VERSION) continue;
+
+        const { mtime } = fs.statSync(info.path);
+        const upgraded: SnapshotFile = { ...snapshot, schemaVersion: SNAPSHOT_SCHEMA_VERSION };
+        fs.writeFileSync(info.path, JSON.stringify(upgraded, null, 2), { encoding: 'utf-8' });
+        fs.utimesSync(info.path, mtime, mtime);
+        migrated.push(info.path);
+    }
+    return migrated;
+}
+
+export function loadSnapshot(filePath: string): GameData[] {
+    return loadSnapshotFile(filePath).games;
+}
+
+// --- OTHER SCRAPE TARGETS ---
+/** Writes e.g. SteamWishlist_<accountID>_<YYYY-MM-DD HHMM>.json and returns its path. */
+export function writeTargetFile<T extends TargetType>(type: T, accountID: string, items: TargetItems[T][], dir: string = RAW_DATA_DIR): string {
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const file: TargetFile<T> = { type, accountID, scrapedAt: new Date().toISOString(), items };
+    const filePath = path.join(dir, `${TARGET_FILE_PREFIXES[type]}_${accountID}_${getTimestamp()}.json`);
+    fs.writeFileSync(filePath, JSON.stringify(file, null, 2), { encoding: 'utf-8' });
+    return filePath;
+}
+
+/** Lists the files of one scrape target, newest first. */
+export function listTargetFiles(type: TargetType, dir: string = RAW_DATA_DIR, accountID?: string): SnapshotInfo[] {
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+        .filter(f => f.endsWith('.json') && f.startsWith(`${TARGET_FILE_PREFIXES[type]}_`))
+        .map(f => describeSnapshot(path.join(dir, f)))
+        .filter(s => !accountID || s.accountID === accountID)
+        .sort((a, b) => b.takenAt.getTime() - a.takenAt.getTime());
+}
+
+export function loadTargetFile<T extends TargetType>(type: T, filePath: string): TargetFile<T> {
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!content || content.type !== type || !Array.isArray(content.items)) {
+        throw new Error(`${filePath} is not a Steam ${type} file.`);
+    }
+    return content;
+}
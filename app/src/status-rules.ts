@@ -0,0 +1,122 @@
+/*
+    Steam Library Scraper - Status Rules
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameData } from './game-data';
+import { child, isRecord } from './json-values';
+import { SteamStoreData } from './steam-store';
+import { compileExpression, CompiledExpression } from './template-engine';
+
+// --- CONFIGURATION ---
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+const SETTINGS_PATH = path.join(ROOT_DIR, 'scraper-settings.json');
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Without statusRules in the settings: the split the notes always had, minus "wishlist" for games you own
+export const DEFAULT_STATUS_RULES: StatusRule[] = [
+    { status: 'playing', when: 'playtime > 2' },
+];
+export const DEFAULT_STATUS = 'backlog';
+
+// Statuses older versions wrote into notes, the converter still replaces them
+export const LEGACY_STATUSES = ['playing', 'backlog', 'wishlist'];
+
+// Everything a rule can use, see "Status Rules" in the README
+export const STATUS_VARIABLES = ['game', 'storeData', 'playtime', 'completionRate', 'daysSinceLastPlayed', 'isReleased', 'achievements'];
+
+// Statuses end up in tags (status/<name>), so no spaces
+const STATUS_NAME_PATTERN = /^[\p{L}\p{N}_/-]+$/u;
+
+// --- INTERFACES ---
+/** One rule from the settings: the first rule whose `when` is true decides the status. */
+export interface StatusRule {
+    status: string;
+    when: string;
+}
+
+export interface StatusClassifier {
+    // Every status the rules can give, in rule order with the default last
+    statuses: string[];
+    classify(game: GameData, storeData: SteamStoreData | null, now?: Date): string;
+}
+
+export class StatusRuleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StatusRuleError';
+    }
+}
+
+// --- HELPERS ---
+/** The values a rule can test, computed the same way the notes show them. */
+export function statusContext(game: GameData, storeData: SteamStoreData | null, now: Date = new Date()): Record<string, unknown> {
+    return {
+        game,
+        storeData,
+        playtime: game.playtime === false ? 0 : game.playtime,
+        completionRate: game.totalAchievements > 0 ? Math.round((game.myAchievements / game.totalAchievements) * 100) : 0,
+        // null when never played, which no comparison matches
+        daysSinceLastPlayed: game.lastPlayed ? Math.floor((now.getTime() / 1000 - game.lastPlayed) / DAY_SECONDS) : null,
+        isReleased: storeData?.release_date ? !storeData.release_date.coming_soon : false,
+        achievements: game.achievements || [],
+    };
+}
+
+/**
+ * Compiles the rules from the settings (or the defaults when there are none).
+ * @param settings The parsed settings, checked here: "statusRules" and "defaultStatus" (the status of games no rule matches)
+ * @throws StatusRuleError naming the rule and the position of the problem
+ */
+export function createStatusClassifier(settings: unknown = null): StatusClassifier {
+    const given = isRecord(settings) ? settings : {};
+    const rules = given.statusRules !== undefined ? given.statusRules : DEFAULT_STATUS_RULES;
+    const defaultStatus = given.defaultStatus !== undefined ? given.defaultStatus : DEFAULT_STATUS;
+
+    if (!Array.isArray(rules)) throw new StatusRuleError(`"statusRules" must be a list of { "status": ..., "when": ... }.`);
+    if (typeof defaultStatus !== 'string' || !STATUS_NAME_PATTERN.test(defaultStatus)) {
+        throw new StatusRuleError(`"defaultStatus" must be a status name without spaces, like "backlog".`);
+    }
+
+    const compiled: { status: string; condition: CompiledExpression }[] = rules.map((rule: unknown, index) => {
+        const status = child(rule, 'status');
+        const when = child(rule, 'when');
+        const label = `Status rule ${index + 1}${typeof status === 'string' ? ` ("${status}")` : ""}`;
+        if (typeof status !== 'string' || !STATUS_NAME_PATTERN.test(status)) {
+            throw new StatusRuleError(`${label} needs a "status" without spaces, like "playing".`);
+        }
+        if (typeof when !== 'string') {
+            throw new StatusRuleError(`${label} needs a "when" condition, like "playtime > 2".`);
+        }
+        try {
+            return { status, condition: compileExpression(when, STATUS_VARIABLES) };
+        } catch (e) {
+            throw new StatusRuleError(`${label}: ${(e as Error).message.replace(/^Line 1, /, '')}`);
+        }
+    });
+
+    return {
+        statuses: Array.from(new Set([...compiled.map(r => r.status), defaultStatus])),
+        classify(game, storeData, now) {
+            const context = statusContext(game, storeData, now);
+            const match = compiled.find(rule => rule.condition.test(context));
+            return match ? match.status : defaultStatus;
+        },
+    };
+}
+
+/** Reads the rules from scraper-settings.json, the defaults when the file or the rules are missing. */
+export function loadStatusClassifier(settingsPath: string = SETTINGS_PATH): StatusClassifier {
+    let settings: unknown = null;
+    if (fs.existsSync(settingsPath)) {
+        try {
+            settings = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
+        } catch (e) {
+            // A broken settings file is reported by whoever reads the rest of it
+        }
+    }
+    return createStatusClassifier(settings);
+}
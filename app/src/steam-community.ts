@@ -0,0 +1,92 @@
+/*
+    Steam Library Scraper - Community Profile
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as http from 'http';
+import * as https from 'https';
+import { RecentGame } from './game-data';
+import { isSteamID64 } from './profiles';
+
+// --- CONFIGURATION ---
+export const DEFAULT_COMMUNITY_BASE_URL = 'https://steamcommunity.com';
+
+// --- INTERFACES ---
+/** What the public profile (?xml=1) tells without an API key. */
+export interface CommunityProfile {
+    steamID64: string;
+    // Only the few games the profile shows under "Recent Activity"
+    recentGames: RecentGame[];
+}
+
+// --- HELPERS ---
+const unwrap = (text: string) => text.replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1').trim();
+
+/** The text of the first <tag> inside the XML, null when it isn't there. */
+function tagText(xml: string, tag: string): string | null {
+    const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+    return match ? unwrap(match[1]) : null;
+}
+
+// Steam writes hours like "1,234.5"
+const parseHours = (text: string | null) => Number((text || "0").replace(/,/g, '')) || 0;
+
+/**
+ * Parses the XML version of a community profile.
+ * @throws Error with Steam's own message when the profile doesn't exist
+ */
+export function parseProfileXml(xml: string): CommunityProfile {
+    const error = tagText(xml, 'error');
+    if (error) throw new Error(`Steam profile: ${error}`);
+
+    const steamID64 = tagText(xml, 'steamID64');
+    if (!steamID64 || !isSteamID64(steamID64)) throw new Error("The Steam profile page had no SteamID64.");
+
+    const recentGames: RecentGame[] = [];
+    const gamePattern = /<mostPlayedGame>([\s\S]*?)<\/mostPlayedGame>/g;
+    let match: RegExpExecArray | null;
+    while ((match = gamePattern.exec(xml)) !== null) {
+        const game = match[1];
+        const appId = (tagText(game, 'gameLink') || "").match(/\/app\/(\d+)/);
+        if (!appId) continue;
+        recentGames.push({
+            name: tagText(game, 'gameName') || `App ${appId[1]}`,
+            steamAppID: Number(appId[1]),
+            playtime2WeeksHours: parseHours(tagText(game, 'hoursPlayed')),
+            playtimeHours: parseHours(tagText(game, 'hoursOnRecord')),
+        });
+    }
+    return { steamID64, recentGames };
+}
+
+// --- API ---
+/**
+ * Reads the public profile of a Custom URL ID or SteamID64.
+ * @param baseUrl Only changed by tests, which point it at a local mock server
+ */
+export function fetchCommunityProfile(accountID: string, baseUrl: string = DEFAULT_COMMUNITY_BASE_URL): Promise<CommunityProfile> {
+    const kind = isSteamID64(accountID) ? 'profiles' : 'id';
+    const url = `${baseUrl.replace(/\/+$/, '')}/${kind}/${encodeURIComponent(accountID)}/?xml=1`;
+    const client = url.startsWith('https:') ? https : http;
+
+    return new Promise((resolve, reject) => {
+        client.get(url, (res) => {
+            let data = '';
+            res.on('data', (chunk) => data += chunk);
+            res.on('end', () => {
+                if (res.statusCode !== 200) {
+                    reject(new Error(`Could not read the Steam profile of ${accountID} (HTTP ${res.statusCode}).`));
+                    return;
+                }
+                try {
+                    resolve(parseProfileXml(data));
+                } catch (e) {
+                    reject(e);
+                }
+            });
+        }).on('error', (err) => {
+            reject(new Error(`Could not reach the Steam community: ${err.message}`));
+        });
+    });
+}
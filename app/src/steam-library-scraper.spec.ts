@@ -4,177 +4,157 @@
     License: GPLv3
 */
 
-import { test, expect, type Page } from '@playwright/test';
-import * as fs from 'fs';
+import { test, type Page } from '@playwright/test';
 import * as path from 'path'; 
-
-test.use({ headless: false });
-
-// The ID is passed from the CLI process environment
+import { GameData } from './game-data';
+import { achievementsPageUrl, gamesPageUrl, scrapeAchievementDetails, scrapeGamesList, waitForGamesList } from './games-page';
+import { formatLogEvent, JSON_LOGS, logEvent } from './log-events';
+import { profileUrl } from './profiles';
+import { scrapeReviews } from './reviews';
+import { RAW_DATA_DIR, writeSnapshot, writeTargetFile } from './snapshots';
+import { clearSession, hasSavedSession, SESSION_PATH } from './session';
+
+// The ID, output folder and browser mode are passed from the CLI process environment
 const ACCOUNT_ID = process.env.STEAM_ACCOUNT_ID;
-
-if (!ACCOUNT_ID) {
-    console.error(`\nERROR: STEAM_ACCOUNT_ID was not provided.`);
-}
-
-const STEAM_PAGE = `https://steamcommunity.com/id/${ACCOUNT_ID}/games/?tab=all`;
-
-interface GameData {
-    name: string;
-    steamAppID: number;
-    playtime: number | false;
-    lastPlayed: number | false;
-    myAchievements: number;
-    totalAchievements: number;
-}
-
-async function scrollPage(page: Page) {
-    console.log("Scrolling to load all games...");
-    for (let i = 0; i < 8; i++) { 
-        await page.keyboard.press("End");
-        await page.waitForTimeout(1000);
-    }
-}
-
-function getTimestamp(): string {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
-    const hours = String(now.getHours()).padStart(2, '0');
-    const minutes = String(now.getMinutes()).padStart(2, '0');
-    return `${year}-${month}-${day} ${hours}${minutes}`;
-}
+const OUTPUT_DIR = process.env.SCRAPER_OUTPUT_DIR || RAW_DATA_DIR;
+// Headless runs are unattended: nobody can scan a QR code, so they need a saved session
+const HEADLESS = process.env.SCRAPER_HEADLESS === '1';
+// Visiting every game's achievements page is slow, so it is opt-in
+const ACHIEVEMENT_DETAILS = process.env.SCRAPER_ACHIEVEMENT_DETAILS === '1';
+// The browser collects the games list and the reviews, the CLI fetches the other targets itself
+const TARGETS = (process.env.SCRAPER_TARGETS || 'games').split(',');
+const USE_SAVED_SESSION = hasSavedSession();
+
+test.use({
+    headless: HEADLESS,
+    storageState: USE_SAVED_SESSION ? SESSION_PATH : undefined,
+});
+
+// Custom URL IDs live under /id/, SteamID64s under /profiles/
+const PROFILE_URL = profileUrl(ACCOUNT_ID || "");
+const STEAM_PAGE = gamesPageUrl(PROFILE_URL);
 
 test('Scrape Steam Games', async ({ page }: { page: Page }) => {
-    test.setTimeout(180000); 
+    // Scrolling through a big library takes minutes, achievement details visit one page per game on top of that
+    test.setTimeout(ACHIEVEMENT_DETAILS ? 0 : 600000); 
+
+    if (!ACCOUNT_ID) {
+        throw new Error("STEAM_ACCOUNT_ID was not provided.");
+    }
 
     console.log(`\nSteam Library Scraper (GPLv3) - Copyright (C) 2025 Allard van der Willik`);
     console.log(`This program comes with ABSOLUTELY NO WARRANTY.\n`);
 
-    // --- OUTPUT PATH CONFIGURATION ---
-    // app/src -> app -> ROOT -> output -> raw_data
-    const outputDir = path.resolve(__dirname, '..', '..', 'output', 'raw_data');
-    const timestamp = getTimestamp();
-    const fileName = `SteamScrape_${ACCOUNT_ID}_${timestamp}.json`;
-    const outputPath = path.join(outputDir, fileName);
-
-    if (!fs.existsSync(outputDir)){
-        fs.mkdirSync(outputDir, { recursive: true });
+    console.log(`Targeting Steam Account: ${ACCOUNT_ID}`);
+    const games = TARGETS.includes('games') ? await scrapeGames(page, ACCOUNT_ID) : [];
+
+    if (TARGETS.includes('reviews')) {
+        // Reviews are public, they need no login
+        console.log(`\nCollecting reviews...`);
+        const reviews = await scrapeReviews(page, PROFILE_URL);
+        // The reviews page only has a picture of the game, the games list knows its name
+        const names = new Map(games.map(g => [g.steamAppID, g.name]));
+        reviews.forEach(r => r.name = names.get(r.steamAppID) || r.name);
+        const reviewsPath = writeTargetFile('reviews', ACCOUNT_ID, reviews, path.resolve(OUTPUT_DIR));
+        console.log(`Found ${reviews.length} reviews (${reviews.filter(r => r.recommended).length} recommended). File saved to:`);
+        console.log(path.dirname(reviewsPath));
+        console.log(`Filename: ${path.basename(reviewsPath)}`);
     }
 
-    console.log(`Targeting Steam Account: ${ACCOUNT_ID}`);
+    console.log(`\nYou can close this window...`)
+});
+
+async function scrapeGames(page: Page, accountID: string): Promise<GameData[]> {
+    const startedAt = new Date().toISOString();
+    // Written into the snapshot next to being printed, so tools reading the file see them too
+    const warnings: string[] = [];
     console.log("Navigating...");
     await page.goto(STEAM_PAGE);
 
-    console.log("\nPlease log in! Waiting up to 45 seconds for the games list to appear...");
-    try {
-        await expect(page.getByText('All Games').first()).toBeVisible({ timeout: 45000 });
+    let loggedIn = false;
+    if (USE_SAVED_SESSION) {
+        loggedIn = await waitForGamesList(page, 15000);
+        if (loggedIn) {
+            console.log("Logged in with saved session. Games list visible.");
+        } else {
+            console.log("Saved session has expired.");
+            clearSession();
+            await page.context().clearCookies();
+        }
+    }
+
+    if (!loggedIn) {
+        if (HEADLESS) {
+            throw new Error("No valid saved session. Run the scraper once without --headless and scan the QR code to log in.");
+        }
+
+        await page.goto(STEAM_PAGE);
+        console.log("\nPlease log in! Waiting up to 45 seconds for the games list to appear...");
+        if (!await waitForGamesList(page, 45000)) {
+            throw new Error("Timed out waiting for login. Make sure you scanned the QR code.");
+        }
         console.log("Login detected! Games list visible.");
-    } catch (e) {
-        console.log("Timed out waiting for login. Make sure you scanned the QR code.");
-        return;
+
+        // Remember the login so the next run doesn't need the QR code
+        await page.context().storageState({ path: SESSION_PATH });
+        console.log("Session saved, you won't need to scan the QR code next time.");
     }
 
-    await scrollPage(page);
-
-    const specificGameRows = page.locator('div[role="button"]').filter({ has: page.locator('img') });
-    const count = await specificGameRows.count();
-    console.log(`\nFound ${count} games. Extracting data...`);
-
-    const gamesData: GameData[] = await specificGameRows.evaluateAll((gameDivs: HTMLElement[]) => {
-        return gameDivs.map((div: HTMLElement) => {
-            
-            const cleanText = (text: string, label: string) => text.replace(label, "").trim();
-
-            const findTextInRow = (root: HTMLElement, searchText: string) => {
-                const allEls = Array.from(root.querySelectorAll('*'));
-                const labelEl = allEls.find(el => el.textContent?.trim() === searchText);
-                if (labelEl && labelEl.parentElement) return labelEl.parentElement.innerText;
-                return "N/A";
-            };
-
-            const getAppId = (root: HTMLElement): number => {
-                const links = Array.from(root.querySelectorAll('a'));
-                const storeLink = links.find(a => a.href.includes('/app/'));
-                if (storeLink) {
-                    const match = storeLink.href.match(/\/app\/(\d+)/);
-                    if (match && match[1]) {
-                        return parseInt(match[1], 10);
-                    }
-                }
-                return 0;
-            };
-
-            const parsePlaytime = (str: string): number | false => {
-                if (!str || str === "N/A" || str === "0 hours") return false;
-                const cleanStr = str.replace(/,/g, '');
-                let hours = 0;
-                if (cleanStr.includes('minutes')) hours = parseFloat(cleanStr) / 60;
-                else hours = parseFloat(cleanStr);
-                
-                if (isNaN(hours) || hours === 0) return false;
-                return Math.round(hours * 100) / 100;
-            };
-
-            const parseLastPlayed = (str: string): number | false => {
-                if (!str || str === "Never" || str === "N/A") return false;
-                const now = new Date();
-                let date: Date;
-
-                if (str === "Today") date = now;
-                else if (str === "Yesterday") {
-                    date = new Date(now);
-                    date.setDate(now.getDate() - 1);
-                } else {
-                    let dateStr = str;
-                    if (!/\d{4}$/.test(dateStr)) dateStr += ` ${now.getFullYear()}`;
-                    date = new Date(dateStr);
-                }
-                return Math.floor(date.getTime() / 1000);
-            };
-
-            const parseAchievements = (str: string) => {
-                if (!str || str === "N/A") return { my: 0, total: 0 };
-                const parts = str.split('/');
-                if (parts.length === 2) return { my: parseInt(parts[0].trim()), total: parseInt(parts[1].trim()) };
-                return { my: 0, total: 0 };
-            };
-
-            let name = "N/A";
-            const img = div.querySelector('img');
-            if (img && img.alt) name = img.alt;
-            else {
-                const link = div.querySelector('a');
-                if (link && link.innerText) name = link.innerText;
-            }
+    const { games: gamesData, issues, completeness, locale } = await scrapeGamesList(page);
+    console.log(`\nFound ${gamesData.length} games.`);
 
-            const steamAppID = getAppId(div);
-            const rawPlaytime = findTextInRow(div, "TOTAL PLAYED");
-            const playtime = parsePlaytime(rawPlaytime !== "N/A" ? cleanText(rawPlaytime, "TOTAL PLAYED") : "0 hours");
-            const rawLastPlayed = findTextInRow(div, "LAST PLAYED");
-            const lastPlayed = parseLastPlayed(rawLastPlayed !== "N/A" ? cleanText(rawLastPlayed, "LAST PLAYED") : "Never");
-            const rawAch = findTextInRow(div, "ACHIEVEMENTS");
-            const achievements = parseAchievements(rawAch !== "N/A" ? cleanText(rawAch, "ACHIEVEMENTS") : "N/A");
-
-            return { 
-                name, 
-                steamAppID,
-                playtime, 
-                lastPlayed, 
-                myAchievements: achievements.my, 
-                totalAchievements: achievements.total 
-            };
-        });
-    });
+    if (completeness.complete === false) {
+        warnings.push(`Steam says this account has ${completeness.expectedCount} games, but only ${completeness.scrapedCount} could be loaded.`);
+        console.log(`\nWARNING: ${warnings[warnings.length - 1]}`);
+        console.log(`  The file is marked as incomplete. Try again later, or use the Steam Web API source.`);
+    } else if (completeness.complete === null) {
+        console.log(`\nNote: Steam didn't show a game total, so the number of games could not be verified.`);
+    }
+
+    if (issues.length > 0) {
+        console.log(`\nWARNING: ${issues.length} values could not be read and were left empty:`);
+        for (const issue of issues) {
+            warnings.push(`${issue.game} (${issue.steamAppID}): ${issue.field} = "${issue.raw}" could not be read`);
+            console.log(`  - ${issue.game} (${issue.steamAppID}): ${issue.field} = "${issue.raw}"`);
+        }
+        console.log(`  If your Steam language is not English, please report these so the parser can learn them.`);
+    }
+
+    if (ACHIEVEMENT_DETAILS) {
+        const withAchievements = gamesData.filter(g => g.steamAppID && g.totalAchievements > 0);
+        console.log(`\nCollecting achievement details for ${withAchievements.length} games...`);
+
+        for (const [index, game] of withAchievements.entries()) {
+            process.stdout.write(`\r[${index + 1}/${withAchievements.length}] ${game.name}                    `);
+            try {
+                await page.goto(achievementsPageUrl(PROFILE_URL, game.steamAppID));
+                game.achievements = await scrapeAchievementDetails(page);
+            } catch (e) {
+                warnings.push(`Could not read achievements of ${game.name} (${game.steamAppID}): ${(e as Error).message}`);
+                console.error(`\nCould not read achievements of ${game.name}: ${(e as Error).message}`);
+            }
+            // Be gentle with Steam, this is one page load per game
+            await page.waitForTimeout(500);
+        }
+        console.log("");
+    }
 
     console.log(`Extracted ${gamesData.length} items. Writing to JSON...`);
     
-    fs.writeFileSync(outputPath, JSON.stringify(gamesData, null, 2), { encoding: 'utf-8' });
+    const outputPath = writeSnapshot(accountID, gamesData, path.resolve(OUTPUT_DIR), {
+        ...completeness,
+        source: 'dom',
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        locale,
+        warnings,
+    });
 
-    const absoluteFolderPath = path.resolve(outputDir);
     console.log(`\nDone! File saved to:`);
-    console.log(absoluteFolderPath);
-    console.log(`Filename: ${fileName}`);
-    console.log(`\nYou can close this window...`)
-});
\ No newline at end of file
+    console.log(path.dirname(outputPath));
+    console.log(`Filename: ${path.basename(outputPath)}`);
+    if (JSON_LOGS) {
+        console.log(formatLogEvent(logEvent('snapshot', `Saved ${gamesData.length} games`, { path: outputPath, ...completeness, warnings: warnings.length })).trimEnd());
+    }
+    return gamesData;
+}
\ No newline at end of file
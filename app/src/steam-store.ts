@@ -0,0 +1,259 @@
+/*
+    Steam Store API
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as http from 'http';
+import * as https from 'https';
+import { PriceData } from './game-data';
+import { child, isRecord, optional } from './json-values';
+import { parseRetryAfter } from './request-scheduler';
+
+// --- CONFIGURATION ---
+// A request that hangs would keep its slot in the scheduler forever
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+// --- INTERFACES ---
+export interface SteamStoreData {
+    name: string;
+    steam_appid: number;
+    header_image?: string;
+    short_description?: string;
+    detailed_description?: string;
+    developers?: string[];
+    publishers?: string[];
+    release_date?: { 
+        coming_soon: boolean; 
+        date: string; 
+    };
+    metacritic?: { 
+        score: number; 
+        url?: string; 
+    };
+    categories?: { 
+        id: number; 
+        description: string; 
+    }[];
+    genres?: { 
+        id: string; 
+        description: string; 
+    }[];
+    platforms?: {
+        windows: boolean;
+        mac: boolean;
+        linux: boolean;
+    };
+    controller_support?: "full" | "partial" | "none";
+    required_age?: number | string;
+    is_free?: boolean;
+    // Missing for free games and games that aren't sold anymore, in the currency of the store country
+    price_overview?: SteamPriceOverview;
+    screenshots?: {
+        id: number;
+        path_thumbnail: string;
+        path_full: string;
+    }[];
+    movies?: SteamMovie[];
+    // App IDs of the DLC
+    dlc?: number[];
+    // HTML: "English<strong>*</strong>, French<br><strong>*</strong>languages with full audio support"
+    supported_languages?: string;
+    // HTML, an empty list when the store page has none
+    pc_requirements?: { minimum?: string; recommended?: string } | [];
+    // Number of user reviews
+    recommendations?: { total: number };
+    website?: string | null;
+}
+
+/** A trailer. Older apps have mp4 and webm files, newer ones only streams. */
+export interface SteamMovie {
+    id: number;
+    name: string;
+    thumbnail: string;
+    mp4?: { '480': string; max: string };
+    webm?: { '480': string; max: string };
+    hls_h264?: string;
+    highlight?: boolean;
+}
+
+/** Prices are in cents, the formatted ones the way the store shows them ("19,99€"). */
+export interface SteamPriceOverview {
+    currency: string;
+    initial: number;
+    final: number;
+    discount_percent: number;
+    initial_formatted: string;
+    final_formatted: string;
+}
+
+/**
+ * Outcome of a single appdetails request.
+ * "missing" means Steam answered but has no store page for the app (delisted, removed, etc.),
+ * "error" means we never got a usable answer (network, throttling, bad JSON) and should try again later.
+ */
+export type StoreFetchResult =
+    | { status: 'found'; data: SteamStoreData }
+    | { status: 'missing' }
+    | {
+        status: 'error';
+        reason: string;
+        // Missing when the request never got an answer
+        httpStatus?: number;
+        // From the Retry-After header of a 429 or 503
+        retryAfterMs?: number | null;
+    };
+
+/** Answer of a batched price request: apps without a price (free, not for sale) are null. */
+export type PriceFetchResult =
+    | { status: 'found'; prices: Record<number, PriceData | null> }
+    | Extract<StoreFetchResult, { status: 'error' }>;
+
+// --- CHECKING ANSWERS ---
+const isText = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isPriceOverview = (value: unknown): value is SteamPriceOverview => isRecord(value)
+    && isText(value.currency) && isNumber(value.initial) && isNumber(value.final) && isNumber(value.discount_percent)
+    && isText(value.initial_formatted) && isText(value.final_formatted);
+const isVideoFiles = (value: unknown) => value === undefined || (isRecord(value) && isText(value['480']) && isText(value.max));
+const isMovie = (value: unknown): value is SteamMovie => isRecord(value) && isNumber(value.id) && isText(value.name)
+    && isText(value.thumbnail) && isVideoFiles(value.mp4) && isVideoFiles(value.webm)
+    && optional(value.hls_h264, 'string') && optional(value.highlight, 'boolean');
+
+/** The value when it passes the check, undefined (left out) when it doesn't. */
+const checked = (test: (value: unknown) => boolean) => (value: unknown) => test(value) ? value : undefined;
+/** The entries of a list that pass the check, undefined when it isn't a list. */
+const checkedList = (isEntry: (entry: unknown) => boolean) => (value: unknown) => Array.isArray(value) ? value.filter(isEntry) : undefined;
+
+// Every field of SteamStoreData that is read, with how it is checked
+const STORE_FIELDS: Record<string, (value: unknown) => unknown> = {
+    header_image: checked(isText),
+    short_description: checked(isText),
+    detailed_description: checked(isText),
+    developers: checkedList(isText),
+    publishers: checkedList(isText),
+    release_date: checked(v => isRecord(v) && typeof v.coming_soon === 'boolean' && isText(v.date)),
+    metacritic: checked(v => isRecord(v) && isNumber(v.score) && optional(v.url, 'string')),
+    categories: checkedList(c => isRecord(c) && isNumber(c.id) && isText(c.description)),
+    genres: checkedList(g => isRecord(g) && isText(g.id) && isText(g.description)),
+    platforms: checked(v => isRecord(v) && typeof v.windows === 'boolean' && typeof v.mac === 'boolean' && typeof v.linux === 'boolean'),
+    controller_support: checked(v => v === 'full' || v === 'partial' || v === 'none'),
+    required_age: checked(v => isNumber(v) || isText(v)),
+    is_free: checked(v => typeof v === 'boolean'),
+    price_overview: checked(isPriceOverview),
+    screenshots: checkedList(s => isRecord(s) && isNumber(s.id) && isText(s.path_thumbnail) && isText(s.path_full)),
+    movies: checkedList(isMovie),
+    dlc: checkedList(isNumber),
+    supported_languages: checked(isText),
+    pc_requirements: (v: unknown) => Array.isArray(v) ? [] : isRecord(v) && optional(v.minimum, 'string') && optional(v.recommended, 'string') ? v : undefined,
+    recommendations: checked(v => isRecord(v) && isNumber(v.total)),
+    website: checked(v => v === null || isText(v)),
+};
+
+/**
+ * The store data of an appdetails answer (or the cache), null without its name and app ID. Every field that is read is
+ * checked: a field that isn't what Steam sends is left out, as if there was nothing for it, and so are the list
+ * entries that aren't. Fields nothing reads are kept for the templates.
+ */
+export function toStoreData(value: unknown): SteamStoreData | null {
+    if (!isRecord(value) || !isText(value.name) || !isNumber(value.steam_appid)) return null;
+
+    const data: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+        const check = Object.prototype.hasOwnProperty.call(STORE_FIELDS, key) ? STORE_FIELDS[key] : null;
+        const kept = check ? check(field) : field;
+        if (kept !== undefined) data[key] = kept;
+    }
+    // Checked field by field above, which the compiler can't follow
+    return data as unknown as SteamStoreData;
+}
+
+/** Two letters like "NL" or "us", Steam uses the country for prices and currency. */
+export function isCountryCode(value: unknown): value is string {
+    return typeof value === 'string' && /^[A-Za-z]{2}$/.test(value);
+}
+
+export function toPriceData(overview: SteamPriceOverview): PriceData {
+    return {
+        currency: overview.currency,
+        initial: overview.initial,
+        final: overview.final,
+        discountPercent: overview.discount_percent,
+        initialFormatted: overview.initial_formatted,
+        finalFormatted: overview.final_formatted,
+    };
+}
+
+// --- API ---
+export const DEFAULT_STORE_BASE_URL = 'https://store.steampowered.com';
+
+function appDetailsUrl(baseUrl: string, params: Record<string, string>, countryCode?: string | null): string {
+    const query = new URLSearchParams(params);
+    // Without a country Steam picks one from your IP address
+    if (countryCode) query.set('cc', countryCode.toLowerCase());
+    return `${baseUrl.replace(/\/+$/, '')}/api/appdetails?${query.toString()}`;
+}
+
+/** GETs a store API URL, anything but parsed JSON comes back as an error result. */
+function getStoreJson(url: string): Promise<{ status: 'ok'; json: unknown } | Extract<StoreFetchResult, { status: 'error' }>> {
+    const client = url.startsWith('https:') ? https : http;
+
+    return new Promise((resolve) => {
+        const req = client.get(url, (res) => {
+            let data = '';
+            res.on('data', (chunk) => data += chunk);
+            res.on('end', () => {
+                const httpStatus = res.statusCode || 0;
+                if (httpStatus === 429 || httpStatus >= 500) {
+                    const reason = httpStatus === 429 ? 'Too many requests (HTTP 429)' : `Steam store error (HTTP ${httpStatus})`;
+                    resolve({ status: 'error', reason, httpStatus, retryAfterMs: parseRetryAfter(res.headers['retry-after']) });
+                    return;
+                }
+                try {
+                    resolve({ status: 'ok', json: JSON.parse(data) });
+                } catch (e) {
+                    resolve({ status: 'error', reason: `Invalid response (HTTP ${httpStatus})`, httpStatus });
+                }
+            });
+        });
+        req.setTimeout(REQUEST_TIMEOUT_MS, () => req.destroy(new Error('Timed out')));
+        req.on('error', (err) => {
+            resolve({ status: 'error', reason: err.message });
+        });
+    });
+}
+
+/**
+ * @param baseUrl Only changed by tests, which point it at a local mock server
+ * @param countryCode Store country for the price, see isCountryCode
+ */
+export async function fetchSteamDetails(appId: number, baseUrl: string = DEFAULT_STORE_BASE_URL, countryCode?: string | null): Promise<StoreFetchResult> {
+    if (!appId || appId === 0) {
+        return { status: 'missing' };
+    }
+
+    const result = await getStoreJson(appDetailsUrl(baseUrl, { appids: String(appId) }, countryCode));
+    if (result.status === 'error') return result;
+
+    const data = toStoreData(child(result.json, String(appId), 'data'));
+    return child(result.json, String(appId), 'success') === true && data ? { status: 'found', data } : { status: 'missing' };
+}
+
+/**
+ * Current prices of several apps in one request (appdetails only allows that for the price filter).
+ * @param baseUrl Only changed by tests, which point it at a local mock server
+ * @param countryCode Store country for the prices, without one Steam picks it from your IP address
+ */
+export async function fetchSteamPrices(appIds: number[], baseUrl: string = DEFAULT_STORE_BASE_URL, countryCode?: string | null): Promise<PriceFetchResult> {
+    const result = await getStoreJson(appDetailsUrl(baseUrl, { appids: appIds.join(','), filters: 'price_overview' }, countryCode));
+    if (result.status === 'error') return result;
+
+    const prices: Record<number, PriceData | null> = {};
+    for (const appId of appIds) {
+        // Free games answer with an empty list as data
+        const overview = child(result.json, String(appId), 'data', 'price_overview');
+        prices[appId] = isPriceOverview(overview) ? toPriceData(overview) : null;
+    }
+    return { status: 'found', prices };
+}
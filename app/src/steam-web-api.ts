@@ -0,0 +1,261 @@
+/*
+    Steam Library Scraper - Steam Web API Source
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as http from 'http';
+import * as https from 'https';
+import { AchievementData, GameData, RecentGame } from './game-data';
+import { GameSource } from './game-source';
+import { child, isRecord, listOf, optional } from './json-values';
+import { isSteamID64 } from './profiles';
+
+// --- CONFIGURATION ---
+export const DEFAULT_API_BASE_URL = 'https://api.steampowered.com';
+// A call that gets no answer in time fails, so a headless or scheduled scrape never hangs on it
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+// --- INTERFACES ---
+export interface WebApiOptions {
+    // Personal key from https://steamcommunity.com/dev/apikey
+    apiKey: string;
+    // Only changed by tests, which point it at a local mock server
+    baseUrl?: string;
+    // Set to false to skip the per-game achievement requests (much faster, but counts are 0)
+    includeAchievements?: boolean;
+    // Also store every single achievement (names, descriptions, icons, unlock times), one extra request per game
+    includeAchievementDetails?: boolean;
+}
+
+// The parts of the answers that are read, every entry is checked against them (see the type guards below)
+interface OwnedGame {
+    appid: number;
+    name?: string;
+    playtime_forever?: number;
+    rtime_last_played?: number;
+    has_community_visible_stats?: boolean;
+}
+
+interface PlayerAchievement {
+    apiname: string;
+    achieved: number;
+    unlocktime?: number;
+}
+
+interface RecentlyPlayedGame {
+    appid: number;
+    name?: string;
+    playtime_2weeks?: number;
+    playtime_forever?: number;
+}
+
+/** One entry of IWishlistService/GetWishlist, names and prices come from the store. */
+export interface WishlistEntry {
+    appid: number;
+    priority: number;
+    date_added?: number;
+}
+
+interface SchemaAchievement {
+    name: string;
+    displayName?: string;
+    description?: string;
+    icon?: string;
+}
+
+export class SteamApiError extends Error {
+    constructor(message: string, public readonly statusCode?: number) {
+        super(message);
+        this.name = 'SteamApiError';
+    }
+}
+
+// --- HTTP ---
+function getJson(url: string): Promise<{ statusCode: number; body: unknown }> {
+    const client = url.startsWith('https:') ? https : http;
+
+    return new Promise((resolve, reject) => {
+        const req = client.get(url, (res) => {
+            let data = '';
+            res.on('data', (chunk) => data += chunk);
+            res.on('end', () => {
+                try {
+                    resolve({ statusCode: res.statusCode || 0, body: JSON.parse(data) });
+                } catch (e) {
+                    reject(new SteamApiError(`Invalid response from Steam Web API (HTTP ${res.statusCode})`, res.statusCode));
+                }
+            });
+        });
+        req.setTimeout(REQUEST_TIMEOUT_MS, () => req.destroy(new Error('Timed out')));
+        req.on('error', (err) => {
+            reject(new SteamApiError(`Could not reach Steam Web API: ${err.message}`));
+        });
+    });
+}
+
+/**
+ * Calls one Web API method. The key is left out when there is none, a few methods (like the wishlist) are public.
+ */
+async function callApi(baseUrl: string, apiKey: string | undefined, endpoint: string, params: Record<string, string | number>) {
+    const query = new URLSearchParams({ format: 'json' });
+    if (apiKey) query.set('key', apiKey);
+    for (const [name, value] of Object.entries(params)) query.set(name, String(value));
+
+    try {
+        return await getJson(`${baseUrl.replace(/\/+$/, '')}/${endpoint}/?${query.toString()}`);
+    } catch (e) {
+        // A bad key gets an HTML error page instead of JSON, so check the status before blaming the response
+        const statusCode = (e as SteamApiError).statusCode;
+        if (statusCode === 401 || statusCode === 403) {
+            throw new SteamApiError("Steam rejected the API key. Check steamApiKey in scraper-settings.json.", statusCode);
+        }
+        throw e;
+    }
+}
+
+// --- HELPERS ---
+// What is read from the entries of an answer, entries without it are left out (see listOf)
+const isOwnedGame = (value: unknown): value is OwnedGame => isRecord(value) && typeof value.appid === 'number'
+    && optional(value.name, 'string') && optional(value.playtime_forever, 'number')
+    && optional(value.rtime_last_played, 'number') && optional(value.has_community_visible_stats, 'boolean');
+const isPlayerAchievement = (value: unknown): value is PlayerAchievement => isRecord(value)
+    && typeof value.apiname === 'string' && typeof value.achieved === 'number' && optional(value.unlocktime, 'number');
+const isSchemaAchievement = (value: unknown): value is SchemaAchievement => isRecord(value) && typeof value.name === 'string'
+    && optional(value.displayName, 'string') && optional(value.description, 'string') && optional(value.icon, 'string');
+const isRecentlyPlayedGame = (value: unknown): value is RecentlyPlayedGame => isRecord(value) && typeof value.appid === 'number'
+    && optional(value.name, 'string') && optional(value.playtime_2weeks, 'number') && optional(value.playtime_forever, 'number');
+const isWishlistEntry = (value: unknown): value is WishlistEntry => isRecord(value)
+    && typeof value.appid === 'number' && typeof value.priority === 'number' && optional(value.date_added, 'number');
+
+const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+function toAchievementDetails(achievements: PlayerAchievement[], schema: SchemaAchievement[]): AchievementData[] {
+    const schemaMap = new Map(schema.map(s => [s.name, s]));
+
+    return achievements.map(a => {
+        const info = schemaMap.get(a.apiname);
+        return {
+            apiName: a.apiname,
+            displayName: info?.displayName || a.apiname,
+            // Hidden achievements have no description in the schema
+            description: info?.description || "",
+            iconUrl: info?.icon || "",
+            unlocked: a.achieved === 1,
+            unlockTime: a.achieved === 1 && a.unlocktime ? a.unlocktime : false,
+        };
+    });
+}
+
+function toGameData(game: OwnedGame, achievements: PlayerAchievement[]): GameData {
+    const minutes = game.playtime_forever || 0;
+    return {
+        name: game.name || `App ${game.appid}`,
+        steamAppID: game.appid,
+        playtime: minutes > 0 ? toHours(minutes) : false,
+        playtimeMinutes: minutes,
+        lastPlayed: game.rtime_last_played ? game.rtime_last_played : false,
+        myAchievements: achievements.filter(a => a.achieved === 1).length,
+        totalAchievements: achievements.length,
+    };
+}
+
+// --- SOURCE ---
+export function createWebApiSource(options: WebApiOptions): GameSource {
+    const baseUrl = options.baseUrl || DEFAULT_API_BASE_URL;
+    const includeAchievements = options.includeAchievements !== false;
+    const includeDetails = includeAchievements && options.includeAchievementDetails === true;
+
+    const call = (endpoint: string, params: Record<string, string | number>) => callApi(baseUrl, options.apiKey, endpoint, params);
+
+    const resolveSteamID = async (accountID: string): Promise<string> => {
+        if (isSteamID64(accountID)) return accountID;
+
+        const { statusCode, body } = await call('ISteamUser/ResolveVanityURL/v1', { vanityurl: accountID });
+        const steamID = child(body, 'response', 'steamid');
+        if (child(body, 'response', 'success') !== 1 || typeof steamID !== 'string' || !steamID) {
+            throw new SteamApiError(`Could not find a Steam profile with the custom URL "${accountID}".`, statusCode);
+        }
+        return steamID;
+    };
+
+    const getAchievements = async (steamID: string, appId: number): Promise<PlayerAchievement[]> => {
+        const { body } = await call('ISteamUserStats/GetPlayerAchievements/v1', { steamid: steamID, appid: appId });
+        // Games without achievements answer with HTTP 400 and success: false, that simply means 0/0
+        if (!child(body, 'playerstats', 'success')) return [];
+        return listOf(child(body, 'playerstats', 'achievements'), isPlayerAchievement);
+    };
+
+    const getSchema = async (appId: number): Promise<SchemaAchievement[]> => {
+        const { body } = await call('ISteamUserStats/GetSchemaForGame/v2', { appid: appId, l: 'english' });
+        return listOf(child(body, 'game', 'availableGameStats', 'achievements'), isSchemaAchievement);
+    };
+
+    return {
+        name: 'api',
+
+        async fetchGames(accountID: string): Promise<GameData[]> {
+            const steamID = await resolveSteamID(accountID);
+
+            const { statusCode, body } = await call('IPlayerService/GetOwnedGames/v1', {
+                steamid: steamID,
+                include_appinfo: 1,
+                include_played_free_games: 1,
+            });
+            if (statusCode !== 200) {
+                throw new SteamApiError(`GetOwnedGames failed with HTTP ${statusCode}.`, statusCode);
+            }
+            // A private profile (or private "Game details") returns an empty response instead of an error
+            const owned = child(body, 'response', 'games');
+            if (!Array.isArray(owned)) {
+                throw new SteamApiError("Steam returned no games. Make sure \"Game details\" is public in your Steam privacy settings.");
+            }
+
+            const games: GameData[] = [];
+            for (const game of listOf(owned, isOwnedGame)) {
+                const achievements = includeAchievements && game.has_community_visible_stats
+                    ? await getAchievements(steamID, game.appid)
+                    : [];
+                const data = toGameData(game, achievements);
+                if (includeDetails && achievements.length > 0) {
+                    data.achievements = toAchievementDetails(achievements, await getSchema(game.appid));
+                }
+                games.push(data);
+            }
+
+            return games.sort((a, b) => a.name.localeCompare(b.name));
+        },
+    };
+}
+
+// --- OTHER METHODS ---
+/** Games played in the last two weeks, most played first. Needs an API key. */
+export async function fetchRecentlyPlayed(steamID: string, options: Pick<WebApiOptions, 'apiKey' | 'baseUrl'>): Promise<RecentGame[]> {
+    const { statusCode, body } = await callApi(options.baseUrl || DEFAULT_API_BASE_URL, options.apiKey, 'IPlayerService/GetRecentlyPlayedGames/v1', { steamid: steamID });
+    if (statusCode !== 200) {
+        throw new SteamApiError(`GetRecentlyPlayedGames failed with HTTP ${statusCode}.`, statusCode);
+    }
+
+    return listOf(child(body, 'response', 'games'), isRecentlyPlayedGame)
+        .map(game => ({
+            name: game.name || `App ${game.appid}`,
+            steamAppID: game.appid,
+            playtime2WeeksHours: toHours(game.playtime_2weeks || 0),
+            playtimeHours: toHours(game.playtime_forever || 0),
+        }))
+        .sort((a, b) => b.playtime2WeeksHours - a.playtime2WeeksHours);
+}
+
+/**
+ * The wishlist in Steam's order. Public wishlists need no API key.
+ * A private wishlist looks exactly like an empty one.
+ * @param baseUrl Only changed by tests, which point it at a local mock server
+ */
+export async function fetchWishlistEntries(steamID: string, baseUrl: string = DEFAULT_API_BASE_URL): Promise<WishlistEntry[]> {
+    const { statusCode, body } = await callApi(baseUrl, undefined, 'IWishlistService/GetWishlist/v1', { steamid: steamID });
+    if (statusCode !== 200) {
+        throw new SteamApiError(`GetWishlist failed with HTTP ${statusCode}.`, statusCode);
+    }
+
+    return listOf(child(body, 'response', 'items'), isWishlistEntry).sort((a, b) => a.priority - b.priority);
+}
@@ -0,0 +1,199 @@
+/*
+    Steam Store Cache
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { isRetryableStatus, RequestScheduler, RetryableError } from './request-scheduler';
+import { isRecord } from './json-values';
+import { fetchSteamDetails, StoreFetchResult, SteamStoreData, toStoreData } from './steam-store';
+
+// --- CONFIGURATION ---
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+export const CACHE_PATH = path.join(ROOT_DIR, 'output', 'cache', 'appdetails.json');
+
+// Bump this whenever the shape of SteamStoreData we store changes, old caches are then discarded.
+const CACHE_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_TTL_DAYS = 30;
+// Delisted apps rarely come back, but we still re-check them once in a while
+const NEGATIVE_TTL_DAYS = 7;
+
+// --- INTERFACES ---
+interface CacheEntry {
+    fetchedAt: number;
+    // null = Steam has no store data for this app (negative cache)
+    data: SteamStoreData | null;
+}
+
+export interface StoreCache {
+    // Where the cache is saved, output/cache/appdetails.json unless a test points it elsewhere
+    path: string;
+    version: number;
+    // Store country the prices are for, null when Steam picked it from the IP address
+    countryCode: string | null;
+    entries: Record<string, CacheEntry>;
+    ttlDays: number;
+    dirty: boolean;
+}
+
+/**
+ * default: use fresh cache entries, fetch everything else
+ * refresh: ignore the cache and fetch everything again (results are still cached)
+ * offline: never touch the network, only use what is cached (even if expired)
+ */
+export type StoreMode = 'default' | 'refresh' | 'offline';
+
+export interface StoreLookup {
+    data: SteamStoreData | null;
+    // true when the network was used, so the caller knows it has to throttle
+    fetched: boolean;
+    // true when the lookup failed and nothing usable was cached
+    failed: boolean;
+    // Why the store request failed, only set when it was tried
+    error?: string;
+}
+
+// --- CACHE FILE ---
+/** The entries of a saved cache, checked like a fresh answer. Store data that doesn't pass is fetched again. */
+function readEntries(value: unknown): Record<string, CacheEntry> {
+    const entries: Record<string, CacheEntry> = {};
+    for (const [appId, entry] of Object.entries(isRecord(value) ? value : {})) {
+        if (!isRecord(entry) || typeof entry.fetchedAt !== 'number') continue;
+        const data = entry.data === null ? null : toStoreData(entry.data);
+        if (data || entry.data === null) entries[appId] = { fetchedAt: entry.fetchedAt, data };
+    }
+    return entries;
+}
+
+/**
+ * @param countryCode Store country of the prices (see storeCountry in the README), a cache with another country's prices starts over.
+ * Left out by the commands that only read the cache, they take the country it has.
+ */
+export function loadStoreCache(ttlDays: number = DEFAULT_TTL_DAYS, cachePath: string = CACHE_PATH, countryCode?: string | null): StoreCache {
+    const country = countryCode ? countryCode.toUpperCase() : null;
+    const empty: StoreCache = { path: cachePath, version: CACHE_VERSION, countryCode: country, entries: {}, ttlDays, dirty: false };
+    if (!fs.existsSync(cachePath)) return empty;
+
+    try {
+        const json = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+        if (json.version !== CACHE_VERSION || typeof json.entries !== 'object') {
+            console.log("Store cache is from an older version, starting with an empty cache.");
+            return empty;
+        }
+        if (countryCode === undefined) {
+            return { ...empty, countryCode: json.countryCode || null, entries: readEntries(json.entries) };
+        }
+        if ((json.countryCode || null) !== country) {
+            console.log("Store cache has the prices of another store country, starting with an empty cache.");
+            return empty;
+        }
+        return { ...empty, entries: readEntries(json.entries) };
+    } catch (e) {
+        console.error(`Could not read store cache at ${cachePath}. Starting with an empty cache.`);
+        return empty;
+    }
+}
+
+export function saveStoreCache(cache: StoreCache) {
+    if (!cache.dirty) return;
+
+    const dir = path.dirname(cache.path);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+
+    // Write to a temp file first so an interrupted run never leaves a half-written cache behind
+    const tmpPath = `${cache.path}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ version: cache.version, countryCode: cache.countryCode, entries: cache.entries }), 'utf-8');
+    fs.renameSync(tmpPath, cache.path);
+    cache.dirty = false;
+}
+
+function isFresh(cache: StoreCache, entry: CacheEntry, now: number): boolean {
+    const ttl = (entry.data ? cache.ttlDays : Math.min(cache.ttlDays, NEGATIVE_TTL_DAYS)) * DAY_MS;
+    return now - entry.fetchedAt < ttl;
+}
+
+/** True when a lookup for this app would have to hit the network. */
+export function needsFetch(cache: StoreCache, appId: number, mode: StoreMode): boolean {
+    if (!appId || mode === 'offline') return false;
+    if (mode === 'refresh') return true;
+
+    const entry = cache.entries[appId];
+    return !entry || !isFresh(cache, entry, Date.now());
+}
+
+// --- LOOKUP ---
+/** Fetches through the scheduler, which retries throttled (429), failing (5xx) and dropped requests. */
+function fetchScheduled(cache: StoreCache, scheduler: RequestScheduler, appId: number, storeBaseUrl?: string): Promise<StoreFetchResult> {
+    return scheduler.schedule(async () => {
+        const result = await fetchSteamDetails(appId, storeBaseUrl, cache.countryCode);
+        if (result.status === 'error' && isRetryableStatus(result.httpStatus)) {
+            throw new RetryableError(result.reason, result.retryAfterMs || null, result.httpStatus === 429);
+        }
+        return result;
+    }).catch((e: Error): StoreFetchResult => ({ status: 'error', reason: e.message }));
+}
+
+/**
+ * @param storeBaseUrl Only changed by tests, which point it at a local mock server
+ * @param scheduler Paces and retries the request, without one it is sent once right away
+ */
+export async function lookupStoreDetails(cache: StoreCache, appId: number, mode: StoreMode, storeBaseUrl?: string, scheduler?: RequestScheduler): Promise<StoreLookup> {
+    const entry = cache.entries[appId];
+
+    if (!needsFetch(cache, appId, mode)) {
+        return { data: entry ? entry.data : null, fetched: false, failed: !!appId && !entry };
+    }
+
+    const result = scheduler
+        ? await fetchScheduled(cache, scheduler, appId, storeBaseUrl)
+        : await fetchSteamDetails(appId, storeBaseUrl, cache.countryCode);
+
+    if (result.status === 'error') {
+        // Transient failure: never cache it, but fall back to stale data if we have any
+        return { data: entry ? entry.data : null, fetched: true, failed: !entry, error: result.reason };
+    }
+
+    const data = result.status === 'found' ? result.data : null;
+    cache.entries[appId] = { fetchedAt: Date.now(), data };
+    cache.dirty = true;
+    return { data, fetched: true, failed: false };
+}
+
+// --- FAILURE REPORT ---
+/** A game whose store data couldn't be fetched, kept so a later run can retry just those. */
+export interface StoreFailure {
+    steamAppID: number;
+    name: string;
+    reason: string;
+}
+
+/** The report lives next to the cache: store-failures.json */
+export function storeFailuresPath(cache: StoreCache): string {
+    return path.join(path.dirname(cache.path), 'store-failures.json');
+}
+
+export function loadStoreFailures(reportPath: string): StoreFailure[] {
+    if (!fs.existsSync(reportPath)) return [];
+    try {
+        const json = JSON.parse(fs.readFileSync(reportPath, 'utf-8'));
+        return Array.isArray(json.failures) ? json.failures : [];
+    } catch (e) {
+        console.error(`Could not read the failed store lookups at ${reportPath}.`);
+        return [];
+    }
+}
+
+/** Writes the report, or removes it once nothing is failing anymore. */
+export function saveStoreFailures(reportPath: string, failures: StoreFailure[]) {
+    if (failures.length === 0) {
+        if (fs.existsSync(reportPath)) fs.unlinkSync(reportPath);
+        return;
+    }
+
+    const dir = path.dirname(reportPath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(reportPath, JSON.stringify({ updatedAt: new Date().toISOString(), failures }, null, 2), 'utf-8');
+}
@@ -0,0 +1,697 @@
+/*
+    Steam Library Scraper - Template Engine
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+/*
+    A small template language for the Markdown notes. Templates are shared between people, so they
+    must never be able to run code: there are no function calls, no assignments and only the data
+    passed in the context can be read.
+
+    {{ game.name }}                        output a value
+    {{ storeData.genres | map: "description" | join: ", " }}
+    {% if playtime > 2 %}...{% elif playtime > 0 %}...{% else %}...{% endif %}
+    {% for genre in storeData.genres %}{{ genre.description }}{% endfor %}
+    {# a comment #}
+
+    A {% %} tag or comment that is alone on its line removes that whole line from the output.
+
+    The same expressions (without the braces) are used on their own by the status rules in the settings.
+*/
+
+import { noteLink } from './note-files';
+
+// --- INTERFACES ---
+type Expr =
+    | { type: 'literal'; value: unknown; pos: number }
+    | { type: 'variable'; name: string; pos: number }
+    | { type: 'member'; object: Expr; property: Expr; pos: number }
+    | { type: 'not'; operand: Expr; pos: number }
+    | { type: 'binary'; op: string; left: Expr; right: Expr; pos: number }
+    | { type: 'filter'; name: string; input: Expr; args: Expr[]; pos: number };
+
+type Node =
+    | { type: 'text'; value: string }
+    | { type: 'output'; expr: Expr }
+    | { type: 'if'; branches: { condition: Expr; body: Node[] }[]; otherwise: Node[] }
+    | { type: 'for'; variable: string; iterable: Expr; body: Node[]; otherwise: Node[]; pos: number };
+
+export interface CompiledTemplate {
+    render(context: Record<string, unknown>): string;
+}
+
+export interface CompiledExpression {
+    evaluate(context: Record<string, unknown>): unknown;
+    /** Whether the result counts as true in an {% if %} */
+    test(context: Record<string, unknown>): boolean;
+}
+
+export class TemplateError extends Error {
+    constructor(message: string, public readonly line: number, public readonly column: number) {
+        super(`Line ${line}, column ${column}: ${message}`);
+        this.name = 'TemplateError';
+    }
+}
+
+interface FilterDefinition {
+    minArgs: number;
+    maxArgs: number;
+    apply(value: unknown, args: unknown[]): unknown;
+}
+
+// --- VALUES ---
+// Never readable, even when an object happens to have them as own properties
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+/** Reads a property the way the template sees the world: plain data only, no functions, no prototype chain. */
+function getProperty(object: unknown, key: unknown): unknown {
+    if (object === null || object === undefined) return undefined;
+    if (typeof key !== 'string' && typeof key !== 'number') return undefined;
+    const name = String(key);
+    if (BLOCKED_PROPERTIES.has(name)) return undefined;
+
+    let value: unknown;
+    if ((Array.isArray(object) || typeof object === 'string') && name === 'length') {
+        value = object.length;
+    } else if (typeof object === 'object' || typeof object === 'string') {
+        const own = Object.getOwnPropertyDescriptor(object, name);
+        value = own ? own.value : undefined;
+    }
+    return typeof value === 'function' ? undefined : value;
+}
+
+function isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === false || value === ''
+        || (Array.isArray(value) && value.length === 0);
+}
+
+const isTruthy = (value: unknown) => !isEmpty(value) && value !== 0 && !(typeof value === 'number' && isNaN(value));
+
+function toText(value: unknown): string {
+    if (value === undefined || value === null) return "";
+    if (Array.isArray(value)) return value.map(toText).join(", ");
+    if (typeof value === 'object') return JSON.stringify(value);
+    if (typeof value === 'number' && isNaN(value)) return "";
+    return String(value);
+}
+
+function toDate(value: unknown): Date | null {
+    if (value === undefined || value === null || value === false || value === '' || value === 0) return null;
+    // Steam timestamps are seconds, JavaScript ones milliseconds
+    const date = typeof value === 'number' ? new Date(value < 1e11 ? value * 1000 : value) : new Date(String(value));
+    return isNaN(date.getTime()) ? null : date;
+}
+
+// --- FILTERS ---
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** "X minutes and Y seconds", the playtime format the notes always had. */
+export function formatDuration(ms: number): string {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+
+    const minStr = minutes === 1 ? "1 minute" : `${minutes} minutes`;
+    const secStr = seconds === 1 ? "1 second" : `${seconds} seconds`;
+
+    return `${minStr} and ${secStr}`;
+}
+
+export const FILTERS: Record<string, FilterDefinition> = {
+    // {{ value | default: "None" }} when value is missing, false, "" or []
+    default: { minArgs: 0, maxArgs: 1, apply: (value, [fallback = ""]) => isEmpty(value) ? fallback : value },
+    // {{ list | join: ", " }}
+    join: {
+        minArgs: 0, maxArgs: 1,
+        apply: (value, [separator = ", "]) => Array.isArray(value) ? value.map(toText).join(toText(separator)) : toText(value),
+    },
+    // {{ name | wikilink }} gives [[name]], or [[file name|name]] when the name can't be a file name, works on lists too
+    wikilink: {
+        minArgs: 0, maxArgs: 0,
+        apply: (value) => {
+            const link = (v: unknown) => isEmpty(v) ? "" : noteLink(toText(v));
+            return Array.isArray(value) ? value.map(link) : link(value);
+        },
+    },
+    // {{ rating | round }} or {{ hours | round: 1 }}
+    round: {
+        minArgs: 0, maxArgs: 1,
+        apply: (value, [decimals = 0]) => {
+            const factor = Math.pow(10, Number(decimals) || 0);
+            return isEmpty(value) || isNaN(Number(value)) ? value : Math.round(Number(value) * factor) / factor;
+        },
+    },
+    // {{ game.lastPlayed | date }} or {{ game.lastPlayed | date: "DD/MM/YYYY HH:mm" }}, empty when there is no date
+    date: {
+        minArgs: 0, maxArgs: 1,
+        apply: (value, [format = "YYYY-MM-DD"]) => {
+            const date = toDate(value);
+            if (!date) return typeof value === 'string' ? value : "";
+            return toText(format).replace(/YYYY|MM|DD|HH|mm|ss/g, token => ({
+                YYYY: String(date.getFullYear()),
+                MM: pad(date.getMonth() + 1),
+                DD: pad(date.getDate()),
+                HH: pad(date.getHours()),
+                mm: pad(date.getMinutes()),
+                ss: pad(date.getSeconds()),
+            } as Record<string, string>)[token]);
+        },
+    },
+    // {{ playtime | duration }}, hours as "X minutes and Y seconds"
+    duration: { minArgs: 0, maxArgs: 0, apply: (value) => formatDuration((Number(value) || 0) * 3600000) },
+    // {{ storeData.genres | map: "description" }} picks one property of every item
+    map: {
+        minArgs: 1, maxArgs: 1,
+        apply: (value, [key]) => Array.isArray(value) ? value.map(item => getProperty(item, key)) : [],
+    },
+    // {{ status | capitalize }} gives "Playing"
+    capitalize: { minArgs: 0, maxArgs: 0, apply: (value) => toText(value).charAt(0).toUpperCase() + toText(value).slice(1) },
+    // {{ game.name | quote }} for YAML frontmatter: "The \"Quoted\" Game"
+    quote: { minArgs: 0, maxArgs: 0, apply: (value) => JSON.stringify(toText(value)) },
+};
+
+// --- TOKENIZER ---
+interface Token {
+    type: 'number' | 'string' | 'name' | 'punct' | 'end';
+    value: string;
+    pos: number;
+}
+
+const PUNCTUATION = ['==', '!=', '<=', '>=', '<', '>', '.', '[', ']', '(', ')', '|', ':', ','];
+
+function positionOf(source: string, offset: number): { line: number; column: number } {
+    const before = source.slice(0, offset);
+    const line = before.split('\n').length;
+    return { line, column: offset - before.lastIndexOf('\n') };
+}
+
+function errorAt(source: string, offset: number, message: string): TemplateError {
+    const { line, column } = positionOf(source, offset);
+    return new TemplateError(message, line, column);
+}
+
+/** Splits the inside of a {{ }} or {% %} into tokens. `start` is where it begins in the template. */
+function tokenize(source: string, start: number, end: number): Token[] {
+    const tokens: Token[] = [];
+    let i = start;
+
+    while (i < end) {
+        const char = source[i];
+        if (/\s/.test(char)) { i++; continue; }
+
+        if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(source[i + 1] || ''))) {
+            const match = source.slice(i, end).match(/^-?\d+(\.\d+)?/)!;
+            tokens.push({ type: 'number', value: match[0], pos: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(char)) {
+            const match = source.slice(i, end).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+            tokens.push({ type: 'name', value: match[0], pos: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            let value = "";
+            let j = i + 1;
+            while (j < end && source[j] !== char) {
+                if (source[j] === '\\' && j + 1 < end) {
+                    j++;
+                    value += source[j] === 'n' ? '\n' : source[j] === 't' ? '\t' : source[j];
+                } else {
+                    value += source[j];
+                }
+                j++;
+            }
+            if (j >= end) throw errorAt(source, i, "Unclosed string.");
+            tokens.push({ type: 'string', value, pos: i });
+            i = j + 1;
+            continue;
+        }
+
+        const punct = PUNCTUATION.find(p => source.startsWith(p, i));
+        if (!punct) throw errorAt(source, i, `Unexpected character "${char}".`);
+        tokens.push({ type: 'punct', value: punct, pos: i });
+        i += punct.length;
+    }
+
+    tokens.push({ type: 'end', value: '', pos: end });
+    return tokens;
+}
+
+// --- EXPRESSION PARSER ---
+const COMPARISONS = ['==', '!=', '<', '<=', '>', '>='];
+const KEYWORDS = new Set(['and', 'or', 'not', 'in', 'true', 'false', 'null']);
+
+function createExpressionParser(source: string, tokens: Token[]) {
+    let index = 0;
+    const peek = () => tokens[index];
+    const next = () => tokens[index++];
+    const isPunct = (value: string) => peek().type === 'punct' && peek().value === value;
+    const isName = (value: string) => peek().type === 'name' && peek().value === value;
+
+    const describe = (token: Token) => token.type === 'end' ? "the end of the tag" : `"${token.value}"`;
+    const expectPunct = (value: string) => {
+        if (!isPunct(value)) throw errorAt(source, peek().pos, `Expected "${value}" but found ${describe(peek())}.`);
+        return next();
+    };
+
+    function primary(): Expr {
+        const token = next();
+        switch (token.type) {
+            case 'number':
+                return { type: 'literal', value: Number(token.value), pos: token.pos };
+            case 'string':
+                return { type: 'literal', value: token.value, pos: token.pos };
+            case 'name':
+                if (token.value === 'true' || token.value === 'false') return { type: 'literal', value: token.value === 'true', pos: token.pos };
+                if (token.value === 'null') return { type: 'literal', value: null, pos: token.pos };
+                if (KEYWORDS.has(token.value)) throw errorAt(source, token.pos, `Unexpected "${token.value}".`);
+                return { type: 'variable', name: token.value, pos: token.pos };
+            case 'punct':
+                if (token.value === '(') {
+                    const inner = expression();
+                    expectPunct(')');
+                    return inner;
+                }
+                break;
+        }
+        throw errorAt(source, token.pos, `Expected a value but found ${describe(token)}.`);
+    }
+
+    function member(): Expr {
+        let expr = primary();
+        for (;;) {
+            if (isPunct('.')) {
+                next();
+                const name = next();
+                if (name.type !== 'name') throw errorAt(source, name.pos, `Expected a property name after "." but found ${describe(name)}.`);
+                expr = { type: 'member', object: expr, property: { type: 'literal', value: name.value, pos: name.pos }, pos: name.pos };
+            } else if (isPunct('[')) {
+                const open = next();
+                const property = expression();
+                expectPunct(']');
+                expr = { type: 'member', object: expr, property, pos: open.pos };
+            } else if (isPunct('(')) {
+                throw errorAt(source, peek().pos, "Templates can't call functions, use a filter instead (e.g. {{ value | round }}).");
+            } else {
+                return expr;
+            }
+        }
+    }
+
+    function filtered(): Expr {
+        let expr = member();
+        while (isPunct('|')) {
+            next();
+            const name = next();
+            if (name.type !== 'name') throw errorAt(source, name.pos, `Expected a filter name after "|" but found ${describe(name)}.`);
+            const args: Expr[] = [];
+            if (isPunct(':')) {
+                next();
+                args.push(member());
+                while (isPunct(',')) {
+                    next();
+                    args.push(member());
+                }
+            }
+            expr = { type: 'filter', name: name.value, input: expr, args, pos: name.pos };
+        }
+        return expr;
+    }
+
+    function comparison(): Expr {
+        const left = filtered();
+        if (peek().type === 'punct' && COMPARISONS.includes(peek().value)) {
+            const op = next();
+            return { type: 'binary', op: op.value, left, right: filtered(), pos: op.pos };
+        }
+        return left;
+    }
+
+    function negation(): Expr {
+        if (isName('not')) {
+            const token = next();
+            return { type: 'not', operand: negation(), pos: token.pos };
+        }
+        return comparison();
+    }
+
+    function conjunction(): Expr {
+        let left = negation();
+        while (isName('and')) {
+            const op = next();
+            left = { type: 'binary', op: 'and', left, right: negation(), pos: op.pos };
+        }
+        return left;
+    }
+
+    function expression(): Expr {
+        let left = conjunction();
+        while (isName('or')) {
+            const op = next();
+            left = { type: 'binary', op: 'or', left, right: conjunction(), pos: op.pos };
+        }
+        return left;
+    }
+
+    return {
+        expression,
+        peek,
+        next,
+        done() {
+            if (peek().type !== 'end') throw errorAt(source, peek().pos, `Unexpected ${describe(peek())}.`);
+        },
+    };
+}
+
+// --- TEMPLATE PARSER ---
+interface Tag {
+    kind: 'output' | 'statement';
+    // Position of the opening braces, and of the content between the braces
+    pos: number;
+    contentStart: number;
+    contentEnd: number;
+}
+
+function parseTemplate(source: string): Node[] {
+    const root: Node[] = [];
+    // Open blocks, innermost last. "target" is the body that currently receives nodes.
+    const stack: { node: Extract<Node, { type: 'if' | 'for' }>; pos: number; keyword: string; target: Node[] }[] = [];
+    const target = () => stack.length ? stack[stack.length - 1].target : root;
+
+    let i = 0;
+    let text = "";
+    const flushText = () => {
+        if (text) target().push({ type: 'text', value: text });
+        text = "";
+    };
+
+    while (i < source.length) {
+        const open = source.slice(i, i + 2);
+        if (open !== '{{' && open !== '{%' && open !== '{#') {
+            text += source[i++];
+            continue;
+        }
+
+        const close = open === '{{' ? '}}' : open === '{%' ? '%}' : '#}';
+        const end = source.indexOf(close, i + 2);
+        if (end === -1) throw errorAt(source, i, `"${open}" is never closed with "${close}".`);
+        const tag: Tag = { kind: open === '{{' ? 'output' : 'statement', pos: i, contentStart: i + 2, contentEnd: end };
+        i = end + 2;
+
+        // A statement or comment alone on its line takes the whole line with it
+        if (tag.kind === 'statement') {
+            const rest = source.slice(i).match(/^[ \t]*(\r?\n|$)/);
+            if (rest && isStartOfLine(source, tag.pos)) {
+                text = text.replace(/[ \t]*$/, '');
+                i += rest[0].length;
+            }
+        }
+
+        if (open === '{#') continue;
+        flushText();
+
+        const tokens = tokenize(source, tag.contentStart, tag.contentEnd);
+        const parser = createExpressionParser(source, tokens);
+
+        if (tag.kind === 'output') {
+            if (tokens[0].type === 'end') throw errorAt(source, tag.pos, "Empty {{ }}.");
+            const expr = parser.expression();
+            parser.done();
+            target().push({ type: 'output', expr });
+            continue;
+        }
+
+        const keyword = parser.next();
+        if (keyword.type !== 'name') throw errorAt(source, keyword.pos, "Expected if, elif, else, endif, for or endfor.");
+        const current = stack[stack.length - 1];
+
+        switch (keyword.value) {
+            case 'if': {
+                const condition = parser.expression();
+                parser.done();
+                const node: Extract<Node, { type: 'if' }> = { type: 'if', branches: [{ condition, body: [] }], otherwise: [] };
+                target().push(node);
+                stack.push({ node, pos: tag.pos, keyword: 'if', target: node.branches[0].body });
+                break;
+            }
+            case 'elif': {
+                if (!current || current.node.type !== 'if' || current.keyword === 'else') {
+                    throw errorAt(source, keyword.pos, '"elif" without a matching "if".');
+                }
+                const condition = parser.expression();
+                parser.done();
+                const branch = { condition, body: [] as Node[] };
+                current.node.branches.push(branch);
+                current.target = branch.body;
+                break;
+            }
+            case 'else': {
+                parser.done();
+                if (!current || current.keyword === 'else') throw errorAt(source, keyword.pos, '"else" without a matching "if" or "for".');
+                current.keyword = 'else';
+                current.target = current.node.otherwise;
+                break;
+            }
+            case 'for': {
+                const variable = parser.next();
+                if (variable.type !== 'name' || KEYWORDS.has(variable.value)) {
+                    throw errorAt(source, variable.pos, 'Expected a name after "for", like {% for genre in storeData.genres %}.');
+                }
+                const inKeyword = parser.next();
+                if (inKeyword.type !== 'name' || inKeyword.value !== 'in') {
+                    throw errorAt(source, inKeyword.pos, `Expected "in" after "for ${variable.value}".`);
+                }
+                const iterable = parser.expression();
+                parser.done();
+                const node: Extract<Node, { type: 'for' }> = { type: 'for', variable: variable.value, iterable, body: [], otherwise: [], pos: tag.pos };
+                target().push(node);
+                stack.push({ node, pos: tag.pos, keyword: 'for', target: node.body });
+                break;
+            }
+            case 'endif':
+            case 'endfor': {
+                parser.done();
+                const type = keyword.value === 'endif' ? 'if' : 'for';
+                if (!current || current.node.type !== type) {
+                    throw errorAt(source, keyword.pos, `"${keyword.value}" without a matching "${type}".`);
+                }
+                stack.pop();
+                break;
+            }
+            default:
+                throw errorAt(source, keyword.pos, `Unknown tag "${keyword.value}". Expected if, elif, else, endif, for or endfor.`);
+        }
+    }
+
+    flushText();
+    if (stack.length > 0) {
+        const unclosed = stack[stack.length - 1];
+        throw errorAt(source, unclosed.pos, `"${unclosed.node.type}" is never closed with "end${unclosed.node.type}".`);
+    }
+    return root;
+}
+
+function isStartOfLine(source: string, offset: number): boolean {
+    const lineStart = source.lastIndexOf('\n', offset - 1) + 1;
+    return /^[ \t]*$/.test(source.slice(lineStart, offset));
+}
+
+// --- VALIDATION ---
+/** Checks filters (and variables, when known) everywhere in the template, including branches that may never run. */
+function checkNodes(source: string, nodes: Node[], variables: Set<string> | null, errors: TemplateError[]) {
+    const checkExpr = (expr: Expr, scope: Set<string> | null) => {
+        switch (expr.type) {
+            case 'variable':
+                if (scope && !scope.has(expr.name)) errors.push(errorAt(source, expr.pos, `Unknown variable "${expr.name}".`));
+                break;
+            case 'member':
+                checkExpr(expr.object, scope);
+                checkExpr(expr.property, scope);
+                break;
+            case 'not':
+                checkExpr(expr.operand, scope);
+                break;
+            case 'binary':
+                checkExpr(expr.left, scope);
+                checkExpr(expr.right, scope);
+                break;
+            case 'filter': {
+                checkExpr(expr.input, scope);
+                expr.args.forEach(arg => checkExpr(arg, scope));
+                const filter = Object.prototype.hasOwnProperty.call(FILTERS, expr.name) ? FILTERS[expr.name] : undefined;
+                if (!filter) {
+                    errors.push(errorAt(source, expr.pos, `Unknown filter "${expr.name}". Available: ${Object.keys(FILTERS).join(', ')}.`));
+                } else if (expr.args.length < filter.minArgs || expr.args.length > filter.maxArgs) {
+                    const expected = filter.minArgs === filter.maxArgs ? `${filter.minArgs}` : `${filter.minArgs} to ${filter.maxArgs}`;
+                    errors.push(errorAt(source, expr.pos, `Filter "${expr.name}" takes ${expected} argument(s), got ${expr.args.length}.`));
+                }
+                break;
+            }
+        }
+    };
+
+    const walk = (list: Node[], scope: Set<string> | null) => {
+        for (const node of list) {
+            if (node.type === 'output') checkExpr(node.expr, scope);
+            if (node.type === 'if') {
+                node.branches.forEach(b => { checkExpr(b.condition, scope); walk(b.body, scope); });
+                walk(node.otherwise, scope);
+            }
+            if (node.type === 'for') {
+                checkExpr(node.iterable, scope);
+                walk(node.body, scope ? new Set([...scope, node.variable, 'loop']) : null);
+                walk(node.otherwise, scope);
+            }
+        }
+    };
+
+    walk(nodes, variables);
+}
+
+// --- RENDERING ---
+/** Negative, zero or positive like a sort function. Two texts compare as text (ISO dates), anything else as numbers; NaN when they can't be compared. */
+function compareValues(left: unknown, right: unknown): number {
+    if (typeof left === 'string' && typeof right === 'string') return left < right ? -1 : left > right ? 1 : 0;
+    return Number(left) - Number(right);
+}
+
+function evaluate(expr: Expr, scope: Map<string, unknown>): unknown {
+    switch (expr.type) {
+        case 'literal':
+            return expr.value;
+        case 'variable':
+            return scope.has(expr.name) ? scope.get(expr.name) : undefined;
+        case 'member':
+            return getProperty(evaluate(expr.object, scope), evaluate(expr.property, scope));
+        case 'not':
+            return !isTruthy(evaluate(expr.operand, scope));
+        case 'filter':
+            return FILTERS[expr.name].apply(evaluate(expr.input, scope), expr.args.map(arg => evaluate(arg, scope)));
+        case 'binary': {
+            if (expr.op === 'and') return isTruthy(evaluate(expr.left, scope)) && isTruthy(evaluate(expr.right, scope));
+            if (expr.op === 'or') return isTruthy(evaluate(expr.left, scope)) || isTruthy(evaluate(expr.right, scope));
+
+            const left = evaluate(expr.left, scope);
+            const right = evaluate(expr.right, scope);
+            // Missing values (undefined) and null count as the same thing
+            if (expr.op === '==') return left === right || (left == null && right == null);
+            if (expr.op === '!=') return !(left === right || (left == null && right == null));
+            // ...and are never smaller or bigger than anything, so "never played" isn't "played less than 30 days ago"
+            if (left == null || right == null) return false;
+            const order = compareValues(left, right);
+            switch (expr.op) {
+                case '<': return order < 0;
+                case '<=': return order <= 0;
+                case '>': return order > 0;
+                case '>=': return order >= 0;
+            }
+        }
+    }
+    return undefined;
+}
+
+function renderNodes(nodes: Node[], scope: Map<string, unknown>): string {
+    let output = "";
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                output += node.value;
+                break;
+            case 'output':
+                output += toText(evaluate(node.expr, scope));
+                break;
+            case 'if': {
+                const branch = node.branches.find(b => isTruthy(evaluate(b.condition, scope)));
+                output += renderNodes(branch ? branch.body : node.otherwise, scope);
+                break;
+            }
+            case 'for': {
+                const items = evaluate(node.iterable, scope);
+                if (!Array.isArray(items) || items.length === 0) {
+                    output += renderNodes(node.otherwise, scope);
+                    break;
+                }
+                items.forEach((item, index) => {
+                    const inner = new Map(scope);
+                    inner.set(node.variable, item);
+                    inner.set('loop', { index: index + 1, first: index === 0, last: index === items.length - 1, length: items.length });
+                    output += renderNodes(node.body, inner);
+                });
+                break;
+            }
+        }
+    }
+    return output;
+}
+
+function toScope(context: Record<string, unknown>): Map<string, unknown> {
+    const scope = new Map<string, unknown>();
+    for (const key of Object.keys(context)) {
+        if (typeof context[key] !== 'function') scope.set(key, context[key]);
+    }
+    return scope;
+}
+
+// --- PUBLIC API ---
+/**
+ * Parses a template once so it can be rendered for every game.
+ * @param variables When given, any other variable name is an error (catches typos before a long run)
+ * @throws TemplateError with the line and column of the first problem
+ */
+export function compileTemplate(source: string, variables?: string[]): CompiledTemplate {
+    const nodes = parseTemplate(source);
+    const errors: TemplateError[] = [];
+    checkNodes(source, nodes, variables ? new Set(variables) : null, errors);
+    if (errors.length > 0) throw errors[0];
+
+    return {
+        render(context: Record<string, unknown>): string {
+            return renderNodes(nodes, toScope(context));
+        },
+    };
+}
+
+/** Every problem in the template, an empty list when it is fine. */
+export function validateTemplate(source: string, variables?: string[]): TemplateError[] {
+    let nodes: Node[];
+    try {
+        nodes = parseTemplate(source);
+    } catch (e) {
+        if (e instanceof TemplateError) return [e];
+        throw e;
+    }
+
+    const errors: TemplateError[] = [];
+    checkNodes(source, nodes, variables ? new Set(variables) : null, errors);
+    return errors;
+}
+
+export function renderTemplate(source: string, context: Record<string, unknown>): string {
+    return compileTemplate(source).render(context);
+}
+
+/**
+ * Parses a single expression like `playtime > 2 and not achievements`, the part between {% if %} and %}.
+ * @param variables When given, any other variable name is an error
+ * @throws TemplateError with the column of the first problem
+ */
+export function compileExpression(source: string, variables?: string[]): CompiledExpression {
+    const parser = createExpressionParser(source, tokenize(source, 0, source.length));
+    if (parser.peek().type === 'end') throw errorAt(source, 0, "The expression is empty.");
+    const expr = parser.expression();
+    parser.done();
+
+    const errors: TemplateError[] = [];
+    checkNodes(source, [{ type: 'output', expr }], variables ? new Set(variables) : null, errors);
+    if (errors.length > 0) throw errors[0];
+
+    return {
+        evaluate: (context) => evaluate(expr, toScope(context)),
+        test: (context) => isTruthy(evaluate(expr, toScope(context))),
+    };
+}
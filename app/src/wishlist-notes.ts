@@ -0,0 +1,121 @@
+/*
+    Steam Library Scraper - Wishlist Notes
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as path from 'path';
+import { WishlistItem } from './game-data';
+import { STORE_CONTEXT_VARIABLES, storeContext } from './note-context';
+import { NoteImages, remoteImages } from './note-images';
+import { OwnedParts } from './note-merge';
+import { createNoteNamer, EntityLinks, entityLinks } from './note-templates';
+import { PricePoint } from './price-history';
+import { describeSnapshot, listTargetFiles, loadTargetFile } from './snapshots';
+import { SteamStoreData } from './steam-store';
+
+// --- CONFIGURATION ---
+// Subfolder of the notes folder, so wishlisted games don't mix with the ones you own
+export const WISHLIST_FOLDER = 'Wishlist';
+// The status of every wishlisted game
+export const WISHLIST_STATUS = 'wishlist';
+
+// Everything a wishlist template can use, see "Wishlist Notes" in the README
+export const WISHLIST_TEMPLATE_VARIABLES = ['item', 'price', 'storeData', ...STORE_CONTEXT_VARIABLES, 'entityLinks', 'status', 'lowestPrice'];
+
+// Updated in existing wishlist notes, the rest is yours
+export const WISHLIST_NOTE_PARTS: OwnedParts = {
+    fields: ['released', 'releaseDate', 'wishlistPriority', 'price', 'discountPercent'],
+    sections: ['wishlist'],
+};
+
+// Also updated when the store data is new, or the note was written without it
+export const WISHLIST_STORE_PARTS: OwnedParts = { fields: ['developers', 'genres', 'image'], sections: [] };
+
+// --- DEFAULT TEMPLATE ---
+export const DEFAULT_WISHLIST_TEMPLATE = `---
+title: {{ item.name | wikilink | quote }}
+releaseDate: {{ releaseDateStr }}
+developers:
+{% for link in entityLinks.developers %}
+  - {{ link | quote }}
+{% endfor %}
+genres:
+{% for link in entityLinks.genres %}
+  - {{ link | quote }}
+{% endfor %}
+url: https://store.steampowered.com/app/{{ item.steamAppID }}
+released: {{ isReleased }}
+wishlistPriority: {{ item.priority }}
+wishlistAdded: {{ item.dateAdded | date }}
+price: {% if price %}{{ price.finalFormatted | quote }}{% endif %}
+discountPercent: {{ price.discountPercent | default: 0 }}
+type: game
+platform: steam
+id: {{ item.steamAppID }}
+tags:
+  - steamgame
+  - status/{{ status }}
+image: {{ coverImage }}
+---
+![Cover]({{ coverImage }})
+
+> [!summary] Description
+> {{ summary }}
+
+# Wishlist
+- **Priority**: {{ item.priority }}
+- **Added**: {{ item.dateAdded | date | default: "Unknown" }}
+- **Price**: {% if price %}{{ price.finalFormatted }}{% if price.discountPercent %} ({{ price.discountPercent }}% off {{ price.initialFormatted }}){% endif %}{% else %}Free or not for sale{% endif %}
+{% if lowestPrice %}
+- **Lowest price seen**: {{ lowestPrice.finalFormatted }} on {{ lowestPrice.date }}
+{% endif %}
+- **Release**: {{ releaseDateStr | default: "To be announced" }}{% if isReleased %}{% else %} (not released yet){% endif %}
+
+# Links
+- [Steam Store](https://store.steampowered.com/app/{{ item.steamAppID }})
+- [SteamDB](https://steamdb.info/app/{{ item.steamAppID }}/)
+`;
+
+// --- HELPERS ---
+/** The wishlist given in the options, or the latest one of the snapshot's account. Empty when there is none. */
+export function loadWishlist(jsonPath: string, wishlistFile?: string): { file: string | null; items: WishlistItem[] } {
+    let file = wishlistFile ? path.resolve(wishlistFile) : null;
+    if (!file) {
+        const accountID = describeSnapshot(jsonPath).accountID;
+        const latest = accountID ? listTargetFiles('wishlist', path.dirname(jsonPath), accountID)[0] : undefined;
+        if (!latest) return { file: null, items: [] };
+        file = latest.path;
+    }
+
+    try {
+        return { file, items: loadTargetFile('wishlist', file).items };
+    } catch (e) {
+        console.error(`Could not read the wishlist ${file}, no wishlist notes this time: ${(e as Error).message}`);
+        return { file: null, items: [] };
+    }
+}
+
+/**
+ * The values a wishlist template can use. Wishlisted games always have the "wishlist" status.
+ * @param lowestPrice From the price history, see price-history.ts
+ * @param images Downloaded or not, see note-images.ts
+ * @param links To the developer and genre notes, as the settings name them
+ */
+export function wishlistContext(
+    item: WishlistItem,
+    storeData: SteamStoreData | null,
+    lowestPrice: PricePoint | null = null,
+    images: NoteImages = remoteImages(storeData),
+    links: EntityLinks = entityLinks(storeData, createNoteNamer()),
+): Record<string, unknown> {
+    return {
+        item,
+        price: item.price,
+        storeData,
+        ...storeContext(storeData, images),
+        entityLinks: links,
+        status: WISHLIST_STATUS,
+        lowestPrice,
+    };
+}
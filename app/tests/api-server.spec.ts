@@ -0,0 +1,131 @@
+/*
+    Steam Library Scraper - Local API Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as path from 'path';
+import { ApiOptions, createApiHandler, startApiServer } from '../src/api-server';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+const SNAPSHOT = path.join(FIXTURES, 'conversion', 'snapshot.json');
+
+/** Two scrapes a month apart, and the store data of Half-Life 2 in the cache. */
+function writeLibrary(dir: string): ApiOptions {
+    const rawDataDir = path.join(dir, 'raw_data');
+    fs.mkdirSync(rawDataDir, { recursive: true });
+    const snapshot = JSON.parse(fs.readFileSync(SNAPSHOT, 'utf-8'));
+    fs.writeFileSync(path.join(rawDataDir, 'SteamScrape_testuser_2025-06-01 1200.json'), JSON.stringify(snapshot));
+    snapshot.games[0].playtime = 1000;
+    fs.writeFileSync(path.join(rawDataDir, 'SteamScrape_testuser_2025-05-01 1200.json'), JSON.stringify(snapshot));
+
+    const cachePath = path.join(dir, 'appdetails.json');
+    const halfLife = JSON.parse(fs.readFileSync(path.join(FIXTURES, 'appdetails', '220.json'), 'utf-8'));
+    fs.writeFileSync(cachePath, JSON.stringify({ version: 1, countryCode: null, entries: { 220: { fetchedAt: Date.now(), data: halfLife } } }));
+
+    return { rawDataDir, cachePath, priceHistoryDir: path.join(dir, 'price_history'), settingsPath: path.join(dir, 'scraper-settings.json') };
+}
+
+function apiClient(options: ApiOptions) {
+    const handle = createApiHandler(options);
+    return (url: string, method: string = 'GET') => handle(method, url);
+}
+
+const names = (body: unknown) => (body as { games: { name: string }[] }).games.map(g => g.name);
+
+test('/games filters, sorts and pages the latest scrape', async ({}, testInfo) => {
+    const get = apiClient(writeLibrary(testInfo.outputPath()));
+
+    const all = await get('/games');
+    expect(all.status).toBe(200);
+    expect(all.body).toMatchObject({ snapshot: 'SteamScrape_testuser_2025-06-01 1200.json', total: 3, offset: 0, limit: 50 });
+    expect(names(all.body)).toEqual(['Delisted: The Game?', 'Half-Life 2', 'The Binding of Isaac: Rebirth']);
+    // The achievement details are left out of the list, the status is added
+    const isaac = (all.body as { games: Record<string, unknown>[] }).games[2];
+    expect(isaac).toMatchObject({ steamAppID: 250900, playtime: 1003.9, status: 'playing' });
+    expect(isaac.achievements).toBeUndefined();
+
+    expect((await get('/games?sort=-playtime&limit=1')).body).toMatchObject({ total: 3, limit: 1, games: [{ steamAppID: 250900 }] });
+    expect(names((await get('/games?playtime.gte=1&name=THE')).body)).toEqual(['Delisted: The Game?', 'The Binding of Isaac: Rebirth']);
+    expect(names((await get('/games?playtime=0')).body)).toEqual(['Half-Life 2']);
+    expect(names((await get('/games?status=backlog&sort=-name')).body)).toEqual(['Half-Life 2', 'Delisted: The Game?']);
+    expect(names((await get('/games?offset=2')).body)).toEqual(['The Binding of Isaac: Rebirth']);
+
+    for (const broken of ['/games?color=red', '/games?playtime.gte=lots', '/games?playtime.about=3', '/games?sort=price', '/games?limit=-1']) {
+        const response = await get(broken);
+        expect(response.status).toBe(400);
+        expect(response.body).toHaveProperty('error');
+    }
+});
+
+test('a game with its store data, its history, the scrapes and the stats', async ({}, testInfo) => {
+    const get = apiClient(writeLibrary(testInfo.outputPath()));
+
+    expect((await get('/games/220')).body).toMatchObject({ game: { name: 'Half-Life 2' }, status: 'backlog', storeData: { steam_appid: 220 } });
+    expect((await get('/games/99999')).body).toMatchObject({ storeData: null });
+    expect((await get('/games/1')).status).toBe(404);
+    expect((await get('/games/half-life')).status).toBe(400);
+
+    const history = await get('/history/250900');
+    expect(history.body).toMatchObject({ steamAppID: 250900, name: 'The Binding of Isaac: Rebirth', prices: [] });
+    expect((history.body as { snapshots: { playtime: number }[] }).snapshots.map(s => s.playtime)).toEqual([1000, 1003.9]);
+    expect((await get('/history/1')).status).toBe(404);
+
+    expect((await get('/snapshots')).body).toEqual({
+        snapshots: [
+            { fileName: 'SteamScrape_testuser_2025-06-01 1200.json', accountID: 'testuser', takenAt: new Date(2025, 5, 1, 12).toISOString(), games: 3 },
+            { fileName: 'SteamScrape_testuser_2025-05-01 1200.json', accountID: 'testuser', takenAt: new Date(2025, 4, 1, 12).toISOString(), games: 3 },
+        ],
+    });
+    expect((await get('/stats')).body).toMatchObject({ games: 3, playedGames: 2, totalPlaytimeHours: 1005.4, gamesWithStoreData: 1 });
+
+    expect((await get('/games', 'POST')).status).toBe(405);
+    expect((await get('/library')).status).toBe(404);
+    expect((await apiClient({ rawDataDir: testInfo.outputPath('empty') })('/games')).status).toBe(503);
+});
+
+test('the server listens on this computer only', async ({}, testInfo) => {
+    const server = await startApiServer({ ...writeLibrary(testInfo.outputPath()), port: 0 });
+    try {
+        expect(server.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+        const body = await new Promise<string>((resolve, reject) => {
+            http.get(`${server.url}/games?limit=1`, res => {
+                let data = "";
+                res.on('data', chunk => data += chunk);
+                res.on('end', () => resolve(data));
+            }).on('error', reject);
+        });
+        expect(JSON.parse(body)).toMatchObject({ total: 3, games: [{ name: 'Delisted: The Game?' }] });
+    } finally {
+        await server.close();
+    }
+});
+
+/** Sends a request as raw text, so it can be one no HTTP client would send, and answers the response as text. */
+function sendRaw(url: string, request: string): Promise<string> {
+    const { hostname, port } = new URL(url);
+    return new Promise((resolve, reject) => {
+        const socket = net.connect(Number(port), hostname, () => socket.end(request));
+        let data = "";
+        socket.on('data', chunk => data += chunk);
+        socket.on('end', () => resolve(data));
+        socket.on('error', reject);
+    });
+}
+
+test('a malformed request or a foreign host name is answered, and the server keeps running', async ({}, testInfo) => {
+    const server = await startApiServer({ ...writeLibrary(testInfo.outputPath()), port: 0 });
+    try {
+        expect(await sendRaw(server.url, 'GET //[ HTTP/1.1\r\nHost: 127.0.0.1\r\nConnection: close\r\n\r\n')).toMatch(/^HTTP\/1\.1 400 /);
+        // A page that points its own name at this computer (DNS rebinding) can't read the library
+        expect(await sendRaw(server.url, 'GET /games HTTP/1.1\r\nHost: attacker.example:8765\r\nConnection: close\r\n\r\n')).toMatch(/^HTTP\/1\.1 403 /);
+        expect(await sendRaw(server.url, 'GET /games HTTP/1.1\r\nHost: localhost:8765\r\nConnection: close\r\n\r\n')).toMatch(/^HTTP\/1\.1 200 /);
+        expect((await apiClient({})('//[')).status).toBe(400);
+    } finally {
+        await server.close();
+    }
+});
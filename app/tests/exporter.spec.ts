@@ -0,0 +1,157 @@
+/*
+    Steam Library Scraper - Export Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import initSqlJs from 'sql.js';
+import { csvExporter } from '../src/export-csv';
+import { htmlExporter } from '../src/export-html';
+import { jsonlExporter } from '../src/export-jsonl';
+import { SQLITE_FILE_NAME, sqliteExporter } from '../src/export-sqlite';
+import { ExportContext, ExportRecord, toExportRow } from '../src/exporter';
+import { GameData } from '../src/game-data';
+import { SnapshotInfo } from '../src/snapshots';
+import { SteamStoreData } from '../src/steam-store';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+const storeData = (appId: number): SteamStoreData => JSON.parse(fs.readFileSync(path.join(FIXTURES, 'appdetails', `${appId}.json`), 'utf-8'));
+
+/** The games of the conversion fixture, with the store data of the store fixtures and a name that needs quoting. */
+function fixtureRecords(): ExportRecord[] {
+    const games: GameData[] = JSON.parse(fs.readFileSync(path.join(FIXTURES, 'conversion', 'snapshot.json'), 'utf-8')).games;
+    const [isaac, halfLife, delisted] = games;
+    return [
+        { game: { ...isaac, lastPlayed: Date.UTC(2025, 4, 31, 22) / 1000 }, storeData: storeData(250900), status: 'playing' },
+        { game: { ...halfLife, name: 'Half-Life 2 "Episode Zero"' }, storeData: storeData(220), status: 'backlog' },
+        { game: delisted, storeData: null, status: 'backlog' },
+    ];
+}
+
+const snapshot = (day: number): SnapshotInfo => ({
+    path: `SteamScrape_plantdad_2025-06-0${day} 0400.json`,
+    fileName: `SteamScrape_plantdad_2025-06-0${day} 0400.json`,
+    accountID: 'plantdad',
+    takenAt: new Date(Date.UTC(2025, 5, day, 4)),
+});
+
+const context = (outputDir: string, day = 1): ExportContext => {
+    fs.mkdirSync(outputDir, { recursive: true });
+    return { snapshot: snapshot(day), outputDir };
+};
+
+test('rows are flat, with the store data joined and dates as ISO dates', () => {
+    const [isaac, , delisted] = fixtureRecords().map(toExportRow);
+    expect(isaac).toEqual({
+        name: 'The Binding of Isaac: Rebirth', steamAppID: 250900, playtimeHours: 1003.9, lastPlayed: '2025-05-31',
+        myAchievements: 2, totalAchievements: 3, completionRate: 67, status: 'playing', releaseDate: '4 Nov, 2014',
+        developers: 'Nicalis, Inc., Edmund McMillen', publishers: 'Nicalis, Inc.', genres: 'Action, Indie', metacritic: 86,
+        platforms: 'windows, mac, linux',
+    });
+    expect(delisted).toMatchObject({ playtimeHours: 1.5, lastPlayed: '', completionRate: 0, developers: '', metacritic: null, platforms: '' });
+});
+
+test('the CSV quotes commas and quotes, and opens as UTF-8 in Excel', async ({}, testInfo) => {
+    const filePath = await csvExporter.export(fixtureRecords(), context(testInfo.outputPath()));
+    expect(path.basename(filePath)).toBe('SteamLibrary_plantdad_2025-06-01 0400.csv');
+
+    const content = fs.readFileSync(filePath, 'utf-8');
+    expect(content.startsWith('\uFEFF')).toBe(true);
+    expect(content.slice(1).split('\r\n')).toEqual([
+        'name,steamAppID,playtimeHours,lastPlayed,myAchievements,totalAchievements,completionRate,status,releaseDate,developers,publishers,genres,metacritic,platforms',
+        'The Binding of Isaac: Rebirth,250900,1003.9,2025-05-31,2,3,67,playing,"4 Nov, 2014","Nicalis, Inc., Edmund McMillen","Nicalis, Inc.","Action, Indie",86,"windows, mac, linux"',
+        '"Half-Life 2 ""Episode Zero""",220,0,,0,33,0,backlog,"16 Nov, 2004",Valve,Valve,Action,96,"windows, mac, linux"',
+        'Delisted: The Game?,99999,1.5,,0,0,0,backlog,,,,,,',
+        '',
+    ]);
+});
+
+test('JSON Lines has one game per line with its store data and where it came from', async ({}, testInfo) => {
+    const filePath = await jsonlExporter.export(fixtureRecords(), context(testInfo.outputPath()));
+
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+    expect(lines.pop()).toBe('');
+    const games = lines.map(line => JSON.parse(line));
+    expect(games.map(g => [g.steamAppID, g.status, g.accountID, g.scrapedAt])).toEqual([
+        [250900, 'playing', 'plantdad', '2025-06-01T04:00:00.000Z'],
+        [220, 'backlog', 'plantdad', '2025-06-01T04:00:00.000Z'],
+        [99999, 'backlog', 'plantdad', '2025-06-01T04:00:00.000Z'],
+    ]);
+    expect(games[0].achievements).toHaveLength(3);
+    expect(games[1].storeData.developers).toEqual(['Valve']);
+    expect(games[2].storeData).toBeNull();
+});
+
+test('the SQLite database keeps every snapshot, and replaces one that is exported again', async ({}, testInfo) => {
+    const outputDir = testInfo.outputPath();
+    const records = fixtureRecords();
+    await sqliteExporter.export(records, context(outputDir, 1));
+    await sqliteExporter.export(records.slice(0, 2), context(outputDir, 1));
+    const filePath = await sqliteExporter.export(records, context(outputDir, 2));
+    expect(path.basename(filePath)).toBe(SQLITE_FILE_NAME);
+
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(fs.readFileSync(filePath));
+    try {
+        expect(db.exec('SELECT id, file, account_id, taken_at, game_count FROM snapshots ORDER BY id')[0].values).toEqual([
+            [1, 'SteamScrape_plantdad_2025-06-01 0400.json', 'plantdad', '2025-06-01T04:00:00.000Z', 2],
+            [2, 'SteamScrape_plantdad_2025-06-02 0400.json', 'plantdad', '2025-06-02T04:00:00.000Z', 3],
+        ]);
+        expect(db.exec('SELECT snapshot_id, COUNT(*) FROM games GROUP BY snapshot_id')[0].values).toEqual([[1, 2], [2, 3]]);
+        expect(db.exec(`SELECT app_id, name, playtime_hours, last_played, completion_rate, status, developers, metacritic, platforms
+            FROM games WHERE snapshot_id = 2 ORDER BY app_id`)[0].values).toEqual([
+            [220, 'Half-Life 2 "Episode Zero"', 0, null, 0, 'backlog', 'Valve', 96, 'windows, mac, linux'],
+            [99999, 'Delisted: The Game?', 1.5, null, 0, 'backlog', null, null, null],
+            [250900, 'The Binding of Isaac: Rebirth', 1003.9, Date.UTC(2025, 4, 31, 22) / 1000, 67, 'playing', 'Nicalis, Inc., Edmund McMillen', 86, 'windows, mac, linux'],
+        ]);
+    } finally {
+        db.close();
+    }
+});
+
+test('a database from before the status rules gets the status column', async ({}, testInfo) => {
+    const outputDir = testInfo.outputPath();
+    fs.mkdirSync(outputDir, { recursive: true });
+    const SQL = await initSqlJs();
+    const old = new SQL.Database();
+    old.run(`
+        CREATE TABLE snapshots (id INTEGER PRIMARY KEY AUTOINCREMENT, file TEXT NOT NULL UNIQUE, account_id TEXT NOT NULL, taken_at TEXT NOT NULL, game_count INTEGER NOT NULL);
+        CREATE TABLE games (snapshot_id INTEGER NOT NULL REFERENCES snapshots(id) ON DELETE CASCADE, app_id INTEGER NOT NULL, name TEXT NOT NULL,
+            playtime_hours REAL NOT NULL, last_played INTEGER, my_achievements INTEGER NOT NULL, total_achievements INTEGER NOT NULL,
+            completion_rate INTEGER NOT NULL, release_date TEXT, developers TEXT, publishers TEXT, genres TEXT, metacritic INTEGER, platforms TEXT);
+        INSERT INTO snapshots (file, account_id, taken_at, game_count) VALUES ('SteamScrape_plantdad_2025-05-01 0400.json', 'plantdad', '2025-05-01T04:00:00.000Z', 1);
+        INSERT INTO games (snapshot_id, app_id, name, playtime_hours, my_achievements, total_achievements, completion_rate) VALUES (1, 220, 'Half-Life 2', 0, 0, 33, 0);
+    `);
+    fs.writeFileSync(path.join(outputDir, SQLITE_FILE_NAME), Buffer.from(old.export()));
+    old.close();
+
+    await sqliteExporter.export(fixtureRecords(), context(outputDir));
+
+    const db = new SQL.Database(fs.readFileSync(path.join(outputDir, SQLITE_FILE_NAME)));
+    try {
+        expect(db.exec('SELECT s.file, g.app_id, g.status FROM games g JOIN snapshots s ON s.id = g.snapshot_id ORDER BY s.id, g.app_id')[0].values).toEqual([
+            ['SteamScrape_plantdad_2025-05-01 0400.json', 220, null],
+            ['SteamScrape_plantdad_2025-06-01 0400.json', 220, 'backlog'],
+            ['SteamScrape_plantdad_2025-06-01 0400.json', 99999, 'backlog'],
+            ['SteamScrape_plantdad_2025-06-01 0400.json', 250900, 'playing'],
+        ]);
+    } finally {
+        db.close();
+    }
+});
+
+test('the HTML page has the rows inlined, a game name can not end the script', async ({}, testInfo) => {
+    const records = fixtureRecords();
+    records[2].game = { ...records[2].game, name: '</script><b>Delisted</b>' };
+    const filePath = await htmlExporter.export(records, context(testInfo.outputPath()));
+
+    const page = fs.readFileSync(filePath, 'utf-8');
+    expect(path.basename(filePath)).toBe('SteamLibrary_plantdad_2025-06-01 0400.html');
+    expect(page).not.toContain('</script><b>');
+    expect(page).toContain('"name":"\\u003c/script>\\u003cb>Delisted\\u003c/b>"');
+    expect(page).toContain('<option value="status:playing">Status: playing</option>');
+});
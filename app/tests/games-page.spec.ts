@@ -0,0 +1,96 @@
+/*
+    Steam Library Scraper - Games Page Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect, chromium } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { readExpectedCount, scrapeAchievementDetails, scrapeGamesList, waitForGamesList } from '../src/games-page';
+import { MockServer, startStaticServer } from './mock-server';
+
+// These tests drive a real (headless) browser against saved pages, the rest of the suite runs without one
+test.skip(!fs.existsSync(chromium.executablePath()), "Chromium is not installed, run `npx playwright install chromium`.");
+test.use({ headless: true });
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'games-page');
+const FAST_SCROLL = { waitMs: 100, quiet: true };
+
+let server: MockServer;
+
+test.beforeAll(async () => {
+    server = await startStaticServer(FIXTURES);
+});
+
+test.afterAll(async () => {
+    await server.close();
+});
+
+test('loads every game of an infinite scroll list', async ({ page }) => {
+    await page.goto(`${server.url}/games.html?mode=append&count=60`);
+    const { games, issues, completeness, locale } = await scrapeGamesList(page, FAST_SCROLL);
+
+    expect(issues).toEqual([]);
+    expect(completeness).toEqual({ complete: true, expectedCount: 60, scrapedCount: 60 });
+    expect(locale).toBe('en');
+    expect(games.map(g => g.steamAppID)).toEqual(Array.from({ length: 60 }, (_, i) => 1000 + i));
+    expect(games[0]).toEqual({
+        name: 'Test Game 1',
+        steamAppID: 1000,
+        playtime: 0.5,
+        lastPlayed: Math.floor(new Date(2023, 6, 17).getTime() / 1000),
+        myAchievements: 1,
+        totalAchievements: 10,
+    });
+    expect(games[2]).toMatchObject({ playtime: false, lastPlayed: false });
+});
+
+test('collects rows while scrolling through a virtualized list', async ({ page }) => {
+    await page.goto(`${server.url}/games.html?mode=virtual&count=75`);
+    const { games, completeness } = await scrapeGamesList(page, FAST_SCROLL);
+
+    // Only a screen full of rows exists at any time, so counting at the end would find about ten
+    expect(await page.locator('div[role="button"] img').count()).toBeLessThan(20);
+    expect(completeness).toEqual({ complete: true, expectedCount: 75, scrapedCount: 75 });
+    expect(new Set(games.map(g => g.steamAppID)).size).toBe(75);
+});
+
+test('marks the scrape as incomplete when rows are missing', async ({ page }) => {
+    await page.goto(`${server.url}/games.html?mode=virtual&count=30&total=32`);
+    const { completeness } = await scrapeGamesList(page, FAST_SCROLL);
+
+    expect(completeness).toEqual({ complete: false, expectedCount: 32, scrapedCount: 30 });
+});
+
+test('reads the total from the tab in another language of the Steam UI', async ({ page }) => {
+    await page.goto(`${server.url}/games.html?mode=append&count=30&total=1234&tabs=de`);
+    expect(await waitForGamesList(page, 5000)).toBe(true);
+    expect(await readExpectedCount(page)).toBe(1234);
+});
+
+test('tabs of another page are not taken for the games list', async ({ page }) => {
+    // The login page of the Steam community has tabs too, but no games and no count
+    await page.setContent('<div role="tablist"><div role="tab">Sign in</div><div role="tab">Create account</div></div>');
+    expect(await waitForGamesList(page, 500)).toBe(false);
+    expect(await readExpectedCount(page)).toBeNull();
+});
+
+test('stops when the list stops growing if there is no total', async ({ page }) => {
+    await page.goto(`${server.url}/games.html?mode=append&count=45&total=none`);
+    const { completeness } = await scrapeGamesList(page, FAST_SCROLL);
+
+    expect(completeness).toEqual({ complete: null, expectedCount: null, scrapedCount: 45 });
+});
+
+test('reads achievement details', async ({ page }) => {
+    await page.goto(`${server.url}/achievements.html`);
+    const achievements = await scrapeAchievementDetails(page);
+
+    expect(achievements.map(a => [a.displayName, a.unlocked, a.unlockTime])).toEqual([
+        ['Magdalene', true, Math.floor(new Date(2015, 0, 1, 0, 0).getTime() / 1000)],
+        ['Cain', true, Math.floor(new Date(2015, 0, 2, 15, 45).getTime() / 1000)],
+        ['Judas', false, false],
+    ]);
+    expect(achievements[0].iconUrl).toBe('https://steamcdn-a.akamaihd.net/steamcommunity/public/images/apps/250900/a1.jpg');
+});
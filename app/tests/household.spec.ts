@@ -0,0 +1,54 @@
+/*
+    Steam Library Scraper - Household Library Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildHouseholdLibrary, runHouseholdExport } from '../src/household';
+import { writeSnapshot } from '../src/snapshots';
+import { game } from './test-data';
+
+const DAD = [game(620, 'Portal 2', 12.3, { lastPlayed: 1700000000 }), game(220, 'Half-Life 2', 4)];
+const KID = [game(620, 'Portal 2', 30.1, { lastPlayed: 1600000000 }), game(105600, 'Terraria', false)];
+
+test('combines owners and playtime per game', () => {
+    expect(buildHouseholdLibrary([{ profile: 'Dad', games: DAD }, { profile: 'Kid', games: KID }])).toEqual([
+        { steamAppID: 220, name: 'Half-Life 2', owners: ['Dad'], totalPlaytimeHours: 4, playtimeByProfile: { Dad: 4 }, lastPlayed: false },
+        { steamAppID: 620, name: 'Portal 2', owners: ['Dad', 'Kid'], totalPlaytimeHours: 42.4, playtimeByProfile: { Dad: 12.3, Kid: 30.1 }, lastPlayed: 1700000000 },
+        { steamAppID: 105600, name: 'Terraria', owners: ['Kid'], totalPlaytimeHours: 0, playtimeByProfile: { Kid: 0 }, lastPlayed: false },
+    ]);
+});
+
+test('exports the latest scrape of every profile', async ({}, testInfo) => {
+    const rawDataDir = testInfo.outputPath('raw_data');
+    const outputDir = testInfo.outputPath('exports');
+    writeSnapshot('plantdad', DAD, rawDataDir);
+    writeSnapshot('76561197960287930', KID, rawDataDir);
+
+    const ok = await runHouseholdExport({
+        profiles: [
+            { name: 'Dad', accountID: 'plantdad', folder: 'Dad' },
+            { name: 'Kid', accountID: '76561197960287930', folder: 'Kid' },
+            { name: 'Guest', accountID: 'never-scraped', folder: 'Guest' },
+        ],
+        rawDataDir,
+        outputDir,
+        quiet: true,
+    });
+    expect(ok).toBe(true);
+
+    const files = fs.readdirSync(outputDir).sort();
+    expect(files.map(f => path.extname(f))).toEqual(['.csv', '.json']);
+
+    const csv = fs.readFileSync(path.join(outputDir, files[0]), 'utf-8').replace(/^\uFEFF/, '').split('\r\n');
+    expect(csv[0]).toBe('name,steamAppID,owners,ownerCount,totalPlaytimeHours,Dad hours,Kid hours,lastPlayed');
+    expect(csv[2]).toBe('Portal 2,620,"Dad, Kid",2,42.4,12.3,30.1,2023-11-14');
+    expect(csv[3]).toBe('Terraria,105600,Kid,1,0,,0,');
+
+    const json = JSON.parse(fs.readFileSync(path.join(outputDir, files[1]), 'utf-8'));
+    expect(json.profiles.map((p: { name: string }) => p.name)).toEqual(['Dad', 'Kid']);
+    expect(json.games).toHaveLength(3);
+});
@@ -0,0 +1,556 @@
+/*
+    Steam Library Scraper - Markdown Conversion Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConversionOptions, runConversion } from '../src/json-to-md';
+import { NOTE_MANIFEST_FILE } from '../src/note-manifest';
+import { loadPriceHistory, PriceHistory } from '../src/price-history';
+import { InjectedFault, MockServer, startAppDetailsServer, startStaticServer } from './mock-server';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+const SNAPSHOT = path.join(FIXTURES, 'conversion', 'snapshot.json');
+const GOLDEN_DIR = path.join(FIXTURES, 'conversion', 'golden');
+// `UPDATE_GOLDEN=1 npm test` rewrites the golden files after an intended template change
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+let store: MockServer;
+let timeZone: string | undefined;
+
+test.beforeAll(async () => {
+    // Release dates are parsed in local time, pin it so the golden files match on every machine
+    timeZone = process.env.TZ;
+    process.env.TZ = 'UTC';
+    store = await startAppDetailsServer(path.join(FIXTURES, 'appdetails'));
+});
+
+test.afterAll(async () => {
+    await store.close();
+    // The other spec files of this worker get the time zone of the machine back
+    if (timeZone === undefined) delete process.env.TZ;
+    else process.env.TZ = timeZone;
+});
+
+test.beforeEach(() => {
+    store.requests.length = 0;
+});
+
+/** Runs the converter against the mock store, with its own settings, cache and output folder. */
+function convert(workDir: string, storeMode: 'default' | 'refresh' | 'offline' = 'default', options: ConversionOptions = {}) {
+    return runConversion({
+        inputFile: SNAPSHOT,
+        outputDir: path.join(workDir, 'notes'),
+        settingsPath: path.join(workDir, 'scraper-settings.json'),
+        templatesDir: path.join(workDir, 'templates'),
+        cachePath: path.join(workDir, 'cache', 'appdetails.json'),
+        priceHistoryDir: path.join(workDir, 'price_history'),
+        playHistoryDir: path.join(workDir, 'play_history'),
+        storeBaseUrl: store.url,
+        storeMode,
+        storeRequests: { intervalMs: 0, backoffMs: 10 },
+        quiet: true,
+        ...options,
+    });
+}
+
+/** Every file in the folder and its subfolders, by path (Developers/Valve.md) */
+const readNotes = (dir: string): Record<string, string> => Object.fromEntries(
+    ([] as [string, string][]).concat(...fs.readdirSync(dir).sort().map((file): [string, string][] => fs.statSync(path.join(dir, file)).isDirectory()
+        ? Object.entries(readNotes(path.join(dir, file))).map(([name, content]): [string, string] => [`${file}/${name}`, content])
+        : [[file, fs.readFileSync(path.join(dir, file), 'utf-8')]])),
+);
+
+test('generates the notes of the golden files', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    expect(await convert(workDir)).toBe(true);
+
+    const notes = readNotes(path.join(workDir, 'notes'));
+    if (UPDATE_GOLDEN) {
+        fs.rmSync(GOLDEN_DIR, { recursive: true, force: true });
+        fs.mkdirSync(GOLDEN_DIR, { recursive: true });
+        for (const [file, content] of Object.entries(notes)) {
+            fs.mkdirSync(path.dirname(path.join(GOLDEN_DIR, file)), { recursive: true });
+            fs.writeFileSync(path.join(GOLDEN_DIR, file), content, 'utf-8');
+        }
+    }
+
+    expect(notes).toEqual(readNotes(GOLDEN_DIR));
+    // Several requests go out at once, so they may arrive in any order
+    expect(store.requests.map(r => r.searchParams.get('appids')).sort()).toEqual(['220', '250900', '99999']);
+});
+
+test('uses the store cache on the next run and works offline', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    await convert(workDir);
+    expect(store.requests).toHaveLength(3);
+
+    // Everything is cached now, the delisted game included, so later runs never ask the store again
+    fs.rmSync(path.join(workDir, 'notes'), { recursive: true });
+    expect(await convert(workDir)).toBe(true);
+    expect(await convert(workDir, 'offline')).toBe(true);
+    expect(store.requests).toHaveLength(3);
+    expect(readNotes(path.join(workDir, 'notes'))).toEqual(readNotes(GOLDEN_DIR));
+
+    // A refresh fetches the store data of existing notes too, and merges it into them
+    expect(await convert(workDir, 'refresh')).toBe(true);
+    expect(store.requests).toHaveLength(6);
+    expect(readNotes(path.join(workDir, 'notes'))).toEqual(readNotes(GOLDEN_DIR));
+});
+
+const writeSettings = (workDir: string, settings: object) => {
+    fs.mkdirSync(workDir, { recursive: true });
+    fs.writeFileSync(path.join(workDir, 'scraper-settings.json'), JSON.stringify(settings));
+};
+
+test('a custom template from the settings is used', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    writeSettings(workDir, {
+        markdownTemplate: '# {{ game.name }}\n{{ storeData.developers | join | default: "Unknown" }} ({{ playtime }}h)\n',
+    });
+
+    await convert(workDir);
+    const notes = readNotes(path.join(workDir, 'notes'));
+
+    expect(notes['Half-Life 2.md']).toBe('# Half-Life 2\nValve (0h)\n');
+    // File names lose the characters Windows doesn't allow
+    expect(notes['Delisted The Game.md']).toBe('# Delisted: The Game?\nUnknown (1.5h)\n');
+});
+
+test('a broken template stops the conversion before anything is written', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    writeSettings(workDir, { markdownTemplate: '# {{ game.name }}\n{{ gam.name | jion }}\n' });
+
+    expect(await convert(workDir)).toBe(false);
+    expect(fs.existsSync(path.join(workDir, 'notes'))).toBe(false);
+    expect(store.requests).toHaveLength(0);
+});
+
+test('old JavaScript templates are replaced by the default template', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    writeSettings(workDir, { markdownTemplate: '# ${game.name} ${process.exit(1)}' });
+
+    expect(await convert(workDir)).toBe(true);
+    expect(readNotes(path.join(workDir, 'notes'))).toEqual(readNotes(GOLDEN_DIR));
+});
+
+test('templates come from the templates folder and file names from the settings', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    const templatesDir = path.join(workDir, 'templates');
+    fs.mkdirSync(templatesDir, { recursive: true });
+    fs.writeFileSync(path.join(templatesDir, 'game.md'), '# {{ game.name }}\r\n{{ storeData.developers | wikilink | join }}\r\n');
+    fs.writeFileSync(path.join(templatesDir, 'genre.md'), '# {{ name }}\n{% for game in games %}{{ game.link }} {% endfor %}\n');
+    // The settings template is only used when there is no file
+    writeSettings(workDir, {
+        markdownTemplate: 'Not used\n',
+        fileNames: { game: '{{ game.steamAppID }} - {{ game.name }}', genre: 'Genre {{ name }}', wishlist: '{{ itme.name }}' },
+    });
+
+    expect(await convert(workDir)).toBe(true);
+    const notes = readNotes(path.join(workDir, 'notes'));
+    expect(notes['220 - Half-Life 2.md']).toBe('# Half-Life 2\n[[Valve]]\n');
+    expect(notes['99999 - Delisted The Game.md']).toBe('# Delisted: The Game?\n\n');
+    expect(notes['Genres/Genre Action.md']).toBe('# Action\n[[220 - Half-Life 2|Half-Life 2]] [[250900 - The Binding of Isaac Rebirth|The Binding of Isaac: Rebirth]] \n');
+    expect(notes['Developers/Valve.md']).toBe(fs.readFileSync(path.join(GOLDEN_DIR, 'Developers', 'Valve.md'), 'utf-8').replace(/\[\[Half-Life 2\]\]/g, '[[220 - Half-Life 2|Half-Life 2]]'));
+    expect(notes['Library Index.md']).toContain('## [[Genre Indie|Indie]] (1)\n- [[250900 - The Binding of Isaac Rebirth|The Binding of Isaac: Rebirth]]\n');
+    expect(notes['Library Stats.md']).toContain('1. [[250900 - The Binding of Isaac Rebirth|The Binding of Isaac: Rebirth]]: 1003.9 hours\n');
+
+    // Your own notes on a developer are kept, only its games are updated
+    const valvePath = path.join(workDir, 'notes', 'Developers', 'Valve.md');
+    fs.writeFileSync(valvePath, notes['Developers/Valve.md'].replace('games: 1', 'games: 7') + '\n# Thoughts\nMakes great games.\n');
+    expect(await convert(workDir)).toBe(true);
+    expect(fs.readFileSync(valvePath, 'utf-8')).toBe(notes['Developers/Valve.md'] + '\n# Thoughts\nMakes great games.\n');
+
+    // A broken template file stops the conversion, naming the file
+    fs.writeFileSync(path.join(templatesDir, 'index.md'), '{{ game.name }}\n');
+    expect(await convert(workDir)).toBe(false);
+});
+
+test('game notes link to the developer, publisher and genre notes by the names from the settings', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    writeSettings(workDir, { fileNames: { developer: 'Dev {{ name }}', publisher: 'Pub {{ name }}', genre: 'Genre {{ name }}' } });
+
+    expect(await convert(workDir)).toBe(true);
+    const notes = readNotes(path.join(workDir, 'notes'));
+    const isaac = notes['The Binding of Isaac Rebirth.md'];
+    // Nicalis also develops, so its publisher link goes to its developer note
+    expect(isaac).toContain('developers:\n  - "[[Dev Nicalis, Inc|Nicalis, Inc.]]"\n  - "[[Dev Edmund McMillen|Edmund McMillen]]"\n');
+    expect(isaac).toContain('publishers:\n  - "[[Dev Nicalis, Inc|Nicalis, Inc.]]"\n');
+    expect(isaac).toContain('genres:\n  - "[[Genre Action|Action]]"\n  - "[[Genre Indie|Indie]]"\n');
+
+    const files = new Set(Object.keys(notes).map(file => path.basename(file, '.md')));
+    const links = (isaac.match(/\[\[[^|\]]+/g) || []).map(link => link.slice(2));
+    expect(links.filter(link => !files.has(link))).toEqual([]);
+});
+
+test('developer, publisher and genre notes can be turned off', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    writeSettings(workDir, { entityNotes: false });
+
+    expect(await convert(workDir)).toBe(true);
+    const notes = readNotes(path.join(workDir, 'notes'));
+    expect(Object.keys(notes).filter(file => file.includes('/'))).toEqual([]);
+    expect(notes['Library Index.md']).toBe(fs.readFileSync(path.join(GOLDEN_DIR, 'Library Index.md'), 'utf-8'));
+});
+
+test('existing notes only get their stats updated', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    await convert(workDir);
+
+    const notePath = path.join(workDir, 'notes', 'Delisted The Game.md');
+    const edited = fs.readFileSync(notePath, 'utf-8')
+        .replace('personalRating: 0', 'personalRating: 5')
+        + '\n# My Thoughts\nStill fun.\n';
+    fs.writeFileSync(notePath, edited);
+
+    // A newer scrape with more playtime
+    const snapshot = JSON.parse(fs.readFileSync(SNAPSHOT, 'utf-8'));
+    snapshot.games[2].playtime = 4;
+    const newerSnapshot = path.join(workDir, 'newer.json');
+    fs.writeFileSync(newerSnapshot, JSON.stringify(snapshot));
+
+    expect(await convert(workDir, 'default', { inputFile: newerSnapshot })).toBe(true);
+    expect(fs.readFileSync(notePath, 'utf-8')).toBe(edited
+        .replace('playtimeHours: 1.5', 'playtimeHours: 4')
+        .replace('status/backlog', 'status/playing')
+        .replace('**Status**: Backlog', '**Status**: Playing')
+        .replace('90 minutes and 0 seconds (1.5 hours)', '240 minutes and 0 seconds (4 hours)'));
+    // Merged notes never wait for the store
+    expect(store.requests).toHaveLength(3);
+
+    expect(await convert(workDir, 'default', { updateMode: 'overwrite' })).toBe(true);
+    expect(readNotes(path.join(workDir, 'notes'))).toEqual(readNotes(GOLDEN_DIR));
+});
+
+test('game notes show the play history of all scrapes of the account', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    const rawDir = path.join(workDir, 'raw_data');
+    fs.mkdirSync(rawDir, { recursive: true });
+    const snapshot = JSON.parse(fs.readFileSync(SNAPSHOT, 'utf-8'));
+    fs.writeFileSync(path.join(rawDir, 'SteamScrape_plantdad_2025-06-02 0400.json'), JSON.stringify(snapshot));
+
+    // Played on Thursday, and Steam corrected the playtime of another game
+    snapshot.games[2].playtime = 4;
+    snapshot.games[2].lastPlayed = new Date(2025, 5, 5, 20).getTime() / 1000;
+    snapshot.games[0].playtime = 1000;
+    const latest = path.join(rawDir, 'SteamScrape_plantdad_2025-06-08 0400.json');
+    fs.writeFileSync(latest, JSON.stringify(snapshot));
+    // A later scrape doesn't count for this one
+    fs.writeFileSync(path.join(rawDir, 'SteamScrape_plantdad_2025-06-09 0400.json'), '{ broken');
+
+    expect(await convert(workDir, 'offline', { inputFile: latest })).toBe(true);
+    const notes = readNotes(path.join(workDir, 'notes'));
+    expect(notes['Delisted The Game.md']).toContain('\n# Play History\n2.5 hours played since 2025-06-02.\n\n'
+        + '| Week of | Hours |\n| --- | --- |\n| 2025-06-02 | 2.5 |\n\n');
+    expect(notes['The Binding of Isaac Rebirth.md']).toContain('\n# Play History\nNo playtime recorded between scrapes yet.\n'
+        + '- On 2025-06-08 Steam lowered the playtime from 1003.9 to 1000 hours, it counts on from there.\n\n');
+
+    const heatmap = JSON.parse(fs.readFileSync(path.join(workDir, 'play_history', 'PlayHeatmap_plantdad.json'), 'utf-8'));
+    expect(heatmap).toEqual({
+        accountID: 'plantdad', from: '2025-06-02', to: '2025-06-08', maxHours: 2.5,
+        days: [{ date: '2025-06-05', hours: 2.5, games: [{ steamAppID: 99999, name: 'Delisted: The Game?', hours: 2.5 }] }],
+    });
+    const history = JSON.parse(fs.readFileSync(path.join(workDir, 'play_history', 'PlayHistory_plantdad.json'), 'utf-8'));
+    expect(history.games.map((g: { steamAppID: number }) => g.steamAppID)).toEqual([99999, 220, 250900]);
+});
+
+test('a dry run writes nothing', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    expect(await convert(workDir, 'default', { dryRun: true })).toBe(true);
+    expect(fs.existsSync(path.join(workDir, 'notes'))).toBe(false);
+    expect(fs.existsSync(path.join(workDir, 'cache'))).toBe(false);
+    expect(store.requests).toHaveLength(0);
+
+    await convert(workDir);
+    const notePath = path.join(workDir, 'notes', 'Half-Life 2.md');
+    fs.writeFileSync(notePath, fs.readFileSync(notePath, 'utf-8').replace('playtimeHours: 0', 'playtimeHours: 9'));
+    const before = readNotes(path.join(workDir, 'notes'));
+
+    expect(await convert(workDir, 'default', { dryRun: true })).toBe(true);
+    expect(readNotes(path.join(workDir, 'notes'))).toEqual(before);
+});
+
+test('only the given games are converted, the stats and index still cover all of them', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    await convert(workDir);
+    const notePath = path.join(workDir, 'notes', 'Half-Life 2.md');
+    const edited = fs.readFileSync(notePath, 'utf-8').replace('playtimeHours: 0', 'playtimeHours: 9');
+    fs.writeFileSync(notePath, edited);
+
+    expect(await convert(workDir, 'offline', { appIDs: [250900] })).toBe(true);
+    expect(fs.readFileSync(notePath, 'utf-8')).toBe(edited);
+    const notes = readNotes(path.join(workDir, 'notes'));
+    const golden = readNotes(GOLDEN_DIR);
+    expect(notes['Library Stats.md']).toBe(golden['Library Stats.md']);
+    expect(notes['Library Index.md']).toBe(golden['Library Index.md']);
+});
+
+test('renamed games keep their note and notes of games that are gone can be archived', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    const notesDir = path.join(workDir, 'notes');
+    await convert(workDir);
+    fs.appendFileSync(path.join(notesDir, 'Half-Life 2.md'), '\n# My Thoughts\nStill fun.\n');
+
+    // Steam renamed a game, sold you another one of the same name as one you have, and delisted one
+    const snapshot = JSON.parse(fs.readFileSync(SNAPSHOT, 'utf-8'));
+    const [isaac, halfLife] = [250900, 220].map(id => snapshot.games.find((g: { steamAppID: number }) => g.steamAppID === id));
+    halfLife.name = 'Half-Life 2: Remastered';
+    snapshot.games = [isaac, halfLife, { ...isaac, steamAppID: 320, playtime: 0 }];
+    const newerSnapshot = path.join(workDir, 'newer.json');
+    fs.writeFileSync(newerSnapshot, JSON.stringify(snapshot));
+
+    expect(await convert(workDir, 'offline', { inputFile: newerSnapshot })).toBe(true);
+    let notes = readNotes(notesDir);
+    expect(notes['Half-Life 2.md']).toBeUndefined();
+    expect(notes['Half-Life 2 Remastered.md']).toContain('\n# My Thoughts\nStill fun.\n');
+    expect(notes['The Binding of Isaac Rebirth.md']).toContain('\nid: 250900\n');
+    expect(notes['The Binding of Isaac Rebirth (320).md']).toContain('\nid: 320\n');
+    expect(notes['Library Index.md']).toContain('[[Half-Life 2 Remastered|Half-Life 2: Remastered]]');
+    // Only listed until you ask for it to be archived
+    expect(notes['Delisted The Game.md']).toBe(fs.readFileSync(path.join(GOLDEN_DIR, 'Delisted The Game.md'), 'utf-8'));
+
+    expect(await convert(workDir, 'offline', { inputFile: newerSnapshot, archiveOrphans: true })).toBe(true);
+    notes = readNotes(notesDir);
+    expect(notes['Delisted The Game.md']).toBeUndefined();
+    expect(notes['Archive/Delisted The Game.md']).toBe(fs.readFileSync(path.join(GOLDEN_DIR, 'Delisted The Game.md'), 'utf-8'));
+    expect(Object.keys(JSON.parse(notes['.note-manifest.json']).games)).toEqual(['220', '320', '250900']);
+
+    // The same name every run: the game that had the note first keeps it
+    expect(await convert(workDir, 'offline', { inputFile: newerSnapshot })).toBe(true);
+    expect(readNotes(notesDir)).toEqual(notes);
+});
+
+test('status rules from the settings decide the status', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    writeSettings(workDir, {
+        markdownTemplate: '{{ status }}\n',
+        statusRules: [{ status: 'grinding', when: 'playtime > 100' }, { status: 'tried', when: 'playtime > 0' }],
+        defaultStatus: 'unplayed',
+    });
+
+    await convert(workDir);
+    const notes = readNotes(path.join(workDir, 'notes'));
+    expect([notes['The Binding of Isaac Rebirth.md'], notes['Half-Life 2.md'], notes['Delisted The Game.md']]).toEqual(['grinding\n', 'unplayed\n', 'tried\n']);
+    expect(notes['Library Stats.md']).toContain('| grinding | 1 | 1003.9 |');
+
+    writeSettings(workDir, { statusRules: [{ status: 'grinding', when: 'playtime >> 100' }] });
+    expect(await convert(workDir)).toBe(false);
+});
+
+test('a status you picked stays, also one the status rules hand out', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    writeSettings(workDir, { statusRules: [{ status: 'completed', when: 'completionRate == 100' }, { status: 'playing', when: 'playtime > 2' }] });
+    await convert(workDir);
+
+    const notePath = (file: string) => path.join(workDir, 'notes', file);
+    const halfLife = fs.readFileSync(notePath('Half-Life 2.md'), 'utf-8');
+    expect(halfLife).toContain('  - status/backlog\n');
+    fs.writeFileSync(notePath('Half-Life 2.md'), halfLife.replace('  - status/backlog', '  - status/completed'));
+
+    // Both played for a while since
+    const snapshot = JSON.parse(fs.readFileSync(SNAPSHOT, 'utf-8'));
+    snapshot.games[1].playtime = 4;
+    snapshot.games[2].playtime = 4;
+    const newerSnapshot = path.join(workDir, 'newer.json');
+    fs.writeFileSync(newerSnapshot, JSON.stringify(snapshot));
+
+    expect(await convert(workDir, 'default', { inputFile: newerSnapshot })).toBe(true);
+    expect(fs.readFileSync(notePath('Half-Life 2.md'), 'utf-8')).toContain('  - status/completed\n');
+    expect(fs.readFileSync(notePath('Delisted The Game.md'), 'utf-8')).toContain('  - status/playing\n');
+});
+
+test('throttled and failing store requests are retried', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    const attempts: Record<string, number> = {};
+    // Every app is throttled once (asking for a one second pause), Half-Life 2 also fails once after that
+    const flakyStore = await startAppDetailsServer(path.join(FIXTURES, 'appdetails'), (appId): InjectedFault | null => {
+        attempts[appId] = (attempts[appId] || 0) + 1;
+        if (attempts[appId] === 1) return { status: 429, headers: { 'Retry-After': '1' } };
+        if (appId === '220' && attempts[appId] === 2) return { status: 503 };
+        return null;
+    });
+
+    try {
+        const started = Date.now();
+        expect(await convert(workDir, 'default', { storeBaseUrl: flakyStore.url })).toBe(true);
+        expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+        expect(attempts).toEqual({ '250900': 2, '220': 3, '99999': 2 });
+    } finally {
+        await flakyStore.close();
+    }
+
+    expect(readNotes(path.join(workDir, 'notes'))).toEqual(readNotes(GOLDEN_DIR));
+    expect(fs.existsSync(path.join(workDir, 'cache', 'store-failures.json'))).toBe(false);
+});
+
+test('games the store keeps failing for are reported and can be retried later', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    let storeIsDown = true;
+    const brokenStore = await startAppDetailsServer(path.join(FIXTURES, 'appdetails'), appId => storeIsDown && appId === '220' ? { status: 500 } : null);
+
+    try {
+        expect(await convert(workDir, 'default', { storeBaseUrl: brokenStore.url, storeRequests: { intervalMs: 0, backoffMs: 10, maxRetries: 2 } })).toBe(true);
+        // The first attempt and two retries
+        expect(brokenStore.requests.filter(r => r.searchParams.get('appids') === '220')).toHaveLength(3);
+
+        const reportPath = path.join(workDir, 'cache', 'store-failures.json');
+        expect(JSON.parse(fs.readFileSync(reportPath, 'utf-8')).failures).toEqual([
+            { steamAppID: 220, name: 'Half-Life 2', reason: 'Steam store error (HTTP 500)' },
+        ]);
+        expect(fs.readFileSync(path.join(workDir, 'notes', 'Half-Life 2.md'), 'utf-8')).not.toContain('developers:\n  - "[[Valve]]"');
+
+        // A manifest from older versions doesn't say which notes have store data, the report does
+        const manifestPath = path.join(workDir, 'notes', NOTE_MANIFEST_FILE);
+        const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+        expect(manifest.games[220].storeData).toBe(false);
+        delete manifest.games[220].storeData;
+        fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+
+        // Only the failed game is looked up again, its note gets the store data, and the report is gone once it worked
+        storeIsDown = false;
+        brokenStore.requests.length = 0;
+        expect(await convert(workDir, 'default', { storeBaseUrl: brokenStore.url, retryFailed: true })).toBe(true);
+        expect(brokenStore.requests.map(r => r.searchParams.get('appids'))).toEqual(['220']);
+        expect(fs.existsSync(reportPath)).toBe(false);
+        // The manifest was edited above, so its keys may be in another order
+        const { [NOTE_MANIFEST_FILE]: manifestAfter, ...notes } = readNotes(path.join(workDir, 'notes'));
+        const { [NOTE_MANIFEST_FILE]: goldenManifest, ...goldenNotes } = readNotes(GOLDEN_DIR);
+        expect(notes).toEqual(goldenNotes);
+        expect(JSON.parse(manifestAfter)).toEqual(JSON.parse(goldenManifest));
+    } finally {
+        await brokenStore.close();
+    }
+});
+
+test('wishlisted games get notes of their own', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    const wishlistFile = path.join(FIXTURES, 'conversion', 'wishlist.json');
+    expect(await convert(workDir, 'default', { wishlistFile })).toBe(true);
+
+    // Half-Life 2 is owned by now, so it only has its regular note
+    const wishlistDir = path.join(workDir, 'notes', 'Wishlist');
+    expect(fs.readdirSync(wishlistDir).sort()).toEqual(['App 99998.md', 'Hades II.md']);
+    const notePath = path.join(wishlistDir, 'Hades II.md');
+    const note = fs.readFileSync(notePath, 'utf-8');
+    expect(note).toContain('price: "20,65€"\ndiscountPercent: 30\n');
+    expect(note).toContain('  - status/wishlist\n');
+    expect(note).toContain('- **Price**: 20,65€ (30% off 29,50€)\n- **Release**: Coming soon (not released yet)\n');
+    expect(fs.readFileSync(path.join(wishlistDir, 'App 99998.md'), 'utf-8')).toContain('- **Price**: Free or not for sale\n');
+    expect(store.requests.map(r => r.searchParams.get('appids')).sort()).toEqual(['1145350', '220', '250900', '99998', '99999']);
+
+    // The sale is over: merging updates the price and keeps what you wrote
+    const edited = note + '\n# Why I Want It\nThe first one was great.\n';
+    fs.writeFileSync(notePath, edited);
+    const wishlist = JSON.parse(fs.readFileSync(wishlistFile, 'utf-8'));
+    wishlist.items[0].price = { ...wishlist.items[0].price, final: 2950, discountPercent: 0, finalFormatted: '29,50€' };
+    const newerWishlist = path.join(workDir, 'newer-wishlist.json');
+    fs.writeFileSync(newerWishlist, JSON.stringify(wishlist));
+
+    expect(await convert(workDir, 'default', { wishlistFile: newerWishlist })).toBe(true);
+    expect(fs.readFileSync(notePath, 'utf-8')).toBe(edited
+        .replace('price: "20,65€"\ndiscountPercent: 30', 'price: "29,50€"\ndiscountPercent: 0')
+        .replace('20,65€ (30% off 29,50€)', '29,50€'));
+});
+
+test('prices are tracked per app for the store country', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    const historyDir = path.join(workDir, 'price_history');
+    writeSettings(workDir, {
+        storeCountry: 'NL',
+        markdownTemplate: '{{ price.finalFormatted | default: "-" }} (lowest {{ lowestPrice.finalFormatted | default: "-" }} on {{ lowestPrice.date | default: "-" }})\n',
+    });
+    // Hades II was cheaper before, and now costs that again
+    const earlier: PriceHistory = {
+        steamAppID: 1145350, name: 'Hades II', lastChecked: '2025-01-10',
+        points: [
+            { date: '2025-01-01', currency: 'EUR', initial: 2950, final: 2065, discountPercent: 30, finalFormatted: '20,65€' },
+            { date: '2025-01-10', currency: 'EUR', initial: 2950, final: 2950, discountPercent: 0, finalFormatted: '29,50€' },
+        ],
+    };
+    fs.mkdirSync(historyDir, { recursive: true });
+    fs.writeFileSync(path.join(historyDir, '1145350.json'), JSON.stringify(earlier));
+
+    expect(await convert(workDir, 'default', { wishlistFile: path.join(FIXTURES, 'conversion', 'wishlist.json') })).toBe(true);
+    expect(store.requests.every(r => r.searchParams.get('cc') === 'nl')).toBe(true);
+
+    const notes = path.join(workDir, 'notes');
+    const today = loadPriceHistory(220, historyDir)?.lastChecked;
+    expect(fs.readFileSync(path.join(notes, 'Half-Life 2.md'), 'utf-8')).toBe(`1,95€ (lowest 1,95€ on ${today})\n`);
+    expect(fs.readFileSync(path.join(notes, 'Delisted The Game.md'), 'utf-8')).toBe('- (lowest - on -)\n');
+    expect(fs.readFileSync(path.join(notes, 'Wishlist', 'Hades II.md'), 'utf-8')).toContain('- **Lowest price seen**: 20,65€ on 2025-01-01\n');
+
+    const stats = fs.readFileSync(path.join(notes, 'Library Stats.md'), 'utf-8');
+    expect(stats).toContain('- **EUR**: 9.75 at full price, 1.95 with today\'s discounts (1 game)\n');
+    expect(stats).toContain('## Wishlist at Historical Low\n- [[Hades II]]: 20,65€ (30% off)\n');
+
+    // Days later the cached store data is still fresh, so only today's price of the games that have one is asked for
+    fs.writeFileSync(path.join(historyDir, '220.json'), JSON.stringify({ ...loadPriceHistory(220, historyDir), lastChecked: '2025-01-10' }));
+    store.requests.length = 0;
+    expect(await convert(workDir)).toBe(true);
+    expect(store.requests.map(r => [r.searchParams.get('appids'), r.searchParams.get('filters')])).toEqual([['220', 'price_overview']]);
+    expect(loadPriceHistory(220, historyDir)?.lastChecked).toBe(today);
+    // Once a day is enough
+    expect(await convert(workDir)).toBe(true);
+    expect(store.requests).toHaveLength(1);
+
+    // Prices of another country can't be mixed with these, so the store is asked again
+    writeSettings(workDir, { storeCountry: 'US' });
+    expect(await convert(workDir, 'default', { updateMode: 'overwrite' })).toBe(true);
+    expect(store.requests.filter(r => r.searchParams.get('cc') === 'us')).toHaveLength(3);
+});
+
+test('a price that could not be checked is the one of the store data, not free', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    const historyDir = path.join(workDir, 'price_history');
+    writeSettings(workDir, { markdownTemplate: '{{ price.finalFormatted | default: "free" }}\n' });
+    expect(await convert(workDir)).toBe(true);
+
+    // Days later the price is checked again, but the store keeps failing
+    const pricesDown = await startAppDetailsServer(path.join(FIXTURES, 'appdetails'), () => ({ status: 500 }));
+    try {
+        fs.writeFileSync(path.join(historyDir, '220.json'), JSON.stringify({ ...loadPriceHistory(220, historyDir), lastChecked: '2025-01-10' }));
+        expect(await convert(workDir, 'default', { storeBaseUrl: pricesDown.url, updateMode: 'overwrite' })).toBe(true);
+        expect(pricesDown.requests.map(r => r.searchParams.get('filters'))).toContain('price_overview');
+    } finally {
+        await pricesDown.close();
+    }
+    expect(fs.readFileSync(path.join(workDir, 'notes', 'Half-Life 2.md'), 'utf-8')).toBe('1,95€\n');
+    expect(loadPriceHistory(220, historyDir)?.lastChecked).toBe('2025-01-10');
+});
+
+test('covers and screenshots can be downloaded next to the notes', async ({}, testInfo) => {
+    const workDir = testInfo.outputPath();
+    // A store whose images are served by a local "CDN", one screenshot is gone
+    const cdnDir = path.join(workDir, 'cdn');
+    fs.mkdirSync(cdnDir, { recursive: true });
+    fs.writeFileSync(path.join(cdnDir, 'header.jpg'), 'cover');
+    fs.writeFileSync(path.join(cdnDir, 'ss_1.jpg'), 'screenshot');
+    const cdn = await startStaticServer(cdnDir);
+    const appDetailsDir = path.join(workDir, 'appdetails');
+    fs.mkdirSync(appDetailsDir);
+    fs.writeFileSync(path.join(appDetailsDir, '220.json'), JSON.stringify({
+        ...JSON.parse(fs.readFileSync(path.join(FIXTURES, 'appdetails', '220.json'), 'utf-8')),
+        header_image: `${cdn.url}/header.jpg?t=123`,
+        screenshots: ['ss_1.jpg', 'ss_2.jpg', 'ss_3.jpg'].map((file, id) => ({ id, path_thumbnail: '', path_full: `${cdn.url}/${file}` })),
+    }));
+    const imageStore = await startAppDetailsServer(appDetailsDir);
+    writeSettings(workDir, { images: { download: true, folder: 'Media', screenshots: 2 } });
+
+    try {
+        expect(await convert(workDir, 'default', { storeBaseUrl: imageStore.url })).toBe(true);
+    } finally {
+        await imageStore.close();
+        await cdn.close();
+    }
+
+    const media = path.join(workDir, 'notes', 'Media');
+    expect(fs.readdirSync(media).sort()).toEqual(['220_header.jpg', '220_screenshot_1.jpg']);
+    expect(fs.readFileSync(path.join(media, '220_header.jpg'), 'utf-8')).toBe('cover');
+    const note = fs.readFileSync(path.join(workDir, 'notes', 'Half-Life 2.md'), 'utf-8');
+    expect(note).toContain('image: 220_header.jpg\n---\n![Cover](220_header.jpg)\n');
+    // Only two screenshots, the missing one keeps its URL
+    expect(note).toContain(`# Screenshots\n![Screenshot 1](220_screenshot_1.jpg)\n![Screenshot 2](${cdn.url}/ss_2.jpg)\n\n`);
+});
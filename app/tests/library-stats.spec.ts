@@ -0,0 +1,78 @@
+/*
+    Steam Library Scraper - Library Statistics Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import { ExportRecord } from '../src/exporter';
+import { computeLibraryStats } from '../src/library-stats';
+import { SteamStoreData } from '../src/steam-store';
+import { game } from './test-data';
+
+const record = (name: string, playtime: number | false, store: Partial<SteamStoreData> | null, achievements = [0, 0]): ExportRecord => ({
+    game: game(name.length, name, playtime, { myAchievements: achievements[0], totalAchievements: achievements[1] }),
+    storeData: store ? { name, steam_appid: name.length, ...store } : null,
+    status: playtime ? 'playing' : 'backlog',
+});
+
+const RECORDS = [
+    record('Portal 2', 12, {
+        genres: [{ id: '1', description: 'Puzzle' }, { id: '2', description: 'Action' }],
+        developers: ['Valve'],
+        release_date: { coming_soon: false, date: '18 Apr, 2011' },
+        platforms: { windows: true, mac: true, linux: true },
+    }, [51, 51]),
+    record('Half-Life', 3, {
+        genres: [{ id: '2', description: 'Action' }],
+        developers: ['Valve'],
+        release_date: { coming_soon: false, date: 'Nov 8, 1998' },
+        platforms: { windows: true, mac: false, linux: false },
+    }, [10, 40]),
+    record('Unplayed', false, { release_date: { coming_soon: true, date: 'Q3 2026' } }),
+    record('Delisted', 1, null),
+];
+
+test('summarizes the library', () => {
+    const stats = computeLibraryStats(RECORDS, 'test.json');
+
+    expect(stats).toMatchObject({
+        games: 4,
+        playedGames: 3,
+        neverPlayedGames: 1,
+        neverPlayedPercent: 25,
+        totalPlaytimeHours: 16,
+        medianPlaytimeHours: 3,
+        achievements: { gamesWithAchievements: 2, unlocked: 61, total: 91, completionPercent: 67, perfectGames: 1 },
+        gamesWithStoreData: 3,
+        platforms: { windows: 2, mac: 1, linux: 1 },
+    });
+    expect(stats.topPlayed.map(g => g.name)).toEqual(['Portal 2', 'Half-Life', 'Delisted']);
+    expect(stats.statuses).toEqual([{ name: 'playing', games: 3, playtimeHours: 16 }, { name: 'backlog', games: 1, playtimeHours: 0 }]);
+});
+
+test('groups playtime by genre, developer and release year', () => {
+    const stats = computeLibraryStats(RECORDS, 'test.json');
+
+    expect(stats.byGenre).toEqual([{ name: 'Action', games: 2, playtimeHours: 15 }, { name: 'Puzzle', games: 1, playtimeHours: 12 }]);
+    expect(stats.byDeveloper).toEqual([{ name: 'Valve', games: 2, playtimeHours: 15 }]);
+    expect(stats.byReleaseYear.map(y => [y.name, y.games])).toEqual([['1998', 1], ['2011', 1], ['2026', 1]]);
+});
+
+test('adds up what the games cost today', () => {
+    const price = (initial: number, final: number) => ({
+        currency: 'EUR', initial, final, discount_percent: 0, initial_formatted: '', final_formatted: '',
+    });
+    const stats = computeLibraryStats([
+        ...RECORDS,
+        record('Portal', 2, { price_overview: price(999, 249) }),
+        record('Half-Life 3', 0, { price_overview: price(5999, 5999) }),
+        record('Dota 2', 100, { is_free: true }),
+    ], 'test.json');
+
+    expect(stats.value).toEqual({
+        currencies: [{ currency: 'EUR', games: 2, fullPrice: 6998, currentPrice: 6248 }],
+        freeGames: 1,
+        gamesWithoutPrice: 4,
+    });
+});
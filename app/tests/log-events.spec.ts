@@ -0,0 +1,45 @@
+/*
+    Steam Library Scraper - Log Event Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import { createLogEventWriter, formatLogEvent, LogEvent, logEvent } from '../src/log-events';
+
+const withoutTime = (events: LogEvent[]) => events.map(({ time, ...event }) => event);
+
+test('scraper output becomes progress and warning events', () => {
+    const events: LogEvent[] = [];
+    const writer = createLogEventWriter(event => events.push(event));
+
+    // Chunks don't end at line ends, and progress counters reuse their line
+    writer.write('Navigating...\n\nFound 2 ga');
+    writer.write('mes.\n\nWARNING: 1 values could not be read and were left empty:\n');
+    writer.write('  - Portal 2 (620): playtime = "12,3 Std."\n');
+    writer.write('Collecting achievement details for 2 games...\n\r[1/2] Portal 2   \r[2/2] Half-Life 2\n');
+    writer.write(formatLogEvent(logEvent('snapshot', 'Saved 2 games', { path: 'raw_data/SteamScrape.json' })));
+    writer.write('You can close this window...');
+    writer.flush();
+
+    expect(withoutTime(events)).toEqual([
+        { type: 'progress', message: 'Navigating...' },
+        { type: 'progress', message: 'Found 2 games.' },
+        { type: 'warning', message: '1 values could not be read and were left empty:', details: ['- Portal 2 (620): playtime = "12,3 Std."'] },
+        { type: 'progress', message: 'Collecting achievement details for 2 games...' },
+        { type: 'progress', message: '[1/2] Portal 2' },
+        { type: 'progress', message: '[2/2] Half-Life 2' },
+        { type: 'snapshot', message: 'Saved 2 games', path: 'raw_data/SteamScrape.json' },
+        { type: 'progress', message: 'You can close this window...' },
+    ]);
+    expect(events.every(e => !isNaN(Date.parse(e.time)))).toBe(true);
+});
+
+test('console.error output becomes warnings', () => {
+    const events: LogEvent[] = [];
+    const writer = createLogEventWriter(event => events.push(event), true);
+    writer.write('\nCould not read achievements of Portal 2: Timed out\n');
+    writer.flush();
+
+    expect(withoutTime(events)).toEqual([{ type: 'warning', message: 'Could not read achievements of Portal 2: Timed out' }]);
+});
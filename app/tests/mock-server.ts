@@ -0,0 +1,96 @@
+/*
+    Steam Library Scraper - Local Mock Servers for Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+export interface MockServer {
+    // e.g. http://127.0.0.1:54321, without a trailing slash
+    url: string;
+    // Every request the server received, in order
+    requests: URL[];
+    close(): Promise<void>;
+}
+
+type Handler = (url: URL, send: (status: number, body: string, contentType?: string, headers?: Record<string, string>) => void) => void;
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.json': 'application/json',
+};
+
+/** Starts an HTTP server on a free localhost port. */
+export async function startMockServer(handler: Handler): Promise<MockServer> {
+    const requests: URL[] = [];
+    const server = http.createServer((req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        requests.push(url);
+        handler(url, (status, body, contentType = 'application/json', headers = {}) => {
+            res.writeHead(status, { ...headers, 'Content-Type': contentType });
+            res.end(body);
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        requests,
+        close: () => new Promise<void>(resolve => server.close(() => resolve())),
+    };
+}
+
+/** Serves the files of a fixture folder, like a saved copy of a website. */
+export function startStaticServer(dir: string): Promise<MockServer> {
+    return startMockServer((url, send) => {
+        const filePath = path.join(dir, path.normalize(decodeURIComponent(url.pathname)).replace(/^([/\\])+/, ''));
+        if (!filePath.startsWith(dir) || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+            return send(404, 'Not found', 'text/plain');
+        }
+        send(200, fs.readFileSync(filePath, 'utf-8'), CONTENT_TYPES[path.extname(filePath)] || 'text/plain');
+    });
+}
+
+/** An error the store answers with instead of the app's details, e.g. { status: 429, headers: { 'Retry-After': '1' } } */
+export interface InjectedFault {
+    status: number;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Answers like store.steampowered.com/api/appdetails, with tests/fixtures/appdetails/<appid>.json.
+ * Apps without a fixture get Steam's answer for delisted apps. With filters=price_overview several apps
+ * can be asked for at once, like Steam allows for prices.
+ * @param fault Called for every request (with the app IDs as they were asked for), returning a fault makes the store throttle or fail that one
+ */
+export function startAppDetailsServer(dir: string, fault: (appId: string) => InjectedFault | null = () => null): Promise<MockServer> {
+    return startMockServer((url, send) => {
+        const appId = url.searchParams.get('appids') || '';
+        const prices = url.searchParams.get('filters') === 'price_overview';
+        if (url.pathname !== '/api/appdetails' || !(prices ? /^\d+(,\d+)*$/ : /^\d+$/).test(appId)) {
+            return send(400, 'null');
+        }
+
+        const injected = fault(appId);
+        if (injected) return send(injected.status, '', 'text/html', injected.headers);
+
+        const details = (id: string) => {
+            const file = path.join(dir, `${id}.json`);
+            return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : null;
+        };
+        if (prices) {
+            // Free games answer with an empty list as data
+            return send(200, JSON.stringify(Object.fromEntries(appId.split(',').map(id => {
+                const data = details(id);
+                return [id, data ? { success: true, data: data.price_overview ? { price_overview: data.price_overview } : [] } : { success: false }];
+            }))));
+        }
+
+        const data = details(appId);
+        send(200, JSON.stringify({ [appId]: data ? { success: true, data } : { success: false } }));
+    });
+}
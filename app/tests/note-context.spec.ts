@@ -0,0 +1,71 @@
+/*
+    Steam Library Scraper - Note Context Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import { storeContext } from '../src/note-context';
+import { SteamStoreData, toStoreData } from '../src/steam-store';
+
+const store = (data: Partial<SteamStoreData>): SteamStoreData => ({ name: 'Game', steam_appid: 10, ...data });
+
+test('store details become plain values for the templates', () => {
+    const context = storeContext(store({
+        supported_languages: 'English<strong>*</strong>, Simplified Chinese, Portuguese - Brazil<strong>*</strong><br><strong>*</strong>languages with full audio support',
+        pc_requirements: {
+            minimum: '<strong>Minimum:</strong><br><ul class="bb_ul"><li><strong>OS:</strong> Windows 10<br></li><li><strong>Graphics:</strong> GTX 960 &amp; up</li></ul>',
+        },
+        movies: [
+            { id: 1, name: 'Old Trailer', thumbnail: 'thumb1.jpg', mp4: { '480': '480.mp4', max: 'max.mp4' } },
+            { id: 2, name: 'New Trailer', thumbnail: 'thumb2.jpg', hls_h264: 'stream.m3u8' },
+        ],
+        recommendations: { total: 1234 },
+        website: null,
+        screenshots: Array.from({ length: 6 }, (_, id) => ({ id, path_thumbnail: '', path_full: `ss_${id}.jpg` })),
+    }));
+
+    expect(context).toMatchObject({
+        languages: ['English', 'Simplified Chinese', 'Portuguese - Brazil'],
+        audioLanguages: ['English', 'Portuguese - Brazil'],
+        requirements: { minimum: 'Minimum:\nOS: Windows 10\nGraphics: GTX 960 & up', recommended: '' },
+        movies: [{ name: 'Old Trailer', url: 'max.mp4', thumbnail: 'thumb1.jpg' }, { name: 'New Trailer', url: 'stream.m3u8', thumbnail: 'thumb2.jpg' }],
+        dlc: [],
+        recommendations: 1234,
+        website: '',
+        screenshots: ['ss_0.jpg', 'ss_1.jpg', 'ss_2.jpg', 'ss_3.jpg'],
+    });
+});
+
+test('games without a store page get empty values', () => {
+    expect(storeContext(null)).toEqual({
+        releaseDateStr: '', isReleased: false, steamFeatures: [], summary: '', coverImage: '', screenshots: [], movies: [],
+        dlc: [], languages: [], audioLanguages: [], requirements: { minimum: '', recommended: '' }, recommendations: 0, website: '',
+    });
+    // Steam sends an empty list when there are no requirements
+    expect(storeContext(store({ pc_requirements: [] })).requirements).toEqual({ minimum: '', recommended: '' });
+});
+
+test('store data that is not what Steam sends loses those fields before anything reads it', () => {
+    const data = toStoreData({
+        name: 'Game', steam_appid: 10, type: 'game',
+        developers: ['Valve', 42, null],
+        genres: [{ id: '1', description: 'Action' }, { description: 7 }],
+        release_date: { coming_soon: 'no', date: '1 Jan, 2020' },
+        price_overview: { currency: 'EUR', final: '19,99' },
+        screenshots: 'none',
+        movies: [{ id: 1, name: 'Trailer', thumbnail: 'thumb.jpg', mp4: { max: 5 } }],
+        pc_requirements: [],
+        website: null,
+    });
+
+    expect(data).toEqual({
+        name: 'Game', steam_appid: 10, type: 'game', developers: ['Valve'], genres: [{ id: '1', description: 'Action' }],
+        movies: [], pc_requirements: [], website: null,
+    });
+    expect(storeContext(data)).toMatchObject({ releaseDateStr: '', isReleased: false, screenshots: [] });
+    // Without a name or app ID there is nothing to write a note with
+    expect(toStoreData({ steam_appid: 10 })).toBeNull();
+    expect(toStoreData({ name: 'Game', steam_appid: '10' })).toBeNull();
+    expect(toStoreData([])).toBeNull();
+});
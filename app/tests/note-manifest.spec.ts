@@ -0,0 +1,68 @@
+/*
+    Steam Library Scraper - Note Manifest Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { archiveOrphan, findOrphans, NoteManifest, NoteRequest, planNotes } from '../src/note-manifest';
+import { sanitizeFilename } from '../src/note-files';
+
+const request = (steamAppID: number, name: string): NoteRequest => ({ steamAppID, name, fileName: sanitizeFilename(name) });
+
+test('notes are placed by app ID, with the app ID added when two games share a name', ({}, testInfo) => {
+    const outputDir = testInfo.outputPath();
+    const manifest: NoteManifest = { games: {}, wishlist: {} };
+
+    // The order of the scrape doesn't matter, the lowest app ID gets the plain name
+    const first = planNotes(manifest, 'games', [request(500, 'Portal'), request(400, 'Portal'), request(620, 'Portal 2')], '', outputDir);
+    expect([...first.paths.entries()].sort()).toEqual([[400, 'Portal.md'], [500, 'Portal (500).md'], [620, 'Portal 2.md']]);
+    expect(first.renames).toEqual([]);
+
+    // Steam renamed one: it moves, the others stay where they are
+    const second = planNotes(manifest, 'games', [request(400, 'Portal: Still Alive'), request(500, 'Portal'), request(620, 'Portal 2')], '', outputDir);
+    expect(second.paths.get(500)).toBe('Portal (500).md');
+    expect(second.renames).toEqual([{ steamAppID: 400, from: 'Portal.md', to: 'Portal Still Alive.md' }]);
+    expect(manifest.games[400]).toEqual({ path: 'Portal Still Alive.md', name: 'Portal: Still Alive' });
+
+    // A note written before there was a manifest is used, a name another game's note has is not
+    fs.mkdirSync(path.join(outputDir, 'Wishlist'), { recursive: true });
+    fs.writeFileSync(path.join(outputDir, 'Wishlist', 'Hades II.md'), '');
+    const wishlist = planNotes(manifest, 'wishlist', [request(1145350, 'Hades II')], 'Wishlist', outputDir);
+    expect(wishlist.paths.get(1145350)).toBe('Wishlist/Hades II.md');
+    manifest.games[220] = { path: 'Half-Life.md', name: 'Half-Life' };
+    const taken = planNotes(manifest, 'games', [request(70, 'Half-Life'), request(220, 'Half-Life 2')], '', outputDir);
+    expect(taken.paths.get(70)).toBe('Half-Life (70).md');
+});
+
+test('file names Windows refuses are changed', () => {
+    expect(sanitizeFilename('S.T.A.L.K.E.R.')).toBe('S.T.A.L.K.E.R');
+    expect(sanitizeFilename(' ...Hidden ')).toBe('Hidden');
+    expect(sanitizeFilename('CON')).toBe('CON_');
+    expect(sanitizeFilename('aux.txt')).toBe('aux_.txt');
+    expect(sanitizeFilename('Console')).toBe('Console');
+    expect(sanitizeFilename('Tab\tName: <1>')).toBe('TabName 1');
+});
+
+test('notes of games that are gone are found and archived', ({}, testInfo) => {
+    const outputDir = testInfo.outputPath();
+    const manifest: NoteManifest = {
+        games: { 400: { path: 'Portal.md', name: 'Portal' }, 70: { path: 'Half-Life.md', name: 'Half-Life' }, 620: { path: 'Portal 2.md', name: 'Portal 2' } },
+        wishlist: {},
+    };
+    fs.mkdirSync(path.join(outputDir, 'Archive'), { recursive: true });
+    for (const file of ['Portal.md', 'Half-Life.md', 'Archive/Portal.md']) fs.writeFileSync(path.join(outputDir, file), file);
+
+    // Portal 2's note was deleted by hand, it is forgotten
+    const orphans = findOrphans(manifest, 'games', new Set([70]), outputDir);
+    expect(orphans.map(o => o.steamAppID)).toEqual([400]);
+    expect(Object.keys(manifest.games)).toEqual(['70', '400']);
+
+    // An older Portal is in the archive already
+    expect(archiveOrphan(outputDir, manifest, orphans[0])).toBe('Archive/Portal (400).md');
+    expect(fs.readFileSync(path.join(outputDir, 'Archive', 'Portal (400).md'), 'utf-8')).toBe('Portal.md');
+    expect(fs.existsSync(path.join(outputDir, 'Portal.md'))).toBe(false);
+    expect(Object.keys(manifest.games)).toEqual(['70']);
+});
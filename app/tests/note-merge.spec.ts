@@ -0,0 +1,116 @@
+/*
+    Steam Library Scraper - Note Merging Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import { combineParts, describeChange, GAME_NOTE_PARTS, GAME_STORE_PARTS, mergeNote, PREAMBLE_PARTS } from '../src/note-merge';
+
+const note = (fields: { playtime: number; status: string; extra?: string }) => `---
+title: "[[Portal 2]]"
+playtimeHours: ${fields.playtime}
+completionRate: 50%
+personalRating: 0
+tags:
+  - steamgame
+  - ${fields.status}
+---
+# 📊 My Stats
+- **Playtime**: ${fields.playtime} hours
+
+# Links
+- [Steam Store](https://store.steampowered.com/app/620)
+${fields.extra || ""}`;
+
+test('updates the stats and keeps everything the user wrote', () => {
+    const existing = note({ playtime: 10.5, status: 'status/backlog' })
+        .replace('personalRating: 0', 'personalRating: 4\nfavorite: true')
+        .replace('  - steamgame', '  - steamgame\n  - coop')
+        + '\n## My Thoughts\nGreat puzzles.\n';
+    const generated = note({ playtime: 12, status: 'status/playing' });
+
+    const { content, changes } = mergeNote(existing, generated);
+
+    expect(changes.map(describeChange)).toEqual([
+        'playtimeHours: 10.5 -> 12',
+        'tag: status/backlog -> status/playing',
+        'section "📊 My Stats" updated',
+    ]);
+    expect(content).toBe(existing
+        .replace('playtimeHours: 10.5', 'playtimeHours: 12')
+        .replace('status/backlog', 'status/playing')
+        .replace('**Playtime**: 10.5 hours', '**Playtime**: 12 hours'));
+});
+
+test('a status the user picked is not replaced', () => {
+    const existing = note({ playtime: 30, status: 'status/completed' });
+    const { content, changes } = mergeNote(existing, note({ playtime: 30, status: 'status/playing' }));
+
+    expect(changes).toEqual([]);
+    expect(content).toBe(existing);
+});
+
+test('statuses from the status rules are replaced too', () => {
+    const existing = note({ playtime: 1, status: 'status/abandoned' });
+    const generated = note({ playtime: 1, status: 'status/playing' });
+
+    expect(mergeNote(existing, generated).changes).toEqual([]);
+    expect(mergeNote(existing, generated, ['playing', 'abandoned']).content).toBe(generated);
+});
+
+test('adds missing sections after the stats and keeps Windows line endings', () => {
+    const existing = note({ playtime: 1, status: 'status/playing' }).replace(/\n/g, '\r\n');
+    const generated = note({ playtime: 1, status: 'status/playing' })
+        .replace('# Links', '# 🏆 Achievements\n- [x] Wake Up Call\n\n# Links');
+
+    const { content, changes } = mergeNote(existing, generated);
+
+    expect(changes.map(describeChange)).toEqual(['section "🏆 Achievements" added']);
+    expect(content).toBe(generated.replace(/\n/g, '\r\n'));
+});
+
+test('achievements already in the note stay when the scrape has none', () => {
+    const existing = note({ playtime: 1, status: 'status/playing' })
+        .replace('# Links', '# 🏆 Achievements\n- [x] Wake Up Call\n\n# Links');
+
+    expect(mergeNote(existing, note({ playtime: 1, status: 'status/playing' })).changes).toEqual([]);
+});
+
+test('the store parts are filled in when a note was written without store data', () => {
+    const withoutStore = (text: string) => text
+        .replace('completionRate', 'developers:\ncompletionRate')
+        .replace('---\n# 📊', '---\n![Cover]()\n\n# 📊');
+    const existing = withoutStore(note({ playtime: 1, status: 'status/playing' })) + '\n# My Thoughts\nGreat puzzles.\n';
+    const generated = note({ playtime: 1, status: 'status/playing' })
+        .replace('completionRate', 'developers:\n  - "[[Valve]]"\ncompletionRate')
+        .replace('---\n# 📊', '---\n![Cover](https://example.com/header.jpg)\n\n# 📊')
+        .replace('# Links', '# Game Info\n- **Languages**: English\n\n# Links');
+
+    // Only the stats without the store parts
+    expect(mergeNote(existing, generated).changes.map(describeChange)).toEqual([]);
+
+    const owned = combineParts(combineParts(GAME_NOTE_PARTS, GAME_STORE_PARTS), PREAMBLE_PARTS);
+    const { content, changes } = mergeNote(existing, generated, undefined, owned);
+    expect(changes.map(describeChange)).toEqual([
+        'developers: (none) -> - "[[Valve]]"',
+        'section "text before the first heading" updated',
+        'section "Game Info" added',
+    ]);
+    // In the place the template gives it, and your own sections stay
+    expect(content).toBe(generated + '\n# My Thoughts\nGreat puzzles.\n');
+});
+
+test('what you wrote before the first heading stays when the store data is fetched again', () => {
+    const withStore = (text: string, cover: string) => text
+        .replace('completionRate', 'developers:\n  - "[[Valve]]"\ncompletionRate')
+        .replace('---\n# 📊', `---\n![Cover](${cover})\n\n# 📊`);
+    const existing = withStore(note({ playtime: 1, status: 'status/playing' }), 'https://example.com/header.jpg')
+        .replace('---\n![Cover]', '---\nFinish this one before the sequel.\n\n![Cover]');
+    const generated = withStore(note({ playtime: 1, status: 'status/playing' }), 'https://example.com/new_header.jpg')
+        .replace('[[Valve]]', '[[Valve Software]]');
+
+    const { content, changes } = mergeNote(existing, generated, undefined, combineParts(GAME_NOTE_PARTS, GAME_STORE_PARTS));
+    expect(changes.map(describeChange)).toEqual(['developers: - "[[Valve]]" -> - "[[Valve Software]]"']);
+    expect(content).toBe(existing.replace('[[Valve]]', '[[Valve Software]]'));
+});
@@ -0,0 +1,47 @@
+/*
+    Steam Library Scraper - Note Template Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import { ExportRecord } from '../src/exporter';
+import { SteamStoreData } from '../src/steam-store';
+import { buildEntityNotes, createNoteNamer, DEFAULT_FILE_NAMES, readFileNameSettings } from '../src/note-templates';
+import { game } from './test-data';
+
+const record = (steamAppID: number, name: string, playtime: number, store: Partial<SteamStoreData> | null): ExportRecord => ({
+    game: game(steamAppID, name, playtime),
+    storeData: store as SteamStoreData | null,
+    status: playtime > 0 ? 'playing' : 'backlog',
+});
+
+test('a company that develops and publishes gets one note, publishers of others their own', () => {
+    const notes = buildEntityNotes([
+        record(620, 'Portal 2', 12.3, { developers: ['Valve'], publishers: ['Valve'], genres: [{ id: '1', description: 'Action' }] }),
+        record(70, 'Half-Life', 2, { developers: ['Valve'], publishers: ['Sierra', 'Valve'], genres: [] }),
+        record(400, 'Portal', 0.55, { developers: ['Valve'], publishers: ['Valve'], genres: [{ id: '1', description: 'Action' }] }),
+        record(99999, 'Delisted', 1, null),
+    ], createNoteNamer());
+
+    expect(notes.map(n => `${n.type}: ${n.name} (${n.games.length} games, ${n.playtimeHours} hours)`)).toEqual([
+        'developer: Valve (3 games, 14.9 hours)',
+        'genre: Action (2 games, 12.9 hours)',
+        'publisher: Sierra (1 games, 2 hours)',
+    ]);
+    expect(notes[0].developed.map(g => g.link)).toEqual(['[[Half-Life]]', '[[Portal]]', '[[Portal 2]]']);
+    expect(notes[0].published.map(g => g.name)).toEqual(['Half-Life', 'Portal', 'Portal 2']);
+    expect(notes[2]).toMatchObject({ developed: [], published: [{ name: 'Half-Life', status: 'playing', playtime: 2 }] });
+});
+
+test('file names come from templates and stay valid file names', () => {
+    const namer = createNoteNamer(readFileNameSettings({ game: '{{ game.name }} ({{ game.steamAppID }})', developer: '' }));
+    const portal = game(620, 'Portal: 2?', 0);
+
+    expect(namer.game(portal)).toBe('Portal 2 (620)');
+    expect(namer.wishlist({ name: 'Hades II', steamAppID: 1145350, priority: 1, dateAdded: false, price: null })).toBe('Hades II');
+    // Nothing left of the name: the default is used
+    expect(createNoteNamer({ ...DEFAULT_FILE_NAMES, game: '{{ game.missing }}' }).game(portal)).toBe('Portal 2');
+    expect(namer.entity('developer', 'AC/DC Games')).toBe('ACDC Games');
+    expect(readFileNameSettings({ genre: '{{ genre }}', unknown: 'x' })).toEqual(DEFAULT_FILE_NAMES);
+});
@@ -0,0 +1,152 @@
+/*
+    Steam Library Scraper - Play History Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameData } from '../src/game-data';
+import { buildPlayHeatmap, buildPlayHistory, loadPlayHistory, notePlayHistory, PlayObservation, writePlayHistory } from '../src/play-history';
+import { pruneSnapshots } from '../src/snapshot-retention';
+import { game } from './test-data';
+
+let timeZone: string | undefined;
+
+test.beforeAll(() => {
+    // Days are local dates, pin the time zone so they are the same on every machine
+    timeZone = process.env.TZ;
+    process.env.TZ = 'UTC';
+});
+
+test.afterAll(() => {
+    if (timeZone === undefined) delete process.env.TZ;
+    else process.env.TZ = timeZone;
+});
+
+// Last played as the scrape has it, in seconds
+const seconds = (date: Date) => date.getTime() / 1000;
+
+const scrape = (takenAt: Date, games: GameData[], complete: boolean | null = true): PlayObservation => ({ takenAt, games, complete });
+
+test('playtime between scrapes goes to the day it was last played, and to its week', () => {
+    const history = buildPlayHistory([
+        // Out of order on purpose, the history sorts them
+        scrape(new Date(2025, 5, 4, 4), [game(220, 'Half-Life 2', 3, { lastPlayed: seconds(new Date(2025, 5, 3, 21)) }), game(400, 'Portal', 2)]),
+        scrape(new Date(2025, 5, 2, 4), [game(220, 'Half-Life 2', 1), game(400, 'Portal', 2)]),
+        // Played on the day of the scrape, but Steam doesn't say when
+        scrape(new Date(2025, 5, 10, 4), [{ ...game(220, 'Half-Life 2', 3.5), playtimeMinutes: 215 }, game(400, 'Portal', 2)]),
+    ], 'plantdad');
+
+    expect(history).toMatchObject({ accountID: 'plantdad', from: '2025-06-02', to: '2025-06-10', scrapes: 3 });
+    expect(history.games.map(g => g.name)).toEqual(['Half-Life 2', 'Portal']);
+    const [halfLife, portal] = history.games;
+    expect(halfLife).toMatchObject({ firstSeen: '2025-06-02', lastSeen: '2025-06-10', startingHours: 1, totalHours: 2.58, resets: [], gaps: [] });
+    // The minutes are used over the rounded hours: 215 minutes is 3.58 hours
+    expect(halfLife.days).toEqual({ '2025-06-03': 2, '2025-06-10': 0.58 });
+    expect(halfLife.weeks).toEqual({ '2025-06-02': 2, '2025-06-09': 0.58 });
+    expect(portal).toMatchObject({ totalHours: 0, days: {}, weeks: {} });
+
+    expect(notePlayHistory(halfLife)).toEqual({
+        since: '2025-06-02', totalHours: 2.58, resets: [], gaps: [],
+        weeks: [{ start: '2025-06-09', hours: 0.58 }, { start: '2025-06-02', hours: 2 }],
+    });
+    expect(notePlayHistory(undefined)).toBeNull();
+});
+
+test('resets and gaps are listed, and the heatmap adds up the games of each day', () => {
+    const history = buildPlayHistory([
+        scrape(new Date(2025, 5, 2, 4), [game(220, 'Half-Life 2', 10), game(400, 'Portal', 1), game(620, 'Portal 2', 0)]),
+        // Steam corrected Half-Life 2, Portal 2 is missing from a complete scrape, Portal from an incomplete one
+        scrape(new Date(2025, 5, 3, 4), [game(220, 'Half-Life 2', 8), game(400, 'Portal', 2)]),
+        scrape(new Date(2025, 5, 4, 4), [game(220, 'Half-Life 2', 9)], false),
+        // Two weeks without scrapes
+        scrape(new Date(2025, 5, 18, 4), [game(220, 'Half-Life 2', 9.5), game(400, 'Portal', 3), game(620, 'Portal 2', 4, { lastPlayed: seconds(new Date(2025, 5, 17, 20)) })]),
+    ]);
+
+    const [halfLife, portal, portal2] = history.games;
+    expect(halfLife.resets).toEqual([{ date: '2025-06-03', fromHours: 10, toHours: 8 }]);
+    // Counted on from the corrected total, never below zero
+    expect(halfLife.days).toEqual({ '2025-06-04': 1, '2025-06-18': 0.5 });
+    expect(halfLife.gaps).toEqual([{ from: '2025-06-04', to: '2025-06-18', hours: 0.5, missing: false }]);
+    expect(portal.gaps).toEqual([{ from: '2025-06-03', to: '2025-06-18', hours: 1, missing: false }]);
+    expect(portal2.gaps).toEqual([{ from: '2025-06-02', to: '2025-06-18', hours: 4, missing: true }]);
+    expect(portal2.days).toEqual({ '2025-06-17': 4 });
+
+    expect(buildPlayHeatmap(history)).toEqual({
+        accountID: '', from: '2025-06-02', to: '2025-06-18', maxHours: 4,
+        days: [
+            { date: '2025-06-03', hours: 1, games: [{ steamAppID: 400, name: 'Portal', hours: 1 }] },
+            { date: '2025-06-04', hours: 1, games: [{ steamAppID: 220, name: 'Half-Life 2', hours: 1 }] },
+            { date: '2025-06-17', hours: 4, games: [{ steamAppID: 620, name: 'Portal 2', hours: 4 }] },
+            { date: '2025-06-18', hours: 1.5, games: [{ steamAppID: 400, name: 'Portal', hours: 1 }, { steamAppID: 220, name: 'Half-Life 2', hours: 0.5 }] },
+        ],
+    });
+});
+
+test('a scrape that can not tell if it is complete does not mark games missing', () => {
+    const history = buildPlayHistory([
+        scrape(new Date(2025, 5, 2, 4), [game(220, 'Half-Life 2', 1), game(400, 'Portal', 1)]),
+        // From an older version, which didn't say if it got the whole library
+        scrape(new Date(2025, 5, 3, 4), [game(220, 'Half-Life 2', 1)], null),
+        scrape(new Date(2025, 5, 4, 4), [game(220, 'Half-Life 2', 1), game(400, 'Portal', 2)]),
+    ]);
+
+    expect(history.games.find(g => g.steamAppID === 400)).toMatchObject({ totalHours: 1, gaps: [] });
+});
+
+test('the saved history is used again until a scrape changes', ({}, testInfo) => {
+    const rawDir = testInfo.outputPath('raw_data');
+    const historyDir = testInfo.outputPath('play_history');
+    fs.mkdirSync(rawDir, { recursive: true });
+    const write = (fileName: string, games: GameData[]) => {
+        fs.writeFileSync(path.join(rawDir, fileName), JSON.stringify({ complete: true, games }));
+        return path.join(rawDir, fileName);
+    };
+    const older = write('SteamScrape_plantdad_2025-06-01 0400.json', [game(220, 'Half-Life 2', 1)]);
+    const latest = write('SteamScrape_plantdad_2025-06-02 0400.json', [game(220, 'Half-Life 2', 3)]);
+
+    const history = loadPlayHistory(latest, historyDir);
+    expect(history.sources!.map(s => s.file)).toEqual(['SteamScrape_plantdad_2025-06-02 0400.json', 'SteamScrape_plantdad_2025-06-01 0400.json']);
+    const [historyPath] = writePlayHistory({ ...history, games: [] }, historyDir);
+    expect(loadPlayHistory(latest, historyDir).games).toEqual([]);
+
+    // A scrape that changed, or another scrape to build it from, builds it again
+    fs.utimesSync(older, new Date(), new Date(Date.now() + 60000));
+    expect(loadPlayHistory(latest, historyDir)).toMatchObject({ scrapes: 2, games: [{ steamAppID: 220, totalHours: 2 }] });
+    write('SteamScrape_plantdad_2025-06-01 1600.json', [game(220, 'Half-Life 2', 2)]);
+    fs.writeFileSync(historyPath, JSON.stringify({ ...history, games: [] }));
+    expect(loadPlayHistory(latest, historyDir).scrapes).toBe(3);
+    // Without a folder to look in, it is always built
+    expect(loadPlayHistory(older).games).toHaveLength(1);
+});
+
+test('pruned scrapes keep their hours, new scrapes are added to the saved history', ({}, testInfo) => {
+    const rawDir = testInfo.outputPath('raw_data');
+    const historyDir = testInfo.outputPath('play_history');
+    fs.mkdirSync(rawDir, { recursive: true });
+    // A scrape a day from May 1st, each a few minutes later than the one before, an hour played every day
+    const write = (day: number) => {
+        const takenAt = new Date(2025, 4, day, 4, day % 10);
+        const stamp = `${takenAt.getFullYear()}-${String(takenAt.getMonth() + 1).padStart(2, '0')}-${String(takenAt.getDate()).padStart(2, '0')} 04${String(day % 10).padStart(2, '0')}`;
+        const filePath = path.join(rawDir, `SteamScrape_plantdad_${stamp}.json`);
+        fs.writeFileSync(filePath, JSON.stringify({ complete: true, games: [game(220, 'Half-Life 2', day)] }));
+        return filePath;
+    };
+    let latest = '';
+    for (let day = 1; day <= 40; day++) latest = write(day);
+    writePlayHistory(loadPlayHistory(latest, historyDir), historyDir);
+
+    expect(pruneSnapshots(rawDir, new Date(2025, 5, 9, 12)).length).toBeGreaterThan(0);
+    latest = write(41);
+    const history = loadPlayHistory(latest, historyDir);
+    expect(history).toMatchObject({ from: '2025-05-01', to: '2025-06-10', scrapes: 41 });
+    expect(history.games[0]).toMatchObject({ totalHours: 40, gaps: [] });
+    expect(Object.keys(history.games[0].days)).toHaveLength(40);
+
+    // Built again from what is left, the weeks before the last 30 days are lumps, but the weekly scrapes are no gaps
+    const rebuilt = loadPlayHistory(latest);
+    expect(rebuilt.games[0]).toMatchObject({ totalHours: 40 - (rebuilt.games[0].startingHours - 1), gaps: [] });
+    expect(Object.keys(rebuilt.games[0].days).length).toBeLessThan(40);
+});
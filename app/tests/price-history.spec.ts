@@ -0,0 +1,55 @@
+/*
+    Steam Library Scraper - Price History Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import { PriceData, WishlistItem } from '../src/game-data';
+import { findWishlistLows, isHistoricalLow, loadPriceHistory, lowestPrice, recordPrice } from '../src/price-history';
+
+const euro = (final: number, initial = 2000): PriceData => ({
+    currency: 'EUR',
+    initial,
+    final,
+    discountPercent: Math.round((1 - final / initial) * 100),
+    initialFormatted: `${initial / 100}€`,
+    finalFormatted: `${final / 100}€`,
+});
+
+const day = (date: number) => new Date(2025, 4, date, 12);
+
+test('only price changes are kept, the last one of a day wins', ({}, testInfo) => {
+    const dir = testInfo.outputPath();
+    recordPrice(10, 'Game', euro(2000), dir, day(1));
+    recordPrice(10, 'Game', euro(2000), dir, day(3));
+    recordPrice(10, 'Game', euro(1500), dir, day(5));
+    recordPrice(10, 'Game', euro(1000), dir, day(5));
+    recordPrice(10, 'Game (Renamed)', euro(2000), dir, day(9));
+
+    const history = loadPriceHistory(10, dir);
+    expect(history).toMatchObject({ steamAppID: 10, name: 'Game (Renamed)', lastChecked: '2025-05-09' });
+    expect(history?.points.map(p => [p.date, p.final])).toEqual([['2025-05-01', 2000], ['2025-05-05', 1000], ['2025-05-09', 2000]]);
+    expect(lowestPrice(history, 'EUR')).toMatchObject({ date: '2025-05-05', final: 1000, discountPercent: 50, finalFormatted: '10€' });
+    expect(lowestPrice(history, 'USD')).toBeNull();
+    expect(loadPriceHistory(11, dir)).toBeNull();
+});
+
+test('a price is a historical low once it changed and is the lowest so far', ({}, testInfo) => {
+    const dir = testInfo.outputPath();
+    const first = recordPrice(20, 'Game', euro(2000), dir, day(1));
+    expect(isHistoricalLow(first, euro(2000))).toBe(false);
+
+    const sale = recordPrice(20, 'Game', euro(1200), dir, day(2));
+    expect(isHistoricalLow(sale, euro(1200))).toBe(true);
+    expect(isHistoricalLow(sale, euro(1400))).toBe(false);
+    expect(isHistoricalLow(sale, { ...euro(1200), currency: 'USD' })).toBe(false);
+
+    recordPrice(30, 'Other', euro(900, 900), dir, day(1));
+    const wishlist: WishlistItem[] = [
+        { name: 'Other', steamAppID: 30, priority: 1, dateAdded: false, price: euro(900, 900) },
+        { name: 'Game', steamAppID: 20, priority: 2, dateAdded: false, price: euro(1200) },
+        { name: 'Free', steamAppID: 40, priority: 3, dateAdded: false, price: null },
+    ];
+    expect(findWishlistLows(wishlist, dir)).toEqual([{ name: 'Game', steamAppID: 20, finalFormatted: '12€', discountPercent: 40 }]);
+});
@@ -0,0 +1,56 @@
+/*
+    Steam Library Scraper - Profile Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import { findProfile, normalizeAccountID, profileUrl, resolveProfiles } from '../src/profiles';
+
+const STEAM_ID64 = '76561197960287930';
+
+test('accepts custom URL IDs, SteamID64s and profile links', () => {
+    expect(normalizeAccountID(' gabelogannewell ')).toBe('gabelogannewell');
+    expect(normalizeAccountID(STEAM_ID64)).toBe(STEAM_ID64);
+    expect(normalizeAccountID('https://steamcommunity.com/id/gabelogannewell/')).toBe('gabelogannewell');
+    expect(normalizeAccountID(`https://steamcommunity.com/profiles/${STEAM_ID64}/games/?tab=all`)).toBe(STEAM_ID64);
+
+    expect(normalizeAccountID('')).toBeNull();
+    expect(normalizeAccountID('my name')).toBeNull();
+    expect(normalizeAccountID('https://store.steampowered.com/app/620')).toBeNull();
+});
+
+test('SteamID64s use the /profiles/ page', () => {
+    expect(profileUrl('gabelogannewell')).toBe('https://steamcommunity.com/id/gabelogannewell');
+    expect(profileUrl(STEAM_ID64)).toBe(`https://steamcommunity.com/profiles/${STEAM_ID64}`);
+});
+
+test('reads profiles from the settings', () => {
+    expect(resolveProfiles({ steamAccountID: 'Me' })).toEqual([{ name: 'Me', accountID: 'Me', folder: null }]);
+    expect(resolveProfiles({})).toEqual([]);
+
+    const profiles = resolveProfiles({
+        steamAccountID: 'ignored',
+        profiles: [
+            { name: 'Dad', steamAccountID: 'https://steamcommunity.com/id/plantdad/' },
+            { name: 'Zoë', steamAccountID: STEAM_ID64 },
+        ],
+    });
+    expect(profiles).toEqual([
+        { name: 'Dad', accountID: 'plantdad', folder: 'Dad' },
+        { name: 'Zoë', accountID: STEAM_ID64, folder: 'Zoë' },
+    ]);
+
+    expect(findProfile(profiles, 'zoë')).toBe(profiles[1]);
+    expect(findProfile(profiles, 'plantdad')).toBe(profiles[0]);
+    expect(findProfile(profiles, 'someone-else')).toEqual({ name: 'someone-else', accountID: 'someone-else', folder: null });
+    expect(findProfile(profiles, 'not valid!')).toBeNull();
+});
+
+test('invalid profiles are reported instead of skipped', () => {
+    expect(() => resolveProfiles({ profiles: [{ name: '../up', steamAccountID: 'a1' }] })).toThrow(/Profile 1 .* needs a "name"/);
+    expect(() => resolveProfiles({ profiles: [{ name: 'Kid', steamAccountID: 'no spaces' }] })).toThrow(/Profile "Kid" needs a "steamAccountID"/);
+    expect(() => resolveProfiles({
+        profiles: [{ name: 'Kid', steamAccountID: 'a1' }, { name: 'kid', steamAccountID: 'b2' }],
+    })).toThrow(/two profiles named "kid"/);
+});
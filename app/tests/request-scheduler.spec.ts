@@ -0,0 +1,107 @@
+/*
+    Steam Library Scraper - Request Scheduler Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import { createRequestScheduler, parseRetryAfter, RetryableError, RetryEvent } from '../src/request-scheduler';
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+test('never runs more requests at once than allowed', async () => {
+    const scheduler = createRequestScheduler({ intervalMs: 0, concurrency: 2 });
+    let running = 0;
+    let mostAtOnce = 0;
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(n => scheduler.schedule(async () => {
+        running++;
+        mostAtOnce = Math.max(mostAtOnce, running);
+        await sleep(20);
+        running--;
+        return n * 10;
+    })));
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(mostAtOnce).toBe(2);
+});
+
+test('the token bucket spaces requests out after the burst', async () => {
+    const scheduler = createRequestScheduler({ intervalMs: 50, burst: 2, concurrency: 5 });
+    const startedAt: number[] = [];
+    const start = Date.now();
+
+    await Promise.all([1, 2, 3, 4].map(() => scheduler.schedule(async () => { startedAt.push(Date.now() - start); })));
+
+    // Two right away, then one token every 50ms
+    expect(startedAt[1]).toBeLessThan(40);
+    expect(startedAt[2]).toBeGreaterThanOrEqual(45);
+    expect(startedAt[3]).toBeGreaterThanOrEqual(95);
+});
+
+test('retries with a growing backoff and gives up after maxRetries', async () => {
+    const retries: RetryEvent[] = [];
+    const scheduler = createRequestScheduler({ intervalMs: 0, backoffMs: 5, maxRetries: 3 }, { onRetry: e => retries.push(e) });
+    let calls = 0;
+
+    await expect(scheduler.schedule(async () => {
+        calls++;
+        throw new RetryableError('Steam store error (HTTP 502)');
+    })).rejects.toThrow('HTTP 502');
+
+    expect(calls).toBe(4);
+    expect(retries.map(r => [r.attempt, r.waitMs])).toEqual([[1, 5], [2, 10], [3, 20]]);
+    expect(scheduler.stats()).toEqual({ requests: 4, retries: 3, throttled: 0 });
+});
+
+test('other errors are not retried', async () => {
+    const scheduler = createRequestScheduler({ intervalMs: 0 });
+    let calls = 0;
+
+    await expect(scheduler.schedule(async () => { calls++; throw new Error('Bad JSON'); })).rejects.toThrow('Bad JSON');
+    expect(calls).toBe(1);
+});
+
+test('throttling honours Retry-After and slows everything down', async () => {
+    const scheduler = createRequestScheduler({ intervalMs: 10, burst: 1, backoffMs: 1 });
+    let throttled = false;
+
+    const start = Date.now();
+    const result = await scheduler.schedule(async () => {
+        if (!throttled) {
+            throttled = true;
+            throw new RetryableError('Too many requests (HTTP 429)', 150, true);
+        }
+        return 'ok';
+    });
+
+    expect(result).toBe('ok');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(145);
+    expect(scheduler.currentIntervalMs()).toBe(20);
+    expect(scheduler.stats().throttled).toBe(1);
+
+    // Ten good answers in a row and it speeds up again
+    for (let i = 0; i < 10; i++) await scheduler.schedule(async () => i);
+    expect(scheduler.currentIntervalMs()).toBe(15);
+});
+
+test('a Retry-After longer than maxRetryAfterMs fails right away', async () => {
+    const scheduler = createRequestScheduler({ intervalMs: 0, maxRetryAfterMs: 1000 });
+    let calls = 0;
+
+    await expect(scheduler.schedule(async () => {
+        calls++;
+        throw new RetryableError('Too many requests (HTTP 429)', 60 * 60 * 1000, true);
+    })).rejects.toThrow('HTTP 429');
+    expect(calls).toBe(1);
+});
+
+test('reads Retry-After as seconds or as a date', () => {
+    const now = Date.parse('2025-01-01T12:00:00Z');
+    expect(parseRetryAfter('30', now)).toBe(30000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 12:01:00 GMT', now)).toBe(60000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 11:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter(['5'], now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+});
@@ -0,0 +1,46 @@
+/*
+    Steam Library Scraper - Review Parsing Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import { parsePostedDate, parseReviewRow, ReviewRow } from '../src/reviews';
+
+const NOW = new Date(2025, 5, 15);
+const localDate = (year: number, month: number, day: number) => Math.floor(new Date(year, month - 1, day).getTime() / 1000);
+
+const row = (overrides: Partial<ReviewRow> = {}): ReviewRow => ({
+    url: 'https://steamcommunity.com/id/testuser/recommended/250900/',
+    gameName: 'The Binding of Isaac: Rebirth',
+    title: 'Recommended',
+    hoursText: '1,003.9 hrs on record',
+    postedText: 'Posted 5 January, 2023. Last edited 6 January, 2023.',
+    content: '\n  One more run.  \n',
+    ...overrides,
+});
+
+test('reads a review row', () => {
+    expect(parseReviewRow(row(), NOW)).toEqual({
+        name: 'The Binding of Isaac: Rebirth',
+        steamAppID: 250900,
+        recommended: true,
+        hoursOnRecord: 1003.9,
+        posted: localDate(2023, 1, 5),
+        text: 'One more run.',
+        url: 'https://steamcommunity.com/id/testuser/recommended/250900/',
+    });
+
+    const negative = parseReviewRow(row({ title: 'Not Recommended', gameName: '', hoursText: '' }), NOW);
+    expect(negative).toMatchObject({ name: 'App 250900', recommended: false, hoursOnRecord: 0 });
+
+    expect(parseReviewRow(row({ url: 'https://steamcommunity.com/id/testuser/' }), NOW)).toBeNull();
+});
+
+test('posted dates without a year are this year, unless that lies ahead', () => {
+    expect(parsePostedDate('Posted 5 January.', NOW)).toBe(localDate(2025, 1, 5));
+    expect(parsePostedDate('Posted: March 3', NOW)).toBe(localDate(2025, 3, 3));
+    expect(parsePostedDate('Posted 24 December.', NOW)).toBe(localDate(2024, 12, 24));
+    expect(parsePostedDate('Posted December 24, 2019. Last edited January 2.', NOW)).toBe(localDate(2019, 12, 24));
+    expect(parsePostedDate('Posted yesterday', NOW)).toBe(false);
+});
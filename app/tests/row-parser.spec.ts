@@ -0,0 +1,151 @@
+/*
+    Steam Library Scraper - Row Parser Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JSDOM } from 'jsdom';
+import {
+    collectRawRows, FIELD_LABELS, LANGUAGES, mergeRawRows, parseAchievements, parseGameCount, parseGameRows,
+    parseLastPlayed, parseLocaleNumber, parsePlaytime, RawGameRow,
+} from '../src/row-parser';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'rows');
+
+// A scrape in January, so dates without a year from later in the year belong to last year
+const NOW = new Date(2025, 0, 10, 15, 30);
+const day = (year: number, month: number, date: number) => Math.floor(new Date(year, month - 1, date).getTime() / 1000);
+const language = (code: string) => LANGUAGES.find(l => l.code === code)!;
+
+/** Runs the recorded row HTML through the same collector the browser uses. */
+function parseFixture(name: string) {
+    const dom = new JSDOM(fs.readFileSync(path.join(FIXTURES, `${name}.html`), 'utf-8'));
+    const rows = Array.from(dom.window.document.querySelectorAll('div[role="button"]'))
+        .filter(div => div.querySelector('img')) as HTMLElement[];
+    return parseGameRows(collectRawRows(rows, FIELD_LABELS), NOW);
+}
+
+test.describe('recorded rows', () => {
+    test('english', () => {
+        const { games, issues } = parseFixture('english');
+
+        expect(issues).toEqual([]);
+        expect(games).toEqual([
+            { name: 'The Binding of Isaac: Rebirth', steamAppID: 250900, playtime: 1003.9, lastPlayed: day(2023, 7, 17), myAchievements: 637, totalAchievements: 641 },
+            { name: "Garry's Mod", steamAppID: 4000, playtime: 0.75, lastPlayed: day(2024, 12, 30), myAchievements: 0, totalAchievements: 0 },
+            { name: 'Counter-Strike 2', steamAppID: 730, playtime: 12.5, lastPlayed: day(2025, 1, 10), myAchievements: 1, totalAchievements: 1 },
+            { name: 'Half-Life 2', steamAppID: 220, playtime: false, lastPlayed: false, myAchievements: 0, totalAchievements: 33 },
+        ]);
+    });
+
+    test('german', () => {
+        const { games, issues } = parseFixture('german');
+
+        expect(issues).toEqual([]);
+        expect(games).toEqual([
+            { name: 'The Binding of Isaac: Rebirth', steamAppID: 250900, playtime: 1003.9, lastPlayed: day(2023, 7, 17), myAchievements: 637, totalAchievements: 641 },
+            { name: "Garry's Mod", steamAppID: 4000, playtime: 1.5, lastPlayed: day(2025, 1, 9), myAchievements: 0, totalAchievements: 0 },
+        ]);
+    });
+
+    test('french', () => {
+        const { games, issues } = parseFixture('french');
+
+        expect(issues).toEqual([]);
+        expect(games.map(g => [g.playtime, g.lastPlayed, g.myAchievements])).toEqual([
+            [1003.9, day(2023, 7, 17), 637],
+            [0.75, day(2024, 6, 2), 0],
+        ]);
+    });
+
+    test('reports unreadable values instead of storing them silently', () => {
+        const { games, issues } = parseFixture('unreadable');
+
+        expect(games[0]).toMatchObject({ playtime: false, lastPlayed: false, myAchievements: 0, totalAchievements: 0 });
+        expect(issues).toEqual([
+            { game: 'Portal 2', steamAppID: 620, field: 'playtime', raw: 'lots' },
+            { game: 'Portal 2', steamAppID: 620, field: 'lastPlayed', raw: 'Smarch 13' },
+            { game: 'Portal 2', steamAppID: 620, field: 'achievements', raw: 'all of them' },
+        ]);
+    });
+});
+
+test.describe('numbers', () => {
+    test('uses the language to tell decimals from thousands', () => {
+        expect(parseLocaleNumber('1,003.9', '.')).toBe(1003.9);
+        expect(parseLocaleNumber('1.003,9', ',')).toBe(1003.9);
+        expect(parseLocaleNumber('1,003', '.')).toBe(1003);
+        expect(parseLocaleNumber('1,5', ',')).toBe(1.5);
+        expect(parseLocaleNumber('1.5', ',')).toBe(1.5);
+        expect(parseLocaleNumber('1 234 567,25', ',')).toBe(1234567.25);
+        expect(parseLocaleNumber('hours', '.')).toBeNull();
+    });
+
+    test('playtime', () => {
+        expect(parsePlaytime('0 hours')).toBe(false);
+        expect(parsePlaytime('')).toBe(false);
+        expect(parsePlaytime('30 minutes')).toBe(0.5);
+        expect(parsePlaytime('2,5 Stunden', language('german'))).toBe(2.5);
+        expect(parsePlaytime('90 Minuten', language('german'))).toBe(1.5);
+        expect(parsePlaytime('12 мин.', language('russian'))).toBe(0.2);
+    });
+
+    test('achievements', () => {
+        expect(parseAchievements('637/641')).toEqual({ my: 637, total: 641 });
+        expect(parseAchievements('1,234 / 2,000')).toEqual({ my: 1234, total: 2000 });
+        expect(parseAchievements('5/3')).toBeNull();
+    });
+});
+
+test.describe('dates', () => {
+    test('infers the year without ever landing in the future', () => {
+        expect(parseLastPlayed('Dec 30', language('english'), NOW)).toBe(day(2024, 12, 30));
+        expect(parseLastPlayed('Jan 10', language('english'), NOW)).toBe(day(2025, 1, 10));
+        expect(parseLastPlayed('Jan 5', language('english'), NOW)).toBe(day(2025, 1, 5));
+    });
+
+    test('day-first, month-first and numeric formats', () => {
+        expect(parseLastPlayed('17 Jul, 2023', language('english'), NOW)).toBe(day(2023, 7, 17));
+        expect(parseLastPlayed('17 de jul. de 2023', language('spanish'), NOW)).toBe(day(2023, 7, 17));
+        expect(parseLastPlayed('17 июля 2023 г.', language('russian'), NOW)).toBe(day(2023, 7, 17));
+        expect(parseLastPlayed('17 lipca 2023', language('polish'), NOW)).toBe(day(2023, 7, 17));
+        expect(parseLastPlayed('17.07.2023', language('german'), NOW)).toBe(day(2023, 7, 17));
+        expect(parseLastPlayed('07/17/2023', language('english'), NOW)).toBe(day(2023, 7, 17));
+        expect(parseLastPlayed('2023-07-17', language('dutch'), NOW)).toBe(day(2023, 7, 17));
+    });
+
+    test('relative words', () => {
+        expect(parseLastPlayed('Never', language('english'), NOW)).toBe(false);
+        expect(parseLastPlayed('Nooit', language('dutch'), NOW)).toBe(false);
+        expect(parseLastPlayed('Hier', language('french'), NOW)).toBe(day(2025, 1, 9));
+        expect(parseLastPlayed('Yesterday', language('german'), NOW)).toBe(day(2025, 1, 9));
+        expect(parseLastPlayed('someday', language('english'), NOW)).toBeNull();
+    });
+});
+
+test.describe('list loading', () => {
+    test('collects rows across scroll rounds without duplicates', () => {
+        const row = (name: string, appId?: number): RawGameRow => ({
+            name,
+            href: appId ? `https://store.steampowered.com/app/${appId}` : "",
+            fields: {},
+        });
+        const collected = new Map<string, RawGameRow>();
+
+        expect(mergeRawRows(collected, [row('Portal', 400), row('Portal 2', 620)])).toBe(2);
+        // A virtualized list drops the first rows and overlaps with the previous round
+        expect(mergeRawRows(collected, [row('Portal 2', 620), row('Half-Life', 70), row('Unlisted')])).toBe(2);
+        expect(mergeRawRows(collected, [row('Half-Life', 70), row('Unlisted')])).toBe(0);
+        expect(Array.from(collected.values()).map(r => r.name)).toEqual(['Portal', 'Portal 2', 'Half-Life', 'Unlisted']);
+    });
+
+    test('reads the game total from the tab', () => {
+        expect(parseGameCount('All Games (1,234)')).toBe(1234);
+        expect(parseGameCount('Alle Spiele (1.234)')).toBe(1234);
+        expect(parseGameCount('Tous les jeux (1 234)')).toBe(1234);
+        expect(parseGameCount('All Games')).toBeNull();
+    });
+});
@@ -0,0 +1,85 @@
+/*
+    Steam Library Scraper - Scheduled Run Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameData } from '../src/game-data';
+import { saveNoteManifest } from '../src/note-manifest';
+import { acquireLock, appsToConvert, changedAppIDs, nextRun, parseSchedule, readLock, releaseLock } from '../src/schedule';
+import { game } from './test-data';
+
+const GAMES: GameData[] = [
+    { name: 'Portal 2', steamAppID: 620, playtime: 12.3, lastPlayed: 1700000000, myAchievements: 10, totalAchievements: 51 },
+    { name: 'Half-Life 2', steamAppID: 220, playtime: false, lastPlayed: false, myAchievements: 0, totalAchievements: 33 },
+];
+
+test('cron schedules give the next time to run', () => {
+    const at = (text: string, after: Date) => nextRun(parseSchedule(text), after);
+    const after = new Date(2025, 4, 1, 4, 0, 30);
+
+    // Never the minute it is now
+    expect(at('0 4 * * *', after)).toEqual(new Date(2025, 4, 2, 4, 0));
+    expect(at('*/15 9-17 * * 1-5', after)).toEqual(new Date(2025, 4, 1, 9, 0));
+    expect(at('@weekly', after)).toEqual(new Date(2025, 4, 4, 0, 0));
+    // Sunday can be 0 or 7, and with both days limited either one is enough
+    expect(at('30 6 * * 7', after)).toEqual(new Date(2025, 4, 4, 6, 30));
+    expect(at('0 0 15 * 6', after)).toEqual(new Date(2025, 4, 3, 0, 0));
+    expect(at('5/20 * * 2 *', after)).toEqual(new Date(2026, 1, 1, 0, 5));
+
+    for (const broken of ['0 4 * *', '60 * * * *', '0 4 * * mon', '*/0 * * * *', '5-1 * * * *', '0 0 31 4 *']) {
+        expect(() => parseSchedule(broken)).toThrow(`"${broken}"`);
+    }
+});
+
+test('the lock is held by one run at a time', ({}, testInfo) => {
+    const lockPath = testInfo.outputPath('schedule.lock');
+    expect(acquireLock(lockPath)).toBe(true);
+    expect(readLock(lockPath)?.pid).toBe(process.pid);
+    expect(acquireLock(lockPath)).toBe(false);
+
+    releaseLock(lockPath);
+    expect(fs.existsSync(lockPath)).toBe(false);
+
+    // Left behind by a run that crashed
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: 99999999, startedAt: new Date().toISOString() }));
+    expect(readLock(lockPath)).toBeNull();
+    expect(acquireLock(lockPath)).toBe(true);
+    expect(readLock(lockPath)?.pid).toBe(process.pid);
+    // The stale lock is moved away, nothing else is left next to the lock
+    expect(fs.readdirSync(path.dirname(lockPath))).toEqual(['schedule.lock']);
+    releaseLock(lockPath);
+});
+
+test('only games that changed or have no note yet are converted', ({}, testInfo) => {
+    expect(changedAppIDs(GAMES, [{ ...GAMES[1] }, { ...GAMES[0], playtime: 13 }])).toEqual([620]);
+    // The order of the fields doesn't matter
+    const { name, ...rest } = GAMES[0];
+    expect(changedAppIDs(GAMES, [{ ...rest, name }])).toEqual([]);
+
+    const dir = testInfo.outputPath();
+    fs.mkdirSync(dir, { recursive: true });
+    const write = (file: string, content: unknown) => {
+        fs.writeFileSync(path.join(dir, file), JSON.stringify(content));
+        return path.join(dir, file);
+    };
+    const before = { snapshot: write('before.json', GAMES), wishlist: null };
+    const dota = game(570, 'Dota 2', 1);
+    const wishlist = [{ name: 'Hades II', steamAppID: 1145350, priority: 1, dateAdded: false, price: null }];
+    const after = {
+        snapshot: write('after.json', [...GAMES, dota]),
+        wishlist: write('wishlist.json', { type: 'wishlist', accountID: 'plantdad', scrapedAt: '', items: wishlist }),
+    };
+
+    const notesDir = path.join(dir, 'notes');
+    saveNoteManifest(notesDir, { games: { 620: { path: 'Portal 2.md', name: 'Portal 2' } }, wishlist: {} });
+    expect(appsToConvert(before, after, notesDir)).toEqual([570, 220, 1145350]);
+    expect(appsToConvert({ snapshot: null, wishlist: null }, after, notesDir)).toBeUndefined();
+    // A scrape that wrote nothing new converts nothing, one that only wrote the wishlist only its games
+    expect(appsToConvert(after, after, notesDir)).toEqual([]);
+    expect(appsToConvert(after, { snapshot: null, wishlist: null }, notesDir)).toEqual([]);
+    expect(appsToConvert({ ...after, wishlist: null }, after, notesDir)).toEqual([1145350]);
+});
@@ -0,0 +1,151 @@
+/*
+    Steam Library Scraper - Scrape Target Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fetchPrices, runTargetScrape, TargetScrapeOptions } from '../src/scrape-targets';
+import { loadPriceHistory } from '../src/price-history';
+import { createRequestScheduler } from '../src/request-scheduler';
+import { listTargetFiles, loadTargetFile } from '../src/snapshots';
+import { parseProfileXml } from '../src/steam-community';
+import { MockServer, startAppDetailsServer, startMockServer } from './mock-server';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+const API_KEY = 'TESTKEY';
+
+const HADES_PRICE = { currency: 'EUR', initial: 2950, final: 2065, discount_percent: 30, initial_formatted: '29,50€', final_formatted: '20,65€' };
+
+let steam: MockServer;
+
+// Plays the community profile, the Web API and the store at once
+test.beforeAll(async () => {
+    steam = await startMockServer((url, send) => {
+        switch (url.pathname) {
+            case '/id/testuser/':
+                return send(200, fs.readFileSync(path.join(FIXTURES, 'community', 'testuser.xml'), 'utf-8'), 'text/xml');
+            case '/id/nobody/':
+                return send(200, '<?xml version="1.0"?><response><error><![CDATA[The specified profile could not be found.]]></error></response>', 'text/xml');
+            case '/IWishlistService/GetWishlist/v1/':
+                return send(200, JSON.stringify({ response: { items: [
+                    { appid: 99998, priority: 2, date_added: 1609459200 },
+                    { appid: 1145350, priority: 1, date_added: 1714521600 },
+                ] } }));
+            case '/IPlayerService/GetRecentlyPlayedGames/v1/':
+                if (url.searchParams.get('key') !== API_KEY) return send(403, '<html><body>Forbidden</body></html>', 'text/html');
+                return send(200, JSON.stringify({ response: { total_count: 3, games: [
+                    { appid: 220, name: 'Half-Life 2', playtime_2weeks: 150, playtime_forever: 852 },
+                    { appid: 250900, name: 'The Binding of Isaac: Rebirth', playtime_2weeks: 720, playtime_forever: 60234 },
+                    { appid: 400, name: 'Portal', playtime_2weeks: 30, playtime_forever: 30 },
+                ] } }));
+            case '/api/appdetails': {
+                const appIds = (url.searchParams.get('appids') || '').split(',');
+                if (url.searchParams.get('filters') === 'price_overview') {
+                    // Free and unlisted apps answer with an empty list as data
+                    return send(200, JSON.stringify(Object.fromEntries(appIds.map(id =>
+                        [id, { success: true, data: id === '1145350' ? { price_overview: HADES_PRICE } : [] }]))));
+                }
+                const file = path.join(FIXTURES, 'appdetails', `${appIds[0]}.json`);
+                if (!fs.existsSync(file)) return send(200, JSON.stringify({ [appIds[0]]: { success: false } }));
+                return send(200, JSON.stringify({ [appIds[0]]: { success: true, data: JSON.parse(fs.readFileSync(file, 'utf-8')) } }));
+            }
+            default:
+                return send(404, '{}');
+        }
+    });
+});
+
+test.afterAll(async () => {
+    await steam.close();
+});
+
+function scrape(accountID: string, outputDir: string, options: Partial<TargetScrapeOptions> = {}) {
+    return runTargetScrape(accountID, {
+        targets: ['wishlist', 'recent'],
+        outputDir,
+        apiBaseUrl: steam.url,
+        storeBaseUrl: steam.url,
+        communityBaseUrl: steam.url,
+        cachePath: path.join(outputDir, 'cache', 'appdetails.json'),
+        priceHistoryDir: path.join(outputDir, 'price_history'),
+        storeRequests: { intervalMs: 0, backoffMs: 10 },
+        quiet: true,
+        ...options,
+    });
+}
+
+test('writes the wishlist and recently played games to files of their own', async ({}, testInfo) => {
+    const outputDir = testInfo.outputPath();
+    expect(await scrape('testuser', outputDir, { countryCode: 'NL' })).toBe(true);
+
+    const [wishlistFile] = listTargetFiles('wishlist', outputDir, 'testuser');
+    const wishlist = loadTargetFile('wishlist', wishlistFile.path);
+    expect(wishlist.accountID).toBe('testuser');
+    // In the wishlist's own order, named by the store
+    expect(wishlist.items).toEqual([
+        {
+            name: 'Hades II',
+            steamAppID: 1145350,
+            priority: 1,
+            dateAdded: 1714521600,
+            price: { currency: 'EUR', initial: 2950, final: 2065, discountPercent: 30, initialFormatted: '29,50€', finalFormatted: '20,65€' },
+        },
+        { name: 'App 99998', steamAppID: 99998, priority: 2, dateAdded: 1609459200, price: null },
+    ]);
+    // The names are cached for the converter, and the prices go into the price history
+    expect(fs.existsSync(path.join(outputDir, 'cache', 'appdetails.json'))).toBe(true);
+    expect(loadPriceHistory(1145350, path.join(outputDir, 'price_history'))?.points.map(p => p.finalFormatted)).toEqual(['20,65€']);
+    expect(loadPriceHistory(99998, path.join(outputDir, 'price_history'))).toBeNull();
+    expect(steam.requests.filter(r => r.pathname === '/api/appdetails').every(r => r.searchParams.get('cc') === 'nl')).toBe(true);
+
+    // Without an API key the profile page tells the recent games
+    const [recentFile] = listTargetFiles('recent', outputDir, 'testuser');
+    expect(loadTargetFile('recent', recentFile.path).items).toEqual([
+        { name: 'Half-Life 2', steamAppID: 220, playtime2WeeksHours: 2.5, playtimeHours: 14.2 },
+        { name: 'The Binding of Isaac: Rebirth', steamAppID: 250900, playtime2WeeksHours: 12, playtimeHours: 1003.9 },
+    ]);
+    expect(() => loadTargetFile('wishlist', recentFile.path)).toThrow('is not a Steam wishlist file');
+});
+
+test('with an API key every recently played game is listed, most played first', async ({}, testInfo) => {
+    const outputDir = testInfo.outputPath();
+    expect(await scrape('testuser', outputDir, { targets: ['recent'], apiKey: API_KEY })).toBe(true);
+
+    expect(listTargetFiles('wishlist', outputDir)).toHaveLength(0);
+    const [recentFile] = listTargetFiles('recent', outputDir);
+    expect(loadTargetFile('recent', recentFile.path).items.map(g => [g.steamAppID, g.playtime2WeeksHours])).toEqual([
+        [250900, 12], [220, 2.5], [400, 0.5],
+    ]);
+
+    expect(await scrape('testuser', testInfo.outputPath('bad-key'), { targets: ['recent'], apiKey: 'WRONG' })).toBe(false);
+});
+
+test('unknown profiles are reported', async ({}, testInfo) => {
+    expect(() => parseProfileXml('<response><error><![CDATA[The specified profile could not be found.]]></error></response>'))
+        .toThrow('Steam profile: The specified profile could not be found.');
+    expect(() => parseProfileXml('<profile><steamID64>123</steamID64></profile>')).toThrow('had no SteamID64');
+
+    const outputDir = testInfo.outputPath();
+    expect(await scrape('nobody', outputDir)).toBe(false);
+    expect(listTargetFiles('wishlist', outputDir)).toHaveLength(0);
+});
+
+test('a batch of prices that keeps failing only leaves its own games without a price', async () => {
+    // 26 apps are two batches, the second one is only The Binding of Isaac
+    const store = await startAppDetailsServer(path.join(FIXTURES, 'appdetails'), appIds => appIds === '250900' ? { status: 500 } : null);
+    try {
+        const appIds = [220, ...Array.from({ length: 24 }, (_, i) => 1145350 - i), 250900];
+        const check = await fetchPrices(appIds, createRequestScheduler({ intervalMs: 0, backoffMs: 10, maxRetries: 1 }), null, store.url);
+
+        expect(check.failedIDs).toEqual([250900]);
+        expect(check.error).toBe('Steam store error (HTTP 500)');
+        expect(check.prices[220]?.finalFormatted).toBe('1,95€');
+        expect(check.prices[1145350]).toBeNull();
+        expect(250900 in check.prices).toBe(false);
+    } finally {
+        await store.close();
+    }
+});
@@ -0,0 +1,93 @@
+/*
+    Steam Library Scraper - Snapshot Diff Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameData } from '../src/game-data';
+import { saveNoteManifest } from '../src/note-manifest';
+import { diffSnapshots, renderDiffMarkdown, runDiff, SnapshotDiff } from '../src/snapshot-diff';
+import { game } from './test-data';
+
+const BEFORE: GameData[] = [
+    game(620, 'Portal 2', 10, { myAchievements: 5, lastPlayed: 1700000000 }),
+    game(220, 'Half-Life 2', false),
+    game(400, 'Portal', 3, { myAchievements: 1, lastPlayed: 1690000000 }),
+    game(70, 'Half-Life', 1),
+];
+
+const AFTER: GameData[] = [
+    game(620, 'Portal 2', 12.5, { myAchievements: 7, lastPlayed: 1700500000 }),
+    game(220, 'Half-Life 2', false),
+    // Started, but not long enough for Steam to count the playtime
+    game(400, 'Portal', 3, { myAchievements: 1, lastPlayed: 1700600000 }),
+    game(1145350, 'Hades II', 0.5, { lastPlayed: 1700700000 }),
+];
+
+const report = (changes: Omit<SnapshotDiff, 'from' | 'to'>): SnapshotDiff => ({
+    from: { file: 'old.json', takenAt: '2025-06-01T04:00:00.000Z' },
+    to: { file: 'new.json', takenAt: '2025-06-08T04:00:00.000Z' },
+    ...changes,
+});
+
+test('added and removed games, playtime and achievements gained, and games only started are found', () => {
+    const diff = diffSnapshots(BEFORE, AFTER);
+
+    expect(diff.added.map(g => g.name)).toEqual(['Hades II']);
+    expect(diff.removed.map(g => g.name)).toEqual(['Half-Life']);
+    expect(diff.changed.map(c => [c.name, c.playtimeDelta, c.newAchievements])).toEqual([['Portal 2', 2.5, 2], ['Portal', 0, 0]]);
+    expect(diff.changed[1]).toMatchObject({ lastPlayedBefore: 1690000000, lastPlayedAfter: 1700600000 });
+    // New games don't count as played, they have no playtime to compare with
+    expect(diff.totals).toEqual({ playtimeDelta: 2.5, gamesPlayed: 1, newAchievements: 2 });
+
+    const markdown = renderDiffMarkdown(report(diff));
+    expect(markdown).toContain('\nPlayed **1** games for **2.5 h** and unlocked **2** achievements.\n');
+    expect(markdown).toContain('\n## Played\n| Game | Played | Total | Last Played |\n| --- | --- | --- | --- |\n| [[Portal 2]] | +2.5 h | 12.5 h |');
+    expect(markdown).toContain('\n## Achievements\n- [[Portal 2]]: +2 (5 -> 7)\n');
+    expect(markdown).toContain(`\n## Last Played Changed\n- [[Portal]]: ${new Date(1690000000 * 1000).toLocaleDateString()} -> ${new Date(1700600000 * 1000).toLocaleDateString()}\n`);
+    expect(markdown).toContain('\n## New in Library\n- [[Hades II]]\n');
+    expect(markdown).toContain('\n## Removed from Library\n- Half-Life\n');
+    expect(markdown).not.toContain('Nothing changed');
+});
+
+test('a game that was only started is not reported as nothing changed, and links use the names of the notes', () => {
+    const portal = (lastPlayed: number) => game(400, 'Portal: Still Alive', 3, { myAchievements: 1, lastPlayed });
+    const diff = diffSnapshots([portal(1690000000)], [portal(1700600000)]);
+    expect(diff.changed).toHaveLength(1);
+
+    expect(renderDiffMarkdown(report(diff))).toContain('\n- [[Portal Still Alive|Portal: Still Alive]]: ');
+    // Another game already had the name when the note was written
+    expect(renderDiffMarkdown(report(diff), new Map([[400, 'Portal Still Alive (400)']])))
+        .toContain('\n- [[Portal Still Alive (400)|Portal: Still Alive]]: ');
+
+    expect(renderDiffMarkdown(report(diffSnapshots(BEFORE, BEFORE)))).toContain('\nNothing changed between these scrapes.\n');
+});
+
+test('a single scrape is compared with the latest one of its account', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('raw_data');
+    const notesDir = testInfo.outputPath('notes');
+    fs.mkdirSync(dir, { recursive: true });
+    const write = (fileName: string, games: GameData[]) => {
+        fs.writeFileSync(path.join(dir, fileName), JSON.stringify({ complete: true, games }));
+        return path.join(dir, fileName);
+    };
+    const oldest = write('SteamScrape_plantdad_2025-06-01 0400.json', BEFORE);
+    write('SteamScrape_plantdad_2025-06-05 0400.json', BEFORE);
+    write('SteamScrape_plantdad_2025-06-08 0400.json', AFTER);
+    // Newer, but of another account
+    write('SteamScrape_sibling_2025-06-09 0400.json', []);
+    saveNoteManifest(notesDir, { games: { 620: { path: 'Portal 2 (620).md', name: 'Portal 2' } }, wishlist: {} });
+
+    const options = { notesDir, reportsDir: testInfo.outputPath('reports'), settingsPath: testInfo.outputPath('none.json'), quiet: true };
+    const diff = await runDiff({ fromFile: oldest, ...options });
+    expect(diff).toMatchObject({ from: { file: 'SteamScrape_plantdad_2025-06-01 0400.json' }, to: { file: 'SteamScrape_plantdad_2025-06-08 0400.json' } });
+    const [markdown] = fs.readdirSync(options.reportsDir).filter(f => f.endsWith('.md'));
+    expect(fs.readFileSync(path.join(options.reportsDir, markdown), 'utf-8')).toContain('| [[Portal 2 (620)|Portal 2]] | +2.5 h |');
+
+    // Nothing newer to compare the latest with, or no account to look for
+    expect(await runDiff({ fromFile: path.join(dir, 'SteamScrape_plantdad_2025-06-08 0400.json'), ...options })).toBeNull();
+    expect(await runDiff({ fromFile: write('renamed.json', BEFORE), ...options })).toBeNull();
+});
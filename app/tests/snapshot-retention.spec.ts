@@ -0,0 +1,60 @@
+/*
+    Steam Library Scraper - Snapshot Retention Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { planRetention, pruneSnapshots } from '../src/snapshot-retention';
+import { describeSnapshot, getTimestamp } from '../src/snapshots';
+
+const NOW = new Date(2025, 5, 30, 12, 0);
+
+// Scrapes at 04:00 and 20:00 every day from the start of the year
+const scrapeTimes = () => {
+    const times: Date[] = [];
+    for (let day = new Date(2025, 0, 1); day <= NOW; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+        times.push(new Date(day.getFullYear(), day.getMonth(), day.getDate(), 4), new Date(day.getFullYear(), day.getMonth(), day.getDate(), 20));
+    }
+    return times.filter(time => time <= NOW);
+};
+
+test('the last 30 days keep a scrape a day, the weeks before one a week', ({}, testInfo) => {
+    const dir = testInfo.outputPath();
+    fs.mkdirSync(dir, { recursive: true });
+    const write = (prefix: string, accountID: string, time: Date) => fs.writeFileSync(path.join(dir, `${prefix}_${accountID}_${getTimestamp(time)}.json`), '{}');
+    for (const time of scrapeTimes()) write('SteamScrape', 'plantdad', time);
+    write('SteamWishlist', 'plantdad', new Date(2025, 0, 1, 4));
+    write('SteamWishlist', 'plantdad', new Date(2025, 0, 1, 20));
+    write('SteamScrape', 'sibling', new Date(2025, 0, 1, 4));
+    fs.writeFileSync(path.join(dir, 'SteamScrape_renamed by hand.json'), '{}');
+
+    const removed = pruneSnapshots(dir, NOW);
+    const left = fs.readdirSync(dir).map(f => describeSnapshot(path.join(dir, f)));
+    const scrapes = left.filter(s => s.fileName.startsWith('SteamScrape_plantdad')).map(s => s.takenAt).sort((a, b) => b.getTime() - a.getTime());
+
+    // Today's evening scrape hasn't happened yet, so today keeps the morning one, the 30 days before the evening one
+    expect(scrapes.slice(0, 3)).toEqual([new Date(2025, 5, 30, 4), new Date(2025, 5, 29, 20), new Date(2025, 5, 28, 20)]);
+    expect(scrapes[30]).toEqual(new Date(2025, 4, 31, 20));
+    // Before that the latest of every week, Monday to Sunday, back to the week of 1 January
+    expect(scrapes.slice(31, 34)).toEqual([new Date(2025, 4, 31, 4), new Date(2025, 4, 25, 20), new Date(2025, 4, 18, 20)]);
+    expect(scrapes[scrapes.length - 1]).toEqual(new Date(2025, 0, 5, 20));
+    expect(scrapes).toHaveLength(31 + 22);
+
+    // Other kinds of files and other accounts have their own history, files without a date are kept
+    expect(left.filter(s => s.fileName.startsWith('SteamWishlist')).map(s => s.takenAt)).toEqual([new Date(2025, 0, 1, 20)]);
+    expect(left.some(s => s.fileName === 'SteamScrape_sibling_2025-01-01 0400.json')).toBe(true);
+    expect(left.some(s => s.fileName === 'SteamScrape_renamed by hand.json')).toBe(true);
+    expect(removed).toHaveLength(scrapeTimes().length + 4 - left.length);
+});
+
+test('nothing is pruned while every scrape is the only one of its day', () => {
+    const snapshots = [0, 1, 2].map(days => ({
+        path: `SteamScrape_plantdad_${days}.json`, fileName: `SteamScrape_plantdad_${days}.json`, accountID: 'plantdad',
+        takenAt: new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000),
+    }));
+    expect(planRetention(snapshots, NOW)).toEqual([]);
+    expect(planRetention(snapshots, NOW, 0).map(s => s.fileName)).toEqual(['SteamScrape_plantdad_2.json']);
+});
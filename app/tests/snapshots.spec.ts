@@ -0,0 +1,77 @@
+/*
+    Steam Library Scraper - Snapshot File Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameData } from '../src/game-data';
+import { loadSnapshotFile, migrateSnapshots, SNAPSHOT_SCHEMA_VERSION, TOOL_VERSION, writeSnapshot } from '../src/snapshots';
+
+const GAMES: GameData[] = [
+    { name: 'Portal 2', steamAppID: 620, playtime: 12.3, lastPlayed: 1700000000, myAchievements: 10, totalAchievements: 51 },
+    { name: 'Half-Life 2', steamAppID: 220, playtime: false, lastPlayed: false, myAchievements: 0, totalAchievements: 33 },
+];
+
+test('snapshots are written in an envelope with the details of the scrape', ({}, testInfo) => {
+    const filePath = writeSnapshot('plantdad', GAMES, testInfo.outputPath(), {
+        complete: false,
+        expectedCount: 3,
+        scrapedCount: 2,
+        source: 'dom',
+        startedAt: '2025-05-01T10:00:00.000Z',
+        finishedAt: '2025-05-01T10:02:30.000Z',
+        locale: 'en',
+        warnings: ['Steam says this account has 3 games, but only 2 could be loaded.'],
+    });
+
+    const json = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    expect(Object.keys(json)).toEqual([
+        'schemaVersion', 'toolVersion', 'accountID', 'source', 'startedAt', 'finishedAt', 'locale',
+        'complete', 'expectedCount', 'scrapedCount', 'warnings', 'games',
+    ]);
+    expect(json).toMatchObject({ schemaVersion: SNAPSHOT_SCHEMA_VERSION, toolVersion: TOOL_VERSION, accountID: 'plantdad', source: 'dom', locale: 'en' });
+    expect(loadSnapshotFile(filePath)).toEqual(json);
+
+    // Without details the times are now and the rest stays empty
+    const plain = loadSnapshotFile(writeSnapshot('plantdad', GAMES, testInfo.outputPath('plain')));
+    expect(plain).toMatchObject({ source: null, locale: null, complete: null, expectedCount: null, scrapedCount: 2, warnings: [] });
+    expect(plain.startedAt).toBe(plain.finishedAt);
+});
+
+test('older snapshots are read as they are and can be migrated', ({}, testInfo) => {
+    const dir = testInfo.outputPath();
+    fs.mkdirSync(dir, { recursive: true });
+    const bare = path.join(dir, 'SteamScrape_plantdad_2024-01-31 2015.json');
+    const completeness = path.join(dir, 'SteamScrape_plantdad_2025-02-01 0930.json');
+    fs.writeFileSync(bare, JSON.stringify(GAMES));
+    fs.writeFileSync(completeness, JSON.stringify({ complete: true, expectedCount: 2, scrapedCount: 2, games: GAMES }));
+    const current = writeSnapshot('plantdad', GAMES, dir, { source: 'api' });
+
+    expect(loadSnapshotFile(bare)).toEqual({
+        schemaVersion: 0,
+        toolVersion: "",
+        accountID: 'plantdad',
+        source: null,
+        startedAt: new Date(2024, 0, 31, 20, 15).toISOString(),
+        finishedAt: new Date(2024, 0, 31, 20, 15).toISOString(),
+        locale: null,
+        complete: null,
+        expectedCount: null,
+        scrapedCount: 2,
+        warnings: [],
+        games: GAMES,
+    });
+    expect(loadSnapshotFile(completeness)).toMatchObject({ schemaVersion: 1, complete: true, expectedCount: 2 });
+
+    const modified = fs.statSync(bare).mtime;
+    expect(migrateSnapshots(dir).sort()).toEqual([bare, completeness]);
+    expect(migrateSnapshots(dir)).toEqual([]);
+
+    const migrated = JSON.parse(fs.readFileSync(bare, 'utf-8'));
+    expect(migrated).toMatchObject({ schemaVersion: SNAPSHOT_SCHEMA_VERSION, accountID: 'plantdad', games: GAMES });
+    expect(fs.statSync(bare).mtime).toEqual(modified);
+    expect(loadSnapshotFile(current).source).toBe('api');
+});
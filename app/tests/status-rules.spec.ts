@@ -0,0 +1,59 @@
+/*
+    Steam Library Scraper - Status Rules Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import { GameData } from '../src/game-data';
+import { createStatusClassifier, StatusRuleError } from '../src/status-rules';
+import { SteamStoreData } from '../src/steam-store';
+import { game } from './test-data';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+const daysAgo = (days: number) => Math.floor(NOW.getTime() / 1000) - days * 24 * 60 * 60;
+
+const RULES = {
+    statusRules: [
+        { status: 'completed', when: 'game.totalAchievements > 0 and completionRate == 100' },
+        { status: 'playing', when: 'daysSinceLastPlayed <= 30' },
+        { status: 'abandoned', when: 'daysSinceLastPlayed > 730 and playtime < 5' },
+        { status: 'unreleased', when: 'storeData and not isReleased' },
+    ],
+    defaultStatus: 'backlog',
+};
+
+test('the first matching rule decides', () => {
+    const classifier = createStatusClassifier(RULES);
+    const classify = (fields: Partial<GameData>) => classifier.classify(game(1, 'Test', false, fields), null, NOW);
+
+    expect(classify({ myAchievements: 10, totalAchievements: 10, lastPlayed: daysAgo(1) })).toBe('completed');
+    expect(classify({ playtime: 0.5, lastPlayed: daysAgo(3) })).toBe('playing');
+    expect(classify({ playtime: 2, lastPlayed: daysAgo(1000) })).toBe('abandoned');
+    expect(classify({ playtime: 50, lastPlayed: daysAgo(1000) })).toBe('backlog');
+    // Never played is not "played in the last 30 days"
+    expect(classify({})).toBe('backlog');
+
+    const comingSoon: Partial<SteamStoreData> = { release_date: { coming_soon: true, date: 'Coming soon' } };
+    expect(classifier.classify(game(1, 'Test', false), comingSoon as SteamStoreData, NOW)).toBe('unreleased');
+    expect(classifier.statuses).toEqual(['completed', 'playing', 'abandoned', 'unreleased', 'backlog']);
+});
+
+test('without rules games are playing after two hours', () => {
+    const classifier = createStatusClassifier(null);
+    expect(classifier.classify(game(1, 'Test', 2.5), null)).toBe('playing');
+    expect(classifier.classify(game(1, 'Test', false), null)).toBe('backlog');
+    expect(createStatusClassifier({ defaultStatus: 'unsorted' }).classify(game(1, 'Test', false), null)).toBe('unsorted');
+});
+
+test('broken rules name the rule and the problem', () => {
+    const broken = (when: unknown, status: unknown = 'playing') => () => createStatusClassifier({ statusRules: [{ status, when }] });
+
+    expect(broken('playtme > 2')).toThrow(StatusRuleError);
+    expect(broken('playtme > 2')).toThrow('Status rule 1 ("playing"): column 1: Unknown variable "playtme".');
+    expect(broken('playtime >')).toThrow(/column 11: Expected a value/);
+    expect(broken('')).toThrow(/empty/);
+    expect(broken(undefined)).toThrow(/needs a "when"/);
+    expect(broken('true', 'on hold')).toThrow(/needs a "status" without spaces/);
+    expect(() => createStatusClassifier({ statusRules: 'playing' })).toThrow(/must be a list/);
+});
@@ -0,0 +1,192 @@
+/*
+    Steam Library Scraper - Web API Source Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { createWebApiSource, SteamApiError } from '../src/steam-web-api';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'web-api');
+const API_KEY = 'TESTKEY';
+
+// Entries an answer should never have, between one that is fine
+const BROKEN_GAMES = [
+    { appid: '10', name: 'Counter-Strike' },
+    { name: 'No App ID', playtime_forever: 60 },
+    { appid: 70, name: 'Half-Life', playtime_forever: 90 },
+    { appid: 80, name: 'Condition Zero', playtime_forever: 'lots' },
+    null,
+];
+
+const fixture = (name: string) => fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf-8');
+
+let server: http.Server;
+let baseUrl: string;
+let requests: URL[] = [];
+
+// Serves the recorded Steam Web API responses, the same way the real API answers
+test.beforeAll(async () => {
+    server = http.createServer((req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        requests.push(url);
+
+        const send = (status: number, body: string) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(body);
+        };
+
+        if (url.searchParams.get('key') !== API_KEY) {
+            return send(403, '<html><body>Forbidden</body></html>');
+        }
+
+        switch (url.pathname) {
+            case '/ISteamUser/ResolveVanityURL/v1/':
+                if (url.searchParams.get('vanityurl') === 'gabelogannewell') return send(200, fixture('ResolveVanityURL'));
+                return send(200, JSON.stringify({ response: { success: 42, message: 'No match' } }));
+            case '/IPlayerService/GetOwnedGames/v1/':
+                if (url.searchParams.get('steamid') === '76561197960287930') return send(200, fixture('GetOwnedGames'));
+                if (url.searchParams.get('steamid') === '76561197960287932') return send(200, JSON.stringify({ response: { games: BROKEN_GAMES } }));
+                return send(200, JSON.stringify({ response: {} }));
+            case '/ISteamUserStats/GetPlayerAchievements/v1/': {
+                const appId = url.searchParams.get('appid');
+                const file = path.join(FIXTURES, `GetPlayerAchievements_${appId}.json`);
+                if (fs.existsSync(file)) return send(200, fs.readFileSync(file, 'utf-8'));
+                return send(400, fixture('GetPlayerAchievements_nostats'));
+            }
+            case '/ISteamUserStats/GetSchemaForGame/v2/': {
+                const file = path.join(FIXTURES, `GetSchemaForGame_${url.searchParams.get('appid')}.json`);
+                if (fs.existsSync(file)) return send(200, fs.readFileSync(file, 'utf-8'));
+                return send(200, '{"game":{}}');
+            }
+            default:
+                return send(404, '{}');
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+});
+
+test.beforeEach(() => {
+    requests = [];
+});
+
+test('resolves a custom URL and returns GameData for every owned game', async () => {
+    const source = createWebApiSource({ apiKey: API_KEY, baseUrl });
+    const games = await source.fetchGames('gabelogannewell');
+
+    expect(games).toEqual([
+        {
+            name: "Garry's Mod",
+            steamAppID: 4000,
+            playtime: 0.75,
+            playtimeMinutes: 45,
+            lastPlayed: 1700000000,
+            myAchievements: 0,
+            totalAchievements: 0,
+        },
+        {
+            name: 'Half-Life 2',
+            steamAppID: 220,
+            playtime: false,
+            playtimeMinutes: 0,
+            lastPlayed: false,
+            myAchievements: 0,
+            totalAchievements: 2,
+        },
+        {
+            name: 'The Binding of Isaac: Rebirth',
+            steamAppID: 250900,
+            playtime: 1003.9,
+            playtimeMinutes: 60234,
+            lastPlayed: 1689552000,
+            myAchievements: 2,
+            totalAchievements: 3,
+        },
+    ]);
+});
+
+test('skips the vanity lookup for SteamID64s and achievements for games without stats', async () => {
+    const source = createWebApiSource({ apiKey: API_KEY, baseUrl });
+    await source.fetchGames('76561197960287930');
+
+    const endpoints = requests.map(r => `${r.pathname}${r.searchParams.get('appid') || ''}`);
+    expect(endpoints).toEqual([
+        '/IPlayerService/GetOwnedGames/v1/',
+        '/ISteamUserStats/GetPlayerAchievements/v1/250900',
+        '/ISteamUserStats/GetPlayerAchievements/v1/220',
+    ]);
+});
+
+test('can skip achievements entirely', async () => {
+    const source = createWebApiSource({ apiKey: API_KEY, baseUrl, includeAchievements: false });
+    const games = await source.fetchGames('76561197960287930');
+
+    expect(requests).toHaveLength(1);
+    expect(games.every(g => g.totalAchievements === 0)).toBe(true);
+});
+
+test('reports unknown custom URLs, private profiles and bad keys', async () => {
+    await expect(createWebApiSource({ apiKey: API_KEY, baseUrl }).fetchGames('nobody'))
+        .rejects.toThrow(/custom URL "nobody"/);
+    await expect(createWebApiSource({ apiKey: API_KEY, baseUrl }).fetchGames('76561197960287931'))
+        .rejects.toThrow(/Game details/);
+    await expect(createWebApiSource({ apiKey: 'WRONG', baseUrl }).fetchGames('76561197960287930'))
+        .rejects.toThrow(/rejected the API key/);
+    await expect(createWebApiSource({ apiKey: 'WRONG', baseUrl }).fetchGames('gabelogannewell'))
+        .rejects.toBeInstanceOf(SteamApiError);
+});
+
+test('collects per-achievement details when asked', async () => {
+    const source = createWebApiSource({ apiKey: API_KEY, baseUrl, includeAchievementDetails: true });
+    const games = await source.fetchGames('76561197960287930');
+
+    const isaac = games.find(g => g.steamAppID === 250900);
+    expect(isaac?.achievements).toEqual([
+        {
+            apiName: '1',
+            displayName: 'Magdalene',
+            description: 'Unlocked a new character.',
+            iconUrl: 'https://steamcdn-a.akamaihd.net/steamcommunity/public/images/apps/250900/a1.jpg',
+            unlocked: true,
+            unlockTime: 1420070400,
+        },
+        {
+            apiName: '2',
+            displayName: 'Cain',
+            description: 'Unlocked a new character.',
+            iconUrl: 'https://steamcdn-a.akamaihd.net/steamcommunity/public/images/apps/250900/a2.jpg',
+            unlocked: true,
+            unlockTime: 1420156800,
+        },
+        {
+            apiName: '3',
+            displayName: 'Judas',
+            description: '',
+            iconUrl: 'https://steamcdn-a.akamaihd.net/steamcommunity/public/images/apps/250900/a3.jpg',
+            unlocked: false,
+            unlockTime: false,
+        },
+    ]);
+
+    // Half-Life 2 has no schema fixture, so it falls back to the API names
+    const halfLife = games.find(g => g.steamAppID === 220);
+    expect(halfLife?.achievements?.map(a => a.displayName)).toEqual(['HL2_HIT_CANCOP_WITHCAN', 'HL2_PUT_CANINTRASH']);
+    expect(games.find(g => g.steamAppID === 4000)?.achievements).toBeUndefined();
+});
+
+test('entries without what is read from them are left out', async () => {
+    const games = await createWebApiSource({ apiKey: API_KEY, baseUrl, includeAchievements: false }).fetchGames('76561197960287932');
+    expect(games).toEqual([
+        { name: 'Half-Life', steamAppID: 70, playtime: 1.5, playtimeMinutes: 90, lastPlayed: false, myAchievements: 0, totalAchievements: 0 },
+    ]);
+});
@@ -0,0 +1,112 @@
+/*
+    Steam Library Scraper - Template Engine Tests
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { test, expect } from '@playwright/test';
+import { compileExpression, compileTemplate, renderTemplate, TemplateError, validateTemplate } from '../src/template-engine';
+
+const context = {
+    game: { name: 'Portal 2', steamAppID: 620, lastPlayed: 1689552000, myAchievements: 0 },
+    storeData: {
+        developers: ['Valve'],
+        genres: [{ id: '1', description: 'Action' }, { id: '25', description: 'Adventure' }],
+        metacritic: { score: 95 },
+    },
+    playtime: 12.345,
+    achievements: [],
+};
+
+test.describe('output', () => {
+    test('properties, indexes and literals', () => {
+        expect(renderTemplate('{{ game.name }} ({{ game.steamAppID }})', context)).toBe('Portal 2 (620)');
+        expect(renderTemplate('{{ storeData.genres[1].description }}, {{ storeData.genres.length }}', context)).toBe('Adventure, 2');
+        expect(renderTemplate('{{ "text" }} {{ 42 }} {{ true }}', context)).toBe('text 42 true');
+        expect(renderTemplate('[{{ game.missing.deeper }}][{{ nothing }}]', context)).toBe('[][]');
+    });
+
+    test('filters', () => {
+        expect(renderTemplate('{{ playtime | round }} {{ playtime | round: 1 }}', context)).toBe('12 12.3');
+        expect(renderTemplate('{{ storeData.genres | map: "description" | join: " / " }}', context)).toBe('Action / Adventure');
+        expect(renderTemplate('{{ storeData.developers | wikilink | join }}', context)).toBe('[[Valve]]');
+        expect(renderTemplate('{{ storeData.publishers | default: "Unknown" }} {{ game.myAchievements | default: "none" }}', context)).toBe('Unknown 0');
+        expect(renderTemplate('{{ "Say \\"hi\\"" | quote }}', context)).toBe('"Say \\"hi\\""');
+        expect(renderTemplate('{{ 1.5 | duration }}', context)).toBe('90 minutes and 0 seconds');
+        expect(renderTemplate('{{ "playing" | capitalize }}', context)).toBe('Playing');
+
+        const lastPlayed = new Date(1689552000 * 1000);
+        const pad = (n: number) => String(n).padStart(2, '0');
+        expect(renderTemplate('{{ game.lastPlayed | date: "DD/MM/YYYY" }}', context))
+            .toBe(`${pad(lastPlayed.getDate())}/${pad(lastPlayed.getMonth() + 1)}/${lastPlayed.getFullYear()}`);
+        expect(renderTemplate('{{ false | date | default: "Never" }}', context)).toBe('Never');
+    });
+});
+
+test.describe('tags', () => {
+    test('conditions', () => {
+        const template = '{% if playtime > 20 %}a lot{% elif playtime > 2 and not achievements %}some{% else %}none{% endif %}';
+        expect(renderTemplate(template, context)).toBe('some');
+        expect(renderTemplate(template, { ...context, playtime: 0 })).toBe('none');
+        expect(renderTemplate('{% if game.name == "Portal 2" or false %}yes{% endif %}', context)).toBe('yes');
+        // Missing values are neither smaller nor bigger than anything
+        expect(renderTemplate('{% if nothing < 30 or nothing >= 30 %}yes{% else %}no{% endif %}', context)).toBe('no');
+        // Texts compare as text, so ISO dates sort the way they read
+        expect(renderTemplate('{% if "2025-06-10" > "2025-06-09" and "10" < "9" %}yes{% endif %}', context)).toBe('yes');
+    });
+
+    test('loops', () => {
+        const template = '{% for genre in storeData.genres %}{{ loop.index }}. {{ genre.description }}{% if not loop.last %}, {% endif %}{% endfor %}';
+        expect(renderTemplate(template, context)).toBe('1. Action, 2. Adventure');
+        expect(renderTemplate('{% for a in achievements %}{{ a }}{% else %}No achievements{% endfor %}', context)).toBe('No achievements');
+    });
+
+    test('tags alone on a line leave no empty lines behind', () => {
+        const template = 'genres:\n{% for genre in storeData.genres %}\n  - {{ genre.description }}\n{% endfor %}\n{# done #}\nend';
+        expect(renderTemplate(template, context)).toBe('genres:\n  - Action\n  - Adventure\nend');
+    });
+});
+
+test.describe('expressions', () => {
+    test('evaluate on their own', () => {
+        expect(compileExpression('storeData.genres.length').evaluate(context)).toBe(2);
+        expect(compileExpression('playtime > 10 and not achievements').test(context)).toBe(true);
+        expect(() => compileExpression('playtime > 2 %}')).toThrow(/column 14: Unexpected/);
+        expect(() => compileExpression('hours > 2', ['playtime'])).toThrow(/Unknown variable "hours"/);
+    });
+});
+
+test.describe('safety', () => {
+    test('only data is reachable', () => {
+        const sneaky = { ...context, run: () => 'ran', list: ['a'] };
+        expect(renderTemplate('[{{ run }}][{{ game.constructor }}][{{ list.map }}][{{ game.__proto__ }}][{{ game.toString }}]', sneaky))
+            .toBe('[][][][][]');
+        expect(renderTemplate('[{{ game["constructor"]["constructor"] }}]', sneaky)).toBe('[]');
+    });
+
+    test('function calls are not part of the language', () => {
+        expect(() => compileTemplate('{{ game.name.toUpperCase() }}')).toThrow(/can't call functions/);
+    });
+});
+
+test.describe('validation', () => {
+    test('reports the line and column of syntax errors', () => {
+        const errors = validateTemplate('---\ntitle: {{ game.name }\n---');
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toBeInstanceOf(TemplateError);
+        expect(errors[0]).toMatchObject({ line: 2, column: 8 });
+
+        expect(validateTemplate('a\n  {% if playtime %}\nb')[0]).toMatchObject({ line: 2, column: 3, message: expect.stringMatching(/never closed/) });
+        expect(validateTemplate('{% endfor %}')[0].message).toMatch(/without a matching "for"/);
+        expect(validateTemplate('{{ game.name | }}')[0].message).toMatch(/filter name/);
+    });
+
+    test('reports every unknown filter and variable', () => {
+        const errors = validateTemplate('{{ game.name | upper }}\n{% for g in genres %}{{ g | jion }}{{ loop.index }}{% endfor %}', ['game']);
+        expect(errors.map(e => [e.line, e.column])).toEqual([[1, 16], [2, 13], [2, 29]]);
+        expect(errors[0].message).toMatch(/Unknown filter "upper"/);
+        expect(errors[1].message).toBe('Line 2, column 13: Unknown variable "genres".');
+        expect(errors[2].message).toMatch(/Unknown filter "jion"/);
+        expect(validateTemplate('{{ playtime | round: 1, 2 }}')[0].message).toMatch(/takes 0 to 1 argument/);
+    });
+});
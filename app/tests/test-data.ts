@@ -0,0 +1,12 @@
+/*
+    Steam Library Scraper - Test Data
+    Copyright (C) 2025 Allard van der Willik - YourPlantDad
+    License: GPLv3
+*/
+
+import { GameData } from '../src/game-data';
+
+/** A scraped game, never played and without achievements unless the fields say otherwise. */
+export const game = (steamAppID: number, name: string, playtime: number | false, fields: Partial<GameData> = {}): GameData => ({
+    name, steamAppID, playtime, lastPlayed: false, myAchievements: 0, totalAchievements: 0, ...fields,
+});